@@ -11,9 +11,18 @@ import TopologyPage from "@/pages/topology";
 import ConfigurationsPage from "@/pages/configurations";
 import TemplatesPage from "@/pages/templates";
 import HistoryPage from "@/pages/history";
+import ConfigDiffPage from "@/pages/config-diff";
+import DeploymentsPage from "@/pages/deployments";
+import UsersPage from "@/pages/users";
+import ChangesPage from "@/pages/changes";
+import AuditPage from "@/pages/audit";
+import AuthPage from "@/pages/auth";
 import NotFound from "@/pages/not-found";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { WorkspaceProvider, useWorkspace } from "@/hooks/use-workspace";
 
 function Router() {
+  const { can } = useAuth();
   return (
     <Switch>
       <Route path="/" component={TopologyPage} />
@@ -21,35 +30,70 @@ function Router() {
       <Route path="/configurations" component={ConfigurationsPage} />
       <Route path="/templates" component={TemplatesPage} />
       <Route path="/history" component={HistoryPage} />
+      <Route path="/diff" component={ConfigDiffPage} />
+      <Route path="/deployments" component={DeploymentsPage} />
+      <Route path="/changes" component={ChangesPage} />
+      {can("admin") && <Route path="/users" component={UsersPage} />}
+      {can("admin") && <Route path="/audit" component={AuditPage} />}
       <Route component={NotFound} />
     </Switch>
   );
 }
 
-function App() {
+// The pages of the current workspace; keyed so that switching remounts them
+// (each workspace has its own topology canvas) rather than carrying state over
+function WorkspacePages() {
+  const { workspaceId } = useWorkspace();
+  return (
+    <main key={workspaceId} className="flex-1 overflow-auto">
+      <Router />
+    </main>
+  );
+}
+
+// The app once signed in, the login page before
+function Shell() {
+  const { user, isLoading } = useAuth();
   const style = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
   };
 
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+  if (!user) return <AuthPage />;
+
+  return (
+    <WorkspaceProvider>
+      <SidebarProvider style={style as React.CSSProperties}>
+        <div className="flex h-screen w-full">
+          <AppSidebar />
+          <div className="flex flex-col flex-1 overflow-hidden">
+            <header className="flex items-center justify-between p-4 border-b border-border bg-background">
+              <SidebarTrigger data-testid="button-sidebar-toggle" />
+              <ThemeToggle />
+            </header>
+            <WorkspacePages />
+          </div>
+        </div>
+      </SidebarProvider>
+    </WorkspaceProvider>
+  );
+}
+
+function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <ThemeProvider defaultTheme="dark">
-          <SidebarProvider style={style as React.CSSProperties}>
-            <div className="flex h-screen w-full">
-              <AppSidebar />
-              <div className="flex flex-col flex-1 overflow-hidden">
-                <header className="flex items-center justify-between p-4 border-b border-border bg-background">
-                  <SidebarTrigger data-testid="button-sidebar-toggle" />
-                  <ThemeToggle />
-                </header>
-                <main className="flex-1 overflow-auto">
-                  <Router />
-                </main>
-              </div>
-            </div>
-          </SidebarProvider>
+          <AuthProvider>
+            <Shell />
+          </AuthProvider>
           <Toaster />
         </ThemeProvider>
       </TooltipProvider>
@@ -1,4 +1,5 @@
-import { Network, FileCode, Folder, History } from "lucide-react";
+import { useState } from "react";
+import { Network, FileCode, Folder, History, Rocket, GitPullRequest, Users, ScrollText, LogOut, Settings2 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
   Sidebar,
@@ -10,7 +11,13 @@ import {
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarHeader,
+  SidebarFooter,
 } from "@/components/ui/sidebar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { WorkspacesDialog } from "@/components/workspaces-dialog";
 
 const navigationItems = [
   {
@@ -25,6 +32,18 @@ const navigationItems = [
     icon: FileCode,
     testId: "link-configurations",
   },
+  {
+    title: "Deployments",
+    url: "/deployments",
+    icon: Rocket,
+    testId: "link-deployments",
+  },
+  {
+    title: "Changes",
+    url: "/changes",
+    icon: GitPullRequest,
+    testId: "link-changes",
+  },
   {
     title: "Templates",
     url: "/templates",
@@ -39,8 +58,27 @@ const navigationItems = [
   },
 ];
 
+const adminItems = [
+  {
+    title: "Users",
+    url: "/users",
+    icon: Users,
+    testId: "link-users",
+  },
+  {
+    title: "Audit Log",
+    url: "/audit",
+    icon: ScrollText,
+    testId: "link-audit",
+  },
+];
+
 export function AppSidebar() {
   const [location] = useLocation();
+  const { user, can, logoutMutation } = useAuth();
+  const { workspaces, workspaceId, selectWorkspace } = useWorkspace();
+  const [workspacesOpen, setWorkspacesOpen] = useState(false);
+  const items = can("admin") ? [...navigationItems, ...adminItems] : navigationItems;
 
   return (
     <Sidebar>
@@ -54,6 +92,24 @@ export function AppSidebar() {
             <p className="text-xs text-muted-foreground">Network Configuration</p>
           </div>
         </div>
+        <div className="flex items-center gap-1 mt-3">
+          <select
+            className="flex-1 min-w-0 h-9 rounded-md border border-border bg-background px-3 text-sm"
+            value={workspaceId}
+            onChange={(e) => selectWorkspace(e.target.value)}
+            aria-label="Workspace"
+            data-testid="select-workspace"
+          >
+            {workspaces.map((workspace) => (
+              <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+            ))}
+          </select>
+          {can("admin") && (
+            <Button variant="ghost" size="icon" onClick={() => setWorkspacesOpen(true)} data-testid="button-manage-workspaces">
+              <Settings2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
       </SidebarHeader>
       <SidebarContent>
         <SidebarGroup>
@@ -62,7 +118,7 @@ export function AppSidebar() {
           </SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {navigationItems.map((item) => (
+              {items.map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton
                     asChild
@@ -80,6 +136,24 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
       </SidebarContent>
+      {user && (
+        <SidebarFooter className="p-4 border-t border-sidebar-border">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium truncate" data-testid="text-current-user">{user.username}</span>
+            <Badge variant="outline" className="text-xs capitalize">{user.role}</Badge>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="ml-auto"
+              onClick={() => logoutMutation.mutate()}
+              data-testid="button-logout"
+            >
+              <LogOut className="h-4 w-4" />
+            </Button>
+          </div>
+        </SidebarFooter>
+      )}
+      <WorkspacesDialog open={workspacesOpen} onOpenChange={setWorkspacesOpen} />
     </Sidebar>
   );
 }
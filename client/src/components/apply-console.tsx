@@ -0,0 +1,44 @@
+import { useEffect, useRef } from "react";
+import { Badge } from "@/components/ui/badge";
+import { applyPhaseSchema, type ApplyPhase } from "@shared/schema";
+
+interface ApplyConsoleProps {
+  lines: string[];
+  phases: ApplyPhase[];
+  running: boolean;
+}
+
+// Live output of an apply job: the phases reached so far and every log line
+export function ApplyConsole({ lines, phases, running }: ApplyConsoleProps) {
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "nearest" });
+  }, [lines.length]);
+
+  const current = phases[phases.length - 1];
+
+  return (
+    <div className="rounded-md border border-border" data-testid="apply-console">
+      <div className="flex items-center gap-1 flex-wrap p-2 border-b border-border">
+        {applyPhaseSchema.options.filter((p) => phases.includes(p)).map((phase) => (
+          <Badge
+            key={phase}
+            variant={phase === current && running ? "default" : "outline"}
+            className="text-xs"
+            data-testid={`apply-phase-${phase}`}
+          >
+            {phase}
+          </Badge>
+        ))}
+        {running && <span className="text-xs text-muted-foreground ml-auto">running…</span>}
+      </div>
+      <pre className="h-[180px] overflow-auto p-2 text-xs font-mono leading-relaxed bg-muted/50">
+        {lines.map((line, index) => (
+          <div key={index} className="whitespace-pre-wrap break-all">{line}</div>
+        ))}
+        <div ref={bottomRef} />
+      </pre>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Terminal, Clock } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useQuery } from "@tanstack/react-query";
+import { workspaceUrl } from "@/lib/queryClient";
 
 interface CommandSuggestion {
   command: string;
@@ -30,7 +31,7 @@ export function CommandAutocomplete({ onSelectCommand }: CommandAutocompleteProp
   const { data: suggestions = [] } = useQuery<CommandSuggestion[]>({
     queryKey: ["/api/commands/suggest", input],
     queryFn: async () => {
-      const response = await fetch(`/api/commands/suggest?q=${encodeURIComponent(input)}`);
+      const response = await fetch(workspaceUrl(`/api/commands/suggest?q=${encodeURIComponent(input)}`));
       if (!response.ok) throw new Error('Failed to fetch suggestions');
       return response.json();
     },
@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { 
   AlertCircle, 
   CheckCircle2, 
@@ -11,12 +13,16 @@ import {
   Copy, 
   Download, 
   Save,
-  Code2
+  Code2,
+  Upload
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { commandsToConfigBoot, configBootToCommands, detectConfigFormat, type ConfigFormat } from "@shared/config-boot";
 
 interface ValidationError {
   line: number;
+  column?: number;
+  code?: string;
   message: string;
   severity: 'error' | 'warning' | 'info';
 }
@@ -38,18 +44,79 @@ export function ConfigEditor({
 }: ConfigEditorProps) {
   const [config, setConfig] = useState(initialConfig);
   const [activeTab, setActiveTab] = useState("editor");
+  // The editor always holds set commands; the config.boot view is derived
+  const [view, setView] = useState<ConfigFormat>("set");
+  const [bootText, setBootText] = useState("");
+  const [bootError, setBootError] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [importText, setImportText] = useState("");
   const { toast } = useToast();
 
   useEffect(() => {
     setConfig(initialConfig);
+    if (view === "boot") {
+      setBootText(commandsToConfigBoot(initialConfig));
+      setBootError(null);
+    }
   }, [initialConfig]);
 
+  const updateConfig = (next: string) => {
+    setConfig(next);
+    if (onChange) onChange(next);
+  };
+
+  const handleViewChange = (next: string) => {
+    if (next !== "set" && next !== "boot") return;
+    if (next === "boot") {
+      setBootText(commandsToConfigBoot(config));
+      setBootError(null);
+    }
+    setView(next);
+  };
+
+  const handleBootEdit = (next: string) => {
+    setBootText(next);
+    try {
+      updateConfig(configBootToCommands(next));
+      setBootError(null);
+    } catch (error: any) {
+      setBootError(error.message);
+    }
+  };
+
+  const importFormat = detectConfigFormat(importText);
+
+  const handleImport = () => {
+    try {
+      const commands = importFormat === "boot" ? configBootToCommands(importText) : importText.trim();
+      updateConfig(commands);
+      if (view === "boot") {
+        setBootText(commandsToConfigBoot(commands));
+        setBootError(null);
+      }
+      setImportOpen(false);
+      setImportText("");
+      toast({
+        title: "Configuration Imported",
+        description: `${commands.split('\n').filter(l => l.trim()).length} commands loaded from ${importFormat === "boot" ? "config.boot" : "set"} format`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Import Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const displayed = view === "boot" ? bootText : config;
+
   const errorCount = validation.filter(v => v.severity === 'error').length;
   const warningCount = validation.filter(v => v.severity === 'warning').length;
   const isValid = errorCount === 0;
 
   const handleCopy = () => {
-    navigator.clipboard.writeText(config);
+    navigator.clipboard.writeText(displayed);
     toast({
       title: "Copied to clipboard",
       description: "Configuration copied successfully",
@@ -57,11 +124,11 @@ export function ConfigEditor({
   };
 
   const handleDownload = () => {
-    const blob = new Blob([config], { type: 'text/plain' });
+    const blob = new Blob([displayed], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'vyos-config.txt';
+    a.download = view === "boot" ? 'config.boot' : 'vyos-config.txt';
     a.click();
     URL.revokeObjectURL(url);
   };
@@ -106,6 +173,16 @@ export function ConfigEditor({
                 )}
               </div>
             )}
+            {!readOnly && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setImportOpen(true)}
+                data-testid="button-import-config"
+              >
+                <Upload className="h-4 w-4" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -138,23 +215,32 @@ export function ConfigEditor({
       </div>
       
       <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col">
-        <div className="px-4 pt-2">
+        <div className="px-4 pt-2 flex items-center justify-between gap-2">
           <TabsList className="grid w-full max-w-md grid-cols-2">
             <TabsTrigger value="editor" data-testid="tab-editor">Editor</TabsTrigger>
             <TabsTrigger value="validation" data-testid="tab-validation">
               Validation {validation.length > 0 && `(${validation.length})`}
             </TabsTrigger>
           </TabsList>
+          {activeTab === "editor" && (
+            <ToggleGroup type="single" size="sm" value={view} onValueChange={handleViewChange} data-testid="toggle-config-view">
+              <ToggleGroupItem value="set" className="text-xs" data-testid="toggle-view-set">set</ToggleGroupItem>
+              <ToggleGroupItem value="boot" className="text-xs" data-testid="toggle-view-boot">config.boot</ToggleGroupItem>
+            </ToggleGroup>
+          )}
         </div>
 
         <TabsContent value="editor" className="flex-1 p-4 pt-2 mt-0">
+          {view === "boot" && bootError && (
+            <p className="mb-2 text-xs text-destructive" data-testid="text-boot-error">{bootError}</p>
+          )}
           <ScrollArea className="h-full rounded-md border border-border">
             <textarea
-              value={config}
+              value={displayed}
               onChange={(e) => {
                 const next = e.target.value;
-                setConfig(next);
-                if (onChange) onChange(next);
+                if (view === "boot") handleBootEdit(next);
+                else updateConfig(next);
               }}
               className="w-full h-full min-h-[400px] p-4 bg-transparent font-mono text-sm leading-relaxed focus:outline-none resize-none"
               placeholder="Enter VyOS configuration here..."
@@ -187,11 +273,16 @@ export function ConfigEditor({
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-1">
                           <Badge variant="outline" className="text-xs">
-                            Line {item.line}
+                            {item.line > 0 ? `Line ${item.line}${item.column ? `:${item.column}` : ''}` : 'Router'}
                           </Badge>
                           <Badge variant="outline" className="text-xs capitalize">
                             {item.severity}
                           </Badge>
+                          {item.code && (
+                            <Badge variant="outline" className="text-xs font-mono">
+                              {item.code}
+                            </Badge>
+                          )}
                         </div>
                         <p className="text-sm">{item.message}</p>
                       </div>
@@ -203,6 +294,38 @@ export function ConfigEditor({
           </ScrollArea>
         </TabsContent>
       </Tabs>
+
+      <Dialog open={importOpen} onOpenChange={setImportOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import Configuration</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Paste <code>set</code> commands or the output of <code>show configuration</code> (config.boot format).
+            </p>
+            <textarea
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              className="w-full min-h-[300px] p-3 rounded-md border border-border bg-transparent font-mono text-sm focus:outline-none resize-none"
+              placeholder={"interfaces {\n    ethernet eth0 {\n        address 192.168.1.1/24\n    }\n}"}
+              spellCheck={false}
+              data-testid="textarea-import-config"
+            />
+            {importText.trim() && (
+              <Badge variant="outline" className="text-xs" data-testid="badge-import-format">
+                Detected: {importFormat === "boot" ? "config.boot" : "set commands"}
+              </Badge>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImportOpen(false)}>Cancel</Button>
+            <Button onClick={handleImport} disabled={!importText.trim()} data-testid="button-confirm-import">
+              Import
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
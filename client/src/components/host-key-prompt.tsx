@@ -0,0 +1,82 @@
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ShieldAlert } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { routerNodeProperties, type TopologyNode } from "@shared/schema";
+
+interface HostKeyPromptProps {
+  node: TopologyNode;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Shown when a router presented a different SSH host key than the pinned
+// one; connections stay refused until the new key is approved here
+export function HostKeyPrompt({ node, open, onOpenChange }: HostKeyPromptProps) {
+  const ssh = routerNodeProperties(node).ssh ?? {};
+  const pending = ssh.pendingHostKey;
+  const { toast } = useToast();
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<TopologyNode>("POST", `/api/topology/nodes/${node.id}/host-key/approve`, {
+        fingerprint: pending?.fingerprint,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/topology/nodes"] });
+      toast({ title: "Host key approved", description: `${node.label} will be trusted with the new key` });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Approval failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-destructive" />
+            Host key changed · {node.label}
+          </DialogTitle>
+          <DialogDescription>
+            {ssh.host} presented a different SSH host key than the one pinned for it. This is expected after the
+            router was reinstalled or its keys regenerated; otherwise someone may be intercepting the connection.
+          </DialogDescription>
+        </DialogHeader>
+        {pending ? (
+          <div className="space-y-3 text-sm">
+            <div>
+              <p className="text-xs text-muted-foreground">Pinned</p>
+              <p className="font-mono text-xs break-all" data-testid="text-pinned-host-key">{ssh.hostKey?.fingerprint}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">
+                Offered {formatDistanceToNow(new Date(pending.seenAt), { addSuffix: true })}
+              </p>
+              <p className="font-mono text-xs break-all text-destructive" data-testid="text-pending-host-key">{pending.fingerprint}</p>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No host key is waiting for approval.</p>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Keep refusing</Button>
+          <Button
+            variant="destructive"
+            onClick={() => approveMutation.mutate()}
+            disabled={!pending || approveMutation.isPending}
+            data-testid="button-approve-host-key"
+          >
+            {approveMutation.isPending ? "Approving..." : "Trust new key"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
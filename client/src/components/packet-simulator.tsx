@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRight, Route } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PacketSimulationRequest, PacketSimulationResult } from "@shared/schema";
+
+interface PacketSimulatorProps {
+  configuration: string;
+}
+
+const verdictVariant: Record<PacketSimulationResult['verdict'], "default" | "destructive" | "secondary"> = {
+  accept: "default",
+  drop: "destructive",
+  reject: "destructive",
+};
+
+function endpoint(address: string, port?: number) {
+  return port !== undefined ? `${address}:${port}` : address;
+}
+
+export function PacketSimulator({ configuration }: PacketSimulatorProps) {
+  const [protocol, setProtocol] = useState("tcp");
+  const [sourceAddress, setSourceAddress] = useState("");
+  const [sourcePort, setSourcePort] = useState("");
+  const [destinationAddress, setDestinationAddress] = useState("");
+  const [destinationPort, setDestinationPort] = useState("");
+  const [inboundInterface, setInboundInterface] = useState("eth0");
+  const [state, setState] = useState<PacketSimulationRequest['packet']['state']>("new");
+  const [result, setResult] = useState<PacketSimulationResult | null>(null);
+  const { toast } = useToast();
+
+  const hasPorts = protocol === "tcp" || protocol === "udp";
+
+  const simulateMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<PacketSimulationResult>("POST", "/api/firewall/simulate", {
+        configuration,
+        packet: {
+          protocol,
+          sourceAddress,
+          sourcePort: hasPorts && sourcePort ? Number(sourcePort) : undefined,
+          destinationAddress,
+          destinationPort: hasPorts && destinationPort ? Number(destinationPort) : undefined,
+          inboundInterface,
+          state,
+        },
+      });
+    },
+    onSuccess: (data) => setResult(data),
+    onError: (error: Error) => {
+      toast({
+        title: "Simulation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          className="h-9 rounded-md border border-border bg-background px-3 text-sm"
+          value={protocol}
+          onChange={(e) => setProtocol(e.target.value)}
+          data-testid="select-sim-protocol"
+        >
+          <option value="tcp">TCP</option>
+          <option value="udp">UDP</option>
+          <option value="icmp">ICMP</option>
+        </select>
+        <select
+          className="h-9 rounded-md border border-border bg-background px-3 text-sm"
+          value={state}
+          onChange={(e) => setState(e.target.value as typeof state)}
+          data-testid="select-sim-state"
+        >
+          <option value="new">new</option>
+          <option value="established">established</option>
+          <option value="related">related</option>
+          <option value="invalid">invalid</option>
+        </select>
+        <Input
+          value={sourceAddress}
+          onChange={(e) => setSourceAddress(e.target.value)}
+          placeholder="Source IP"
+          className="font-mono text-sm"
+          data-testid="input-sim-source"
+        />
+        <Input
+          value={sourcePort}
+          onChange={(e) => setSourcePort(e.target.value)}
+          placeholder="Source port"
+          className="font-mono text-sm"
+          disabled={!hasPorts}
+          data-testid="input-sim-source-port"
+        />
+        <Input
+          value={destinationAddress}
+          onChange={(e) => setDestinationAddress(e.target.value)}
+          placeholder="Destination IP"
+          className="font-mono text-sm"
+          data-testid="input-sim-destination"
+        />
+        <Input
+          value={destinationPort}
+          onChange={(e) => setDestinationPort(e.target.value)}
+          placeholder="Destination port"
+          className="font-mono text-sm"
+          disabled={!hasPorts}
+          data-testid="input-sim-destination-port"
+        />
+        <Input
+          value={inboundInterface}
+          onChange={(e) => setInboundInterface(e.target.value)}
+          placeholder="Inbound interface"
+          className="font-mono text-sm col-span-2"
+          data-testid="input-sim-interface"
+        />
+      </div>
+      <Button
+        size="sm"
+        className="w-full"
+        onClick={() => simulateMutation.mutate()}
+        disabled={!configuration.trim() || !sourceAddress || !destinationAddress || simulateMutation.isPending}
+        data-testid="button-simulate"
+      >
+        <Route className="h-4 w-4 mr-2" />
+        {simulateMutation.isPending ? "Simulating..." : "Simulate Packet"}
+      </Button>
+
+      {result && (
+        <div className="space-y-2" data-testid="simulation-result">
+          <div className="flex items-center gap-2 flex-wrap">
+            <Badge variant={verdictVariant[result.verdict]} className="uppercase" data-testid="badge-verdict">
+              {result.verdict}
+            </Badge>
+            <Badge variant="outline" className="text-xs">{result.path}</Badge>
+            {result.outboundInterface && (
+              <Badge variant="outline" className="text-xs font-mono">out {result.outboundInterface}</Badge>
+            )}
+            {result.indeterminate && (
+              <Badge variant="secondary" className="text-xs">indeterminate</Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-1 text-xs font-mono text-muted-foreground" data-testid="text-translated">
+            <span>{endpoint(result.translated.sourceAddress, result.translated.sourcePort)}</span>
+            <ArrowRight className="h-3 w-3" />
+            <span>{endpoint(result.translated.destinationAddress, result.translated.destinationPort)}</span>
+          </div>
+          <div className="space-y-1">
+            {result.steps.map((step, index) => (
+              <div key={index} className="p-2 rounded-md bg-muted/50 text-xs" data-testid={`simulation-step-${index}`}>
+                <div className="flex items-center gap-2 mb-1">
+                  <Badge variant="outline" className="text-xs">{step.stage}</Badge>
+                  {step.line !== undefined && (
+                    <span className="font-mono text-muted-foreground">Line {step.line}</span>
+                  )}
+                </div>
+                <p className={step.indeterminate ? "text-muted-foreground italic" : ""}>{step.message}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { GitCommit, GitCompare, RotateCcw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { Configuration, ConfigurationRevision } from "@shared/schema";
+
+interface RevisionTimelineProps {
+  configurationId: string;
+  // Called with the configuration after a revert, to load it into the editor
+  onReverted: (configuration: Configuration) => void;
+}
+
+export function RevisionTimeline({ configurationId, onReverted }: RevisionTimelineProps) {
+  const [, navigate] = useLocation();
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const revisionsKey = [`/api/configurations/${configurationId}/revisions`];
+
+  const { data: revisions = [], isLoading } = useQuery<ConfigurationRevision[]>({ queryKey: revisionsKey });
+
+  const revertMutation = useMutation({
+    mutationFn: async (revision: number) =>
+      apiRequest<Configuration>("POST", `/api/configurations/${configurationId}/revisions/${revision}/revert`, {}),
+    onSuccess: (configuration) => {
+      queryClient.invalidateQueries({ queryKey: revisionsKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/configurations"] });
+      onReverted(configuration);
+      toast({ title: "Configuration reverted", description: configuration.name });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Revert failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Opens the revision against the one before it on the Compare page
+  const compare = (revision: number) => {
+    navigate(`/diff?left=revision:${configurationId}:${revision - 1}&right=revision:${configurationId}:${revision}`);
+  };
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading revisions...</p>;
+  }
+  if (revisions.length === 0) {
+    return <p className="text-xs text-muted-foreground">No revisions yet; the next save records one.</p>;
+  }
+
+  const latest = revisions[0].revision;
+  return (
+    <ScrollArea className="max-h-[320px]">
+      <ol className="relative border-l border-border ml-2 space-y-3" data-testid="revision-timeline">
+        {revisions.map((revision) => (
+          <li key={revision.id} className="ml-4" data-testid={`revision-${revision.revision}`}>
+            <GitCommit className="absolute -left-2 h-4 w-4 bg-background text-muted-foreground" />
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="text-xs font-mono">r{revision.revision}</Badge>
+              {revision.revision === latest && <Badge variant="secondary" className="text-xs">current</Badge>}
+              <span className="text-sm truncate">{revision.message}</span>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {revision.author} · {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+              {revision.revertedFrom !== null && ` · restores r${revision.revertedFrom}`}
+            </p>
+            <div className="flex gap-1 mt-1">
+              {revision.revision > 1 && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => compare(revision.revision)}>
+                  <GitCompare className="h-3 w-3 mr-1" />
+                  Changes
+                </Button>
+              )}
+              {revision.revision !== latest && can("operator") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => revertMutation.mutate(revision.revision)}
+                  disabled={revertMutation.isPending}
+                  data-testid={`button-revert-${revision.revision}`}
+                >
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Revert to this
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Archive, Clock, RotateCcw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { routerNodeProperties, type RouterApplyResponse, type RouterSnapshot, type TopologyNode } from "@shared/schema";
+
+interface RouterSnapshotsDialogProps {
+  node: TopologyNode;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RouterSnapshotsDialog({ node, open, onOpenChange }: RouterSnapshotsDialogProps) {
+  const props = routerNodeProperties(node);
+  const ssh = props.ssh ?? {};
+  // HTTP API routers are restored with the API key stored on the node
+  const overHttp = props.transport === 'http';
+  // and SSH routers with a stored credential log in with it
+  const askLogin = !overHttp && !ssh.credentialId;
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [username, setUsername] = useState(ssh.username || "");
+  const [password, setPassword] = useState("");
+  const [dryRun, setDryRun] = useState(true);
+  const [result, setResult] = useState<RouterApplyResponse | null>(null);
+  const { toast } = useToast();
+
+  const { data: snapshots = [], isLoading } = useQuery<RouterSnapshot[]>({
+    queryKey: [`/api/routers/snapshots?nodeId=${encodeURIComponent(node.id)}`],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setSelectedId(null);
+      setResult(null);
+      setUsername(ssh.username || "");
+    }
+  }, [open, node.id]);
+
+  const selected = snapshots.find((s) => s.id === selectedId);
+
+  const restoreMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<RouterApplyResponse>("POST", `/api/routers/snapshots/${selectedId}/restore`, {
+        port: ssh.port || 22,
+        ...(askLogin ? { username, password: password || undefined } : {}),
+        dryRun,
+      });
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      queryClient.invalidateQueries({ queryKey: [`/api/routers/snapshots?nodeId=${encodeURIComponent(node.id)}`] });
+      toast({
+        title: data.dryRun ? "Restore preview ready" : data.applied ? "Snapshot restored" : "Nothing to restore",
+        description: data.delta ? `${data.delta.delete.length} delete, ${data.delta.set.length} set` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Restore failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Snapshots · {node.label}</DialogTitle>
+        </DialogHeader>
+        <div className="grid grid-cols-5 gap-4">
+          <ScrollArea className="col-span-2 h-[360px] rounded-md border border-border">
+            {isLoading ? (
+              <p className="p-4 text-sm text-muted-foreground">Loading snapshots...</p>
+            ) : snapshots.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-[340px] text-center p-4">
+                <Archive className="h-10 w-10 text-muted-foreground mb-3 opacity-30" />
+                <p className="text-sm text-muted-foreground">No snapshots yet. One is taken before every apply to this router.</p>
+              </div>
+            ) : (
+              <div className="p-1 space-y-1" data-testid="snapshot-list">
+                {snapshots.map((snapshot) => (
+                  <button
+                    key={snapshot.id}
+                    onClick={() => {
+                      setSelectedId(snapshot.id);
+                      setResult(null);
+                    }}
+                    className={`w-full text-left p-3 rounded-md hover-elevate ${snapshot.id === selectedId ? "bg-muted" : ""}`}
+                    data-testid={`snapshot-${snapshot.id}`}
+                  >
+                    <div className="flex items-center gap-2 text-xs">
+                      <Clock className="h-3 w-3 text-muted-foreground" />
+                      <span>{formatDistanceToNow(new Date(snapshot.createdAt), { addSuffix: true })}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1 font-mono">
+                      {snapshot.host} · {snapshot.content.split("\n").filter((l) => l.trim()).length} lines
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+
+          <div className="col-span-3 space-y-3">
+            {!selected ? (
+              <p className="text-sm text-muted-foreground">Select a snapshot to inspect or restore it.</p>
+            ) : (
+              <>
+                <ScrollArea className="h-[160px] rounded-md border border-border bg-muted/50">
+                  <pre className="p-3 text-xs font-mono leading-relaxed">{selected.content}</pre>
+                </ScrollArea>
+                {askLogin && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Username</Label>
+                      <Input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="vyos" />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Password</Label>
+                      <Input type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+                    </div>
+                  </div>
+                )}
+                <label className="flex items-center gap-2 text-xs">
+                  <input type="checkbox" className="h-4 w-4" checked={dryRun} onChange={(e) => setDryRun(e.target.checked)} />
+                  Dry run (show the changes without committing)
+                </label>
+                <Button
+                  size="sm"
+                  onClick={() => restoreMutation.mutate()}
+                  disabled={(askLogin && !username) || restoreMutation.isPending}
+                  data-testid="button-restore-snapshot"
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  {restoreMutation.isPending ? "Restoring..." : dryRun ? "Preview Restore" : "Restore Snapshot"}
+                </Button>
+                {result?.delta && (
+                  <div className="rounded-md border border-border p-2" data-testid="restore-delta">
+                    <div className="flex gap-2 mb-1">
+                      <Badge variant="outline" className="text-xs">{result.delta.delete.length} delete</Badge>
+                      <Badge variant="outline" className="text-xs">{result.delta.set.length} set</Badge>
+                    </div>
+                    <pre className="max-h-[120px] overflow-auto text-xs font-mono">
+                      {result.delta.delete.map((line) => (
+                        <div key={line} className="text-destructive">{line}</div>
+                      ))}
+                      {result.delta.set.map((line) => (
+                        <div key={line} className="text-success">{line}</div>
+                      ))}
+                    </pre>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,7 +15,8 @@ import {
   ZoomIn,
   ZoomOut,
   Maximize2,
-  Download
+  Download,
+  ShieldAlert
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -24,8 +25,12 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { TopologyNode, TopologyConnection } from "@shared/schema";
+import { apiRequest, queryClient, workspaceUrl } from "@/lib/queryClient";
+import { routerNodeProperties, type CredentialSummary, type JumpHostSummary, type RouterTransport, type TopologyNode, type TopologyConnection } from "@shared/schema";
+import { RouterSnapshotsDialog } from "@/components/router-snapshots";
+import { HostKeyPrompt } from "@/components/host-key-prompt";
+import { JumpHostsDialog } from "@/components/jump-hosts-dialog";
+import { CredentialsDialog } from "@/components/credentials-dialog";
 import { useMemo } from "react";
 
 const nodeIcons = {
@@ -50,13 +55,33 @@ export function TopologyCanvas() {
   const [draggingNode, setDraggingNode] = useState<string | null>(null);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
   const [sshOpen, setSshOpen] = useState(false);
+  const [snapshotsOpen, setSnapshotsOpen] = useState(false);
+  const [hostKeyOpen, setHostKeyOpen] = useState(false);
+  const [jumpHostsOpen, setJumpHostsOpen] = useState(false);
+  const [jumpHostIds, setJumpHostIds] = useState<string[]>([]);
+  const [credentialsOpen, setCredentialsOpen] = useState(false);
+  const [credentialId, setCredentialId] = useState("");
+  const [isProtected, setIsProtected] = useState(false);
   const [sshHost, setSshHost] = useState("");
   const [sshPort, setSshPort] = useState(22);
   const [sshUser, setSshUser] = useState("");
+  const [transport, setTransport] = useState<RouterTransport>("ssh");
+  const [apiKey, setApiKey] = useState("");
+  const [hasApiKey, setHasApiKey] = useState(false);
+  const [apiUrl, setApiUrl] = useState("");
+  const [apiInsecure, setApiInsecure] = useState(false);
 
   const { data: nodes = [] } = useQuery<TopologyNode[]>({
     queryKey: ["/api/topology/nodes"],
   });
+  const { data: jumpHosts = [] } = useQuery<JumpHostSummary[]>({
+    queryKey: ["/api/jump-hosts"],
+  });
+  const { data: credentials = [] } = useQuery<CredentialSummary[]>({
+    queryKey: ["/api/credentials"],
+  });
+
+  const pinnedHostKey = routerNodeProperties(nodes.find(n => n.id === selectedNode)).ssh?.hostKey?.fingerprint;
 
   const reachability = useMemo(() => new Map<string, { ok: boolean; ms?: number }>(), []);
 
@@ -64,10 +89,10 @@ export function TopologyCanvas() {
     let cancelled = false;
     async function pingNode(n: TopologyNode) {
       if (n.type !== 'router') return;
-      const ssh = (n.properties as any)?.ssh;
+      const ssh = routerNodeProperties(n).ssh;
       if (!ssh?.host) return;
       try {
-        const res = await fetch(`/api/routers/check?host=${encodeURIComponent(ssh.host)}&port=${ssh.port || 22}`);
+        const res = await fetch(workspaceUrl(`/api/routers/check?host=${encodeURIComponent(ssh.host)}&port=${ssh.port || 22}&nodeId=${n.id}`));
         const ok = res.ok;
         const data = ok ? await res.json() : {};
         if (!cancelled) reachability.set(n.id, { ok, ms: data.ms });
@@ -155,6 +180,16 @@ export function TopologyCanvas() {
     },
   });
 
+  // The next SSH connection pins whatever key the router presents
+  const forgetHostKeyMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/topology/nodes/${id}/host-key`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/topology/nodes"] });
+    },
+  });
+
   const updateNodePropsMutation = useMutation({
     mutationFn: async (data: { id: string; properties: Record<string, any> }) => {
       return apiRequest("PATCH", `/api/topology/nodes/${data.id}`, {
@@ -260,6 +295,12 @@ export function TopologyCanvas() {
                 <ZoomIn className="h-4 w-4" />
               </Button>
             </div>
+            <Button variant="ghost" size="sm" onClick={() => setJumpHostsOpen(true)} data-testid="button-jump-hosts">
+              Jump Hosts
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setCredentialsOpen(true)} data-testid="button-credentials">
+              Credentials
+            </Button>
             <Button variant="ghost" size="icon" data-testid="button-fit-view">
               <Maximize2 className="h-4 w-4" />
             </Button>
@@ -398,15 +439,45 @@ export function TopologyCanvas() {
                 data-testid="button-configure-node"
                 onClick={() => {
                   const node = nodes.find(n => n.id === selectedNode);
-                  const ssh = (node?.properties as any)?.ssh || {};
+                  const props = routerNodeProperties(node);
+                  const ssh = props.ssh ?? {};
                   setSshHost(ssh.host || "");
                   setSshPort(ssh.port || 22);
                   setSshUser(ssh.username || "");
+                  setJumpHostIds(ssh.jumpHostIds || []);
+                  setCredentialId(ssh.credentialId || "");
+                  setIsProtected(!!props.protected);
+                  setTransport(props.transport === 'http' ? 'http' : 'ssh');
+                  setApiKey("");
+                  setHasApiKey(!!props.api?.hasKey);
+                  setApiUrl(props.api?.url || "");
+                  setApiInsecure(!!props.api?.insecure);
                   setSshOpen(true);
                 }}
               >
                 Configure
               </Button>
+              {routerNodeProperties(nodes.find(n => n.id === selectedNode)).ssh?.pendingHostKey && (
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  data-testid="button-review-host-key"
+                  onClick={() => setHostKeyOpen(true)}
+                >
+                  <ShieldAlert className="h-4 w-4 mr-2" />
+                  Host key changed
+                </Button>
+              )}
+              {nodes.find(n => n.id === selectedNode)?.type === 'router' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  data-testid="button-node-snapshots"
+                  onClick={() => setSnapshotsOpen(true)}
+                >
+                  Snapshots
+                </Button>
+              )}
               <Button 
                 variant="outline" 
                 size="sm" 
@@ -419,10 +490,26 @@ export function TopologyCanvas() {
           </div>
         </div>
       )}
+      {selectedNode && nodes.find(n => n.id === selectedNode) && (
+        <RouterSnapshotsDialog
+          node={nodes.find(n => n.id === selectedNode)!}
+          open={snapshotsOpen}
+          onOpenChange={setSnapshotsOpen}
+        />
+      )}
+      <JumpHostsDialog open={jumpHostsOpen} onOpenChange={setJumpHostsOpen} />
+      <CredentialsDialog open={credentialsOpen} onOpenChange={setCredentialsOpen} />
+      {selectedNode && nodes.find(n => n.id === selectedNode) && (
+        <HostKeyPrompt
+          node={nodes.find(n => n.id === selectedNode)!}
+          open={hostKeyOpen}
+          onOpenChange={setHostKeyOpen}
+        />
+      )}
       <Dialog open={sshOpen} onOpenChange={setSshOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>SSH Settings</DialogTitle>
+            <DialogTitle>Router Access</DialogTitle>
           </DialogHeader>
           <div className="grid gap-4 py-2">
             <div className="grid grid-cols-4 items-center gap-2">
@@ -437,6 +524,106 @@ export function TopologyCanvas() {
               <Label className="text-right">Username</Label>
               <Input className="col-span-3" value={sshUser} onChange={(e) => setSshUser(e.target.value)} placeholder="vyos" />
             </div>
+            {transport === 'ssh' && (
+              <div className="grid grid-cols-4 items-center gap-2">
+                <Label className="text-right">Login</Label>
+                <select
+                  className="col-span-3 h-9 rounded-md border border-border bg-background px-3 text-sm"
+                  value={credentialId}
+                  onChange={(e) => setCredentialId(e.target.value)}
+                  data-testid="select-node-credential"
+                >
+                  <option value="">Ask on each apply</option>
+                  {credentials.map((credential) => (
+                    <option key={credential.id} value={credential.id}>
+                      {credential.name} ({credential.username})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {transport === 'ssh' && jumpHosts.length > 0 && (
+              <div className="grid grid-cols-4 items-start gap-2">
+                <Label className="text-right pt-1">Jump hosts</Label>
+                <div className="col-span-3 space-y-1" data-testid="node-jump-hosts">
+                  {jumpHosts.map((jumpHost) => {
+                    const position = jumpHostIds.indexOf(jumpHost.id);
+                    return (
+                      <label key={jumpHost.id} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={position >= 0}
+                          onChange={(e) => setJumpHostIds((ids) => e.target.checked ? [...ids, jumpHost.id] : ids.filter((id) => id !== jumpHost.id))}
+                        />
+                        {position >= 0 && <span className="text-xs text-muted-foreground">{position + 1}.</span>}
+                        <span>{jumpHost.name}</span>
+                        <span className="text-xs font-mono text-muted-foreground">{jumpHost.host}:{jumpHost.port}</span>
+                      </label>
+                    );
+                  })}
+                  <p className="text-xs text-muted-foreground">Tunnelled through in the order picked</p>
+                </div>
+              </div>
+            )}
+            {pinnedHostKey && (
+              <div className="grid grid-cols-4 items-center gap-2">
+                <Label className="text-right">Host key</Label>
+                <div className="col-span-3 flex items-center gap-2">
+                  <span className="text-xs font-mono truncate" title={pinnedHostKey}>{pinnedHostKey}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => selectedNode && forgetHostKeyMutation.mutate(selectedNode)}
+                    disabled={forgetHostKeyMutation.isPending}
+                    data-testid="button-forget-host-key"
+                  >
+                    Forget
+                  </Button>
+                </div>
+              </div>
+            )}
+            <div className="grid grid-cols-4 items-center gap-2">
+              <Label className="text-right">Transport</Label>
+              <select
+                className="col-span-3 h-9 rounded-md border border-border bg-background px-3 text-sm"
+                value={transport}
+                onChange={(e) => setTransport(e.target.value as RouterTransport)}
+                data-testid="select-node-transport"
+              >
+                <option value="ssh">SSH</option>
+                <option value="http">HTTP API (VyOS 1.4+)</option>
+              </select>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-2">
+              <Label className="text-right">Protected</Label>
+              <div className="col-span-3 flex items-center gap-2">
+                <input
+                  className="h-4 w-4"
+                  type="checkbox"
+                  checked={isProtected}
+                  onChange={(e) => setIsProtected(e.target.checked)}
+                  data-testid="checkbox-node-protected"
+                />
+                <span className="text-xs text-muted-foreground">Applies need an approved change request; only admins can change this router's settings</span>
+              </div>
+            </div>
+            {transport === 'http' && (
+              <>
+                <div className="grid grid-cols-4 items-center gap-2">
+                  <Label className="text-right">API key</Label>
+                  <Input className="col-span-3" type="password" value={apiKey} onChange={(e) => setApiKey(e.target.value)} placeholder={hasApiKey ? "Stored; leave empty to keep" : ""} data-testid="input-node-api-key" />
+                </div>
+                <div className="grid grid-cols-4 items-center gap-2">
+                  <Label className="text-right">API URL</Label>
+                  <Input className="col-span-3" value={apiUrl} onChange={(e) => setApiUrl(e.target.value)} placeholder={`https://${sshHost || "host"}`} />
+                </div>
+                <div className="grid grid-cols-4 items-center gap-2">
+                  <Label className="text-right">Self-signed</Label>
+                  <input className="h-4 w-4" type="checkbox" checked={apiInsecure} onChange={(e) => setApiInsecure(e.target.checked)} />
+                </div>
+              </>
+            )}
           </div>
           <div className="flex justify-end gap-2">
             <Button variant="outline" onClick={() => setSshOpen(false)}>Cancel</Button>
@@ -444,13 +631,19 @@ export function TopologyCanvas() {
               onClick={() => {
                 if (!selectedNode) return;
                 const node = nodes.find(n => n.id === selectedNode);
-                const baseProps = (node?.properties as any) || {};
+                const baseProps = routerNodeProperties(node);
                 updateNodePropsMutation.mutate({
                   id: selectedNode,
-                  properties: { ...baseProps, ssh: { host: sshHost, port: sshPort, username: sshUser } },
+                  properties: {
+                    ...baseProps,
+                    ssh: { host: sshHost, port: sshPort, username: sshUser, jumpHostIds, credentialId: transport === 'ssh' && credentialId ? credentialId : undefined },
+                    transport,
+                    api: transport === 'http' ? { key: apiKey || undefined, url: apiUrl || undefined, insecure: apiInsecure } : undefined,
+                    protected: isProtected || undefined,
+                  },
                 });
               }}
-              disabled={!sshHost || !sshUser || !selectedNode}
+              disabled={!sshHost || !selectedNode || (transport === 'http' ? !apiKey && !hasApiKey : !sshUser && !credentialId)}
             >
               Save
             </Button>
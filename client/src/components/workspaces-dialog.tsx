@@ -0,0 +1,179 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download, Pencil, Trash2, Upload } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { DEFAULT_WORKSPACE_ID, type InsertWorkspace, type Workspace, type WorkspaceImportReport } from "@shared/schema";
+
+interface WorkspacesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Create, rename, delete, export and import workspaces. Deleting one deletes
+// everything in it.
+export function WorkspacesDialog({ open, onOpenChange }: WorkspacesDialogProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const { workspaces, workspaceId, selectWorkspace } = useWorkspace();
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [importTarget, setImportTarget] = useState<string | null>(null);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setDescription("");
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload: InsertWorkspace = { name, description: description || null };
+      return editingId
+        ? apiRequest<Workspace>("PATCH", `/api/workspaces/${editingId}`, payload)
+        : apiRequest<Workspace>("POST", "/api/workspaces", payload);
+    },
+    onSuccess: (workspace) => {
+      invalidate();
+      if (!editingId) selectWorkspace(workspace.id);
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save workspace", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/workspaces/${id}`, undefined),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Could not delete workspace", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Adds the archive's records to the workspace; what it already has is skipped
+  const importMutation = useMutation({
+    mutationFn: async ({ id, file }: { id: string; file: File }) =>
+      apiRequest<WorkspaceImportReport>("POST", `/api/workspaces/${id}/import`, JSON.parse(await file.text())),
+    onSuccess: ({ imported, conflicts }) => {
+      queryClient.invalidateQueries();
+      toast({
+        title: "Workspace imported",
+        description: `${imported.configurations} configurations, ${imported.templates} templates, ${imported.nodes} nodes, ` +
+          `${imported.connections} connections and ${imported.intentHistory} intents added` +
+          (conflicts.length ? `; skipped ${conflicts.map((c) => `${c.kind} ${c.name}`).join(", ")} (already present)` : ""),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not import workspace", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const chooseArchive = (id: string) => {
+    setImportTarget(id);
+    fileInput.current?.click();
+  };
+
+  const edit = (workspace: Workspace) => {
+    setEditingId(workspace.id);
+    setName(workspace.name);
+    setDescription(workspace.description ?? "");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Workspaces</DialogTitle>
+          <DialogDescription>
+            Each workspace has its own configurations, topology, templates, credentials and history.
+            Exports leave credentials, jump hosts and API keys behind.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2" data-testid="workspace-list">
+          {workspaces.map((workspace) => (
+            <div key={workspace.id} className="flex items-center gap-2 rounded-md border border-border px-3 py-2 text-sm">
+              <span className="font-medium">{workspace.name}</span>
+              {workspace.id === workspaceId && <Badge variant="secondary" className="text-xs">current</Badge>}
+              <span className="text-xs text-muted-foreground truncate">{workspace.description}</span>
+              <div className="ml-auto flex">
+                <Button variant="ghost" size="icon" asChild>
+                  <a href={`/api/workspaces/${workspace.id}/export`} data-testid={`link-export-workspace-${workspace.id}`}>
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => chooseArchive(workspace.id)}
+                  disabled={importMutation.isPending}
+                  data-testid={`button-import-workspace-${workspace.id}`}
+                >
+                  <Upload className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => edit(workspace)} data-testid={`button-edit-workspace-${workspace.id}`}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                {workspace.id !== DEFAULT_WORKSPACE_ID && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(workspace.id)}
+                    data-testid={`button-delete-workspace-${workspace.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file && importTarget) importMutation.mutate({ id: importTarget, file });
+            e.target.value = "";
+          }}
+        />
+
+        <div className="grid grid-cols-2 gap-2 border-t border-border pt-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Acme Corp" data-testid="input-workspace-name" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Description</Label>
+            <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" />
+          </div>
+        </div>
+        <div className="flex justify-end gap-2">
+          {editingId && (
+            <Button variant="outline" onClick={resetForm}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!name || saveMutation.isPending}
+            data-testid="button-save-workspace"
+          >
+            {editingId ? "Rename Workspace" : "Create Workspace"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
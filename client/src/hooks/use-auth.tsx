@@ -0,0 +1,59 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { userRoles, type LoginRequest, type PublicUser, type UserRole } from "@shared/schema";
+
+interface AuthContextValue {
+  user: PublicUser | null;
+  isLoading: boolean;
+  // Whether the signed-in user has `role` or a higher one
+  can: (role: UserRole) => boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginRequest>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { data: user = null, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginRequest) => apiRequest<PublicUser>("POST", "/api/login", credentials),
+    onSuccess: (signedIn) => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], signedIn);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Sign in failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => apiRequest<void>("POST", "/api/logout"),
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+  });
+
+  const can = (role: UserRole) => !!user && userRoles.indexOf(user.role as UserRole) >= userRoles.indexOf(role);
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, can, loginMutation, logoutMutation }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,48 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { currentWorkspaceId, queryClient, setCurrentWorkspaceId } from "@/lib/queryClient";
+import { DEFAULT_WORKSPACE_ID, type Workspace } from "@shared/schema";
+
+interface WorkspaceContextValue {
+  workspaces: Workspace[];
+  workspaceId: string;
+  workspace: Workspace | undefined;
+  selectWorkspace: (id: string) => void;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextValue | null>(null);
+
+// Queries that do not belong to a workspace survive a switch
+const unscopedQueries = ["/api/user", "/api/users", "/api/audit", "/api/workspaces"];
+
+export function WorkspaceProvider({ children }: { children: ReactNode }) {
+  const [workspaceId, setWorkspaceId] = useState(currentWorkspaceId);
+  const { data: workspaces = [], isSuccess } = useQuery<Workspace[]>({ queryKey: ["/api/workspaces"] });
+
+  const selectWorkspace = (id: string) => {
+    if (id === workspaceId) return;
+    setCurrentWorkspaceId(id);
+    setWorkspaceId(id);
+    queryClient.removeQueries({ predicate: (query) => !unscopedQueries.includes(query.queryKey[0] as string) });
+  };
+
+  // The remembered workspace was deleted, here or elsewhere
+  const workspace = workspaces.find((w) => w.id === workspaceId);
+  useEffect(() => {
+    if (isSuccess && !workspace) selectWorkspace(DEFAULT_WORKSPACE_ID);
+  }, [isSuccess, workspace]);
+
+  return (
+    <WorkspaceContext.Provider value={{ workspaces, workspaceId, workspace, selectWorkspace }}>
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
+
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error("useWorkspace must be used within a WorkspaceProvider");
+  }
+  return context;
+}
@@ -0,0 +1,33 @@
+import { apiRequest, workspaceUrl } from "@/lib/queryClient";
+import type { ApplyJobEvent, ApplyPhase, RouterApplyRequest, RouterApplyResponse } from "@shared/schema";
+
+interface ApplyJobHandlers {
+  onLog: (line: string) => void;
+  onPhase: (phase: ApplyPhase) => void;
+}
+
+// Start an apply job and follow its event stream until the result arrives
+export async function runApplyJob(
+  payload: Partial<RouterApplyRequest>,
+  handlers: ApplyJobHandlers,
+): Promise<RouterApplyResponse> {
+  const { jobId } = await apiRequest<{ jobId: string }>("POST", "/api/routers/apply/jobs", payload);
+
+  return new Promise<RouterApplyResponse>((resolve, reject) => {
+    const source = new EventSource(workspaceUrl(`/api/routers/apply/jobs/${jobId}/events`));
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as ApplyJobEvent;
+      if (event.type === "log") handlers.onLog(event.line);
+      else if (event.type === "phase") handlers.onPhase(event.phase);
+      else {
+        source.close();
+        if (event.type === "result") resolve(event.result);
+        else reject(new Error(event.error));
+      }
+    };
+    source.onerror = () => {
+      source.close();
+      reject(new Error("Lost connection to the apply job"));
+    };
+  });
+}
@@ -1,4 +1,37 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { DEFAULT_WORKSPACE_ID } from "@shared/schema";
+
+// The workspace API requests go to, kept across reloads. Query keys stay
+// unprefixed; switching workspaces drops the cached queries instead.
+const workspaceStorageKey = "vyos-workspace";
+let workspaceId = localStorage.getItem(workspaceStorageKey) ?? DEFAULT_WORKSPACE_ID;
+
+export function currentWorkspaceId() {
+  return workspaceId;
+}
+
+export function setCurrentWorkspaceId(id: string) {
+  workspaceId = id;
+  localStorage.setItem(workspaceStorageKey, id);
+}
+
+// Sign-in, users, the audit log and workspaces themselves are not scoped
+const unscopedPaths = ["login", "logout", "user", "users", "audit", "workspaces"];
+
+// "/api/configurations" -> "/api/workspaces/<current>/configurations"
+export function workspaceUrl(url: string): string {
+  const match = /^\/api\/([^/?]+)/.exec(url);
+  if (!match || unscopedPaths.includes(match[1])) return url;
+  return `/api/workspaces/${encodeURIComponent(workspaceId)}${url.slice("/api".length)}`;
+}
+
+// The session expired or was ended elsewhere: forget the signed-in user so
+// the app falls back to the login page
+function signOutOn401(res: Response, url: string) {
+  if (res.status === 401 && url !== "/api/login") {
+    queryClient.setQueryData(["/api/user"], null);
+  }
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -12,13 +45,14 @@ export async function apiRequest<T = unknown>(
   url: string,
   data?: unknown | undefined,
 ): Promise<T> {
-  const res = await fetch(url, {
+  const res = await fetch(workspaceUrl(url), {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
+  signOutOn401(res, url);
   await throwIfResNotOk(res);
   if (res.status === 204) return undefined as unknown as T;
   const contentType = res.headers.get("content-type") || "";
@@ -36,7 +70,8 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const url = queryKey.join("/") as string;
+    const res = await fetch(workspaceUrl(url), {
       credentials: "include",
     });
 
@@ -44,6 +79,7 @@ export const getQueryFn: <T>(options: {
       return null;
     }
 
+    signOutOn401(res, url);
     await throwIfResNotOk(res);
     return await res.json();
   };
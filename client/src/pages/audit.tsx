@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollText, ShieldCheck, ShieldAlert, Download } from "lucide-react";
+import { format } from "date-fns";
+import { useQuery } from "@tanstack/react-query";
+import { auditOutcomeSchema, type AuditChainStatus, type AuditEvent } from "@shared/schema";
+
+const outcomeClass: Record<string, string> = {
+  success: "bg-success/10 text-success border-success/20",
+  failure: "bg-destructive/10 text-destructive border-destructive/20",
+  denied: "bg-warning/10 text-warning border-warning/20",
+};
+
+interface Filters {
+  actor: string;
+  action: string;
+  target: string;
+  outcome: string;
+  from: string;
+  to: string;
+}
+
+const emptyFilters: Filters = { actor: "", action: "", target: "", outcome: "", from: "", to: "" };
+
+// Dates are picked as local days; `to` covers the whole of its day
+function filterQuery(filters: Filters): string {
+  const params = new URLSearchParams();
+  if (filters.actor) params.set("actor", filters.actor);
+  if (filters.action) params.set("action", filters.action);
+  if (filters.target) params.set("target", filters.target);
+  if (filters.outcome) params.set("outcome", filters.outcome);
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params.toString();
+}
+
+function EventRow({ event }: { event: AuditEvent }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="rounded-md border border-border text-sm" data-testid={`audit-event-${event.seq}`}>
+      <button className="w-full flex items-center gap-3 px-3 py-2 text-left hover-elevate" onClick={() => setOpen(!open)}>
+        <span className="w-12 text-xs text-muted-foreground font-mono">#{event.seq}</span>
+        <span className="w-40 text-xs text-muted-foreground">{format(new Date(event.createdAt), "yyyy-MM-dd HH:mm:ss")}</span>
+        <span className="w-28 truncate font-medium">{event.actor}</span>
+        <span className="flex-1 truncate font-mono text-xs">{event.action}</span>
+        <span className="w-56 truncate text-xs text-muted-foreground">{event.target}</span>
+        <Badge variant="outline" className={`text-xs capitalize ${outcomeClass[event.outcome] ?? ""}`}>
+          {event.outcome}{event.status ? ` ${event.status}` : ""}
+        </Badge>
+      </button>
+      {open && (
+        <div className="border-t border-border px-3 py-2 space-y-2">
+          {event.error && <p className="text-xs text-destructive">{event.error}</p>}
+          <pre className="text-xs font-mono whitespace-pre-wrap break-all bg-muted/30 rounded p-2">
+            {JSON.stringify(event.summary, null, 2)}
+          </pre>
+          <p className="text-xs text-muted-foreground font-mono break-all">hash {event.hash}</p>
+          <p className="text-xs text-muted-foreground font-mono break-all">prev {event.prevHash}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function AuditPage() {
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const query = filterQuery(filters);
+
+  const { data: events = [], isLoading } = useQuery<AuditEvent[]>({
+    queryKey: [`/api/audit${query ? `?${query}` : ""}`],
+  });
+  const { data: chain } = useQuery<AuditChainStatus>({ queryKey: ["/api/audit/verify"] });
+
+  const set = (key: keyof Filters) => (e: { target: { value: string } }) => setFilters({ ...filters, [key]: e.target.value });
+  const exportUrl = (formatName: string) => `/api/audit/export?${query ? `${query}&` : ""}format=${formatName}`;
+
+  return (
+    <div className="h-full p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold mb-2">Audit Log</h1>
+          <p className="text-sm text-muted-foreground">Every change made through the controller, in a hash chain</p>
+        </div>
+        {chain && (
+          chain.ok ? (
+            <Badge variant="outline" className="gap-1 bg-success/10 text-success border-success/20" data-testid="audit-chain-status">
+              <ShieldCheck className="h-3 w-3" />
+              Chain intact ({chain.events} events)
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="gap-1 bg-destructive/10 text-destructive border-destructive/20" data-testid="audit-chain-status">
+              <ShieldAlert className="h-3 w-3" />
+              Chain broken at #{chain.brokenAt}
+            </Badge>
+          )
+        )}
+      </div>
+
+      <Card className="p-4 space-y-4">
+        <div className="grid grid-cols-6 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Actor</Label>
+            <Input value={filters.actor} onChange={set("actor")} placeholder="username" data-testid="input-audit-actor" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Action</Label>
+            <Input value={filters.action} onChange={set("action")} placeholder="e.g. configurations" data-testid="input-audit-action" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Target</Label>
+            <Input value={filters.target} onChange={set("target")} placeholder="path or host" data-testid="input-audit-target" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Outcome</Label>
+            <select
+              className="w-full h-9 rounded-md border border-border bg-background px-3 text-sm"
+              value={filters.outcome}
+              onChange={set("outcome")}
+              data-testid="select-audit-outcome"
+            >
+              <option value="">Any</option>
+              {auditOutcomeSchema.options.map((o) => (
+                <option key={o} value={o}>{o}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">From</Label>
+            <Input type="date" value={filters.from} onChange={set("from")} data-testid="input-audit-from" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">To</Label>
+            <Input type="date" value={filters.to} onChange={set("to")} data-testid="input-audit-to" />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setFilters(emptyFilters)}>Clear</Button>
+          <span className="text-xs text-muted-foreground">{events.length} events</span>
+          <div className="ml-auto flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={exportUrl("csv")} data-testid="link-audit-export-csv">
+                <Download className="h-4 w-4 mr-1" />
+                CSV
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={exportUrl("json")} data-testid="link-audit-export-json">
+                <Download className="h-4 w-4 mr-1" />
+                JSON
+              </a>
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="p-4 space-y-2" data-testid="audit-event-list">
+        {events.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            <ScrollText className="h-10 w-10 text-muted-foreground mb-3 opacity-30" />
+            <p className="text-sm text-muted-foreground">{isLoading ? "Loading..." : "No matching events."}</p>
+          </div>
+        ) : (
+          events.map((event) => <EventRow key={event.id} event={event} />)
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Network } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AuthPage() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const { loginMutation } = useAuth();
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background">
+      <Card className="w-full max-w-sm mx-4 p-6">
+        <div className="flex items-center gap-2 mb-6">
+          <div className="flex h-8 w-8 items-center justify-center rounded-md bg-primary">
+            <Network className="h-5 w-5 text-primary-foreground" />
+          </div>
+          <div>
+            <h1 className="text-sm font-semibold">VyOS Controller</h1>
+            <p className="text-xs text-muted-foreground">Sign in to continue</p>
+          </div>
+        </div>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            loginMutation.mutate({ username, password });
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="username">Username</Label>
+            <Input
+              id="username"
+              autoComplete="username"
+              autoFocus
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              data-testid="input-login-username"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              data-testid="input-login-password"
+            />
+          </div>
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={!username || !password || loginMutation.isPending}
+            data-testid="button-login"
+          >
+            {loginMutation.isPending ? "Signing in..." : "Sign in"}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
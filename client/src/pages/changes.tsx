@@ -0,0 +1,361 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { GitPullRequest, Clock, Plus, Rocket } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { DRAFT_STORAGE_KEY } from "@/pages/config-diff";
+import { routerNodeProperties, type ChangeRequest, type ChangeRequestDiff, type ChangeRequestInput, type ChangeReview, type Configuration, type TopologyNode } from "@shared/schema";
+
+const statusClass: Record<string, string> = {
+  draft: "bg-muted/50 text-muted-foreground border-border",
+  submitted: "bg-info/10 text-info border-info/20",
+  approved: "bg-success/10 text-success border-success/20",
+  rejected: "bg-destructive/10 text-destructive border-destructive/20",
+  applied: "bg-primary/10 text-primary border-primary/20",
+};
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant="outline" className={`text-xs capitalize ${statusClass[status] ?? ""}`}>
+      {status}
+    </Badge>
+  );
+}
+
+interface NewChangeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (changeRequest: ChangeRequest) => void;
+}
+
+function NewChangeDialog({ open, onOpenChange, onCreated }: NewChangeDialogProps) {
+  const [title, setTitle] = useState("");
+  const [justification, setJustification] = useState("");
+  const [source, setSource] = useState("");
+  const [nodeIds, setNodeIds] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  const { data: configurations = [] } = useQuery<Configuration[]>({ queryKey: ["/api/configurations"], enabled: open });
+  const { data: nodes = [] } = useQuery<TopologyNode[]>({ queryKey: ["/api/topology/nodes"], enabled: open });
+  const routers = nodes.filter((n) => n.type === "router");
+  const hasDraft = sessionStorage.getItem(DRAFT_STORAGE_KEY) !== null;
+  const configuration = source === "draft"
+    ? sessionStorage.getItem(DRAFT_STORAGE_KEY) ?? ""
+    : configurations.find((c) => c.id === source)?.content ?? "";
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const payload: ChangeRequestInput = { title, justification, configuration, nodeIds };
+      return apiRequest<ChangeRequest>("POST", "/api/change-requests", payload);
+    },
+    onSuccess: (changeRequest) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/change-requests"] });
+      setTitle("");
+      setJustification("");
+      setSource("");
+      setNodeIds([]);
+      onCreated(changeRequest);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create change request", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Change Request</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Title</Label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} data-testid="input-change-title" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Justification</Label>
+            <textarea
+              className="w-full h-20 rounded-md border border-border bg-background px-3 py-2 text-sm"
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              placeholder="Why the change is needed, risk and rollback plan"
+              data-testid="input-change-justification"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Configuration</Label>
+            <select
+              className="h-9 w-full rounded-md border border-border bg-background px-3 text-sm"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              data-testid="select-change-config"
+            >
+              <option value="">Select a configuration…</option>
+              {hasDraft && <option value="draft">Editor draft</option>}
+              {configurations.map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Routers</Label>
+            {routers.map((node) => (
+              <label key={node.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={nodeIds.includes(node.id)}
+                  onChange={(e) => setNodeIds((ids) => (e.target.checked ? [...ids, node.id] : ids.filter((id) => id !== node.id)))}
+                />
+                <span>{node.label}</span>
+                {routerNodeProperties(node).protected && <Badge variant="outline" className="text-xs">protected</Badge>}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!title || !justification || !configuration.trim() || nodeIds.length === 0 || createMutation.isPending}
+            data-testid="button-create-change"
+          >
+            Save Draft
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function ChangesPage() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newOpen, setNewOpen] = useState(false);
+  const [comment, setComment] = useState("");
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+
+  const { data: changeRequests = [], isLoading } = useQuery<ChangeRequest[]>({ queryKey: ["/api/change-requests"] });
+  const selected = changeRequests.find((c) => c.id === selectedId);
+  const isAuthor = selected?.requestedBy === user?.username;
+
+  const onDone = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/change-requests"] });
+    setComment("");
+    toast({ title });
+  };
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest<ChangeRequest>("POST", `/api/change-requests/${id}/submit`),
+    onSuccess: onDone("Submitted for review"),
+    onError: onError("Could not submit"),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, review }: { id: string; review: ChangeReview }) =>
+      apiRequest<ChangeRequest>("POST", `/api/change-requests/${id}/review`, review),
+    onSuccess: (changeRequest) => onDone(changeRequest.status === "approved" ? "Change approved" : "Change rejected")(),
+    onError: onError("Review failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/change-requests/${id}`, undefined),
+    onSuccess: () => {
+      setSelectedId(null);
+      onDone("Change request deleted")();
+    },
+    onError: onError("Could not delete"),
+  });
+
+  return (
+    <div className="h-full p-6 flex flex-col">
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold mb-2">Changes</h1>
+          <p className="text-sm text-muted-foreground">
+            Changes reviewed by a second engineer; protected routers only take approved ones
+          </p>
+        </div>
+        {can("operator") && (
+          <Button onClick={() => setNewOpen(true)} data-testid="button-new-change">
+            <Plus className="h-4 w-4 mr-2" />
+            New Change
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 flex-1 min-h-0">
+        <Card className="overflow-hidden">
+          <ScrollArea className="h-full">
+            {isLoading ? (
+              <p className="p-4 text-sm text-muted-foreground">Loading changes...</p>
+            ) : changeRequests.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-[400px] text-center p-4">
+                <GitPullRequest className="h-16 w-16 text-muted-foreground mb-4 opacity-20" />
+                <p className="text-sm text-muted-foreground">No change requests yet</p>
+              </div>
+            ) : (
+              <div className="p-1 space-y-1" data-testid="change-list">
+                {changeRequests.map((changeRequest) => (
+                  <button
+                    key={changeRequest.id}
+                    onClick={() => setSelectedId(changeRequest.id)}
+                    className={`w-full text-left rounded-md px-3 py-2 text-sm hover-elevate ${changeRequest.id === selectedId ? "bg-muted" : ""}`}
+                    data-testid={`change-${changeRequest.id}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{changeRequest.title}</span>
+                      <span className="ml-auto"><StatusBadge status={changeRequest.status} /></span>
+                    </div>
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                      <Clock className="h-3 w-3" />
+                      {formatDistanceToNow(new Date(changeRequest.createdAt), { addSuffix: true })} by {changeRequest.requestedBy}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </Card>
+
+        <Card className="lg:col-span-2 overflow-hidden">
+          {!selected ? (
+            <div className="flex items-center justify-center h-[400px]">
+              <p className="text-sm text-muted-foreground">Select a change request</p>
+            </div>
+          ) : (
+            <ScrollArea className="h-full">
+              <div className="p-4 space-y-4">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <h2 className="text-lg font-semibold">{selected.title}</h2>
+                  <StatusBadge status={selected.status} />
+                  <span className="text-xs text-muted-foreground">by {selected.requestedBy}</span>
+                  {selected.reviewedBy && (
+                    <span className="text-xs text-muted-foreground">
+                      · {selected.status === "rejected" ? "rejected" : "approved"} by {selected.reviewedBy}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm whitespace-pre-wrap">{selected.justification}</p>
+                {selected.reviewComment && (
+                  <p className="text-sm rounded-md border border-border bg-muted/50 px-3 py-2" data-testid="text-review-comment">
+                    {selected.reviewComment}
+                  </p>
+                )}
+
+                {(selected.diff as ChangeRequestDiff[]).map((target) => (
+                  <div key={target.nodeId} className="rounded-md border border-border" data-testid={`change-diff-${target.nodeId}`}>
+                    <div className="flex items-center gap-2 px-3 py-2 bg-muted/50 text-xs">
+                      <span className="font-medium">{target.label}</span>
+                      <span className="text-muted-foreground">
+                        {target.baselineTakenAt
+                          ? `against snapshot from ${formatDistanceToNow(new Date(target.baselineTakenAt), { addSuffix: true })}`
+                          : "no snapshot yet; showing the full configuration"}
+                      </span>
+                      {selected.appliedNodeIds.includes(target.nodeId) && (
+                        <Badge variant="outline" className="ml-auto text-xs">applied</Badge>
+                      )}
+                    </div>
+                    <pre className="px-3 py-2 text-xs font-mono leading-relaxed whitespace-pre-wrap">
+                      {target.delta.delete.length + target.delta.set.length === 0 ? (
+                        <span className="text-muted-foreground">No changes</span>
+                      ) : (
+                        <>
+                          {target.delta.delete.map((line) => (
+                            <div key={line} className="text-destructive">{line}</div>
+                          ))}
+                          {target.delta.set.map((line) => (
+                            <div key={line} className="text-success">{line}</div>
+                          ))}
+                        </>
+                      )}
+                    </pre>
+                  </div>
+                ))}
+
+                <details className="text-sm">
+                  <summary className="cursor-pointer text-muted-foreground">Configuration</summary>
+                  <pre className="mt-2 rounded-md bg-muted/50 p-3 text-xs font-mono whitespace-pre-wrap">{selected.configuration}</pre>
+                </details>
+
+                <div className="flex items-center gap-2 border-t border-border pt-4">
+                  {isAuthor && selected.status === "draft" && (
+                    <Button size="sm" onClick={() => submitMutation.mutate(selected.id)} disabled={submitMutation.isPending} data-testid="button-submit-change">
+                      Submit for Review
+                    </Button>
+                  )}
+                  {!isAuthor && selected.status === "submitted" && can("operator") && (
+                    <>
+                      <Input
+                        className="flex-1"
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        placeholder="Review comment"
+                        data-testid="input-review-comment"
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => reviewMutation.mutate({ id: selected.id, review: { decision: "approve", comment } })}
+                        disabled={reviewMutation.isPending}
+                        data-testid="button-approve-change"
+                      >
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => reviewMutation.mutate({ id: selected.id, review: { decision: "reject", comment } })}
+                        disabled={reviewMutation.isPending}
+                        data-testid="button-reject-change"
+                      >
+                        Reject
+                      </Button>
+                    </>
+                  )}
+                  {isAuthor && selected.status === "submitted" && (
+                    <span className="text-xs text-muted-foreground">Waiting for another engineer to review</span>
+                  )}
+                  {selected.status === "approved" && can("operator") && (
+                    <Button size="sm" asChild data-testid="button-deploy-change">
+                      <Link href={`/deployments?changeRequest=${selected.id}`}>
+                        <Rocket className="h-4 w-4 mr-2" />
+                        Deploy
+                      </Link>
+                    </Button>
+                  )}
+                  {(isAuthor || can("admin")) && selected.status !== "applied" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="ml-auto"
+                      onClick={() => deleteMutation.mutate(selected.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </ScrollArea>
+          )}
+        </Card>
+      </div>
+
+      <NewChangeDialog open={newOpen} onOpenChange={setNewOpen} onCreated={(c) => setSelectedId(c.id)} />
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { useSearch } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { GitCompare } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCommand } from "@shared/config-parser";
+import type { Configuration, ConfigDiffEntry, ConfigDiffResult, ConfigDiffSource, IntentHistory } from "@shared/schema";
+
+// The Configurations page stashes the editor content here before navigating
+export const DRAFT_STORAGE_KEY = "vyos-config-draft";
+
+// Source references in the URL: "draft", "config:<id>", "history:<id>" or
+// "revision:<configuration id>:<revision>"
+function toDiffSource(ref: string): ConfigDiffSource | undefined {
+  if (ref === "draft") {
+    const content = sessionStorage.getItem(DRAFT_STORAGE_KEY);
+    return content !== null ? { content } : undefined;
+  }
+  const [kind, id, revision] = ref.split(":");
+  if (kind === "config" && id) return { configurationId: id };
+  if (kind === "revision" && id && Number(revision) > 0) return { configurationId: id, revision: Number(revision) };
+  if (kind === "history" && id) return { historyId: id };
+  return undefined;
+}
+
+function command(entry: ConfigDiffEntry, side: "before" | "after") {
+  return formatCommand("set", entry.path, entry[side]);
+}
+
+export default function ConfigDiffPage() {
+  const params = new URLSearchParams(useSearch());
+  const [left, setLeft] = useState(params.get("left") ?? "");
+  const [right, setRight] = useState(params.get("right") ?? "");
+  const hasDraft = sessionStorage.getItem(DRAFT_STORAGE_KEY) !== null;
+
+  const { data: configurations = [] } = useQuery<Configuration[]>({ queryKey: ["/api/configurations"] });
+  const { data: history = [] } = useQuery<IntentHistory[]>({ queryKey: ["/api/history"] });
+
+  useEffect(() => {
+    const search = new URLSearchParams();
+    if (left) search.set("left", left);
+    if (right) search.set("right", right);
+    window.history.replaceState(null, "", `/diff${search.toString() ? `?${search}` : ""}`);
+  }, [left, right]);
+
+  const leftSource = left ? toDiffSource(left) : undefined;
+  const rightSource = right ? toDiffSource(right) : undefined;
+
+  const { data: diff, isLoading, error } = useQuery<ConfigDiffResult>({
+    queryKey: ["/api/configurations/diff", left, right],
+    queryFn: () => apiRequest<ConfigDiffResult>("POST", "/api/configurations/diff", { left: leftSource, right: rightSource }),
+    enabled: !!leftSource && !!rightSource,
+  });
+
+  // Revisions are opened from the Configurations page timeline and are not
+  // listed here, so the selected one gets an option of its own
+  const revisionOption = (value: string) => {
+    const [kind, id, revision] = value.split(":");
+    if (kind !== "revision") return null;
+    const name = configurations.find((c) => c.id === id)?.name ?? "Configuration";
+    return <option value={value}>{name} r{revision}</option>;
+  };
+
+  const sourceSelect = (value: string, onChange: (v: string) => void, testId: string) => (
+    <select
+      className="h-9 w-full rounded-md border border-border bg-background px-3 text-sm"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      data-testid={testId}
+    >
+      <option value="">Select a configuration…</option>
+      {hasDraft && <option value="draft">Editor draft</option>}
+      {revisionOption(value)}
+      {configurations.length > 0 && (
+        <optgroup label="Saved configurations">
+          {configurations.map((c) => (
+            <option key={c.id} value={`config:${c.id}`}>{c.name}</option>
+          ))}
+        </optgroup>
+      )}
+      {history.length > 0 && (
+        <optgroup label="Intent history">
+          {history.map((h) => (
+            <option key={h.id} value={`history:${h.id}`}>{h.intent}</option>
+          ))}
+        </optgroup>
+      )}
+    </select>
+  );
+
+  // Group rows by top-level section (interfaces, firewall, ...)
+  const sections = (diff?.entries ?? []).reduce<Record<string, ConfigDiffEntry[]>>((acc, entry) => {
+    (acc[entry.path[0]] ??= []).push(entry);
+    return acc;
+  }, {});
+
+  return (
+    <div className="h-full p-6 flex flex-col">
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold mb-2">Compare Configurations</h1>
+        <p className="text-sm text-muted-foreground">
+          Added, removed and changed settings by configuration path, regardless of line order
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div className="space-y-2">
+          <Label>Left (before)</Label>
+          {sourceSelect(left, setLeft, "select-diff-left")}
+        </div>
+        <div className="space-y-2">
+          <Label>Right (after)</Label>
+          {sourceSelect(right, setRight, "select-diff-right")}
+        </div>
+      </div>
+
+      {diff && (
+        <div className="flex items-center gap-2 mb-4" data-testid="diff-summary">
+          <Badge variant="secondary" className="bg-success/10 text-success border-success/20">+{diff.summary.added} added</Badge>
+          <Badge variant="secondary" className="bg-destructive/10 text-destructive border-destructive/20">-{diff.summary.removed} removed</Badge>
+          <Badge variant="secondary" className="bg-warning/10 text-warning border-warning/20">~{diff.summary.changed} changed</Badge>
+          <Badge variant="outline">{diff.summary.unchanged} unchanged</Badge>
+        </div>
+      )}
+
+      <Card className="flex-1 overflow-hidden">
+        {!leftSource || !rightSource ? (
+          <div className="flex flex-col items-center justify-center h-[400px] text-center">
+            <GitCompare className="h-16 w-16 text-muted-foreground mb-4 opacity-20" />
+            <p className="text-sm text-muted-foreground">Pick two configurations to compare</p>
+          </div>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center h-[400px]">
+            <p className="text-muted-foreground">Comparing...</p>
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center h-[400px]">
+            <p className="text-sm text-destructive">{(error as Error).message}</p>
+          </div>
+        ) : diff && diff.entries.length === 0 ? (
+          <div className="flex items-center justify-center h-[400px]">
+            <p className="text-sm text-muted-foreground">The configurations are equivalent</p>
+          </div>
+        ) : (
+          <ScrollArea className="h-full">
+            <div className="divide-y divide-border" data-testid="diff-table">
+              {Object.entries(sections).map(([section, entries]) => (
+                <div key={section}>
+                  <div className="px-4 py-2 bg-muted/50 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    {section}
+                  </div>
+                  {entries.map((entry, index) => (
+                    <div key={index} className="grid grid-cols-2 divide-x divide-border font-mono text-xs" data-testid={`diff-row-${entry.kind}`}>
+                      <div className={`px-4 py-1.5 break-all ${entry.kind !== "added" ? "bg-destructive/10" : ""}`}>
+                        {entry.kind !== "added" && (
+                          <>
+                            <span className="text-muted-foreground mr-2">{entry.leftLine}</span>
+                            {command(entry, "before")}
+                          </>
+                        )}
+                      </div>
+                      <div className={`px-4 py-1.5 break-all ${entry.kind !== "removed" ? "bg-success/10" : ""}`}>
+                        {entry.kind !== "removed" && (
+                          <>
+                            <span className="text-muted-foreground mr-2">{entry.rightLine}</span>
+                            {command(entry, "after")}
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
 import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
 import { ConfigEditor } from "@/components/config-editor";
 import { AICopilot } from "@/components/ai-copilot";
 import { CommandAutocomplete } from "@/components/command-autocomplete";
+import { PacketSimulator } from "@/components/packet-simulator";
+import { ApplyConsole } from "@/components/apply-console";
+import { HostKeyPrompt } from "@/components/host-key-prompt";
+import { RevisionTimeline } from "@/components/revision-timeline";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -9,43 +14,84 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { TopologyNode } from "@shared/schema";
+import { apiRequest, queryClient, workspaceUrl } from "@/lib/queryClient";
+import { runApplyJob } from "@/lib/apply-jobs";
+import { routerNodeProperties, type ApplyError, type ApplyPhase, type ChangeRequest, type Configuration, type CredentialSummary, type RouterApplyRequest, type RouterApplyResponse, type RouterTransport, type TopologyNode, type ValidationResult } from "@shared/schema";
+import { DRAFT_STORAGE_KEY } from "@/pages/config-diff";
 
 interface AIGenerationResponse {
   configuration: string;
   explanation: string;
 }
 
-interface ValidationResult {
-  valid: boolean;
-  errors: Array<{ line: number; message: string; severity: 'error' | 'warning' | 'info' }>;
-  warnings: Array<{ line: number; message: string }>;
-}
-
 export default function ConfigurationsPage() {
   const [config, setConfig] = useState("");
   const [validation, setValidation] = useState<ValidationResult['errors']>([]);
+  const [applyErrors, setApplyErrors] = useState<ApplyError[]>([]);
   const [applyOpen, setApplyOpen] = useState(false);
   const [routerHost, setRouterHost] = useState("");
   const [routerPort, setRouterPort] = useState(22);
   const [routerUser, setRouterUser] = useState("");
   const [routerPassword, setRouterPassword] = useState("");
+  const [credentialId, setCredentialId] = useState("");
+  const [changeRequestId, setChangeRequestId] = useState("");
+  const [transport, setTransport] = useState<RouterTransport>("ssh");
+  const [apiKey, setApiKey] = useState("");
+  const [apiUrl, setApiUrl] = useState("");
+  const [apiInsecure, setApiInsecure] = useState(false);
   const [dryRun, setDryRun] = useState(false);
+  const [deltaMode, setDeltaMode] = useState(false);
+  const [confirmMinutes, setConfirmMinutes] = useState("");
+  const [lastDelta, setLastDelta] = useState<RouterApplyResponse['delta'] | null>(null);
+  const [consoleLines, setConsoleLines] = useState<string[]>([]);
+  const [consolePhases, setConsolePhases] = useState<ApplyPhase[]>([]);
   const [selectedNodeId, setSelectedNodeId] = useState<string>("");
+  const [hostKeyOpen, setHostKeyOpen] = useState(false);
+  // Saved configuration open in the editor; saving records a new revision of it
+  const [configurationId, setConfigurationId] = useState("");
+  const [revisionMessage, setRevisionMessage] = useState("");
   const { toast } = useToast();
+  const [, navigate] = useLocation();
   const { data: nodes = [] } = useQuery<TopologyNode[]>({ queryKey: ["/api/topology/nodes"] });
+  const { data: configurations = [] } = useQuery<Configuration[]>({ queryKey: ["/api/configurations"] });
+  const { data: credentials = [] } = useQuery<CredentialSummary[]>({ queryKey: ["/api/credentials"], enabled: applyOpen });
+  const { data: changeRequests = [] } = useQuery<ChangeRequest[]>({ queryKey: ["/api/change-requests"], enabled: applyOpen });
+  // Protected routers only take the configuration of an approved change request
+  const protectedNode = !!routerNodeProperties(nodes.find((n) => n.id === selectedNodeId)).protected;
+  // The server fills in the node's API key, which it never sends back
+  const nodeHasApiKey = !!routerNodeProperties(nodes.find((n) => n.id === selectedNodeId)).api?.hasKey;
+  const approvedChanges = changeRequests.filter((c) =>
+    c.status === "approved" && c.nodeIds.includes(selectedNodeId) && !c.appliedNodeIds.includes(selectedNodeId));
 
   // Prefill from the first router node with SSH settings when dialog opens
+  useEffect(() => {
+    if (applyOpen) {
+      setLastDelta(null);
+      setConsoleLines([]);
+      setConsolePhases([]);
+    }
+  }, [applyOpen]);
+
+  const prefillFromNode = (node: TopologyNode) => {
+    const props = routerNodeProperties(node);
+    const ssh = props.ssh ?? {};
+    if (ssh.host) setRouterHost(ssh.host);
+    if (ssh.port) setRouterPort(ssh.port);
+    if (ssh.username) setRouterUser(ssh.username);
+    setCredentialId(ssh.credentialId || "");
+    setChangeRequestId("");
+    setTransport(props.transport === 'http' ? 'http' : 'ssh');
+    setApiKey("");
+    setApiUrl(props.api?.url || "");
+    setApiInsecure(!!props.api?.insecure);
+  };
+
   useEffect(() => {
     if (applyOpen && nodes.length > 0) {
-      const withSsh = nodes.find(n => n.type === 'router' && (n as any)?.properties?.ssh?.host);
+      const withSsh = nodes.find(n => n.type === 'router' && routerNodeProperties(n).ssh?.host);
       if (withSsh) {
         setSelectedNodeId(withSsh.id);
-        const ssh = (withSsh as any).properties.ssh;
-        if (ssh.host) setRouterHost(ssh.host);
-        if (ssh.port) setRouterPort(ssh.port);
-        if (ssh.username) setRouterUser(ssh.username);
+        prefillFromNode(withSsh);
       }
     }
   }, [applyOpen, nodes]);
@@ -84,19 +130,26 @@ export default function ConfigurationsPage() {
 
   const saveMutation = useMutation({
     mutationFn: async (configuration: string) => {
-      const response = await apiRequest("POST", "/api/configurations", {
+      const message = revisionMessage.trim() || undefined;
+      if (configurationId) {
+        return apiRequest<Configuration>("PATCH", `/api/configurations/${configurationId}`, { content: configuration, message });
+      }
+      return apiRequest<Configuration>("POST", "/api/configurations", {
         name: "Generated Configuration",
         content: configuration,
         type: "custom",
+        message,
       });
-      return response;
     },
-    onSuccess: () => {
+    onSuccess: (saved) => {
       toast({
         title: "Configuration Saved",
         description: "Your configuration has been saved successfully",
       });
+      setConfigurationId(saved.id);
+      setRevisionMessage("");
       queryClient.invalidateQueries({ queryKey: ["/api/configurations"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/configurations/${saved.id}/revisions`] });
     },
     onError: (error: Error) => {
       toast({
@@ -109,30 +162,66 @@ export default function ConfigurationsPage() {
 
   const applyMutation = useMutation({
     mutationFn: async () => {
-      const payload = {
+      const payload: Partial<RouterApplyRequest> = {
         host: routerHost,
         port: routerPort,
-        username: routerUser,
-        password: routerPassword || undefined,
+        transport,
+        ...(transport === 'http'
+          ? { apiKey: apiKey || undefined, apiUrl: apiUrl || undefined, apiInsecure }
+          : credentialId ? { credentialId } : { username: routerUser, password: routerPassword || undefined }),
         configuration: config,
         commit: !dryRun,
         save: !dryRun,
         dryRun,
+        mode: deltaMode ? 'delta' : 'replay',
+        commitConfirmMinutes: transport === 'ssh' && !dryRun && confirmMinutes ? parseInt(confirmMinutes, 10) : undefined,
+        nodeId: selectedNodeId || undefined,
+        changeRequestId: protectedNode && changeRequestId ? changeRequestId : undefined,
       };
-      return await apiRequest<{ applied: boolean; logs: string[] }>("POST", "/api/routers/apply", payload);
+      setLastDelta(null);
+      setConsoleLines([]);
+      setConsolePhases([]);
+      return runApplyJob(payload, {
+        onLog: (line) => setConsoleLines((lines) => [...lines, line]),
+        onPhase: (phase) => setConsolePhases((phases) => [...phases, phase]),
+      });
     },
     onSuccess: (data) => {
-      toast({
-        title: data.applied ? "Applied to router" : "Not applied",
-        description: data.logs?.slice(-3).join("\n") || "Done",
-      });
-      setApplyOpen(false);
+      setApplyErrors(data.errors ?? []);
+      if (data.errors?.length) {
+        toast({
+          title: "Router rejected the configuration",
+          description: `${data.errors.length} ${data.errors.length === 1 ? 'error' : 'errors'}, see the Validation tab`,
+          variant: "destructive",
+        });
+      } else if (data.rolledBack) {
+        toast({
+          title: "Change rolled back",
+          description: data.logs?.slice(-1).join("\n"),
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: data.confirmed ? "Applied and confirmed" : data.applied ? "Applied to router" : "Not applied",
+          description: data.logs?.slice(-3).join("\n") || "Done",
+        });
+      }
+      // The dialog stays open so the console output and delta can be reviewed
+      if (data.delta) setLastDelta(data.delta);
     },
-    onError: (error: Error) => {
+    onError: async (error: Error) => {
       toast({ title: "Apply failed", description: error.message, variant: "destructive" });
+      // A refused host key is waiting on the router's node for approval
+      if (/^Host key for .+ changed/.test(error.message)) {
+        await queryClient.invalidateQueries({ queryKey: ["/api/topology/nodes"] });
+        setHostKeyOpen(true);
+      }
     },
   });
 
+  const hostKeyNode = nodes.find(n => n.id === selectedNodeId && routerNodeProperties(n).ssh?.host === routerHost)
+    ?? nodes.find(n => n.type === 'router' && routerNodeProperties(n).ssh?.host === routerHost);
+
   const handleConfigGenerated = (intent: string) => {
     generateMutation.mutate(intent);
   };
@@ -153,6 +242,37 @@ export default function ConfigurationsPage() {
     saveMutation.mutate(cfg);
   };
 
+  // Errors reported by the router on the last apply; line 0 when the error
+  // could not be traced back to a line
+  const routerIssues: ValidationResult['errors'] = applyErrors.map((e) => ({
+    line: e.line ?? 0,
+    code: `router-${e.phase}`,
+    message: e.command && e.line === undefined ? `${e.message} (${e.command})` : e.message,
+    severity: 'error',
+  }));
+
+  // What still has to be filled in before applying
+  const missing = !config.trim() ? 'Add at least one set/delete line'
+    : !routerHost ? 'Enter Host'
+    : transport === 'http' ? (!apiKey && !nodeHasApiKey ? 'Enter API key' : '')
+    : !routerUser && !credentialId ? 'Enter Username'
+    : protectedNode && !dryRun && !changeRequestId ? 'Protected router: pick an approved change request' : '';
+
+  const openConfiguration = (id: string) => {
+    setConfigurationId(id);
+    const configuration = configurations.find((c) => c.id === id);
+    if (configuration) {
+      setConfig(configuration.content);
+      setApplyErrors([]);
+      validateConfig(configuration.content);
+    }
+  };
+
+  const handleCompare = () => {
+    sessionStorage.setItem(DRAFT_STORAGE_KEY, config);
+    navigate("/diff?left=draft");
+  };
+
   return (
     <div className="flex flex-col h-full gap-6 p-6">
       <div className="flex-shrink-0">
@@ -166,10 +286,12 @@ export default function ConfigurationsPage() {
         <div className="lg:col-span-2">
           <ConfigEditor 
             initialConfig={config}
-            validation={validation}
+            validation={[...routerIssues, ...validation]}
             onSave={handleSave}
             onChange={(next) => {
               setConfig(next);
+              // Line numbers no longer match once the configuration is edited
+              setApplyErrors([]);
               validateConfig(next);
             }}
           />
@@ -177,6 +299,9 @@ export default function ConfigurationsPage() {
             <Button variant="outline" onClick={() => setApplyOpen(true)} data-testid="button-apply-router">
               Apply to Router
             </Button>
+            <Button variant="outline" onClick={handleCompare} disabled={!config.trim()} data-testid="button-compare-config">
+              Compare
+            </Button>
           </div>
         </div>
         
@@ -185,6 +310,44 @@ export default function ConfigurationsPage() {
             <h3 className="text-sm font-semibold mb-4">Command Assistant</h3>
             <CommandAutocomplete onSelectCommand={handleCommandSelected} />
           </Card>
+
+          <Card className="p-4">
+            <h3 className="text-sm font-semibold mb-4">Revisions</h3>
+            <div className="space-y-3">
+              <select
+                className="h-9 w-full rounded-md border border-border bg-background px-3 text-sm"
+                value={configurationId}
+                onChange={(e) => openConfiguration(e.target.value)}
+                data-testid="select-saved-configuration"
+              >
+                <option value="">New configuration</option>
+                {configurations.map((c) => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+              <Input
+                value={revisionMessage}
+                onChange={(e) => setRevisionMessage(e.target.value)}
+                placeholder="Revision message (optional)"
+                data-testid="input-revision-message"
+              />
+              {configurationId && (
+                <RevisionTimeline
+                  configurationId={configurationId}
+                  onReverted={(configuration) => {
+                    setConfig(configuration.content);
+                    setApplyErrors([]);
+                    validateConfig(configuration.content);
+                  }}
+                />
+              )}
+            </div>
+          </Card>
+
+          <Card className="p-4">
+            <h3 className="text-sm font-semibold mb-4">Packet Simulator</h3>
+            <PacketSimulator configuration={config} />
+          </Card>
           
           <Card className="p-4">
             <h3 className="text-sm font-semibold mb-3">Quick Actions</h3>
@@ -223,7 +386,8 @@ export default function ConfigurationsPage() {
                   type="button"
                   onClick={async () => {
                     try {
-                      const res = await fetch(`/api/routers/check?host=${encodeURIComponent(routerHost)}&port=${routerPort || 22}`);
+                      const node = selectedNodeId ? `&nodeId=${selectedNodeId}` : "";
+                      const res = await fetch(workspaceUrl(`/api/routers/check?host=${encodeURIComponent(routerHost)}&port=${routerPort || 22}${node}`));
                       if (res.ok) {
                         const data = await res.json();
                         toast({ title: "SSH reachable", description: `${data.ms ?? ''}ms` });
@@ -250,10 +414,7 @@ export default function ConfigurationsPage() {
                     const id = e.target.value;
                     setSelectedNodeId(id);
                     const node = nodes.find(n => n.id === id);
-                    const ssh = (node?.properties as any)?.ssh || {};
-                    if (ssh.host) setRouterHost(ssh.host);
-                    if (ssh.port) setRouterPort(ssh.port);
-                    if (ssh.username) setRouterUser(ssh.username);
+                    if (node) prefillFromNode(node);
                   }}
                 >
                   <option value="">—</option>
@@ -263,40 +424,161 @@ export default function ConfigurationsPage() {
                 </select>
               </div>
             )}
+            {protectedNode && (
+              <div className="grid grid-cols-4 items-center gap-2">
+                <Label className="text-right">Change request</Label>
+                <select
+                  className="col-span-3 h-9 rounded-md border border-border bg-background px-3 text-sm"
+                  value={changeRequestId}
+                  onChange={(e) => {
+                    const changeRequest = approvedChanges.find((c) => c.id === e.target.value);
+                    setChangeRequestId(e.target.value);
+                    // The approved configuration is what may be applied
+                    if (changeRequest) setConfig(changeRequest.configuration);
+                  }}
+                  data-testid="select-change-request"
+                >
+                  <option value="">{approvedChanges.length ? "Select an approved change…" : "No approved change for this router"}</option>
+                  {approvedChanges.map((c) => (
+                    <option key={c.id} value={c.id}>{c.title}</option>
+                  ))}
+                </select>
+              </div>
+            )}
             <div className="grid grid-cols-4 items-center gap-2">
               <Label className="text-right">Host</Label>
               <Input className="col-span-3" value={routerHost} onChange={(e) => setRouterHost(e.target.value)} placeholder="192.168.1.1" />
             </div>
             <div className="grid grid-cols-4 items-center gap-2">
-              <Label className="text-right">Port</Label>
-              <Input className="col-span-3" type="number" value={routerPort} onChange={(e) => setRouterPort(parseInt(e.target.value || "22", 10))} />
+              <Label className="text-right">Transport</Label>
+              <select
+                className="col-span-3 h-9 rounded-md border border-border bg-background px-3 text-sm"
+                value={transport}
+                onChange={(e) => setTransport(e.target.value as RouterTransport)}
+                data-testid="select-transport"
+              >
+                <option value="ssh">SSH</option>
+                <option value="http">HTTP API</option>
+              </select>
             </div>
+            {transport === 'ssh' ? (
+              <>
+                <div className="grid grid-cols-4 items-center gap-2">
+                  <Label className="text-right">Port</Label>
+                  <Input className="col-span-3" type="number" value={routerPort} onChange={(e) => setRouterPort(parseInt(e.target.value || "22", 10))} />
+                </div>
+                <div className="grid grid-cols-4 items-center gap-2">
+                  <Label className="text-right">Login</Label>
+                  <select
+                    className="col-span-3 h-9 rounded-md border border-border bg-background px-3 text-sm"
+                    value={credentialId}
+                    onChange={(e) => setCredentialId(e.target.value)}
+                    data-testid="select-credential"
+                  >
+                    <option value="">Enter username and password</option>
+                    {credentials.map((credential) => (
+                      <option key={credential.id} value={credential.id}>
+                        {credential.name} ({credential.username})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {!credentialId && (
+                  <>
+                    <div className="grid grid-cols-4 items-center gap-2">
+                      <Label className="text-right">Username</Label>
+                      <Input className="col-span-3" value={routerUser} onChange={(e) => setRouterUser(e.target.value)} placeholder="vyos" />
+                    </div>
+                    <div className="grid grid-cols-4 items-center gap-2">
+                      <Label className="text-right">Password</Label>
+                      <Input className="col-span-3" type="password" value={routerPassword} onChange={(e) => setRouterPassword(e.target.value)} />
+                    </div>
+                  </>
+                )}
+              </>
+            ) : (
+              <>
+                <div className="grid grid-cols-4 items-center gap-2">
+                  <Label className="text-right">API key</Label>
+                  <Input className="col-span-3" type="password" value={apiKey} onChange={(e) => setApiKey(e.target.value)} placeholder={nodeHasApiKey ? "Stored on the node; leave empty to use it" : ""} data-testid="input-api-key" />
+                </div>
+                <div className="grid grid-cols-4 items-center gap-2">
+                  <Label className="text-right">API URL</Label>
+                  <Input className="col-span-3" value={apiUrl} onChange={(e) => setApiUrl(e.target.value)} placeholder={`https://${routerHost || "host"}`} />
+                </div>
+                <div className="grid grid-cols-4 items-center gap-2">
+                  <Label className="text-right">Self-signed</Label>
+                  <div className="col-span-3 flex items-center gap-2">
+                    <input className="h-4 w-4" type="checkbox" checked={apiInsecure} onChange={(e) => setApiInsecure(e.target.checked)} />
+                    <span className="text-xs text-muted-foreground">Accept the router's self-signed certificate</span>
+                  </div>
+                </div>
+              </>
+            )}
             <div className="grid grid-cols-4 items-center gap-2">
-              <Label className="text-right">Username</Label>
-              <Input className="col-span-3" value={routerUser} onChange={(e) => setRouterUser(e.target.value)} placeholder="vyos" />
+              <Label className="text-right">Dry run</Label>
+              <input className="col-span-3 h-4 w-4" type="checkbox" checked={dryRun} onChange={(e) => setDryRun(e.target.checked)} />
             </div>
             <div className="grid grid-cols-4 items-center gap-2">
-              <Label className="text-right">Password</Label>
-              <Input className="col-span-3" type="password" value={routerPassword} onChange={(e) => setRouterPassword(e.target.value)} />
+              <Label className="text-right">Commit-confirm</Label>
+              <div className="col-span-3 flex items-center gap-2">
+                <Input
+                  className="w-24"
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={confirmMinutes}
+                  onChange={(e) => setConfirmMinutes(e.target.value)}
+                  placeholder="off"
+                  disabled={dryRun || transport !== 'ssh'}
+                  data-testid="input-commit-confirm"
+                />
+                <span className="text-xs text-muted-foreground">minutes; rolls back unless the router is still reachable</span>
+              </div>
             </div>
             <div className="grid grid-cols-4 items-center gap-2">
-              <Label className="text-right">Dry run</Label>
-              <input className="col-span-3 h-4 w-4" type="checkbox" checked={dryRun} onChange={(e) => setDryRun(e.target.checked)} />
+              <Label className="text-right">Delta only</Label>
+              <div className="col-span-3 flex items-center gap-2">
+                <input className="h-4 w-4" type="checkbox" checked={deltaMode} onChange={(e) => setDeltaMode(e.target.checked)} data-testid="checkbox-delta-mode" />
+                <span className="text-xs text-muted-foreground">Diff against the running configuration and send only the changes</span>
+              </div>
             </div>
+            {(applyMutation.isPending || consoleLines.length > 0) && (
+              <ApplyConsole lines={consoleLines} phases={consolePhases} running={applyMutation.isPending} />
+            )}
+            {lastDelta && (
+              <div className="rounded-md border border-border bg-muted/50 p-3" data-testid="apply-delta">
+                <p className="text-xs font-medium mb-2">
+                  {lastDelta.set.length + lastDelta.delete.length === 0
+                    ? 'No changes: the router already matches this configuration'
+                    : `${lastDelta.delete.length} delete, ${lastDelta.set.length} set`}
+                </p>
+                <pre className="max-h-[200px] overflow-auto text-xs font-mono leading-relaxed">
+                  {lastDelta.delete.map((line) => (
+                    <div key={line} className="text-destructive">{line}</div>
+                  ))}
+                  {lastDelta.set.map((line) => (
+                    <div key={line} className="text-success">{line}</div>
+                  ))}
+                </pre>
+              </div>
+            )}
           </div>
           <div className="flex justify-end gap-2">
-            <Button variant="outline" onClick={() => setApplyOpen(false)} disabled={applyMutation.isPending}>Cancel</Button>
-            {(!config.trim() || !routerHost || !routerUser) && (
-              <span className="text-xs text-muted-foreground mr-auto">
-                {!config.trim() ? 'Add at least one set/delete line' : !routerHost ? 'Enter Host' : !routerUser ? 'Enter Username' : ''}
-              </span>
+            <Button variant="outline" onClick={() => setApplyOpen(false)} disabled={applyMutation.isPending}>
+              {consoleLines.length > 0 ? "Close" : "Cancel"}
+            </Button>
+            {missing && (
+              <span className="text-xs text-muted-foreground mr-auto">{missing}</span>
             )}
-            <Button onClick={() => applyMutation.mutate()} disabled={applyMutation.isPending || !routerHost || !routerUser || !config.trim()}>
+            <Button onClick={() => applyMutation.mutate()} disabled={applyMutation.isPending || !!missing}>
               {applyMutation.isPending ? "Applying..." : "Apply"}
             </Button>
           </div>
         </DialogContent>
       </Dialog>
+
+      {hostKeyNode && <HostKeyPrompt node={hostKeyNode} open={hostKeyOpen} onOpenChange={setHostKeyOpen} />}
     </div>
   );
 }
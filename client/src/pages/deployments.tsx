@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { useSearch } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Rocket, Clock } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DRAFT_STORAGE_KEY } from "@/pages/config-diff";
+import { routerNodeProperties, type ChangeRequest, type Configuration, type CredentialSummary, type Deployment, type DeploymentReport, type DeploymentRequest, type TopologyNode } from "@shared/schema";
+
+const statusClass: Record<string, string> = {
+  succeeded: "bg-success/10 text-success border-success/20",
+  failed: "bg-destructive/10 text-destructive border-destructive/20",
+  halted: "bg-destructive/10 text-destructive border-destructive/20",
+  running: "bg-info/10 text-info border-info/20",
+  pending: "bg-muted/50 text-muted-foreground border-border",
+  skipped: "bg-muted/50 text-muted-foreground border-border",
+};
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant="outline" className={`text-xs capitalize ${statusClass[status] ?? ""}`}>
+      {status}
+    </Badge>
+  );
+}
+
+export default function DeploymentsPage() {
+  // The Changes page links here with ?changeRequest=<id>
+  const linkedChange = new URLSearchParams(useSearch()).get("changeRequest");
+  const [source, setSource] = useState(linkedChange ? `change:${linkedChange}` : "");
+  const [nodeIds, setNodeIds] = useState<string[]>([]);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [credentialId, setCredentialId] = useState("");
+  const [waveSize, setWaveSize] = useState("1");
+  const [concurrency, setConcurrency] = useState("1");
+  const [haltOnFailure, setHaltOnFailure] = useState(true);
+  const [deltaMode, setDeltaMode] = useState(false);
+  const [dryRun, setDryRun] = useState(false);
+  const { toast } = useToast();
+
+  const { data: configurations = [] } = useQuery<Configuration[]>({ queryKey: ["/api/configurations"] });
+  const { data: nodes = [] } = useQuery<TopologyNode[]>({ queryKey: ["/api/topology/nodes"] });
+  const { data: credentials = [] } = useQuery<CredentialSummary[]>({ queryKey: ["/api/credentials"] });
+  const { data: changeRequests = [] } = useQuery<ChangeRequest[]>({ queryKey: ["/api/change-requests"] });
+  const approvedChanges = changeRequests.filter((c) => c.status === "approved");
+  const { data: deployments = [] } = useQuery<Deployment[]>({
+    queryKey: ["/api/deployments"],
+    // Poll while a rollout is in progress
+    refetchInterval: (query) => (query.state.data?.some((d) => d.status === "running") ? 2000 : false),
+  });
+
+  const routers = nodes.filter((n) => n.type === "router");
+  const hasDraft = sessionStorage.getItem(DRAFT_STORAGE_KEY) !== null;
+  // An approved change request brings its configuration and routers along
+  const changeRequest = source.startsWith("change:")
+    ? approvedChanges.find((c) => `change:${c.id}` === source)
+    : undefined;
+  const targetIds = changeRequest
+    ? changeRequest.nodeIds.filter((id) => !changeRequest.appliedNodeIds.includes(id))
+    : nodeIds;
+  const configuration = changeRequest
+    ? changeRequest.configuration
+    : source === "draft"
+    ? sessionStorage.getItem(DRAFT_STORAGE_KEY) ?? ""
+    : configurations.find((c) => c.id === source)?.content ?? "";
+  // The shared credentials are only needed for routers reached over SSH
+  // without a stored credential of their own
+  const needsPassword = !credentialId && targetIds.some((id) => {
+    const props = routerNodeProperties(routers.find((n) => n.id === id));
+    return props.transport !== "http" && !props.ssh?.credentialId;
+  });
+
+  const deployMutation = useMutation({
+    mutationFn: async () => {
+      const payload: Partial<DeploymentRequest> = {
+        configuration,
+        nodeIds: targetIds,
+        changeRequestId: changeRequest?.id,
+        ...(credentialId
+          ? { credentialId }
+          : { username: username || undefined, password: password || undefined }),
+        waveSize: parseInt(waveSize, 10) || 1,
+        concurrency: parseInt(concurrency, 10) || 1,
+        haltOnFailure,
+        mode: deltaMode ? "delta" : "replay",
+        dryRun,
+      };
+      return apiRequest<Deployment>("POST", "/api/deployments", payload);
+    },
+    onSuccess: () => {
+      toast({ title: "Deployment started", description: `${targetIds.length} routers` });
+      queryClient.invalidateQueries({ queryKey: ["/api/deployments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/change-requests"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Deployment failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleNode = (id: string, checked: boolean) => {
+    setNodeIds((ids) => (checked ? [...ids, id] : ids.filter((n) => n !== id)));
+  };
+
+  return (
+    <div className="h-full p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold mb-2">Deployments</h1>
+        <p className="text-sm text-muted-foreground">
+          Roll a configuration out to several routers in waves, stopping when a wave fails
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="p-4 space-y-4 h-fit">
+          <div className="space-y-2">
+            <Label>Configuration</Label>
+            <select
+              className="h-9 w-full rounded-md border border-border bg-background px-3 text-sm"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              data-testid="select-deployment-config"
+            >
+              <option value="">Select a configuration…</option>
+              {hasDraft && <option value="draft">Editor draft</option>}
+              {configurations.map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+              {approvedChanges.length > 0 && (
+                <optgroup label="Approved changes">
+                  {approvedChanges.map((c) => (
+                    <option key={c.id} value={`change:${c.id}`}>{c.title}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Routers</Label>
+            {routers.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Add router nodes with access settings on the topology page</p>
+            ) : (
+              <div className="space-y-1" data-testid="deployment-routers">
+                {routers.map((node) => {
+                  const props = routerNodeProperties(node);
+                  const ssh = props.ssh ?? {};
+                  return (
+                    <label key={node.id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4"
+                        checked={targetIds.includes(node.id)}
+                        disabled={!ssh.host || !!changeRequest}
+                        onChange={(e) => toggleNode(node.id, e.target.checked)}
+                        data-testid={`checkbox-router-${node.id}`}
+                      />
+                      <span>{node.label}</span>
+                      <span className="text-xs font-mono text-muted-foreground">{ssh.host || "no host"}</span>
+                      {props.transport === "http" && (
+                        <Badge variant="outline" className="text-xs">HTTP API</Badge>
+                      )}
+                      {props.protected && (
+                        <Badge variant="outline" className="text-xs">protected</Badge>
+                      )}
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="col-span-2 space-y-1">
+              <Label className="text-xs">Login</Label>
+              <select
+                className="w-full h-9 rounded-md border border-border bg-background px-3 text-sm"
+                value={credentialId}
+                onChange={(e) => setCredentialId(e.target.value)}
+                data-testid="select-deployment-credential"
+              >
+                <option value="">Each router's stored credential, else the login below</option>
+                {credentials.map((credential) => (
+                  <option key={credential.id} value={credential.id}>
+                    {credential.name} ({credential.username})
+                  </option>
+                ))}
+              </select>
+            </div>
+            {!credentialId && (
+              <>
+                <div className="space-y-1">
+                  <Label className="text-xs">Username</Label>
+                  <Input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="from node" />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Password</Label>
+                  <Input type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+                </div>
+              </>
+            )}
+            <div className="space-y-1">
+              <Label className="text-xs">Wave size</Label>
+              <Input type="number" min={1} value={waveSize} onChange={(e) => setWaveSize(e.target.value)} data-testid="input-wave-size" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Concurrency</Label>
+              <Input type="number" min={1} max={20} value={concurrency} onChange={(e) => setConcurrency(e.target.value)} data-testid="input-concurrency" />
+            </div>
+          </div>
+
+          <div className="space-y-1 text-xs">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" className="h-4 w-4" checked={haltOnFailure} onChange={(e) => setHaltOnFailure(e.target.checked)} />
+              Halt when a wave fails
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" className="h-4 w-4" checked={deltaMode} onChange={(e) => setDeltaMode(e.target.checked)} />
+              Delta only
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" className="h-4 w-4" checked={dryRun} onChange={(e) => setDryRun(e.target.checked)} />
+              Dry run
+            </label>
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={() => deployMutation.mutate()}
+            disabled={!configuration.trim() || targetIds.length === 0 || (needsPassword && !password) || deployMutation.isPending}
+            data-testid="button-deploy"
+          >
+            <Rocket className="h-4 w-4 mr-2" />
+            {deployMutation.isPending ? "Starting..." : "Deploy"}
+          </Button>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-4">
+          {deployments.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-[400px] text-center">
+              <Rocket className="h-16 w-16 text-muted-foreground mb-4 opacity-20" />
+              <p className="text-sm text-muted-foreground">No deployments yet</p>
+            </div>
+          ) : (
+            deployments.map((deployment) => {
+              const report = deployment.report as DeploymentReport;
+              return (
+                <Card key={deployment.id} className="p-4 space-y-3" data-testid={`deployment-${deployment.id}`}>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <StatusBadge status={deployment.status} />
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Clock className="h-3 w-3" />
+                      {formatDistanceToNow(new Date(deployment.createdAt), { addSuffix: true })}
+                    </span>
+                    <span className="text-xs text-muted-foreground font-mono">{deployment.configHash.slice(0, 12)}</span>
+                    <div className="ml-auto flex gap-1">
+                      <Badge variant="outline" className="text-xs">{report.summary.succeeded} succeeded</Badge>
+                      <Badge variant="outline" className="text-xs">{report.summary.failed} failed</Badge>
+                      {report.summary.skipped > 0 && <Badge variant="outline" className="text-xs">{report.summary.skipped} skipped</Badge>}
+                    </div>
+                  </div>
+                  {report.waves.map((wave) => (
+                    <div key={wave.index} className="rounded-md border border-border">
+                      <div className="flex items-center gap-2 px-3 py-2 bg-muted/50 text-xs font-medium">
+                        Wave {wave.index}
+                        <StatusBadge status={wave.status} />
+                      </div>
+                      <div className="divide-y divide-border">
+                        {wave.routers.map((router) => (
+                          <details key={router.nodeId} className="px-3 py-2 text-sm">
+                            <summary className="flex items-center gap-2 cursor-pointer">
+                              <StatusBadge status={router.status} />
+                              <span>{router.label}</span>
+                              <span className="text-xs font-mono text-muted-foreground">{router.host}</span>
+                              {router.error && <span className="text-xs text-destructive truncate">{router.error}</span>}
+                            </summary>
+                            {router.errors?.map((e, i) => (
+                              <p key={i} className="mt-1 text-xs text-destructive">
+                                {e.line ? `Line ${e.line}: ` : ""}{e.message}
+                              </p>
+                            ))}
+                            <pre className="mt-2 max-h-[160px] overflow-auto rounded-md bg-muted/50 p-2 text-xs font-mono">
+                              {router.logs.join("\n") || "No output"}
+                            </pre>
+                          </details>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </Card>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
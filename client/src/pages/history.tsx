@@ -5,6 +5,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { History, CheckCircle2, XCircle, Clock, FileCode } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import type { IntentHistory } from "@shared/schema";
 
 export default function HistoryPage() {
@@ -88,6 +89,9 @@ export default function HistoryPage() {
                   <Button variant="outline" size="sm" className="flex-1" data-testid={`button-reuse-${item.id}`}>
                     Reuse Config
                   </Button>
+                  <Button variant="outline" size="sm" className="flex-1" asChild data-testid={`button-compare-${item.id}`}>
+                    <Link href={`/diff?left=history:${item.id}`}>Compare</Link>
+                  </Button>
                 </div>
               </div>
             </Card>
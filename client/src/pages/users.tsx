@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Trash2, Users } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { userRoles, type PublicUser, type UserInput, type UserRole } from "@shared/schema";
+
+const roleHelp: Record<UserRole, string> = {
+  viewer: "Read-only access",
+  operator: "Edit configurations and topology, apply to routers",
+  admin: "Also manage users, credentials, jump hosts, templates and host keys",
+};
+
+export default function UsersPage() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("viewer");
+  const { user: me } = useAuth();
+  const { toast } = useToast();
+
+  const { data: users = [] } = useQuery<PublicUser[]>({ queryKey: ["/api/users"] });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const payload: UserInput = { username, password, role };
+      return apiRequest<PublicUser>("POST", "/api/users", payload);
+    },
+    onSuccess: () => {
+      invalidate();
+      setUsername("");
+      setPassword("");
+      setRole("viewer");
+    },
+    onError: onError("Could not add user"),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) =>
+      apiRequest<PublicUser>("PATCH", `/api/users/${id}`, { role }),
+    onSuccess: invalidate,
+    onError: onError("Could not change role"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/users/${id}`, undefined),
+    onSuccess: invalidate,
+    onError: onError("Could not delete user"),
+  });
+
+  return (
+    <div className="h-full p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold mb-2">Users</h1>
+        <p className="text-sm text-muted-foreground">Accounts that can sign in, and what they may change</p>
+      </div>
+
+      <Card className="p-4 space-y-2" data-testid="user-list">
+        {users.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            <Users className="h-10 w-10 text-muted-foreground mb-3 opacity-30" />
+            <p className="text-sm text-muted-foreground">No users yet.</p>
+          </div>
+        ) : (
+          users.map((user) => (
+            <div key={user.id} className="flex items-center gap-3 rounded-md border border-border px-3 py-2 text-sm">
+              <span className="font-medium">{user.username}</span>
+              {user.id === me?.id && <Badge variant="outline" className="text-xs">you</Badge>}
+              <span className="text-xs text-muted-foreground">
+                added {formatDistanceToNow(new Date(user.createdAt), { addSuffix: true })}
+              </span>
+              <select
+                className="ml-auto h-8 rounded-md border border-border bg-background px-2 text-sm"
+                value={user.role}
+                onChange={(e) => roleMutation.mutate({ id: user.id, role: e.target.value as UserRole })}
+                data-testid={`select-user-role-${user.id}`}
+              >
+                {userRoles.map((r) => (
+                  <option key={r} value={r}>{r}</option>
+                ))}
+              </select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteMutation.mutate(user.id)}
+                disabled={user.id === me?.id}
+                data-testid={`button-delete-user-${user.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </Card>
+
+      <Card className="p-4 space-y-4">
+        <h2 className="text-sm font-semibold">Add user</h2>
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Username</Label>
+            <Input value={username} onChange={(e) => setUsername(e.target.value)} data-testid="input-new-username" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Password</Label>
+            <Input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="at least 8 characters" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Role</Label>
+            <select
+              className="w-full h-9 rounded-md border border-border bg-background px-3 text-sm"
+              value={role}
+              onChange={(e) => setRole(e.target.value as UserRole)}
+            >
+              {userRoles.map((r) => (
+                <option key={r} value={r}>{r}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">{roleHelp[role]}</p>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!username || password.length < 8 || createMutation.isPending}
+            data-testid="button-add-user"
+          >
+            Add User
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
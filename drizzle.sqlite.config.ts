@@ -0,0 +1,11 @@
+import { defineConfig } from "drizzle-kit";
+
+// Migrations for the SQLite storage backend (SQLITE_PATH)
+export default defineConfig({
+  out: "./migrations/sqlite",
+  schema: "./server/sqlite-schema.ts",
+  dialect: "sqlite",
+  dbCredentials: {
+    url: process.env.SQLITE_PATH || "./data/vyos.db",
+  },
+});
@@ -0,0 +1,153 @@
+CREATE TABLE "apply_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"requester" text NOT NULL,
+	"host" text NOT NULL,
+	"port" integer NOT NULL,
+	"node_id" varchar,
+	"mode" text NOT NULL,
+	"dry_run" boolean DEFAULT false NOT NULL,
+	"config_hash" text NOT NULL,
+	"status" text NOT NULL,
+	"phase" text,
+	"logs" text[] NOT NULL,
+	"result" jsonb,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "audit_events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"seq" integer NOT NULL,
+	"actor" text NOT NULL,
+	"action" text NOT NULL,
+	"target" text,
+	"summary" jsonb,
+	"outcome" text NOT NULL,
+	"status" integer,
+	"error" text,
+	"prev_hash" text NOT NULL,
+	"hash" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "audit_events_seq_unique" UNIQUE("seq")
+);
+--> statement-breakpoint
+CREATE TABLE "change_requests" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"title" text NOT NULL,
+	"justification" text NOT NULL,
+	"configuration" text NOT NULL,
+	"node_ids" text[] NOT NULL,
+	"diff" jsonb NOT NULL,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"requested_by" text NOT NULL,
+	"reviewed_by" text,
+	"review_comment" text,
+	"applied_node_ids" text[] NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"reviewed_at" timestamp,
+	"applied_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "configurations" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"content" text NOT NULL,
+	"type" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "credentials" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"username" text NOT NULL,
+	"kind" text NOT NULL,
+	"secret" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "deployments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"requester" text NOT NULL,
+	"config_hash" text NOT NULL,
+	"node_ids" text[] NOT NULL,
+	"status" text NOT NULL,
+	"report" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "intent_history" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"intent" text NOT NULL,
+	"generated_config" text NOT NULL,
+	"applied" text DEFAULT 'false' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "jump_hosts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"host" text NOT NULL,
+	"port" integer DEFAULT 22 NOT NULL,
+	"username" text NOT NULL,
+	"password" text,
+	"private_key" text,
+	"host_key" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "router_snapshots" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"node_id" varchar,
+	"host" text NOT NULL,
+	"job_id" varchar,
+	"content" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "templates" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text NOT NULL,
+	"category" text NOT NULL,
+	"icon" text NOT NULL,
+	"content" text NOT NULL,
+	"tags" text[]
+);
+--> statement-breakpoint
+CREATE TABLE "topology_connections" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source_id" varchar NOT NULL,
+	"target_id" varchar NOT NULL,
+	"label" text,
+	"protocol" text
+);
+--> statement-breakpoint
+CREATE TABLE "topology_nodes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"label" text NOT NULL,
+	"type" text NOT NULL,
+	"position" jsonb NOT NULL,
+	"properties" jsonb,
+	"config_id" varchar
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"role" text DEFAULT 'viewer' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "apply_jobs" ADD CONSTRAINT "apply_jobs_node_id_topology_nodes_id_fk" FOREIGN KEY ("node_id") REFERENCES "public"."topology_nodes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "router_snapshots" ADD CONSTRAINT "router_snapshots_node_id_topology_nodes_id_fk" FOREIGN KEY ("node_id") REFERENCES "public"."topology_nodes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "topology_connections" ADD CONSTRAINT "topology_connections_source_id_topology_nodes_id_fk" FOREIGN KEY ("source_id") REFERENCES "public"."topology_nodes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "topology_connections" ADD CONSTRAINT "topology_connections_target_id_topology_nodes_id_fk" FOREIGN KEY ("target_id") REFERENCES "public"."topology_nodes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "topology_nodes" ADD CONSTRAINT "topology_nodes_config_id_configurations_id_fk" FOREIGN KEY ("config_id") REFERENCES "public"."configurations"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
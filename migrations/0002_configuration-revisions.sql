@@ -0,0 +1,16 @@
+CREATE TABLE "configuration_revisions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"configuration_id" varchar NOT NULL,
+	"revision" integer NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"content" text NOT NULL,
+	"type" text NOT NULL,
+	"author" text NOT NULL,
+	"message" text NOT NULL,
+	"reverted_from" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "configuration_revisions_configuration_id_revision_unique" UNIQUE("configuration_id","revision")
+);
+--> statement-breakpoint
+ALTER TABLE "configuration_revisions" ADD CONSTRAINT "configuration_revisions_configuration_id_configurations_id_fk" FOREIGN KEY ("configuration_id") REFERENCES "public"."configurations"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,43 @@
+CREATE TABLE "workspaces" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "workspaces_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+-- Existing records move to the default workspace
+INSERT INTO "workspaces" ("id", "name", "description") VALUES ('default', 'Default', 'Everything created before workspaces');--> statement-breakpoint
+ALTER TABLE "apply_jobs" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "change_requests" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "configurations" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "credentials" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "deployments" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "intent_history" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "jump_hosts" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "router_snapshots" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "templates" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "topology_connections" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "topology_nodes" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "apply_jobs" ADD CONSTRAINT "apply_jobs_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "change_requests" ADD CONSTRAINT "change_requests_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "configurations" ADD CONSTRAINT "configurations_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credentials" ADD CONSTRAINT "credentials_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deployments" ADD CONSTRAINT "deployments_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "intent_history" ADD CONSTRAINT "intent_history_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "jump_hosts" ADD CONSTRAINT "jump_hosts_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "router_snapshots" ADD CONSTRAINT "router_snapshots_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "templates" ADD CONSTRAINT "templates_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "topology_connections" ADD CONSTRAINT "topology_connections_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "topology_nodes" ADD CONSTRAINT "topology_nodes_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "apply_jobs" ALTER COLUMN "workspace_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "change_requests" ALTER COLUMN "workspace_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "configurations" ALTER COLUMN "workspace_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "credentials" ALTER COLUMN "workspace_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "deployments" ALTER COLUMN "workspace_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "intent_history" ALTER COLUMN "workspace_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "jump_hosts" ALTER COLUMN "workspace_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "router_snapshots" ALTER COLUMN "workspace_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "templates" ALTER COLUMN "workspace_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "topology_connections" ALTER COLUMN "workspace_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "topology_nodes" ALTER COLUMN "workspace_id" DROP DEFAULT;
\ No newline at end of file
@@ -0,0 +1,153 @@
+CREATE TABLE `apply_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`requester` text NOT NULL,
+	`host` text NOT NULL,
+	`port` integer NOT NULL,
+	`node_id` text,
+	`mode` text NOT NULL,
+	`dry_run` integer DEFAULT false NOT NULL,
+	`config_hash` text NOT NULL,
+	`status` text NOT NULL,
+	`phase` text,
+	`logs` text NOT NULL,
+	`result` text,
+	`error` text,
+	`created_at` integer DEFAULT (cast(unixepoch('subsec') * 1000 as integer)) NOT NULL,
+	`started_at` integer,
+	`finished_at` integer,
+	FOREIGN KEY (`node_id`) REFERENCES `topology_nodes`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `audit_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`seq` integer NOT NULL,
+	`actor` text NOT NULL,
+	`action` text NOT NULL,
+	`target` text,
+	`summary` text,
+	`outcome` text NOT NULL,
+	`status` integer,
+	`error` text,
+	`prev_hash` text NOT NULL,
+	`hash` text NOT NULL,
+	`created_at` integer DEFAULT (cast(unixepoch('subsec') * 1000 as integer)) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `audit_events_seq_unique` ON `audit_events` (`seq`);--> statement-breakpoint
+CREATE TABLE `change_requests` (
+	`id` text PRIMARY KEY NOT NULL,
+	`title` text NOT NULL,
+	`justification` text NOT NULL,
+	`configuration` text NOT NULL,
+	`node_ids` text NOT NULL,
+	`diff` text NOT NULL,
+	`status` text DEFAULT 'draft' NOT NULL,
+	`requested_by` text NOT NULL,
+	`reviewed_by` text,
+	`review_comment` text,
+	`applied_node_ids` text NOT NULL,
+	`created_at` integer DEFAULT (cast(unixepoch('subsec') * 1000 as integer)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(unixepoch('subsec') * 1000 as integer)) NOT NULL,
+	`reviewed_at` integer,
+	`applied_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `configurations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`content` text NOT NULL,
+	`type` text NOT NULL,
+	`created_at` integer DEFAULT (cast(unixepoch('subsec') * 1000 as integer)) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `credentials` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`username` text NOT NULL,
+	`kind` text NOT NULL,
+	`secret` text NOT NULL,
+	`created_at` integer DEFAULT (cast(unixepoch('subsec') * 1000 as integer)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(unixepoch('subsec') * 1000 as integer)) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `deployments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`requester` text NOT NULL,
+	`config_hash` text NOT NULL,
+	`node_ids` text NOT NULL,
+	`status` text NOT NULL,
+	`report` text NOT NULL,
+	`created_at` integer DEFAULT (cast(unixepoch('subsec') * 1000 as integer)) NOT NULL,
+	`finished_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `intent_history` (
+	`id` text PRIMARY KEY NOT NULL,
+	`intent` text NOT NULL,
+	`generated_config` text NOT NULL,
+	`applied` text DEFAULT 'false' NOT NULL,
+	`created_at` integer DEFAULT (cast(unixepoch('subsec') * 1000 as integer)) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `jump_hosts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`host` text NOT NULL,
+	`port` integer DEFAULT 22 NOT NULL,
+	`username` text NOT NULL,
+	`password` text,
+	`private_key` text,
+	`host_key` text,
+	`created_at` integer DEFAULT (cast(unixepoch('subsec') * 1000 as integer)) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `router_snapshots` (
+	`id` text PRIMARY KEY NOT NULL,
+	`node_id` text,
+	`host` text NOT NULL,
+	`job_id` text,
+	`content` text NOT NULL,
+	`created_at` integer DEFAULT (cast(unixepoch('subsec') * 1000 as integer)) NOT NULL,
+	FOREIGN KEY (`node_id`) REFERENCES `topology_nodes`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `templates` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text NOT NULL,
+	`category` text NOT NULL,
+	`icon` text NOT NULL,
+	`content` text NOT NULL,
+	`tags` text
+);
+--> statement-breakpoint
+CREATE TABLE `topology_connections` (
+	`id` text PRIMARY KEY NOT NULL,
+	`source_id` text NOT NULL,
+	`target_id` text NOT NULL,
+	`label` text,
+	`protocol` text,
+	FOREIGN KEY (`source_id`) REFERENCES `topology_nodes`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`target_id`) REFERENCES `topology_nodes`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `topology_nodes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`label` text NOT NULL,
+	`type` text NOT NULL,
+	`position` text NOT NULL,
+	`properties` text,
+	`config_id` text,
+	FOREIGN KEY (`config_id`) REFERENCES `configurations`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` text PRIMARY KEY NOT NULL,
+	`username` text NOT NULL,
+	`password` text NOT NULL,
+	`role` text DEFAULT 'viewer' NOT NULL,
+	`created_at` integer DEFAULT (cast(unixepoch('subsec') * 1000 as integer)) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);
\ No newline at end of file
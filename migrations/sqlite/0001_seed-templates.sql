@@ -0,0 +1,28 @@
+-- Built-in configuration templates
+INSERT INTO `templates` (`id`, `name`, `description`, `category`, `icon`, `tags`, `content`) VALUES
+(
+	lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-a' || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6))),
+	'Basic Firewall Rules',
+	'Essential firewall configuration with allow/deny rules for common services',
+	'firewall',
+	'shield',
+	'["security","firewall","basic"]',
+	'set firewall name WAN_LOCAL default-action ''drop''
+set firewall name WAN_LOCAL rule 10 action ''accept''
+set firewall name WAN_LOCAL rule 10 state established ''enable''
+set firewall name WAN_LOCAL rule 10 state related ''enable''
+set firewall name WAN_LOCAL rule 20 action ''drop''
+set firewall name WAN_LOCAL rule 20 state invalid ''enable'''
+),
+(
+	lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-a' || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6))),
+	'Site-to-Site VPN',
+	'IPsec VPN tunnel configuration for secure site-to-site connectivity',
+	'vpn',
+	'lock',
+	'["vpn","ipsec","security"]',
+	'set vpn ipsec ike-group IKE-SITE lifetime ''28800''
+set vpn ipsec ike-group IKE-SITE proposal 1 dh-group ''14''
+set vpn ipsec ike-group IKE-SITE proposal 1 encryption ''aes256''
+set vpn ipsec ike-group IKE-SITE proposal 1 hash ''sha256'''
+);
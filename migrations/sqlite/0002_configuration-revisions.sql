@@ -0,0 +1,16 @@
+CREATE TABLE `configuration_revisions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`configuration_id` text NOT NULL,
+	`revision` integer NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`content` text NOT NULL,
+	`type` text NOT NULL,
+	`author` text NOT NULL,
+	`message` text NOT NULL,
+	`reverted_from` integer,
+	`created_at` integer DEFAULT (cast(unixepoch('subsec') * 1000 as integer)) NOT NULL,
+	FOREIGN KEY (`configuration_id`) REFERENCES `configurations`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `configuration_revisions_configuration_id_revision_unique` ON `configuration_revisions` (`configuration_id`,`revision`);
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `workspaces` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`created_at` integer DEFAULT (cast(unixepoch('subsec') * 1000 as integer)) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `workspaces_name_unique` ON `workspaces` (`name`);--> statement-breakpoint
+-- Existing records move to the default workspace
+INSERT INTO `workspaces` (`id`, `name`, `description`) VALUES ('default', 'Default', 'Everything created before workspaces');--> statement-breakpoint
+-- SQLite cannot drop the default again; storage always sets workspace_id
+ALTER TABLE `apply_jobs` ADD `workspace_id` text DEFAULT 'default' NOT NULL REFERENCES workspaces(id) ON DELETE cascade;--> statement-breakpoint
+ALTER TABLE `change_requests` ADD `workspace_id` text DEFAULT 'default' NOT NULL REFERENCES workspaces(id) ON DELETE cascade;--> statement-breakpoint
+ALTER TABLE `configurations` ADD `workspace_id` text DEFAULT 'default' NOT NULL REFERENCES workspaces(id) ON DELETE cascade;--> statement-breakpoint
+ALTER TABLE `credentials` ADD `workspace_id` text DEFAULT 'default' NOT NULL REFERENCES workspaces(id) ON DELETE cascade;--> statement-breakpoint
+ALTER TABLE `deployments` ADD `workspace_id` text DEFAULT 'default' NOT NULL REFERENCES workspaces(id) ON DELETE cascade;--> statement-breakpoint
+ALTER TABLE `intent_history` ADD `workspace_id` text DEFAULT 'default' NOT NULL REFERENCES workspaces(id) ON DELETE cascade;--> statement-breakpoint
+ALTER TABLE `jump_hosts` ADD `workspace_id` text DEFAULT 'default' NOT NULL REFERENCES workspaces(id) ON DELETE cascade;--> statement-breakpoint
+ALTER TABLE `router_snapshots` ADD `workspace_id` text DEFAULT 'default' NOT NULL REFERENCES workspaces(id) ON DELETE cascade;--> statement-breakpoint
+ALTER TABLE `templates` ADD `workspace_id` text DEFAULT 'default' NOT NULL REFERENCES workspaces(id) ON DELETE cascade;--> statement-breakpoint
+ALTER TABLE `topology_connections` ADD `workspace_id` text DEFAULT 'default' NOT NULL REFERENCES workspaces(id) ON DELETE cascade;--> statement-breakpoint
+ALTER TABLE `topology_nodes` ADD `workspace_id` text DEFAULT 'default' NOT NULL REFERENCES workspaces(id) ON DELETE cascade;
\ No newline at end of file
@@ -0,0 +1,227 @@
+import { EventEmitter } from "events";
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { routerNodesAt } from "./host-keys";
+import type { ApplyJob, ApplyJobEvent, ApplyPhase, RouterApplyRequest, RouterApplyResponse } from "@shared/schema";
+
+// Apply job queue. Every apply is recorded through storage; applies to the
+// same router run one after the other so their configure sessions never
+// overlap. Live events are kept in memory for streaming.
+
+// Finished jobs stay in memory long enough for a client to (re)connect;
+// after that their events are replayed from storage
+const RETENTION_MS = 15 * 60 * 1000;
+
+export interface ApplyJobContext {
+  id: string;
+  log: (line: string) => void;
+  phase: (phase: ApplyPhase) => void;
+}
+
+type ApplyRunner = (context: ApplyJobContext) => Promise<RouterApplyResponse>;
+
+interface LiveJob {
+  id: string;
+  workspaceId: string;
+  router: string;
+  run: ApplyRunner;
+  emitter: EventEmitter;
+  events: ApplyJobEvent[];
+  logs: string[];
+  finished: boolean;
+  result?: RouterApplyResponse;
+  error?: Error;
+  done: Promise<void>;
+  settle: () => void;
+}
+
+const live = new Map<string, LiveJob>();
+// Job ids per router in arrival order; the first one is running
+const queues = new Map<string, string[]>();
+
+// The lock a job takes: the router node at its address, so that aliases of
+// one router and its SSH and HTTP jobs queue together; host and port for
+// routers without a node
+async function routerKey(workspaceId: string, request: RouterApplyRequest): Promise<string> {
+  const [first] = (await routerNodesAt(workspaceId, request)).map((n) => n.id).sort();
+  return first ? `node:${first}` : `${request.host.toLowerCase()}:${request.port ?? 22}`;
+}
+
+function emit(job: LiveJob, event: ApplyJobEvent) {
+  job.events.push(event);
+  job.emitter.emit('event', event);
+}
+
+async function finish(job: LiveJob, status: 'succeeded' | 'failed' | 'cancelled', outcome: { result?: RouterApplyResponse; error?: Error }) {
+  job.finished = true;
+  job.result = outcome.result;
+  job.error = outcome.error;
+  await storage.updateApplyJob(job.workspaceId, job.id, {
+    status,
+    logs: [...job.logs],
+    result: outcome.result ?? null,
+    error: outcome.error?.message ?? null,
+    finishedAt: new Date(),
+  });
+  emit(job, outcome.result ? { type: 'result', result: outcome.result } : { type: 'error', error: outcome.error?.message ?? status });
+  job.emitter.removeAllListeners();
+  job.settle();
+  setTimeout(() => live.delete(job.id), RETENTION_MS).unref();
+}
+
+async function start(job: LiveJob) {
+  const context: ApplyJobContext = {
+    id: job.id,
+    log: (line) => {
+      job.logs.push(line);
+      emit(job, { type: 'log', line });
+    },
+    phase: (phase) => {
+      emit(job, { type: 'phase', phase });
+      storage.updateApplyJob(job.workspaceId, job.id, { phase, logs: [...job.logs] })
+        .catch((error) => log(`Apply job ${job.id}: phase not recorded: ${error.message}`, "apply"));
+    },
+  };
+
+  try {
+    await storage.updateApplyJob(job.workspaceId, job.id, { status: 'running', startedAt: new Date() });
+    const result = await job.run(context);
+    await finish(job, 'succeeded', { result });
+  } catch (error) {
+    await finish(job, 'failed', { error: error as Error });
+  } finally {
+    next(job.router);
+  }
+}
+
+// Run the job, settling it even when storage fails to record its end
+function launch(job: LiveJob) {
+  start(job).catch((error) => {
+    log(`Apply job ${job.id}: outcome not recorded: ${error.message}`, "apply");
+    job.settle();
+  });
+}
+
+function next(router: string) {
+  const queue = queues.get(router) ?? [];
+  queue.shift();
+  const following = queue.length > 0 ? live.get(queue[0]) : undefined;
+  if (following) launch(following);
+  else queues.delete(router);
+}
+
+// Record a job and run it as soon as the router is free
+export async function enqueueApplyJob(workspaceId: string, request: RouterApplyRequest, requester: string, run: ApplyRunner): Promise<ApplyJob> {
+  const { host, port = 22, nodeId, mode = 'replay', dryRun = false, configuration } = request;
+  const router = await routerKey(workspaceId, request);
+  const record = await storage.createApplyJob(workspaceId, {
+    requester,
+    host,
+    port,
+    nodeId,
+    mode,
+    dryRun,
+    configHash: createHash('sha256').update(configuration).digest('hex'),
+    status: 'queued',
+    logs: [],
+  });
+
+  let settle = () => {};
+  const done = new Promise<void>((resolve) => (settle = resolve));
+  const job: LiveJob = {
+    id: record.id,
+    workspaceId,
+    router,
+    run,
+    emitter: new EventEmitter(),
+    events: [],
+    logs: [],
+    finished: false,
+    done,
+    settle,
+  };
+  live.set(job.id, job);
+
+  const queue = queues.get(job.router) ?? [];
+  queue.push(job.id);
+  queues.set(job.router, queue);
+  if (queue.length === 1) {
+    launch(job);
+  } else {
+    const line = `Waiting for ${queue.length - 1} earlier ${queue.length === 2 ? 'job' : 'jobs'} on ${host}:${port}`;
+    job.logs.push(line);
+    emit(job, { type: 'log', line });
+  }
+  return record;
+}
+
+// Jobs a previous server process left queued or running can never finish;
+// close them as failed. Run once at startup, before any job is enqueued.
+export async function recoverInterruptedJobs(): Promise<number> {
+  const interrupted: ApplyJob[] = [];
+  for (const workspace of await storage.getAllWorkspaces()) {
+    interrupted.push(
+      ...(await storage.getApplyJobs(workspace.id, { status: 'queued' })),
+      ...(await storage.getApplyJobs(workspace.id, { status: 'running' })),
+    );
+  }
+  const stale = interrupted.filter((job) => !live.has(job.id));
+  for (const job of stale) {
+    await storage.updateApplyJob(job.workspaceId, job.id, {
+      status: 'failed',
+      error: `Interrupted by a server restart while ${job.status}`,
+      finishedAt: new Date(),
+    });
+  }
+  return stale.length;
+}
+
+// Resolves once the job has finished; undefined for unknown or evicted jobs
+export async function waitForApplyJob(id: string): Promise<{ result?: RouterApplyResponse; error?: Error } | undefined> {
+  const job = live.get(id);
+  if (!job) return undefined;
+  await job.done;
+  return { result: job.result, error: job.error };
+}
+
+// Only queued jobs can be cancelled: a running configure session is never
+// interrupted halfway
+export async function cancelApplyJob(workspaceId: string, id: string): Promise<ApplyJob | undefined> {
+  const record = await storage.getApplyJob(workspaceId, id);
+  if (!record) return undefined;
+  if (record.status !== 'queued') {
+    throw Object.assign(new Error(`Job is ${record.status} and can no longer be cancelled`), { status: 409 });
+  }
+
+  const job = live.get(id);
+  if (!job) {
+    return storage.updateApplyJob(workspaceId, id, { status: 'cancelled', finishedAt: new Date() });
+  }
+  const queue = queues.get(job.router) ?? [];
+  if (queue[0] === id) {
+    throw Object.assign(new Error('Job is starting and can no longer be cancelled'), { status: 409 });
+  }
+  queue.splice(queue.indexOf(id), 1);
+  await finish(job, 'cancelled', { error: new Error('Cancelled before it started') });
+  return storage.getApplyJob(workspaceId, id);
+}
+
+// Replay the job's events so far, then forward new ones until it ends.
+// Returns the unsubscribe function, or undefined for unknown jobs.
+export async function subscribeApplyJob(workspaceId: string, id: string, listener: (event: ApplyJobEvent) => void): Promise<(() => void) | undefined> {
+  const job = live.get(id);
+  if (job?.workspaceId === workspaceId) {
+    job.events.forEach(listener);
+    if (job.finished) return () => {};
+    job.emitter.on('event', listener);
+    return () => job.emitter.off('event', listener);
+  }
+
+  const record = await storage.getApplyJob(workspaceId, id);
+  if (!record) return undefined;
+  record.logs.forEach((line) => listener({ type: 'log', line }));
+  if (record.result) listener({ type: 'result', result: record.result as RouterApplyResponse });
+  else if (record.status !== 'queued' && record.status !== 'running') listener({ type: 'error', error: record.error ?? record.status });
+  return () => {};
+}
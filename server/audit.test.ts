@@ -0,0 +1,37 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { redact } from "./audit";
+
+describe("redact", () => {
+  it("drops secrets at any depth", () => {
+    assert.deepEqual(redact({
+      username: "vyos",
+      password: "hunter2",
+      credential: { privateKey: "-----BEGIN", apiKey: "k" },
+      jumpHosts: [{ host: "bastion", secret: "s" }],
+    }), {
+      username: "vyos",
+      password: "[redacted]",
+      credential: { privateKey: "[redacted]", apiKey: "[redacted]" },
+      jumpHosts: [{ host: "bastion", secret: "[redacted]" }],
+    });
+  });
+
+  it("drops the API key of a router node but keeps other keys", () => {
+    const summary = redact({
+      label: "edge",
+      properties: { transport: "http", api: { key: "topsecret", url: "https://192.0.2.1" }, ssh: { hostKey: { fingerprint: "SHA256:x" } } },
+      key: "sort-order",
+    });
+    assert.deepEqual(summary, {
+      label: "edge",
+      properties: { transport: "http", api: { key: "[redacted]", url: "https://192.0.2.1" }, ssh: { hostKey: { fingerprint: "SHA256:x" } } },
+      key: "sort-order",
+    });
+  });
+
+  it("records configuration text as its size and hash", () => {
+    const summary = redact({ configuration: "set system host-name 'edge'" }) as { configuration: string };
+    assert.match(summary.configuration, /^\[27 chars, sha256 [0-9a-f]{16}\]$/);
+  });
+});
@@ -0,0 +1,151 @@
+import type { NextFunction, Request, Response } from "express";
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { log } from "./vite";
+import type { AuditChainStatus, AuditEvent, AuditOutcome } from "@shared/schema";
+
+// Audit trail of every mutating API call, plus the outcome of each router
+// apply. Events are appended one at a time so each can be chained to the
+// hash of the one before it.
+
+const GENESIS = "0".repeat(64);
+
+// Request fields never recorded, and configuration text that is recorded as
+// its size and hash only (it can carry router secrets too). A bare `key` is
+// secret below `api` (`properties.api.key` of router nodes).
+const SECRET_KEY = /pass(word)?|secret|private.?key|api.?key|token/i;
+const SECRET_UNDER: Record<string, RegExp> = { api: /^key$/i };
+const CONFIG_KEY = /^(configuration|content|generatedConfig)$/;
+const MAX_STRING = 200;
+
+export function redact(value: unknown, key = "", parent = ""): unknown {
+  if (value === null || value === undefined) return value;
+  if (SECRET_KEY.test(key) || SECRET_UNDER[parent.toLowerCase()]?.test(key)) return "[redacted]";
+  if (typeof value === "string") {
+    if (CONFIG_KEY.test(key) || value.length > MAX_STRING) {
+      return `[${value.length} chars, sha256 ${createHash("sha256").update(value).digest("hex").slice(0, 16)}]`;
+    }
+    return value;
+  }
+  if (Array.isArray(value)) return value.map((item) => redact(item, key, parent));
+  if (typeof value === "object") {
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, redact(v, k, key)]));
+  }
+  return value;
+}
+
+// JSON with object keys sorted, so the hash does not depend on key order
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => v !== undefined);
+    return `{${entries.sort(([a], [b]) => (a < b ? -1 : 1)).map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function hashEvent(event: Omit<AuditEvent, "id" | "hash">): string {
+  const { seq, actor, action, target, summary, outcome, status, error, prevHash, createdAt } = event;
+  return createHash("sha256")
+    .update(canonical({ seq, actor, action, target, summary, outcome, status, error, prevHash, createdAt: createdAt.toISOString() }))
+    .digest("hex");
+}
+
+interface AuditRecord {
+  actor: string;
+  action: string;
+  target?: string | null;
+  summary?: unknown;
+  outcome: AuditOutcome;
+  status?: number;
+  error?: string | null;
+}
+
+let tail: Promise<unknown> = Promise.resolve();
+
+export function recordAudit(record: AuditRecord): Promise<AuditEvent> {
+  const append = tail.then(async () => {
+    const last = await storage.getLastAuditEvent();
+    const event = {
+      seq: (last?.seq ?? 0) + 1,
+      actor: record.actor,
+      action: record.action,
+      target: record.target ?? null,
+      summary: record.summary ?? null,
+      outcome: record.outcome,
+      status: record.status ?? null,
+      error: record.error ?? null,
+      prevHash: last?.hash ?? GENESIS,
+      createdAt: new Date(),
+    };
+    return storage.appendAuditEvent({ ...event, hash: hashEvent(event) });
+  });
+  tail = append.catch(() => undefined);
+  return append;
+}
+
+// Record without waiting; a storage failure is logged instead of thrown
+export function noteAudit(record: AuditRecord) {
+  recordAudit(record).catch((error) => log(`Audit event ${record.action} not recorded: ${error.message}`, "audit"));
+}
+
+// Walk the chain from the first event
+export async function verifyAuditChain(): Promise<AuditChainStatus> {
+  const events = (await storage.getAuditEvents({})).reverse();
+  let prevHash = GENESIS;
+  for (const event of events) {
+    if (event.prevHash !== prevHash || hashEvent(event) !== event.hash) {
+      return { ok: false, events: events.length, brokenAt: event.seq };
+    }
+    prevHash = event.hash;
+  }
+  return { ok: true, events: events.length };
+}
+
+// Ids in paths are collapsed so the same call always has the same action
+function actionOf(req: Request): string {
+  const path = req.originalUrl.split("?")[0].replace(/\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(?=\/|$)/gi, "/:id");
+  return `${req.method} ${path}`;
+}
+
+// The router addressed, or the record changed; created records by their new id
+function targetOf(req: Request, res: Response, body: any): string {
+  const input = req.body || {};
+  if (typeof input.host === "string" && input.host) return `${input.host}:${input.port || 22}`;
+  const path = req.originalUrl.split("?")[0];
+  return res.statusCode === 201 && typeof body?.id === "string" ? `${path}/${body.id}` : path;
+}
+
+function outcomeOf(status: number): AuditOutcome {
+  if (status === 401 || status === 403) return "denied";
+  return status < 400 ? "success" : "failure";
+}
+
+// Records POST, PATCH, PUT and DELETE calls under /api once they are answered
+export function auditTrail(req: Request, res: Response, next: NextFunction) {
+  if (!req.originalUrl.startsWith("/api/") || req.method === "GET" || req.method === "HEAD" || req.originalUrl.startsWith("/api/logout")) {
+    return next();
+  }
+
+  let body: any;
+  const json = res.json;
+  res.json = function (payload, ...args) {
+    body = payload;
+    return json.apply(res, [payload, ...args]);
+  };
+
+  res.on("finish", () => {
+    const status = res.statusCode;
+    noteAudit({
+      actor: req.user?.username ?? (typeof req.body?.username === "string" && req.originalUrl.startsWith("/api/login") ? req.body.username : "anonymous"),
+      action: actionOf(req),
+      target: targetOf(req, res, body),
+      summary: redact(req.body ?? null),
+      outcome: outcomeOf(status),
+      status,
+      error: status >= 400 ? body?.error ?? body?.message ?? null : null,
+    });
+  });
+
+  next();
+}
@@ -0,0 +1,141 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { loginRequestSchema, userRoles, type PublicUser, type User as StoredUser, type UserRole } from "@shared/schema";
+
+// Session login for the UI and API. Passwords are scrypt hashes; sessions
+// live in memory and name the user id, so role changes and deleted accounts
+// take effect on the next request.
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// <hash>.<salt>, hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function passwordMatches(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const supplied = (await scryptAsync(password, salt, 64)) as Buffer;
+  const expected = Buffer.from(hash, "hex");
+  return expected.length === supplied.length && timingSafeEqual(expected, supplied);
+}
+
+export function publicUser(user: StoredUser): PublicUser {
+  const { password, ...rest } = user;
+  return rest;
+}
+
+export function hasRole(user: { role: string } | undefined, role: UserRole): boolean {
+  return !!user && userRoles.indexOf(user.role as UserRole) >= userRoles.indexOf(role);
+}
+
+// 401 without a session, 403 when the user's role is below `role`
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Sign in required' });
+    }
+    if (!hasRole(req.user, role)) {
+      return res.status(403).json({ error: `Requires the ${role} role` });
+    }
+    next();
+  };
+}
+
+// With no accounts yet, create the first admin from ADMIN_USERNAME and
+// ADMIN_PASSWORD, generating a password when none is set
+async function ensureAdminAccount() {
+  const users = await storage.getAllUsers();
+  if (users.length > 0) return;
+  const username = process.env.ADMIN_USERNAME || "admin";
+  const password = process.env.ADMIN_PASSWORD || randomBytes(9).toString("base64url");
+  await storage.createUser({ username, password: await hashPassword(password), role: "admin" });
+  log(process.env.ADMIN_PASSWORD
+    ? `created admin account ${username}`
+    : `created admin account ${username} with password ${password}; set ADMIN_PASSWORD to choose it`, "auth");
+}
+
+export async function setupAuth(app: Express) {
+  const MemoryStore = createMemoryStore(session);
+  const secret = process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+  if (!process.env.SESSION_SECRET) {
+    log("SESSION_SECRET is not set; sessions end when the server restarts", "auth");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+    cookie: { httpOnly: true, sameSite: "lax", secure: "auto", maxAge: 12 * 60 * 60 * 1000 },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await passwordMatches(password, user.password))) return done(null, false);
+      done(null, publicUser(user));
+    } catch (error) {
+      done(error);
+    }
+  }));
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? publicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  await ensureAdminAccount();
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+    passport.authenticate("local", (error: any, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) return res.status(401).json({ error: 'Invalid username or password' });
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => res.status(204).send());
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Sign in required' });
+    }
+    res.json(req.user);
+  });
+}
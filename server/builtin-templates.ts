@@ -0,0 +1,30 @@
+import type { InsertTemplate } from "@shared/schema";
+
+// The templates every workspace starts with. The default workspace got them
+// from the seed migration; keep the two in step.
+export const builtinTemplates: InsertTemplate[] = [
+  {
+    name: 'Basic Firewall Rules',
+    description: 'Essential firewall configuration with allow/deny rules for common services',
+    category: 'firewall',
+    icon: 'shield',
+    tags: ['security', 'firewall', 'basic'],
+    content: `set firewall name WAN_LOCAL default-action 'drop'
+set firewall name WAN_LOCAL rule 10 action 'accept'
+set firewall name WAN_LOCAL rule 10 state established 'enable'
+set firewall name WAN_LOCAL rule 10 state related 'enable'
+set firewall name WAN_LOCAL rule 20 action 'drop'
+set firewall name WAN_LOCAL rule 20 state invalid 'enable'`
+  },
+  {
+    name: 'Site-to-Site VPN',
+    description: 'IPsec VPN tunnel configuration for secure site-to-site connectivity',
+    category: 'vpn',
+    icon: 'lock',
+    tags: ['vpn', 'ipsec', 'security'],
+    content: `set vpn ipsec ike-group IKE-SITE lifetime '28800'
+set vpn ipsec ike-group IKE-SITE proposal 1 dh-group '14'
+set vpn ipsec ike-group IKE-SITE proposal 1 encryption 'aes256'
+set vpn ipsec ike-group IKE-SITE proposal 1 hash 'sha256'`
+  },
+];
@@ -0,0 +1,84 @@
+import { storage } from "./storage";
+import { computeDelta } from "./config-diff";
+import { routerNodesAt } from "./host-keys";
+import { routerNodeProperties, type ChangeRequestDiff, type RouterNodeProperties, type TopologyNode } from "@shared/schema";
+
+// Change approval. A router node marked protected (`properties.protected`)
+// only takes configuration an approved change request covers: the same
+// configuration, a target list naming the router, and an approval from
+// someone other than the author. Dry runs are always allowed.
+
+export function isProtected(node: TopologyNode | undefined): node is TopologyNode {
+  return !!node && !!routerNodeProperties(node).protected;
+}
+
+// Throws 403 when node properties point at the address of another, protected
+// router node: applies through the second node would reach the same router
+export async function assertNotProtectedAddress(workspaceId: string, properties: RouterNodeProperties | null, exceptId?: string) {
+  if (!properties?.ssh?.host && !properties?.api?.url) return;
+  const target = { host: properties.ssh?.host ?? '', port: properties.ssh?.port, transport: properties.transport, apiUrl: properties.api?.url };
+  const guarded = (await routerNodesAt(workspaceId, target)).find((n) => n.id !== exceptId && isProtected(n));
+  if (guarded) {
+    throw Object.assign(new Error(`${guarded.label} at this address is protected; only admins can add or point nodes at it`), { status: 403 });
+  }
+}
+
+function sameConfiguration(a: string, b: string): boolean {
+  const lines = (text: string) => text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean).join("\n");
+  return lines(a) === lines(b);
+}
+
+// What the configuration changes on each target router, against the latest
+// snapshot of its running configuration, as a delta apply would send it
+export async function computeChangeDiff(workspaceId: string, configuration: string, nodeIds: string[]): Promise<ChangeRequestDiff[]> {
+  const diffs: ChangeRequestDiff[] = [];
+  for (const nodeId of Array.from(new Set(nodeIds))) {
+    const node = await storage.getTopologyNode(workspaceId, nodeId);
+    if (!node || node.type !== 'router') {
+      throw Object.assign(new Error(`Router node ${nodeId} not found`), { status: 400 });
+    }
+    const [baseline] = await storage.getRouterSnapshots(workspaceId, { nodeId });
+    diffs.push({
+      nodeId,
+      label: node.label,
+      baselineSnapshotId: baseline?.id,
+      baselineTakenAt: baseline?.createdAt.toISOString(),
+      delta: computeDelta(baseline?.content ?? '', configuration),
+    });
+  }
+  return diffs;
+}
+
+// Throws 403 unless the configuration may be applied to the router
+export async function assertChangeApproved(
+  target: { configuration: string; dryRun?: boolean; changeRequestId?: string },
+  node: TopologyNode | undefined,
+) {
+  if (target.dryRun || !isProtected(node)) return;
+  const refuse = (reason: string): never => {
+    throw Object.assign(new Error(`${node.label} is protected: ${reason}`), { status: 403, code: 'change-request-required' });
+  };
+
+  if (!target.changeRequestId) refuse('applying requires an approved change request');
+  const changeRequest = await storage.getChangeRequest(node.workspaceId, target.changeRequestId!);
+  if (!changeRequest) return refuse(`change request ${target.changeRequestId} not found`);
+  if (changeRequest.status !== 'approved') refuse(`change request "${changeRequest.title}" is ${changeRequest.status}, not approved`);
+  if (!changeRequest.nodeIds.includes(node.id)) refuse(`change request "${changeRequest.title}" does not target it`);
+  if (changeRequest.appliedNodeIds.includes(node.id)) refuse(`change request "${changeRequest.title}" was already applied to it`);
+  if (!sameConfiguration(changeRequest.configuration, target.configuration)) {
+    refuse(`the configuration differs from the one approved in "${changeRequest.title}"`);
+  }
+}
+
+// Note a successful apply under the change request; once every target router
+// has it, the request is applied
+export async function recordChangeApplied(workspaceId: string, changeRequestId: string, nodeId: string) {
+  const changeRequest = await storage.getChangeRequest(workspaceId, changeRequestId);
+  if (!changeRequest || changeRequest.status !== 'approved' || !changeRequest.nodeIds.includes(nodeId)) return;
+  const appliedNodeIds = Array.from(new Set([...changeRequest.appliedNodeIds, nodeId]));
+  const done = changeRequest.nodeIds.every((id) => appliedNodeIds.includes(id));
+  await storage.updateChangeRequest(workspaceId, changeRequestId, {
+    appliedNodeIds,
+    ...(done ? { status: 'applied', appliedAt: new Date() } : {}),
+  });
+}
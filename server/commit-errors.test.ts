@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseApplyErrors } from "./commit-errors";
+
+const lines = (...commands: string[]) => commands.join("\n");
+
+const configuration = lines(
+  "# edge router",
+  "set system host-name 'edge'",
+  "set interfaces ethernet eth0 address '192.0.2.1/24'",
+  "set interfaces ethernet eth0 speed 'fast'",
+  "set service ssh port '22'",
+  "set service ssh listen-address '198.51.100.1'",
+);
+
+describe("parseApplyErrors", () => {
+  it("maps a failing command in wrapper mode to its line", () => {
+    assert.deepEqual(parseApplyErrors([
+      "Wrapper mode failed: set interfaces ethernet eth0 speed fast failed (1): Speed must be one of auto, 10, 100, 1000\n" +
+        "Set failed; trying interactive configure",
+    ], configuration), [{
+      phase: "set",
+      message: "Speed must be one of auto, 10, 100, 1000",
+      command: "set interfaces ethernet eth0 speed fast",
+      line: 4,
+    }]);
+  });
+
+  it("reads the interactive shell's echoed command and set output", () => {
+    const errors = parseApplyErrors([lines(
+      "vyos@edge# set interfaces ethernet eth0 speed 'fast'",
+      "\x1b[1mInvalid value\x1b[0m",
+      "Value validation failed",
+      "Set failed",
+      "[edit]",
+    )], configuration);
+    assert.deepEqual(errors, [{
+      phase: "set",
+      message: "Invalid value; Value validation failed",
+      command: "set interfaces ethernet eth0 speed 'fast'",
+      line: 4,
+    }]);
+  });
+
+  it("reports an invalid path once although the fallback replays the command", () => {
+    const failure = lines(
+      "vyos@edge# set interfaces ethernet eth0 mtuu '1500'",
+      "Configuration path: [interfaces ethernet eth0 mtuu] is not valid",
+      "Set failed",
+    );
+    const errors = parseApplyErrors([failure, "Fallback: replaying commands one by one", failure],
+      lines(configuration, "set interfaces ethernet eth0 mtuu '1500'"));
+    assert.deepEqual(errors, [{
+      phase: "set",
+      message: "Configuration path [interfaces ethernet eth0 mtuu] is not valid",
+      command: "set interfaces ethernet eth0 mtuu '1500'",
+      path: ["interfaces", "ethernet", "eth0", "mtuu"],
+      line: 7,
+    }]);
+  });
+
+  it("finds the line of an invalid path reported without its command", () => {
+    const [error] = parseApplyErrors(["Configuration path: [service ssh] is not valid"], configuration);
+    assert.equal(error.command, undefined);
+    assert.equal(error.line, 5);
+  });
+
+  it("maps a commit script failure to the first line under its section", () => {
+    const errors = parseApplyErrors([lines(
+      "commit",
+      "[ service ssh ]",
+      "Cannot bind to 198.51.100.1: address not assigned",
+      "[[service ssh]] failed",
+      "Commit failed",
+    )], configuration);
+    assert.deepEqual(errors, [{
+      phase: "commit",
+      message: "Cannot bind to 198.51.100.1: address not assigned",
+      path: ["service", "ssh"],
+      line: 5,
+    }]);
+  });
+
+  it("uses the section open when the commit failed without a closing marker", () => {
+    const errors = parseApplyErrors([
+      "commit failed (1): [ system host-name ]\nInvalid host name\nCommit failed",
+    ], configuration);
+    assert.deepEqual(errors, [{ phase: "commit", message: "Invalid host name", path: ["system", "host-name"], line: 2 }]);
+  });
+
+  it("reports a bare commit failure without a line", () => {
+    assert.deepEqual(parseApplyErrors(["Commit failed"], configuration), [{ phase: "commit", message: "Commit failed" }]);
+  });
+
+  it("ignores progress output of a successful apply", () => {
+    assert.deepEqual(parseApplyErrors([
+      "Reading running configuration",
+      "Delta: 2 set, 0 delete",
+      "vyos@edge# set system host-name 'edge'",
+      "[edit]",
+      "No configuration changes to commit",
+    ], configuration), []);
+  });
+});
@@ -0,0 +1,164 @@
+import { formatCommand, parseConfiguration, tokenizeCommand } from "@shared/config-parser";
+import type { ApplyError } from "@shared/schema";
+
+// Turn the raw set/commit output collected during an apply into structured
+// errors, each pointing back to the submitted configuration line if possible.
+//
+// The output comes in a few shapes:
+//   wrapper mode:      `set interfaces ... failed (1): <output>`
+//   interactive shell: `vyos@r1# set interfaces ...` followed by the output
+//   set output:        `Configuration path: [a b c] is not valid` ... `Set failed`
+//   commit output:     `[ service ssh ]` <script output> `[[service ssh]] failed` ... `Commit failed`
+
+const ANSI = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+// Lines that only echo our own progress or session chatter
+const NOISE = /^(\[edit.*\]|\[stderr\]\s*$|Applying via |Reading running|Delta:|Saved snapshot|Fallback: |exit$|configure$|commit$|save$|Saving configuration|Done$|No configuration changes to commit)/;
+
+function normalize(line: string): string {
+  const { tokens } = tokenizeCommand(line.trim());
+  if (tokens.length < 2 || (tokens[0].text !== 'set' && tokens[0].text !== 'delete')) return line.trim();
+  return formatCommand(tokens[0].text as 'set' | 'delete', tokens.slice(1).map((t) => t.text));
+}
+
+function startsWith(path: string[], prefix: string[]): boolean {
+  return prefix.length <= path.length && prefix.every((p, i) => path[i] === p);
+}
+
+// Index the submitted configuration: normalized command -> line, plus paths
+// for matching the path-only messages of commit scripts
+function indexSource(configuration: string) {
+  const byCommand = new Map<string, number>();
+  const paths: { path: string[]; line: number }[] = [];
+  for (const command of parseConfiguration(configuration).commands) {
+    const path = command.valid ? command.path : command.tokens.map((t) => t.text);
+    const full = command.valid && command.value !== undefined ? [...path, command.value] : path;
+    const key = formatCommand(command.op, full);
+    if (!byCommand.has(key)) byCommand.set(key, command.line);
+    paths.push({ path: full, line: command.line });
+  }
+  return {
+    lineOfCommand: (command: string) => byCommand.get(normalize(command)),
+    // First line configuring something under `path`, else the deepest line above it
+    lineOfPath: (path: string[]) => {
+      const under = paths.find((p) => startsWith(p.path, path));
+      if (under) return under.line;
+      const above = paths.filter((p) => startsWith(path, p.path)).sort((a, b) => b.path.length - a.path.length);
+      return above[0]?.line;
+    },
+  };
+}
+
+export function parseApplyErrors(logs: string[], configuration: string): ApplyError[] {
+  const source = indexSource(configuration);
+  const lines = logs
+    .join('\n')
+    .replace(ANSI, '')
+    .split(/\r?\n|\r/)
+    .map((l) => l.trim());
+
+  const errors: ApplyError[] = [];
+  // One error per failing command (the fallback strategies replay the same
+  // lines) and per commit message
+  const push = (error: ApplyError) => {
+    const duplicate = errors.some((e) =>
+      error.command ? e.command === error.command : e.phase === error.phase && e.message === error.message);
+    if (!duplicate) errors.push(error);
+  };
+
+  let command: string | undefined;
+  let message: string[] = [];
+  let section: string[] | undefined;
+  // The current command already produced a more specific error
+  let reported = false;
+
+  const fail = (phase: 'set' | 'delete') => {
+    if (reported) return;
+    const text = message.join('; ') || `${phase === 'set' ? 'Set' : 'Delete'} failed`;
+    push({ phase, message: text, command, line: command ? source.lineOfCommand(command) : undefined });
+    message = [];
+  };
+
+  for (const line of lines) {
+    // `commit failed (1): <output>` from wrapper mode; the output is what matters
+    const raw = line.replace(/^(?:Wrapper mode failed: )?commit(?:-confirm \d+)? failed \(\d+\):\s*/, '');
+    if (!raw) continue;
+
+    const wrapped = raw.match(/^(?:Wrapper mode failed: )?((?:set|delete)\s.+?) failed \(\d+\):\s*(.*)$/);
+    if (wrapped) {
+      command = wrapped[1];
+      message = wrapped[2] ? [wrapped[2]] : [];
+      reported = false;
+      continue;
+    }
+
+    const echoed = raw.match(/^(?:\S+@\S+[#$]\s*)?((?:set|delete)\s.+)$/);
+    if (echoed && !section) {
+      command = echoed[1];
+      message = [];
+      reported = false;
+      continue;
+    }
+
+    const invalidPath = raw.match(/^Configuration path:?\s*\[?(.+?)\]? is not valid$/);
+    if (invalidPath) {
+      const path = invalidPath[1].trim().split(/\s+/);
+      push({
+        phase: 'set',
+        message: `Configuration path [${path.join(' ')}] is not valid`,
+        command,
+        path,
+        line: (command ? source.lineOfCommand(command) : undefined) ?? source.lineOfPath(path),
+      });
+      message = [];
+      reported = true;
+      continue;
+    }
+
+    // The wrapper's error may have "; trying interactive configure" appended
+    if (/^Set failed\b/.test(raw)) {
+      fail('set');
+      continue;
+    }
+    if (/^Delete failed\b/.test(raw)) {
+      fail('delete');
+      continue;
+    }
+
+    const opened = raw.match(/^\[\s+(.+?)\s+\]$/);
+    if (opened) {
+      section = opened[1].split(/\s+/);
+      message = [];
+      continue;
+    }
+
+    const closed = raw.match(/^\[\[\s*(.+?)\s*\]\] failed$/);
+    if (closed) {
+      const path = closed[1].split(/\s+/);
+      push({
+        phase: 'commit',
+        message: message.join('; ') || `Commit of [${path.join(' ')}] failed`,
+        path,
+        line: source.lineOfPath(path),
+      });
+      section = undefined;
+      message = [];
+      continue;
+    }
+
+    if (/^Commit failed\b/.test(raw)) {
+      if (section && message.length > 0) {
+        push({ phase: 'commit', message: message.join('; '), path: section, line: source.lineOfPath(section) });
+      } else if (!errors.some((e) => e.phase === 'commit')) {
+        push({ phase: 'commit', message: 'Commit failed' });
+      }
+      section = undefined;
+      message = [];
+      continue;
+    }
+
+    if (!NOISE.test(raw) && (command || section)) message.push(raw);
+  }
+
+  return errors;
+}
@@ -0,0 +1,99 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { commandsToConfigBoot, configBootToCommands, configJsonToCommands, detectConfigFormat } from "@shared/config-boot";
+
+const lines = (...commands: string[]) => commands.join("\n");
+const sorted = (text: string) => text.split("\n").sort();
+
+const commands = lines(
+  "set interfaces ethernet eth0 address '192.0.2.1/24'",
+  "set interfaces ethernet eth0 address '2001:db8::1/64'",
+  "set interfaces ethernet eth0 description 'Uplink to \"ISP\"'",
+  "set interfaces loopback lo",
+  "set system host-name 'edge'",
+  "set system login banner pre-login 'Authorised use only'",
+  "set firewall name WAN rule 10 action 'accept'",
+);
+
+const boot = lines(
+  "interfaces {",
+  "    ethernet eth0 {",
+  "        address 192.0.2.1/24",
+  "        address 2001:db8::1/64",
+  "        description \"Uplink to \\\"ISP\\\"\"",
+  "    }",
+  "    loopback lo {",
+  "    }",
+  "}",
+  "system {",
+  "    host-name edge",
+  "    login {",
+  "        banner {",
+  "            pre-login \"Authorised use only\"",
+  "        }",
+  "    }",
+  "}",
+  "firewall {",
+  "    name WAN {",
+  "        rule 10 {",
+  "            action accept",
+  "        }",
+  "    }",
+  "}",
+);
+
+describe("config.boot conversion", () => {
+  it("writes set commands as config.boot, tag values on the node line", () => {
+    assert.equal(commandsToConfigBoot(commands), boot);
+  });
+
+  it("reads config.boot back into the same set commands", () => {
+    assert.deepEqual(sorted(configBootToCommands(boot)), sorted(commands));
+  });
+
+  it("round-trips quoting and multi-value leaves", () => {
+    assert.deepEqual(sorted(configBootToCommands(commandsToConfigBoot(commands))), sorted(commands));
+  });
+
+  it("applies delete commands when writing config.boot", () => {
+    const text = commandsToConfigBoot(lines(
+      commands,
+      "delete interfaces ethernet eth0 address '2001:db8::1/64'",
+      "delete firewall",
+    ));
+    assert.ok(text.includes("address 192.0.2.1/24"));
+    assert.ok(!text.includes("2001:db8::1/64"));
+    assert.ok(!text.includes("firewall"));
+  });
+
+  it("skips comments and keeps single-quoted values", () => {
+    const text = lines(
+      "/* Warning: Do not remove the following line. */",
+      "system {",
+      "    # managed by the controller",
+      "    host-name 'core router'",
+      "}",
+    );
+    assert.equal(configBootToCommands(text), "set system host-name 'core router'");
+  });
+
+  it("reports unbalanced braces", () => {
+    assert.throws(() => configBootToCommands("system {\n    host-name edge\n"), /Missing "}" for "system"/);
+    assert.throws(() => configBootToCommands("}\n"), /Line 1: unexpected "}"/);
+  });
+
+  it("detects the format from the first meaningful line", () => {
+    assert.equal(detectConfigFormat(boot), "boot");
+    assert.equal(detectConfigFormat(commands), "set");
+    assert.equal(detectConfigFormat("# comment\nsystem {\n}"), "boot");
+  });
+
+  it("reads the HTTP API's JSON configuration", () => {
+    const json = { interfaces: { ethernet: { eth0: { address: ["192.0.2.1/24", "2001:db8::1/64"] } }, loopback: { lo: {} } } };
+    assert.deepEqual(configJsonToCommands(json).split("\n"), [
+      "set interfaces ethernet eth0 address '192.0.2.1/24'",
+      "set interfaces ethernet eth0 address '2001:db8::1/64'",
+      "set interfaces loopback lo",
+    ]);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { computeDelta, diffConfigurations, flattenConfiguration } from "./config-diff";
+
+const lines = (...commands: string[]) => commands.join("\n");
+
+describe("diffConfigurations", () => {
+  const left = lines(
+    "# edge router",
+    "set system host-name 'edge'",
+    "set interfaces ethernet eth0 address '192.0.2.1/24'",
+    "set interfaces ethernet eth0 description 'uplink'",
+    "set firewall name WAN rule 10 action 'accept'",
+  );
+
+  it("ignores line order and comments", () => {
+    const right = lines(
+      "set firewall name WAN rule 10 action 'accept'",
+      "set interfaces ethernet eth0 description 'uplink'",
+      "set interfaces ethernet eth0 address '192.0.2.1/24'",
+      "set system host-name 'edge'",
+    );
+    assert.deepEqual(diffConfigurations(left, right), { entries: [], summary: { added: 0, removed: 0, changed: 0, unchanged: 4 } });
+  });
+
+  it("reports added, removed and changed leaves by path with their lines", () => {
+    const right = lines(
+      "set system host-name 'core'",
+      "set interfaces ethernet eth0 address '192.0.2.1/24'",
+      "set interfaces ethernet eth0 address '2001:db8::1/64'",
+      "set firewall name WAN rule 10 action 'accept'",
+    );
+    const { entries, summary } = diffConfigurations(left, right);
+    assert.deepEqual(summary, { added: 1, removed: 1, changed: 1, unchanged: 2 });
+    assert.deepEqual(entries, [
+      { kind: "added", path: ["interfaces", "ethernet", "eth0", "address"], after: "2001:db8::1/64", rightLine: 3 },
+      { kind: "removed", path: ["interfaces", "ethernet", "eth0", "description"], before: "uplink", leftLine: 4 },
+      { kind: "changed", path: ["system", "host-name"], before: "edge", after: "core", leftLine: 2, rightLine: 1 },
+    ]);
+  });
+
+  it("compares config.boot with set commands", () => {
+    const boot = lines(
+      "system {",
+      "    host-name edge",
+      "}",
+      "interfaces {",
+      "    ethernet eth0 {",
+      "        address 192.0.2.1/24",
+      "        description uplink",
+      "    }",
+      "}",
+      "firewall {",
+      "    name WAN {",
+      "        rule 10 {",
+      "            action accept",
+      "        }",
+      "    }",
+      "}",
+    );
+    assert.deepEqual(diffConfigurations(left, boot).entries, []);
+  });
+
+  it("does not report a valueless node the other side configures below", () => {
+    const { entries } = diffConfigurations("set interfaces loopback lo", "set interfaces loopback lo address '10.255.0.1/32'");
+    assert.deepEqual(entries.map((e) => e.kind), ["added"]);
+  });
+
+  it("replays delete commands before comparing", () => {
+    const leaves = flattenConfiguration(lines(left, "delete interfaces ethernet eth0", "delete firewall name WAN rule 10"));
+    assert.deepEqual(Array.from(leaves.values()).map((leaf) => leaf.path.join(" ")), ["system host-name"]);
+  });
+});
+
+describe("computeDelta", () => {
+  const running = lines(
+    "set interfaces ethernet eth0 address '192.0.2.2/24'",
+    "set interfaces ethernet eth0 hw-id '00:11:22:33:44:55'",
+    "set protocols static route 10.0.0.0/8 next-hop 192.0.2.1",
+    "set protocols static route 172.16.0.0/12 next-hop 192.0.2.1",
+    "set firewall name OLD default-action 'drop'",
+    "set firewall name WAN default-action 'drop'",
+    "set firewall name WAN rule 10 action 'accept'",
+    "set firewall name WAN rule 20 action 'drop'",
+    "set system host-name 'edge'",
+    "set system login user vyos authentication encrypted-password 'x'",
+    "set service ssh port '22'",
+  );
+
+  it("is empty when nothing changed", () => {
+    assert.deepEqual(computeDelta(running, running), { set: [], delete: [] });
+  });
+
+  it("prunes only within the tag instances the desired configuration sets", () => {
+    const delta = computeDelta(running, lines(
+      "set interfaces ethernet eth1 description 'lan'",
+      "set system host-name 'edge'",
+      "set protocols static route 10.0.0.0/8 next-hop 192.0.2.1",
+      "set firewall name WAN default-action 'drop'",
+      "set firewall name WAN rule 10 action 'accept'",
+    ));
+    assert.deepEqual(delta, {
+      set: ["set interfaces ethernet eth1 description 'lan'"],
+      delete: ["delete firewall name WAN rule 20"],
+    });
+  });
+
+  it("keeps unrelated siblings of what the desired configuration sets", () => {
+    const router = lines(
+      "set interfaces ethernet eth0 description 'uplink'",
+      "set interfaces ethernet eth1 address '10.0.0.1/24'",
+      "set protocols static route 0.0.0.0/0 next-hop 192.0.2.1",
+      "set protocols static route 10.0.0.0/8 next-hop 192.0.2.1",
+      "set protocols bgp system-as '65000'",
+      "set system host-name 'edge'",
+      "set system ntp server time.example.com",
+      "set system name-server '192.0.2.53'",
+    );
+    const delta = computeDelta(router, lines(
+      "set interfaces ethernet eth0 description 'wan'",
+      "set system host-name 'core'",
+      "set protocols static route 10.0.0.0/8 next-hop 192.0.2.254",
+    ));
+    assert.deepEqual(delta.delete, ["delete protocols static route 10.0.0.0/8 next-hop 192.0.2.1"]);
+  });
+
+  it("deletes tag instances removed from a section the desired configuration sets with pruneSections", () => {
+    const desired = lines(
+      "set protocols static route 10.0.0.0/8 next-hop 192.0.2.1",
+      "set firewall name WAN default-action 'drop'",
+      "set firewall name WAN rule 10 action 'accept'",
+    );
+    const delta = computeDelta(running, desired, { pruneSections: true });
+    assert.deepEqual(delta.set, []);
+    assert.deepEqual(delta.delete.sort(), [
+      "delete firewall name OLD",
+      "delete firewall name WAN rule 20",
+      "delete protocols static route 172.16.0.0/12",
+    ]);
+  });
+
+  it("sets only what differs and changes values in place", () => {
+    const delta = computeDelta(running, lines(
+      "set protocols static route 10.0.0.0/8 next-hop 192.0.2.254",
+      "set protocols static route 172.16.0.0/12 next-hop 192.0.2.1",
+      "set protocols static route 192.168.0.0/16 blackhole",
+    ));
+    assert.deepEqual(delta.set, [
+      "set protocols static route 10.0.0.0/8 next-hop 192.0.2.254",
+      "set protocols static route 192.168.0.0/16 blackhole",
+    ]);
+    assert.deepEqual(delta.delete, ["delete protocols static route 10.0.0.0/8 next-hop 192.0.2.1"]);
+  });
+
+  it("keeps management access and hardware ids in managed sections", () => {
+    const delta = computeDelta(running, lines(
+      "set system host-name 'core'",
+      "set service dhcp-server shared-network-name LAN authoritative",
+      "set interfaces ethernet eth0 address '198.51.100.2/24'",
+    ), { pruneSections: true });
+    assert.ok(!delta.delete.some((line) => line.includes("login") || line.includes("ssh") || line.includes("hw-id")));
+    assert.ok(delta.delete.includes("delete interfaces ethernet eth0 address '192.0.2.2/24'"));
+    assert.ok(delta.set.includes("set system host-name 'core'"));
+  });
+
+  it("deletes everything the desired configuration lacks with pruneAll", () => {
+    const delta = computeDelta(running, "set system host-name 'edge'", { pruneAll: true });
+    assert.ok(delta.delete.includes("delete system login user vyos"));
+    assert.ok(delta.delete.includes("delete service ssh port '22'"));
+    assert.ok(delta.delete.includes("delete firewall name WAN"));
+  });
+});
@@ -0,0 +1,176 @@
+import { formatCommand, parseConfiguration } from "@shared/config-parser";
+import { configBootToCommands, detectConfigFormat } from "@shared/config-boot";
+import { vyosCommandTree, type CommandNode } from "@shared/command-tree";
+import type { ConfigDelta, ConfigDiffEntry, ConfigDiffResult } from "@shared/schema";
+
+// One effective leaf of a configuration. Multi-value leaves produce one
+// entry per value; flags and empty tag nodes have no value.
+interface ConfigLeaf {
+  path: string[];
+  value?: string;
+  multi: boolean;
+  line: number;
+}
+
+const SEP = '\u0000';
+
+function leafKey(leaf: ConfigLeaf): string {
+  const path = leaf.path.join(SEP);
+  return leaf.multi && leaf.value !== undefined ? `${path}${SEP}=${leaf.value}` : path;
+}
+
+function startsWith(path: string[], prefix: string[]): boolean {
+  return prefix.length <= path.length && prefix.every((p, i) => path[i] === p);
+}
+
+// Replay set/delete commands into the set of effective leaves. Line order and
+// comments do not matter; later commands override earlier ones.
+export function flattenConfiguration(text: string): Map<string, ConfigLeaf> {
+  const source = detectConfigFormat(text) === 'boot' ? configBootToCommands(text) : text;
+  const leaves = new Map<string, ConfigLeaf>();
+
+  for (const command of parseConfiguration(source).commands) {
+    // Commands the tree does not know keep their raw tokens as the path
+    const path = command.valid ? command.path : command.tokens.map((t) => t.text);
+    const value = command.valid ? command.value : undefined;
+
+    if (command.op === 'delete') {
+      Array.from(leaves.entries()).forEach(([key, leaf]) => {
+        if (startsWith(leaf.path, path) && (value === undefined || leaf.value === value)) leaves.delete(key);
+      });
+      continue;
+    }
+
+    const leaf: ConfigLeaf = { path, value, multi: command.multi, line: command.line };
+    leaves.set(leafKey(leaf), leaf);
+  }
+
+  return leaves;
+}
+
+// A valueless node (e.g. `set interfaces loopback lo`) is also present when
+// the other side configures something underneath it
+function implied(leaves: Map<string, ConfigLeaf>, leaf: ConfigLeaf): boolean {
+  if (leaf.value !== undefined) return false;
+  return Array.from(leaves.values()).some((other) => other.path.length > leaf.path.length && startsWith(other.path, leaf.path));
+}
+
+export function diffConfigurations(left: string, right: string): ConfigDiffResult {
+  const before = flattenConfiguration(left);
+  const after = flattenConfiguration(right);
+  const entries: ConfigDiffEntry[] = [];
+  let unchanged = 0;
+
+  before.forEach((leaf, key) => {
+    const other = after.get(key);
+    if (!other) {
+      if (!implied(after, leaf)) {
+        entries.push({ kind: 'removed', path: leaf.path, before: leaf.value, leftLine: leaf.line });
+      }
+    } else if (other.value !== leaf.value) {
+      entries.push({ kind: 'changed', path: leaf.path, before: leaf.value, after: other.value, leftLine: leaf.line, rightLine: other.line });
+    } else {
+      unchanged++;
+    }
+  });
+
+  after.forEach((leaf, key) => {
+    if (!before.has(key) && !implied(before, leaf)) {
+      entries.push({ kind: 'added', path: leaf.path, after: leaf.value, rightLine: leaf.line });
+    }
+  });
+
+  const sortKey = (e: ConfigDiffEntry) => [...e.path, e.before ?? e.after ?? ''].join(' ');
+  entries.sort((a, b) => sortKey(a).localeCompare(sortKey(b), undefined, { numeric: true }));
+
+  return {
+    entries,
+    summary: {
+      added: entries.filter((e) => e.kind === 'added').length,
+      removed: entries.filter((e) => e.kind === 'removed').length,
+      changed: entries.filter((e) => e.kind === 'changed').length,
+      unchanged,
+    },
+  };
+}
+
+// Leaves VyOS fills in by itself; never delete them just because the desired
+// configuration does not mention them
+const preservedLeaves = ['hw-id'];
+
+// Path lengths at which a tag instance ends, e.g. `firewall name WAN` and
+// `firewall name WAN rule 10` for a firewall rule path
+function tagInstanceLengths(path: string[], tree: CommandNode = vyosCommandTree): number[] {
+  const lengths: number[] = [];
+  let current = tree;
+  for (let i = 0; i < path.length; i++) {
+    if (current.kind !== 'node' && current.kind !== 'tag') break;
+    const child = current.children[path[i]];
+    if (!child || (child.kind !== 'node' && child.kind !== 'tag')) break;
+    if (child.kind === 'tag') {
+      if (i + 1 < path.length) lengths.push(i + 2);
+      i++;
+    }
+    current = child;
+  }
+  return lengths;
+}
+
+// Subtree a desired leaf is authoritative for: up to the first tag value
+// (`interfaces ethernet eth0`, `firewall name WAN`), or the leaf itself
+function scopeOf(path: string[]): string[] {
+  const [first] = tagInstanceLengths(path);
+  return first ? path.slice(0, first) : path;
+}
+
+// Management access a delta never removes from a section it manages: the
+// router logins and the services the controller reaches it through
+const managementPaths = [['system', 'login'], ['service', 'ssh'], ['service', 'https']];
+
+export interface DeltaOptions {
+  // Treat `desired` as the complete configuration (snapshot restore)
+  pruneAll?: boolean;
+  // Also delete what the top-level sections `desired` sets no longer
+  // contain, management access excepted
+  pruneSections?: boolean;
+}
+
+// set/delete lines that turn `running` into `desired`. By default only the
+// subtrees the desired configuration touches are pruned.
+export function computeDelta(running: string, desired: string, options: DeltaOptions = {}): ConfigDelta {
+  const current = flattenConfiguration(running);
+  const target = flattenConfiguration(desired);
+  const targetLeaves = Array.from(target.values());
+  const scopes = targetLeaves.map((leaf) => scopeOf(leaf.path));
+  const sections = new Set(targetLeaves.map((leaf) => leaf.path[0]));
+
+  const setLines: string[] = [];
+  target.forEach((leaf, key) => {
+    const existing = current.get(key);
+    if (existing ? existing.value === leaf.value : implied(current, leaf)) return;
+    setLines.push(formatCommand('set', leaf.path, leaf.value));
+  });
+
+  const deleteLines: string[] = [];
+  current.forEach((leaf, key) => {
+    if (target.has(key) || implied(target, leaf)) return;
+    if (preservedLeaves.includes(leaf.path[leaf.path.length - 1])) return;
+    if (!options.pruneAll) {
+      const managed = options.pruneSections
+        ? sections.has(leaf.path[0]) && !managementPaths.some((path) => startsWith(leaf.path, path))
+        : scopes.some((scope) => startsWith(leaf.path, scope));
+      if (!managed) return;
+    }
+
+    // Drop a whole stale tag instance (e.g. a firewall rule) in one line
+    const instance = tagInstanceLengths(leaf.path)
+      .map((n) => leaf.path.slice(0, n))
+      .find((prefix) => !targetLeaves.some((t) => startsWith(t.path, prefix)));
+    const line = instance
+      ? formatCommand('delete', instance)
+      : formatCommand('delete', leaf.path, leaf.multi ? leaf.value : undefined);
+    if (!deleteLines.includes(line)) deleteLines.push(line);
+  });
+
+  return { set: setLines, delete: deleteLines };
+}
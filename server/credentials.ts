@@ -0,0 +1,159 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { storage } from "./storage";
+import { routerNodeFor, routerNodesAt } from "./host-keys";
+import {
+  routerNodeProperties,
+  type Credential,
+  type CredentialSummary,
+  type RouterApplyRequest,
+  type RouterNodeProperties,
+  type TopologyNode,
+} from "@shared/schema";
+
+// Stored router logins. Secrets are encrypted with AES-256-GCM under a key
+// derived from CREDENTIAL_MASTER_KEY and only decrypted on the server, right
+// before connecting. Without the master key no credential can be stored or used.
+
+let derived: { source: string; key: Buffer } | undefined;
+
+function masterKey(): Buffer {
+  const source = process.env.CREDENTIAL_MASTER_KEY;
+  if (!source) {
+    throw Object.assign(new Error('CREDENTIAL_MASTER_KEY is not set; stored credentials are unavailable'), { status: 503 });
+  }
+  if (derived?.source !== source) {
+    derived = { source, key: scryptSync(source, 'vyos-credential-vault', 32) };
+  }
+  return derived.key;
+}
+
+// v1:<iv>:<auth tag>:<ciphertext>, base64 parts
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', masterKey(), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return ['v1', iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+}
+
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, data] = payload.split(':');
+  if (version !== 'v1') throw new Error(`Unknown secret format ${version}`);
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', masterKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+  } catch (e) {
+    if ((e as any).status) throw e;
+    throw new Error('Stored credential cannot be decrypted; was CREDENTIAL_MASTER_KEY changed?');
+  }
+}
+
+export function summarizeCredential(credential: Credential): CredentialSummary {
+  const { secret, ...rest } = credential;
+  return rest;
+}
+
+async function loginFor(workspaceId: string, id: string): Promise<{ username: string; password?: string; privateKey?: string }> {
+  const credential = await storage.getCredential(workspaceId, id);
+  if (!credential) throw Object.assign(new Error(`Credential ${id} not found`), { status: 400 });
+  const secret = decryptSecret(credential.secret);
+  return credential.kind === 'private-key'
+    ? { username: credential.username, privateKey: secret }
+    : { username: credential.username, password: secret };
+}
+
+type LoginFields = Pick<RouterApplyRequest, 'host' | 'port' | 'nodeId' | 'username' | 'password' | 'privateKey' | 'credentialId'> &
+  Partial<Pick<RouterApplyRequest, 'transport' | 'apiKey' | 'apiUrl' | 'apiInsecure'>>;
+
+// Router HTTP API keys are kept in the node's `properties.api.key`, encrypted
+// like stored credentials, and never returned: nodes go out with
+// `api.hasKey` instead
+export function summarizeNode(node: TopologyNode): TopologyNode {
+  const properties = node.properties as Record<string, any> | null;
+  if (!properties?.api || typeof properties.api !== 'object') return node;
+  const { key, ...api } = properties.api;
+  return { ...node, properties: { ...properties, api: { ...api, hasKey: !!key } } };
+}
+
+const apiEndpoint = (properties: RouterNodeProperties) =>
+  (properties.api?.url || `https://${properties.ssh?.host ?? ''}`).toLowerCase();
+
+// Node properties about to be stored, with a new API key encrypted. Without
+// one the stored key is kept, unless the node's API now points elsewhere: a
+// key never follows its node to another router.
+export function withSealedApiKey(existing: TopologyNode | undefined, properties: RouterNodeProperties | null): RouterNodeProperties | null {
+  if (!properties?.api) return properties;
+  const { key, hasKey, ...api } = properties.api;
+  if (key) return { ...properties, api: { ...api, key: encryptSecret(key) } };
+  const previous = existing ? routerNodeProperties(existing) : {};
+  const keep = !!previous.api?.key && apiEndpoint(previous) === apiEndpoint(properties);
+  return { ...properties, api: keep ? { ...api, key: previous.api!.key } : api };
+}
+
+// The node's API key in plain text. Keys stored before they were encrypted
+// are encrypted on first use.
+async function apiKeyOf(node: TopologyNode): Promise<string | undefined> {
+  const properties = routerNodeProperties(node);
+  const key = properties.api?.key;
+  if (!key) return undefined;
+  if (key.startsWith('v1:')) return decryptSecret(key);
+  await storage.updateTopologyNode(node.workspaceId, node.id, { properties: { ...properties, api: { ...properties.api, key: encryptSecret(key) } } });
+  return key;
+}
+
+// The API key stored on the router's node, which only goes to the API
+// endpoint of that node
+async function withNodeApiKey<T extends LoginFields>(workspaceId: string, input: T): Promise<T> {
+  const node = await routerNodeFor(workspaceId, input);
+  const apiKey = node && await apiKeyOf(node);
+  if (!node || !apiKey) throw Object.assign(new Error('An API key is required for the HTTP transport'), { status: 400 });
+  const { api, ssh } = routerNodeProperties(node);
+  return { ...input, apiKey, apiUrl: api?.url || `https://${ssh?.host ?? input.host}`, apiInsecure: !!api?.insecure };
+}
+
+// Fill in the SSH login from a stored credential: the one the request names,
+// else the one on the router's node. A password or key sent with the request
+// wins over both. A named credential only goes to a router whose node logs in
+// with it, unless `anyHost` (admins) lets it go anywhere. HTTP requests
+// without an API key get the node's.
+export async function withStoredLogin<T extends LoginFields>(workspaceId: string, input: T, anyHost = false): Promise<T> {
+  if (input.transport === 'http') return input.apiKey ? input : withNodeApiKey(workspaceId, input);
+  if (input.password || input.privateKey) return input;
+  let credentialId = input.credentialId;
+  if (credentialId && !anyHost) {
+    const nodes = await routerNodesAt(workspaceId, input);
+    if (!nodes.some((n) => routerNodeProperties(n).ssh?.credentialId === credentialId)) {
+      throw Object.assign(
+        new Error(`Credential ${credentialId} is not used by a router node at ${input.host}:${input.port ?? 22}; only admins can use it elsewhere`),
+        { status: 403 },
+      );
+    }
+  }
+  if (!credentialId) {
+    const node = await routerNodeFor(workspaceId, input);
+    credentialId = routerNodeProperties(node).ssh?.credentialId;
+  }
+  if (!credentialId) return input;
+  return { ...input, ...(await loginFor(workspaceId, credentialId)) };
+}
+
+// Throws 403 for a node change only admins may make. The login and jump hosts
+// on a node decide where stored secrets are sent, so operators can neither
+// set them nor point a node that has a login at another host or port.
+export function assertLoginUnchanged(existing: TopologyNode | undefined, properties: RouterNodeProperties | null) {
+  const before = existing ? routerNodeProperties(existing).ssh ?? {} : {};
+  const after = properties?.ssh ?? {};
+  const refuse = (reason: string): never => {
+    throw Object.assign(new Error(`Only admins can ${reason}`), { status: 403 });
+  };
+  if ((after.credentialId || undefined) !== (before.credentialId || undefined)) refuse('set the stored login of a router node');
+  if ((after.jumpHostIds ?? []).join() !== (before.jumpHostIds ?? []).join()) refuse('set the jump hosts of a router node');
+  const moved = (after.host ?? '').toLowerCase() !== (before.host ?? '').toLowerCase() || (after.port || 22) !== (before.port || 22);
+  if (before.credentialId && moved) refuse('point a router node with a stored login at another host');
+}
+
+// Router nodes logging in with the credential
+export async function nodesUsingCredential(workspaceId: string, id: string): Promise<string[]> {
+  const nodes = await storage.getAllTopologyNodes(workspaceId);
+  return nodes.filter((n) => routerNodeProperties(n).ssh?.credentialId === id).map((n) => n.label);
+}
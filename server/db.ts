@@ -0,0 +1,25 @@
+import path from "path";
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle, type NeonDatabase } from "drizzle-orm/neon-serverless";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+// PostgreSQL connection, used for storage when DATABASE_URL is set
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = NeonDatabase<typeof schema>;
+
+export function connectDatabase(url: string): Database {
+  return drizzle({ client: new Pool({ connectionString: url }), schema });
+}
+
+export const db = process.env.DATABASE_URL ? connectDatabase(process.env.DATABASE_URL) : undefined;
+
+// Migrations live in ./migrations at the repository root, next to both
+// server/ (development) and dist/ (production)
+export async function migrateDatabase(database = db) {
+  if (!database) return;
+  await migrate(database, { migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations") });
+}
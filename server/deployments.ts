@@ -0,0 +1,204 @@
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { waitForApplyJob } from "./apply-jobs";
+import { log } from "./vite";
+import {
+  routerApplyRequestSchema,
+  routerNodeProperties,
+  type ApplyJob,
+  type Deployment,
+  type DeploymentReport,
+  type DeploymentRequest,
+  type DeploymentRouterReport,
+  type RouterApplyRequest,
+  type TopologyNode,
+} from "@shared/schema";
+
+// Staged rollout of one configuration to many routers. Routers are split
+// into waves of `waveSize`; each wave applies to up to `concurrency` routers
+// at a time through the apply job queue, and a failed wave stops the rollout
+// unless `haltOnFailure` is off.
+
+type StartApply = (input: RouterApplyRequest) => Promise<ApplyJob>;
+
+function summarize(report: DeploymentReport): DeploymentReport['summary'] {
+  const routers = report.waves.flatMap((w) => w.routers);
+  const count = (status: DeploymentRouterReport['status']) => routers.filter((r) => r.status === status).length;
+  return {
+    succeeded: count('succeeded'),
+    failed: count('failed'),
+    skipped: count('skipped'),
+    pending: count('pending') + count('running'),
+  };
+}
+
+async function runPool<T>(items: T[], limit: number, worker: (item: T) => Promise<void>) {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) await worker(items[next++]);
+  });
+  await Promise.all(runners);
+}
+
+export function sshTarget(node: TopologyNode): { host?: string; port?: number; username?: string; credentialId?: string } {
+  return routerNodeProperties(node).ssh ?? {};
+}
+
+// How the router is reached, from the node's `transport` and `api`
+// properties; the API key is filled in from the node when applying
+export function apiTarget(node: TopologyNode): Pick<RouterApplyRequest, 'transport' | 'apiUrl' | 'apiInsecure'> {
+  const props = routerNodeProperties(node);
+  const api = props.api ?? {};
+  return {
+    transport: props.transport === 'http' ? 'http' : 'ssh',
+    apiUrl: api.url || undefined,
+    apiInsecure: !!api.insecure,
+  };
+}
+
+export async function startDeployment(
+  workspaceId: string,
+  request: DeploymentRequest,
+  nodes: TopologyNode[],
+  requester: string,
+  startApply: StartApply,
+): Promise<Deployment> {
+  const { waveSize = 1 } = request;
+  const routers: DeploymentRouterReport[] = nodes.map((node) => ({
+    nodeId: node.id,
+    label: node.label,
+    host: sshTarget(node).host ?? '',
+    status: 'pending',
+    logs: [],
+  }));
+  const report: DeploymentReport = { waves: [], summary: { succeeded: 0, failed: 0, skipped: 0, pending: routers.length } };
+  for (let i = 0; i < routers.length; i += waveSize) {
+    report.waves.push({ index: report.waves.length + 1, status: 'pending', routers: routers.slice(i, i + waveSize) });
+  }
+
+  const deployment = await storage.createDeployment(workspaceId, {
+    requester,
+    configHash: createHash('sha256').update(request.configuration).digest('hex'),
+    nodeIds: nodes.map((n) => n.id),
+    status: 'running',
+    report,
+  });
+
+  // Failures of single routers are reported in the waves; this catches the
+  // rollout itself failing, e.g. on a storage error
+  rollOut(workspaceId, deployment.id, request, nodes, report, startApply).catch((error: Error) => {
+    log(`Deployment ${deployment.id} failed: ${error.message}`, "deploy");
+    storage.updateDeployment(workspaceId, deployment.id, { status: 'failed', finishedAt: new Date() }).catch(() => undefined);
+  });
+  return deployment;
+}
+
+// Rollouts a previous server process left running are halted, their
+// unfinished routers failed or skipped
+export async function recoverInterruptedDeployments(): Promise<number> {
+  const interrupted: Deployment[] = [];
+  for (const workspace of await storage.getAllWorkspaces()) {
+    interrupted.push(...(await storage.getAllDeployments(workspace.id)).filter((d) => d.status === 'running'));
+  }
+  for (const deployment of interrupted) {
+    const report = deployment.report as DeploymentReport;
+    for (const wave of report.waves) {
+      for (const router of wave.routers) {
+        if (router.status === 'running') {
+          router.status = 'failed';
+          router.error = 'Interrupted by a server restart';
+        } else if (router.status === 'pending') {
+          router.status = 'skipped';
+        }
+      }
+      if (wave.status === 'running') wave.status = 'failed';
+      else if (wave.status === 'pending') wave.status = 'skipped';
+    }
+    report.summary = summarize(report);
+    await storage.updateDeployment(deployment.workspaceId, deployment.id, { status: 'halted', report, finishedAt: new Date() });
+  }
+  return interrupted.length;
+}
+
+async function rollOut(workspaceId: string, id: string, request: DeploymentRequest, nodes: TopologyNode[], report: DeploymentReport, startApply: StartApply) {
+  const { concurrency = 1, haltOnFailure = true } = request;
+  const save = (updates: { status?: string; finishedAt?: Date } = {}) => {
+    report.summary = summarize(report);
+    return storage.updateDeployment(workspaceId, id, { ...updates, report: JSON.parse(JSON.stringify(report)) });
+  };
+
+  let halted = false;
+  for (const wave of report.waves) {
+    if (halted) {
+      wave.status = 'skipped';
+      wave.routers.forEach((r) => (r.status = 'skipped'));
+      continue;
+    }
+
+    wave.status = 'running';
+    await save();
+    await runPool(wave.routers, concurrency, async (router) => {
+      router.status = 'running';
+      await save();
+      await deployTo(router, nodes.find((n) => n.id === router.nodeId)!, request, startApply, save);
+      await save();
+    });
+
+    wave.status = wave.routers.some((r) => r.status === 'failed') ? 'failed' : 'succeeded';
+    if (wave.status === 'failed' && haltOnFailure) halted = true;
+  }
+
+  const failed = report.waves.some((w) => w.status === 'failed');
+  await save({ status: halted ? 'halted' : failed ? 'failed' : 'succeeded', finishedAt: new Date() });
+}
+
+async function deployTo(
+  router: DeploymentRouterReport,
+  node: TopologyNode,
+  request: DeploymentRequest,
+  startApply: StartApply,
+  save: () => Promise<unknown>,
+) {
+  const ssh = sshTarget(node);
+  const { configuration, password, privateKey, mode, pruneSections, dryRun, commitConfirmMinutes } = request;
+  try {
+    const job = await startApply(routerApplyRequestSchema.parse({
+      host: ssh.host,
+      port: ssh.port || 22,
+      ...apiTarget(node),
+      username: request.username || ssh.username,
+      password,
+      privateKey,
+      credentialId: request.credentialId || ssh.credentialId,
+      configuration,
+      commit: !dryRun,
+      save: !dryRun,
+      dryRun,
+      mode,
+      pruneSections,
+      nodeId: node.id,
+      commitConfirmMinutes,
+      changeRequestId: request.changeRequestId,
+    }));
+    router.jobId = job.id;
+    await save();
+
+    const outcome = await waitForApplyJob(job.id);
+    const result = outcome?.result;
+    if (result) {
+      router.logs = result.logs;
+      router.applied = result.applied;
+      router.errors = result.errors;
+      const rejected = (result.errors?.length ?? 0) > 0 || !!result.rolledBack;
+      router.status = rejected ? 'failed' : 'succeeded';
+      if (result.rolledBack) router.error = 'Change rolled back after commit-confirm';
+    } else {
+      router.status = 'failed';
+      router.error = outcome?.error?.message ?? 'Apply job was lost';
+      router.logs = (await storage.getApplyJob(job.workspaceId, job.id))?.logs ?? [];
+    }
+  } catch (error: any) {
+    router.status = 'failed';
+    router.error = error.message;
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseConfiguration } from "@shared/config-parser";
+import { analyzeFirewall, extractFirewall, firewallIssues } from "./firewall";
+
+const lines = (...commands: string[]) => commands.join("\n");
+const analyze = (...commands: string[]) =>
+  analyzeFirewall(parseConfiguration(lines(...commands))).map(({ rule, kind, relatedRule }) => ({ rule, kind, relatedRule }));
+
+describe("extractFirewall", () => {
+  it("reads rulesets, default actions and rules in rule order", () => {
+    const [ruleset] = extractFirewall(parseConfiguration(lines(
+      "set firewall name WAN default-action 'drop'",
+      "set firewall name WAN rule 20 action 'drop'",
+      "set firewall name WAN rule 10 action 'accept'",
+      "set firewall name WAN rule 10 protocol 'tcp'",
+      "set firewall name WAN rule 10 destination port '22,80-90'",
+    )));
+    assert.equal(ruleset.id, "firewall name WAN");
+    assert.equal(ruleset.family, "ipv4");
+    assert.equal(ruleset.defaultAction, "drop");
+    assert.deepEqual(ruleset.rules.map((r) => r.number), [10, 20]);
+    assert.deepEqual(ruleset.rules[0].destination.port, { kind: "ranges", ranges: [[22, 22], [80, 90]] });
+    assert.deepEqual(ruleset.rules[0].protocol, { kind: "names", names: ["tcp"], negated: false });
+  });
+
+  it("reads 1.4 base chains", () => {
+    const [ruleset] = extractFirewall(parseConfiguration("set firewall ipv4 input filter rule 5 action 'accept'"));
+    assert.equal(ruleset.hook, "input");
+    assert.equal(ruleset.rules[0].action, "accept");
+  });
+});
+
+describe("analyzeFirewall", () => {
+  it("reports a rule fully covered by an earlier rule with another action as shadowed", () => {
+    assert.deepEqual(analyze(
+      "set firewall name WAN rule 10 action 'drop'",
+      "set firewall name WAN rule 10 source address '10.0.0.0/8'",
+      "set firewall name WAN rule 20 action 'accept'",
+      "set firewall name WAN rule 20 source address '10.1.0.0/16'",
+      "set firewall name WAN rule 20 protocol 'tcp'",
+    ), [{ rule: 20, kind: "shadowed", relatedRule: 10 }]);
+  });
+
+  it("reports a covered rule with the same action as redundant", () => {
+    assert.deepEqual(analyze(
+      "set firewall name WAN rule 10 action 'accept'",
+      "set firewall name WAN rule 10 destination port '1-1024'",
+      "set firewall name WAN rule 10 protocol 'tcp'",
+      "set firewall name WAN rule 20 action 'accept'",
+      "set firewall name WAN rule 20 destination port '443'",
+      "set firewall name WAN rule 20 protocol 'tcp'",
+    ), [{ rule: 20, kind: "redundant", relatedRule: 10 }]);
+  });
+
+  it("resolves address groups, including nested ones", () => {
+    assert.deepEqual(analyze(
+      "set firewall group network-group LAN network '192.168.0.0/16'",
+      "set firewall group address-group HOSTS address '192.168.1.10'",
+      "set firewall group address-group ALL include 'HOSTS'",
+      "set firewall name WAN rule 10 action 'drop'",
+      "set firewall name WAN rule 10 source group network-group 'LAN'",
+      "set firewall name WAN rule 20 action 'accept'",
+      "set firewall name WAN rule 20 source group address-group 'ALL'",
+    ), [{ rule: 20, kind: "shadowed", relatedRule: 10 }]);
+  });
+
+  it("reports partial overlaps with another action as conflicts", () => {
+    assert.deepEqual(analyze(
+      "set firewall name WAN rule 10 action 'accept'",
+      "set firewall name WAN rule 10 destination port '80-443'",
+      "set firewall name WAN rule 20 action 'drop'",
+      "set firewall name WAN rule 20 destination port '400-500'",
+    ), [{ rule: 20, kind: "conflict", relatedRule: 10 }]);
+  });
+
+  it("accepts an exception followed by a broader rule", () => {
+    assert.deepEqual(analyze(
+      "set firewall name WAN rule 10 action 'accept'",
+      "set firewall name WAN rule 10 source address '10.0.0.5'",
+      "set firewall name WAN rule 20 action 'drop'",
+      "set firewall name WAN rule 20 source address '10.0.0.0/24'",
+    ), []);
+  });
+
+  it("reports a final rule doing what the default action does", () => {
+    assert.deepEqual(analyze(
+      "set firewall name WAN default-action 'drop'",
+      "set firewall name WAN rule 10 action 'accept'",
+      "set firewall name WAN rule 10 state established 'enable'",
+      "set firewall name WAN rule 99 action 'drop'",
+      "set firewall name WAN rule 99 source address '198.51.100.0/24'",
+    ), [{ rule: 99, kind: "redundant", relatedRule: undefined }]);
+  });
+
+  it("does not judge rules it cannot evaluate or that are disabled", () => {
+    assert.deepEqual(analyze(
+      "set firewall name WAN rule 10 action 'drop'",
+      "set firewall name WAN rule 10 tcp flags syn",
+      "set firewall name WAN rule 20 action 'accept'",
+      "set firewall name WAN rule 20 disable",
+      "set firewall name WAN rule 30 action 'accept'",
+      "set firewall name WAN rule 30 protocol 'tcp'",
+    ), []);
+  });
+
+  it("turns findings into validation warnings on the rule's line", () => {
+    const [issue] = firewallIssues(parseConfiguration(lines(
+      "set firewall name WAN rule 10 action 'drop'",
+      "set firewall name WAN rule 20 action 'accept'",
+    )));
+    assert.equal(issue.code, "rule-shadowed");
+    assert.equal(issue.severity, "warning");
+    assert.equal(issue.line, 2);
+  });
+});
@@ -0,0 +1,513 @@
+import type { ParsedCommand, ParsedConfiguration } from "@shared/config-parser";
+import type { FirewallFinding } from "@shared/schema";
+import type { ValidationIssue } from "./validator";
+
+// A match dimension of a rule. `unknown` means the criterion exists but
+// cannot be evaluated statically (IPv6 addresses, wildcards, missing groups).
+export type Interval = [number, number];
+export type Dimension =
+  | { kind: 'any' }
+  | { kind: 'unknown' }
+  | { kind: 'ranges'; ranges: Interval[] }
+  | { kind: 'names'; names: string[]; negated: boolean };
+
+const ANY: Dimension = { kind: 'any' };
+const UNKNOWN: Dimension = { kind: 'unknown' };
+const IPV4_MAX = 0xffffffff;
+const PORT_MAX = 65535;
+
+export interface MatchSide {
+  address: Dimension;
+  port: Dimension;
+}
+
+export interface FirewallRule {
+  number: number;
+  line: number;
+  column: number;
+  action?: string;
+  jumpTarget?: string;
+  disabled: boolean;
+  log: boolean;
+  protocol: Dimension;
+  source: MatchSide;
+  destination: MatchSide;
+  state: Dimension;
+  inboundInterface: Dimension;
+  outboundInterface: Dimension;
+  // Criteria this model does not evaluate (tcp flags, time, limit, ...)
+  extraMatchers: string[];
+}
+
+export interface FirewallRuleset {
+  id: string;
+  family: 'ipv4' | 'ipv6';
+  name?: string;
+  hook?: 'forward' | 'input' | 'output';
+  defaultAction?: string;
+  line: number;
+  rules: FirewallRule[];
+}
+
+export interface FirewallGroups {
+  address: Map<string, string[]>;
+  network: Map<string, string[]>;
+  port: Map<string, string[]>;
+  includes: Map<string, string[]>;
+}
+
+const serviceNames: Record<string, number> = {
+  'ftp-data': 20, ftp: 21, ssh: 22, telnet: 23, smtp: 25, domain: 53, dns: 53, tftp: 69,
+  http: 80, www: 80, pop3: 110, ntp: 123, imap: 143, snmp: 161, bgp: 179, ldap: 389,
+  https: 443, isakmp: 500, syslog: 514, ldaps: 636, openvpn: 1194, mysql: 3306,
+  rdp: 3389, 'ipsec-nat-t': 4500, postgresql: 5432,
+};
+
+const protocolNumbers: Record<string, string> = { '1': 'icmp', '6': 'tcp', '17': 'udp', '47': 'gre', '50': 'esp', '51': 'ah', '58': 'ipv6-icmp', '89': 'ospf' };
+
+// ---- interval helpers ----
+
+function mergeRanges(ranges: Interval[]): Interval[] {
+  const sorted = ranges.map((r): Interval => [r[0], r[1]]).sort((a, b) => a[0] - b[0]);
+  const out: Interval[] = [];
+  for (const r of sorted) {
+    const last = out[out.length - 1];
+    if (last && r[0] <= last[1] + 1) last[1] = Math.max(last[1], r[1]);
+    else out.push(r);
+  }
+  return out;
+}
+
+function complementRanges(ranges: Interval[], max: number): Interval[] {
+  const out: Interval[] = [];
+  let next = 0;
+  for (const [start, end] of mergeRanges(ranges)) {
+    if (start > next) out.push([next, start - 1]);
+    next = end + 1;
+  }
+  if (next <= max) out.push([next, max]);
+  return out;
+}
+
+function intersectRanges(a: Interval[], b: Interval[]): Interval[] {
+  const out: Interval[] = [];
+  for (const x of a) {
+    for (const y of b) {
+      const start = Math.max(x[0], y[0]);
+      const end = Math.min(x[1], y[1]);
+      if (start <= end) out.push([start, end]);
+    }
+  }
+  return mergeRanges(out);
+}
+
+export function parseIPv4(value: string): number | undefined {
+  const parts = value.split('.');
+  if (parts.length !== 4 || !parts.every((p) => /^\d{1,3}$/.test(p) && +p <= 255)) return undefined;
+  return parts.reduce((acc, p) => acc * 256 + Number(p), 0);
+}
+
+export function parseAddressRanges(value: string): Interval[] | undefined {
+  if (value.includes('/')) {
+    const [addr, lenText] = value.split('/');
+    const base = parseIPv4(addr);
+    const len = Number(lenText);
+    if (base === undefined || !/^\d+$/.test(lenText) || len > 32) return undefined;
+    const size = 2 ** (32 - len);
+    const start = Math.floor(base / size) * size;
+    return [[start, start + size - 1]];
+  }
+  if (value.includes('-')) {
+    const [a, b] = value.split('-').map(parseIPv4);
+    return a !== undefined && b !== undefined && a <= b ? [[a, b]] : undefined;
+  }
+  const single = parseIPv4(value);
+  return single === undefined ? undefined : [[single, single]];
+}
+
+function parsePortRanges(value: string): Interval[] | undefined {
+  const out: Interval[] = [];
+  for (const part of value.split(',')) {
+    if (/^\d+-\d+$/.test(part)) {
+      const [a, b] = part.split('-').map(Number);
+      out.push([a, b]);
+    } else if (/^\d+$/.test(part)) {
+      out.push([Number(part), Number(part)]);
+    } else if (serviceNames[part] !== undefined) {
+      out.push([serviceNames[part], serviceNames[part]]);
+    } else {
+      return undefined;
+    }
+  }
+  return mergeRanges(out);
+}
+
+function negatable(value: string, parse: (v: string) => Interval[] | undefined, max: number): Dimension {
+  const negated = value.startsWith('!');
+  const ranges = parse(negated ? value.slice(1) : value);
+  if (!ranges) return UNKNOWN;
+  return { kind: 'ranges', ranges: negated ? complementRanges(ranges, max) : ranges };
+}
+
+// ---- dimension algebra ----
+
+export function intersectDimensions(a: Dimension, b: Dimension): Dimension {
+  if (a.kind === 'any') return b;
+  if (b.kind === 'any') return a;
+  if (a.kind === 'unknown' || b.kind === 'unknown') return UNKNOWN;
+  if (a.kind === 'ranges' && b.kind === 'ranges') return { kind: 'ranges', ranges: intersectRanges(a.ranges, b.ranges) };
+  if (a.kind === 'names' && b.kind === 'names') {
+    if (!a.negated && !b.negated) return { kind: 'names', names: a.names.filter((n) => b.names.includes(n)), negated: false };
+    if (a.negated && b.negated) return { kind: 'names', names: Array.from(new Set([...a.names, ...b.names])), negated: true };
+    const [pos, neg] = a.negated ? [b, a] : [a, b];
+    return { kind: 'names', names: pos.names.filter((n) => !neg.names.includes(n)), negated: false };
+  }
+  return UNKNOWN;
+}
+
+// Does `outer` contain every value `inner` can take?
+function dimensionCovers(outer: Dimension, inner: Dimension): boolean {
+  if (outer.kind === 'any') return true;
+  if (outer.kind === 'unknown' || inner.kind === 'unknown' || inner.kind === 'any') return false;
+  if (outer.kind === 'ranges' && inner.kind === 'ranges') {
+    return inner.ranges.every(([s, e]) => outer.ranges.some(([os, oe]) => os <= s && e <= oe));
+  }
+  if (outer.kind === 'names' && inner.kind === 'names') {
+    if (!outer.negated && !inner.negated) return inner.names.every((n) => outer.names.includes(n));
+    if (outer.negated && !inner.negated) return inner.names.every((n) => !outer.names.includes(n));
+    if (outer.negated && inner.negated) return outer.names.every((n) => inner.names.includes(n));
+  }
+  return false;
+}
+
+// true/false when decidable, undefined otherwise
+function dimensionsOverlap(a: Dimension, b: Dimension): boolean | undefined {
+  if (a.kind === 'unknown' || b.kind === 'unknown') return undefined;
+  const both = intersectDimensions(a, b);
+  if (both.kind === 'any') return true;
+  if (both.kind === 'ranges') return both.ranges.length > 0;
+  if (both.kind === 'names') return both.negated || both.names.length > 0;
+  return undefined;
+}
+
+// Membership of a concrete value; undefined when the dimension is unknown.
+// A missing value (e.g. no port on an ICMP packet) only matches `any`.
+export function dimensionContains(dim: Dimension, value: number | string | undefined): boolean | undefined {
+  if (dim.kind === 'any') return true;
+  if (dim.kind === 'unknown') return undefined;
+  if (value === undefined) return false;
+  if (dim.kind === 'ranges') return typeof value === 'number' && dim.ranges.some(([s, e]) => s <= value && value <= e);
+  return dim.names.includes(String(value)) !== dim.negated;
+}
+
+function ruleDimensions(rule: FirewallRule): Dimension[] {
+  return [
+    rule.protocol,
+    rule.source.address,
+    rule.source.port,
+    rule.destination.address,
+    rule.destination.port,
+    rule.state,
+    rule.inboundInterface,
+    rule.outboundInterface,
+  ];
+}
+
+export function ruleCovers(outer: FirewallRule, inner: FirewallRule): boolean {
+  if (outer.extraMatchers.length > 0) return false;
+  const a = ruleDimensions(outer);
+  const b = ruleDimensions(inner);
+  return a.every((dim, i) => dimensionCovers(dim, b[i]));
+}
+
+export function rulesOverlap(a: FirewallRule, b: FirewallRule): boolean | undefined {
+  const x = ruleDimensions(a);
+  const y = ruleDimensions(b);
+  let result: boolean | undefined = true;
+  for (let i = 0; i < x.length; i++) {
+    const overlap = dimensionsOverlap(x[i], y[i]);
+    if (overlap === false) return false;
+    if (overlap === undefined) result = undefined;
+  }
+  if (a.extraMatchers.length > 0 || b.extraMatchers.length > 0) return undefined;
+  return result;
+}
+
+// ---- extraction ----
+
+function rulesetPrefix(path: string[]): { length: number; family: 'ipv4' | 'ipv6'; name?: string; hook?: FirewallRuleset['hook'] } | undefined {
+  if (path[0] !== 'firewall') return undefined;
+  if ((path[1] === 'name' || path[1] === 'ipv6-name') && path[2]) {
+    return { length: 3, family: path[1] === 'name' ? 'ipv4' : 'ipv6', name: path[2] };
+  }
+  if (path[1] === 'ipv4' || path[1] === 'ipv6') {
+    if (path[2] === 'name' && path[3]) return { length: 4, family: path[1], name: path[3] };
+    if ((path[2] === 'forward' || path[2] === 'input' || path[2] === 'output') && path[3] === 'filter') {
+      return { length: 4, family: path[1], hook: path[2] };
+    }
+  }
+  return undefined;
+}
+
+export function collectGroups(parsed: ParsedConfiguration): FirewallGroups {
+  const groups: FirewallGroups = { address: new Map(), network: new Map(), port: new Map(), includes: new Map() };
+  const add = (map: Map<string, string[]>, key: string, value: string) => {
+    const list = map.get(key) ?? [];
+    list.push(value);
+    map.set(key, list);
+  };
+  for (const c of parsed.commands) {
+    if (c.op !== 'set' || c.path[0] !== 'firewall' || c.path[1] !== 'group' || c.value === undefined) continue;
+    const [, , kind, name, attr] = c.path;
+    const key = `${kind}:${name}`;
+    if (attr === 'include') add(groups.includes, key, `${kind}:${c.value}`);
+    else if (kind === 'address-group' && attr === 'address') add(groups.address, key, c.value);
+    else if (kind === 'network-group' && attr === 'network') add(groups.network, key, c.value);
+    else if (kind === 'port-group' && attr === 'port') add(groups.port, key, c.value);
+  }
+  return groups;
+}
+
+function groupDimension(groups: FirewallGroups, kind: string, ref: string, family: 'ipv4' | 'ipv6'): Dimension {
+  if (family === 'ipv6') return UNKNOWN;
+  const negated = ref.startsWith('!');
+  const name = negated ? ref.slice(1) : ref;
+  const isPort = kind === 'port-group';
+  const values = (key: string): string[] | undefined => {
+    const map = kind === 'address-group' ? groups.address : kind === 'network-group' ? groups.network : isPort ? groups.port : undefined;
+    return map?.get(key);
+  };
+
+  const ranges: Interval[] = [];
+  const seen = new Set<string>();
+  const visit = (key: string): boolean => {
+    if (seen.has(key)) return true;
+    seen.add(key);
+    const own = values(key);
+    const included = groups.includes.get(key) ?? [];
+    if (!own && included.length === 0) return false;
+    for (const v of own ?? []) {
+      const parsedRanges = isPort ? parsePortRanges(v) : parseAddressRanges(v);
+      if (!parsedRanges) return false;
+      ranges.push(...parsedRanges);
+    }
+    return included.every(visit);
+  };
+  if (!visit(`${kind}:${name}`)) return UNKNOWN;
+  const merged = mergeRanges(ranges);
+  return { kind: 'ranges', ranges: negated ? complementRanges(merged, isPort ? PORT_MAX : IPV4_MAX) : merged };
+}
+
+function namesDimension(value: string, normalize: (v: string) => string = (v) => v): Dimension {
+  const negated = value.startsWith('!');
+  const name = negated ? value.slice(1) : value;
+  if (/[*+]/.test(name)) return UNKNOWN;
+  return { kind: 'names', names: [normalize(name)], negated };
+}
+
+function protocolDimension(value: string): Dimension {
+  const negated = value.startsWith('!');
+  const name = negated ? value.slice(1) : value;
+  if (name === 'all') return negated ? { kind: 'names', names: [], negated: false } : ANY;
+  const names = name === 'tcp_udp' ? ['tcp', 'udp'] : [protocolNumbers[name] ?? name];
+  return { kind: 'names', names, negated };
+}
+
+export function emptyRule(number: number, line: number, column: number): FirewallRule {
+  return {
+    number,
+    line,
+    column,
+    disabled: false,
+    log: false,
+    protocol: ANY,
+    source: { address: ANY, port: ANY },
+    destination: { address: ANY, port: ANY },
+    state: ANY,
+    inboundInterface: ANY,
+    outboundInterface: ANY,
+    extraMatchers: [],
+  };
+}
+
+export function applyRuleCommand(rule: FirewallRule, rest: string[], value: string | undefined, family: 'ipv4' | 'ipv6', groups: FirewallGroups) {
+  const [key, sub, subsub] = rest;
+  const extra = () => {
+    const name = rest.join(' ');
+    if (!rule.extraMatchers.includes(name)) rule.extraMatchers.push(name);
+  };
+  switch (key) {
+    case 'action':
+      rule.action = value;
+      return;
+    case 'jump-target':
+      rule.jumpTarget = value;
+      return;
+    case 'disable':
+      rule.disabled = true;
+      return;
+    case 'log':
+      rule.log = value !== 'disable';
+      return;
+    case 'description':
+    case 'log-options':
+      return;
+    case 'protocol':
+      if (value) rule.protocol = intersectDimensions(rule.protocol, protocolDimension(value));
+      return;
+    case 'state': {
+      // 1.3 `state established enable|disable`, 1.4 `state established`
+      if (!sub || value === 'disable') return;
+      const current = rule.state.kind === 'names' ? rule.state.names : [];
+      rule.state = { kind: 'names', names: [...current, sub], negated: false };
+      return;
+    }
+    case 'inbound-interface':
+    case 'outbound-interface': {
+      const field = key === 'inbound-interface' ? 'inboundInterface' : 'outboundInterface';
+      if (sub === 'group') rule[field] = UNKNOWN;
+      else if (value) rule[field] = intersectDimensions(rule[field], namesDimension(value));
+      return;
+    }
+    case 'source':
+    case 'destination': {
+      const side = rule[key];
+      if (sub === 'address' && value) {
+        const dim = family === 'ipv6' ? UNKNOWN : negatable(value, parseAddressRanges, IPV4_MAX);
+        side.address = intersectDimensions(side.address, dim);
+      } else if (sub === 'port' && value) {
+        side.port = intersectDimensions(side.port, negatable(value, parsePortRanges, PORT_MAX));
+      } else if (sub === 'group' && value && (subsub === 'address-group' || subsub === 'network-group')) {
+        side.address = intersectDimensions(side.address, groupDimension(groups, subsub, value, family));
+      } else if (sub === 'group' && value && subsub === 'port-group') {
+        side.port = intersectDimensions(side.port, groupDimension(groups, subsub, value, family));
+      } else {
+        extra();
+      }
+      return;
+    }
+    default:
+      extra();
+  }
+}
+
+export function extractFirewall(parsed: ParsedConfiguration): FirewallRuleset[] {
+  const groups = collectGroups(parsed);
+  const rulesets = new Map<string, FirewallRuleset>();
+  const rules = new Map<string, FirewallRule>();
+
+  const setCommands = parsed.commands.filter((c: ParsedCommand) => c.op === 'set' && c.valid);
+  for (const c of setCommands) {
+    const prefix = rulesetPrefix(c.path);
+    if (!prefix) continue;
+    const id = c.path.slice(0, prefix.length).join(' ');
+    let ruleset = rulesets.get(id);
+    if (!ruleset) {
+      ruleset = { id, family: prefix.family, name: prefix.name, hook: prefix.hook, line: c.line, rules: [] };
+      rulesets.set(id, ruleset);
+    }
+
+    const rest = c.path.slice(prefix.length);
+    if (rest[0] === 'default-action') {
+      ruleset.defaultAction = c.value;
+      continue;
+    }
+    if (rest[0] !== 'rule' || !rest[1]) continue;
+
+    const number = Number(rest[1]);
+    const ruleKey = `${id}#${number}`;
+    let rule = rules.get(ruleKey);
+    if (!rule) {
+      rule = emptyRule(number, c.line, c.tokens[prefix.length + 1]?.column ?? 1);
+      rules.set(ruleKey, rule);
+      ruleset.rules.push(rule);
+    }
+    if (rest.length > 2) applyRuleCommand(rule, rest.slice(2), c.value, prefix.family, groups);
+  }
+
+  const result = Array.from(rulesets.values());
+  result.forEach((rs) => rs.rules.sort((a, b) => a.number - b.number));
+  return result;
+}
+
+// ---- analysis ----
+
+const terminalActions = ['accept', 'drop', 'reject', 'return'];
+
+function isStateOnly(rule: FirewallRule): boolean {
+  return rule.state.kind !== 'any' && rule.extraMatchers.length === 0 &&
+    ruleDimensions(rule).every((dim) => dim === rule.state || dim.kind === 'any');
+}
+
+export function analyzeFirewall(parsed: ParsedConfiguration): FirewallFinding[] {
+  const findings: FirewallFinding[] = [];
+
+  for (const ruleset of extractFirewall(parsed)) {
+    const active = ruleset.rules.filter((r) => !r.disabled && r.action);
+
+    active.forEach((rule, j) => {
+      const earlier = active.slice(0, j).filter((r) => terminalActions.includes(r.action!));
+      const base = { ruleset: ruleset.id, rule: rule.number, line: rule.line, column: rule.column };
+
+      const cover = earlier.find((r) => ruleCovers(r, rule));
+      if (cover) {
+        const same = cover.action === rule.action;
+        findings.push({
+          ...base,
+          kind: same ? 'redundant' : 'shadowed',
+          relatedRule: cover.number,
+          message: same
+            ? `Rule ${rule.number} in ${ruleset.id} is redundant: rule ${cover.number} already matches all of its traffic with the same action (${cover.action})`
+            : `Rule ${rule.number} in ${ruleset.id} is shadowed by rule ${cover.number} (${cover.action}) and will never match`,
+        });
+        return;
+      }
+
+      // Partial overlaps only; an exception followed by a broader rule
+      // (generalisation) and state housekeeping rules are intentional
+      const conflict = earlier.find((r) =>
+        r.action !== rule.action &&
+        !isStateOnly(r) &&
+        !ruleCovers(rule, r) &&
+        rulesOverlap(r, rule) === true,
+      );
+      if (conflict) {
+        findings.push({
+          ...base,
+          kind: 'conflict',
+          relatedRule: conflict.number,
+          message: `Rule ${rule.number} in ${ruleset.id} overlaps rule ${conflict.number} with a different action (${rule.action} vs ${conflict.action}); rule order decides the result`,
+        });
+        return;
+      }
+
+      // Same effect as falling through to the default action
+      const later = active.slice(j + 1);
+      if (
+        ruleset.defaultAction &&
+        rule.action === ruleset.defaultAction &&
+        terminalActions.includes(rule.action) &&
+        !rule.log &&
+        later.every((r) => rulesOverlap(r, rule) === false)
+      ) {
+        findings.push({
+          ...base,
+          kind: 'redundant',
+          message: `Rule ${rule.number} in ${ruleset.id} is redundant: it has the same effect as default-action '${ruleset.defaultAction}'`,
+        });
+      }
+    });
+  }
+
+  return findings;
+}
+
+export function firewallIssues(parsed: ParsedConfiguration): ValidationIssue[] {
+  return analyzeFirewall(parsed).map((f) => ({
+    line: f.line,
+    column: f.column,
+    code: `rule-${f.kind}`,
+    message: f.message,
+    severity: f.kind === 'conflict' ? 'info' : 'warning',
+  }));
+}
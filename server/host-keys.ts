@@ -0,0 +1,182 @@
+import { lookup } from "dns/promises";
+import { storage } from "./storage";
+import {
+  routerNodeProperties,
+  routerNodePropertiesSchema,
+  type RouterNodeProperties,
+  type RouterTransport,
+  type TopologyNode,
+} from "@shared/schema";
+import type { VerifyHostKey } from "./vyos";
+
+// SSH host key pinning, trust on first use. The first key a router presents
+// is stored with its topology node (`properties.ssh.hostKey`); a different key
+// later is refused and kept as `properties.ssh.pendingHostKey` until an admin
+// approves it. Routers without a topology node are not pinned.
+
+type SshProperties = NonNullable<RouterNodeProperties['ssh']>;
+
+function sshOf(node: TopologyNode): SshProperties {
+  return routerNodeProperties(node).ssh ?? {};
+}
+
+function sameTarget(ssh: SshProperties, host: string, port: number): boolean {
+  return !!ssh.host && ssh.host.toLowerCase() === host.toLowerCase() && (ssh.port || 22) === port;
+}
+
+function saveSsh(node: TopologyNode, ssh: SshProperties) {
+  return storage.updateTopologyNode(node.workspaceId, node.id, { properties: { ...routerNodeProperties(node), ssh } });
+}
+
+export interface RouterTarget {
+  nodeId?: string;
+  host: string;
+  port?: number;
+  transport?: RouterTransport;
+  apiUrl?: string;
+}
+
+// The addresses a host name resolves to, so that aliases of one router
+// (`localhost` and `127.0.0.1`) are the same target. A name that does not
+// resolve only matches itself.
+async function addressesOf(host: string): Promise<string[]> {
+  const name = host.trim().toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  if (!name) return [];
+  try {
+    return [name, ...(await lookup(name, { all: true })).map((a) => a.address)];
+  } catch {
+    return [name];
+  }
+}
+
+function apiHost(url: string | undefined): string | undefined {
+  try {
+    return url ? new URL(url).hostname : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Router nodes reached at the target's address, the node it names first. An
+// SSH target must also use the node's port; the HTTP API may listen anywhere.
+export async function routerNodesAt(workspaceId: string, target: RouterTarget): Promise<TopologyNode[]> {
+  const port = target.port ?? 22;
+  const wanted = new Set((await Promise.all([target.host, apiHost(target.apiUrl)].filter((h): h is string => !!h).map(addressesOf))).flat());
+  const routers = (await storage.getAllTopologyNodes(workspaceId)).filter((n) => n.type === 'router');
+  const matches = await Promise.all(routers.map(async (node) => {
+    const props = routerNodeProperties(node);
+    if (target.transport !== 'http' && (props.ssh?.port || 22) !== port) return false;
+    const hosts = [props.ssh?.host, apiHost(props.api?.url)].filter((h): h is string => !!h);
+    return (await Promise.all(hosts.map(addressesOf))).flat().some((address) => wanted.has(address));
+  }));
+  return routers
+    .filter((_, i) => matches[i])
+    .sort((a, b) => Number(b.id === target.nodeId) - Number(a.id === target.nodeId));
+}
+
+function preferredNode(nodes: TopologyNode[]): TopologyNode | undefined {
+  return nodes.find((n) => routerNodeProperties(n).protected) ?? nodes[0];
+}
+
+// The router node a connection belongs to. Every node at the address is the
+// same router, so a protected one wins over the node the request names.
+export async function routerNodeFor(workspaceId: string, target: RouterTarget): Promise<TopologyNode | undefined> {
+  return preferredNode(await routerNodesAt(workspaceId, target));
+}
+
+// The node and every other router node at its SSH address
+async function sameRouterNodes(node: TopologyNode): Promise<TopologyNode[]> {
+  const ssh = sshOf(node);
+  const others = ssh.host ? await routerNodesAt(node.workspaceId, { host: ssh.host, port: ssh.port || 22 }) : [];
+  return [node, ...others.filter((n) => n.id !== node.id)];
+}
+
+// The key a router presents must match the pin of every node at its address,
+// so a second node for the same router cannot pin a key of its own
+export function hostKeyVerifier(workspaceId: string, target: RouterTarget, log: (line: string) => void = () => {}): VerifyHostKey {
+  const address = `${target.host}:${target.port ?? 22}`;
+  return async (fingerprint) => {
+    const nodes = await routerNodesAt(workspaceId, target);
+    const node = preferredNode(nodes);
+    if (!node) {
+      log(`Host key ${fingerprint} not pinned: ${address} is not a router node`);
+      return;
+    }
+
+    const pinned = nodes.filter((n) => sshOf(n).hostKey);
+    if (pinned.length === 0) {
+      await saveSsh(node, { ...sshOf(node), hostKey: { fingerprint, trustedAt: new Date().toISOString() }, pendingHostKey: undefined });
+      log(`Pinned host key ${fingerprint} for ${address}`);
+      return;
+    }
+    const mismatch = pinned.find((n) => sshOf(n).hostKey!.fingerprint !== fingerprint);
+    if (!mismatch) return;
+
+    const pendingHostKey = { fingerprint, seenAt: new Date().toISOString() };
+    await Promise.all(nodes.map((n) => saveSsh(n, { ...sshOf(n), pendingHostKey })));
+    throw Object.assign(
+      new Error(`Host key for ${address} changed: pinned ${sshOf(mismatch).hostKey!.fingerprint}, offered ${fingerprint}. Refusing to connect until the new key is approved`),
+      { status: 409, code: 'host-key-mismatch' },
+    );
+  };
+}
+
+// Trust the key last refused for the node, for every node at its address.
+// `fingerprint` must match it, so an approval never covers a key the admin
+// has not seen.
+export async function approveHostKey(workspaceId: string, id: string, fingerprint: string): Promise<TopologyNode | undefined> {
+  const node = await storage.getTopologyNode(workspaceId, id);
+  if (!node) return undefined;
+  const ssh = sshOf(node);
+  if (!ssh.pendingHostKey || ssh.pendingHostKey.fingerprint !== fingerprint) {
+    throw Object.assign(new Error('No pending host key with this fingerprint'), { status: 409 });
+  }
+  const hostKey = { fingerprint, trustedAt: new Date().toISOString() };
+  const [updated] = await Promise.all((await sameRouterNodes(node)).map((n) => saveSsh(n, { ...sshOf(n), hostKey, pendingHostKey: undefined })));
+  return updated;
+}
+
+// Forget the pinned key at the node's address; the next connection pins
+// whatever the router presents
+export async function forgetHostKey(workspaceId: string, id: string): Promise<TopologyNode | undefined> {
+  const node = await storage.getTopologyNode(workspaceId, id);
+  if (!node) return undefined;
+  const [updated] = await Promise.all((await sameRouterNodes(node)).map((n) => {
+    const { hostKey, pendingHostKey, ...ssh } = sshOf(n);
+    return saveSsh(n, ssh);
+  }));
+  return updated;
+}
+
+// Throws 403 when a change would drop the node's pinned host key: deleting
+// it (no `changes`), making it something other than a router, or pointing it
+// at another host or port. Only admins may; otherwise the next connection
+// would pin whatever key it is offered.
+export function assertKeepsHostKey(existing: TopologyNode, changes?: { type?: string; properties?: unknown }) {
+  const previous = sshOf(existing);
+  if (!previous.hostKey) return;
+  const properties = changes?.properties === undefined ? routerNodeProperties(existing) : withPinnedHostKeys(existing, changes.properties);
+  const kept = !!changes && (changes.type ?? existing.type) === 'router' && !!properties?.ssh?.hostKey;
+  if (!kept) {
+    throw Object.assign(
+      new Error(`${existing.label} holds the pinned host key of its router; only admins can delete, retype or retarget it`),
+      { status: 403 },
+    );
+  }
+}
+
+// Node properties as sent by a client, validated, with the host keys only
+// this module manages carried over from `existing`. Keys are dropped when the
+// node is pointed at another host or port.
+export function withPinnedHostKeys(existing: TopologyNode | undefined, properties: unknown): RouterNodeProperties | null {
+  if (properties === undefined || properties === null) return null;
+  const parsed = routerNodePropertiesSchema.parse(properties);
+  if (!parsed.ssh) return parsed;
+  const { hostKey, pendingHostKey, ...ssh } = parsed.ssh;
+  const previous = existing ? sshOf(existing) : {};
+  const keep = !!previous.host && sameTarget(previous, ssh.host ?? '', ssh.port || 22);
+  return {
+    ...parsed,
+    ssh: keep ? { ...ssh, hostKey: previous.hostKey, pendingHostKey: previous.pendingHostKey } : ssh,
+  };
+}
@@ -1,9 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { migrateDatabase } from "./db";
+import { recoverInterruptedJobs } from "./apply-jobs";
+import { recoverInterruptedDeployments } from "./deployments";
 
 const app = express();
-app.use(express.json());
+// Large enough for workspace archives
+app.use(express.json({ limit: "20mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -37,6 +41,16 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (process.env.DATABASE_URL) {
+    await migrateDatabase();
+    log("database migrated", "storage");
+  }
+  const jobs = await recoverInterruptedJobs();
+  const rollouts = await recoverInterruptedDeployments();
+  if (jobs || rollouts) {
+    log(`closed ${jobs} apply jobs and ${rollouts} deployments interrupted by the last shutdown`, "storage");
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,90 @@
+import { storage } from "./storage";
+import { routerNodeFor } from "./host-keys";
+import { decryptSecret, encryptSecret } from "./credentials";
+import { routerNodeProperties, type JumpHost, type JumpHostSummary } from "@shared/schema";
+import type { JumpHop, VerifyHostKey } from "./vyos";
+
+// SSH bastions. A router node lists the ones to tunnel through in
+// `properties.ssh.jumpHostIds`, outermost first. Their passwords and keys are
+// encrypted like stored credentials and never leave the server, and their
+// host keys are pinned on first use like the routers'.
+
+export function summarizeJumpHost(jumpHost: JumpHost): JumpHostSummary {
+  const { password, privateKey, ...rest } = jumpHost;
+  return { ...rest, hasPassword: !!password, hasPrivateKey: !!privateKey };
+}
+
+type JumpHostSecrets = Pick<JumpHost, 'password' | 'privateKey'>;
+
+// Encrypt the password and key about to be stored; absent ones stay absent
+export function sealJumpHostSecrets<T extends Partial<JumpHostSecrets>>(input: T): T {
+  return {
+    ...input,
+    ...(input.password ? { password: encryptSecret(input.password) } : {}),
+    ...(input.privateKey ? { privateKey: encryptSecret(input.privateKey) } : {}),
+  };
+}
+
+// Jump hosts stored before their secrets were encrypted hold them in plain
+// text until their next use encrypts them
+const isSealed = (value: string | null) => !value || value.startsWith('v1:');
+
+function openSecret(value: string | null): string | undefined {
+  if (!value) return undefined;
+  return isSealed(value) ? decryptSecret(value) : value;
+}
+
+function jumpHostVerifier(jumpHost: JumpHost): VerifyHostKey {
+  return async (fingerprint) => {
+    const current = await storage.getJumpHost(jumpHost.workspaceId, jumpHost.id);
+    if (!current?.hostKey) {
+      await storage.updateJumpHost(jumpHost.workspaceId, jumpHost.id, { hostKey: fingerprint });
+      return;
+    }
+    if (current.hostKey === fingerprint) return;
+    throw Object.assign(
+      new Error(`Host key changed: pinned ${current.hostKey}, offered ${fingerprint}. Refusing to connect until the pinned key is forgotten`),
+      { status: 409, code: 'host-key-mismatch' },
+    );
+  };
+}
+
+// The hops for a connection: the ids given with the request, else those of
+// the router's node
+export async function resolveJumpHops(workspaceId: string, target: { nodeId?: string; host: string; port?: number; jumpHostIds?: string[] }): Promise<JumpHop[]> {
+  let ids = target.jumpHostIds;
+  if (!ids) {
+    const node = await routerNodeFor(workspaceId, target);
+    ids = routerNodeProperties(node).ssh?.jumpHostIds ?? [];
+  }
+
+  const hops: JumpHop[] = [];
+  for (const id of ids ?? []) {
+    const jumpHost = await storage.getJumpHost(workspaceId, id);
+    if (!jumpHost) throw Object.assign(new Error(`Jump host ${id} not found`), { status: 400 });
+    const { password, privateKey } = jumpHost;
+    if (!isSealed(password) || !isSealed(privateKey)) {
+      await storage.updateJumpHost(workspaceId, id, sealJumpHostSecrets({
+        ...(isSealed(password) ? {} : { password }),
+        ...(isSealed(privateKey) ? {} : { privateKey }),
+      }));
+    }
+    hops.push({
+      host: jumpHost.host,
+      port: jumpHost.port,
+      username: jumpHost.username,
+      password: openSecret(password),
+      privateKey: openSecret(privateKey),
+      verifyHostKey: jumpHostVerifier(jumpHost),
+    });
+  }
+  return hops;
+}
+
+// Router nodes tunnelling through the jump host
+export async function nodesUsingJumpHost(workspaceId: string, id: string): Promise<string[]> {
+  const nodes = await storage.getAllTopologyNodes(workspaceId);
+  return nodes
+    .filter((n) => (routerNodeProperties(n).ssh?.jumpHostIds ?? []).includes(id))
+    .map((n) => n.label);
+}
@@ -0,0 +1,113 @@
+import express from "express";
+import { pathToFileURL } from "url";
+import { formatCommand, parseConfiguration } from "@shared/config-parser";
+import { flattenConfiguration } from "./config-diff";
+
+// Stand-in for the VyOS 1.4 HTTP API, for trying the HTTP transport without a
+// router. The configuration lives in memory and is checked against the
+// command tree the editor uses, so invalid paths fail like on a real router.
+//
+//   npm run mock:vyos    (PORT defaults to 8443, MOCK_VYOS_API_KEY to "vyos")
+//
+// Point a router node at it with the HTTP transport and the URL http://localhost:8443.
+
+const initialConfiguration = [
+  "set system host-name 'vyos-mock'",
+  "set interfaces ethernet eth0 hw-id '00:00:5e:00:53:01'",
+  "set interfaces ethernet eth0 address 'dhcp'",
+].join("\n");
+
+interface Operation {
+  op: 'set' | 'delete';
+  path: string[];
+}
+
+function toJson(config: string) {
+  const root: Record<string, any> = {};
+  flattenConfiguration(config).forEach((leaf) => {
+    let node = root;
+    const parents = leaf.value === undefined ? leaf.path : leaf.path.slice(0, -1);
+    parents.forEach((key) => (node = node[key] ??= {}));
+    if (leaf.value === undefined) return;
+    const key = leaf.path[leaf.path.length - 1];
+    if (!leaf.multi) node[key] = leaf.value;
+    else node[key] = node[key] === undefined ? leaf.value : [].concat(node[key], leaf.value as any);
+  });
+  return root;
+}
+
+function normalize(config: string): string {
+  return Array.from(flattenConfiguration(config).values())
+    .map((leaf) => formatCommand('set', leaf.path, leaf.value))
+    .join("\n");
+}
+
+// Each app keeps its own running and saved configuration
+export function createMockVyosApi(apiKey: string) {
+  let running = initialConfiguration;
+  let saved = running;
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.use((req, res, next) => {
+    if (req.body?.key !== apiKey) {
+      return res.status(401).json({ success: false, error: "Valid API key is required", data: null });
+    }
+    try {
+      req.body.data = JSON.parse(req.body.data ?? "null");
+    } catch {
+      return res.status(400).json({ success: false, error: "Invalid JSON in data", data: null });
+    }
+    next();
+  });
+
+  app.post("/retrieve", (req, res) => {
+    const { op } = req.body.data ?? {};
+    if (op !== "showConfig") {
+      return res.status(400).json({ success: false, error: `Unsupported operation ${op}`, data: null });
+    }
+    res.json({ success: true, data: toJson(running), error: null });
+  });
+
+  // Every operation is validated before any is applied, then all are
+  // committed together, as /configure does
+  app.post("/configure", (req, res) => {
+    const data = req.body.data;
+    const operations: Operation[] = Array.isArray(data) ? data : [data];
+    const lines: string[] = [];
+    for (const { op, path } of operations) {
+      if ((op !== "set" && op !== "delete") || !Array.isArray(path) || path.length === 0) {
+        return res.status(400).json({ success: false, error: "Each operation needs an op and a path", data: null });
+      }
+      const line = formatCommand(op, path.map(String));
+      const invalid = parseConfiguration(line).diagnostics.find((d) => d.severity === "error");
+      if (invalid) {
+        const error = `Configuration path: [${path.join(" ")}] is not valid\n${op === "set" ? "Set" : "Delete"} failed`;
+        return res.status(400).json({ success: false, error, data: null });
+      }
+      lines.push(line);
+    }
+
+    running = normalize([running, ...lines].join("\n"));
+    res.json({ success: true, data: null, error: null });
+  });
+
+  app.post("/config-file", (req, res) => {
+    const { op } = req.body.data ?? {};
+    if (op === "save") saved = running;
+    else if (op === "load") running = saved;
+    else return res.status(400).json({ success: false, error: `Unsupported operation ${op}`, data: null });
+    res.json({ success: true, data: null, error: null });
+  });
+
+  return app;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.PORT || "8443", 10);
+  const apiKey = process.env.MOCK_VYOS_API_KEY || "vyos";
+  createMockVyosApi(apiKey).listen(port, () => {
+    console.log(`Mock VyOS API listening on http://localhost:${port} (key "${apiKey}")`);
+  });
+}
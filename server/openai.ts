@@ -1,4 +1,6 @@
 import OpenAI from "openai";
+import type { ValidationResult } from "@shared/schema";
+import { validateConfiguration } from "./validator";
 
 // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
 let cachedOpenAI: OpenAI | null = null;
@@ -70,53 +72,8 @@ Rules:
   }
 }
 
-export async function validateVyOSConfiguration(config: string): Promise<{
-  valid: boolean;
-  errors: Array<{ line: number; message: string; severity: 'error' | 'warning' | 'info' }>;
-  warnings: Array<{ line: number; message: string }>;
-}> {
-  const errors: Array<{ line: number; message: string; severity: 'error' | 'warning' | 'info' }> = [];
-  const warnings: Array<{ line: number; message: string }> = [];
-  
-  const lines = config.split('\n');
-  
-  lines.forEach((line, index) => {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith('#')) return;
-    
-    // Basic VyOS syntax validation
-    if (!trimmed.startsWith('set ') && !trimmed.startsWith('delete ')) {
-      errors.push({
-        line: index + 1,
-        message: 'VyOS commands must start with "set" or "delete"',
-        severity: 'error'
-      });
-    }
-    
-    // Check for common issues
-    if (trimmed.includes('  ')) {
-      warnings.push({
-        line: index + 1,
-        message: 'Multiple spaces detected, may cause parsing issues'
-      });
-    }
-    
-    // Check for unquoted values with spaces
-    const parts = trimmed.split(' ');
-    for (let i = 0; i < parts.length; i++) {
-      if (parts[i].includes('/') && !parts[i].match(/^'.*'$/)) {
-        if (parts[i].match(/^\d+\.\d+\.\d+\.\d+\/\d+$/)) {
-          continue;
-        }
-      }
-    }
-  });
-  
-  return {
-    valid: errors.filter(e => e.severity === 'error').length === 0,
-    errors,
-    warnings
-  };
+export async function validateVyOSConfiguration(config: string): Promise<ValidationResult> {
+  return validateConfiguration(config);
 }
 
 export async function suggestCommands(partial: string): Promise<Array<{
@@ -0,0 +1,316 @@
+import type { ParsedCommand, ParsedConfiguration } from "@shared/config-parser";
+import type { ValidationIssue } from "./validator";
+
+export type SymbolKind =
+  | 'firewall-ruleset'
+  | 'ipv6-firewall-ruleset'
+  | 'address-group'
+  | 'network-group'
+  | 'port-group'
+  | 'interface-group'
+  | 'mac-group'
+  | 'domain-group'
+  | 'ipv6-address-group'
+  | 'ipv6-network-group'
+  | 'zone'
+  | 'interface'
+  | 'route-map'
+  | 'prefix-list'
+  | 'prefix-list6'
+  | 'access-list'
+  | 'as-path-list'
+  | 'bgp-peer-group'
+  | 'ike-group'
+  | 'esp-group'
+  | 'pki-ca'
+  | 'pki-certificate'
+  | 'vrrp-group';
+
+const kindLabels: Record<SymbolKind, string> = {
+  'firewall-ruleset': 'Firewall ruleset',
+  'ipv6-firewall-ruleset': 'IPv6 firewall ruleset',
+  'address-group': 'Address group',
+  'network-group': 'Network group',
+  'port-group': 'Port group',
+  'interface-group': 'Interface group',
+  'mac-group': 'MAC group',
+  'domain-group': 'Domain group',
+  'ipv6-address-group': 'IPv6 address group',
+  'ipv6-network-group': 'IPv6 network group',
+  zone: 'Firewall zone',
+  interface: 'Interface',
+  'route-map': 'Route-map',
+  'prefix-list': 'Prefix-list',
+  'prefix-list6': 'IPv6 prefix-list',
+  'access-list': 'Access-list',
+  'as-path-list': 'AS-path list',
+  'bgp-peer-group': 'BGP peer-group',
+  'ike-group': 'IKE group',
+  'esp-group': 'ESP group',
+  'pki-ca': 'PKI CA',
+  'pki-certificate': 'PKI certificate',
+  'vrrp-group': 'VRRP group',
+};
+
+// Definitions that are legitimately never referenced from the configuration itself
+const neverUnused: SymbolKind[] = ['interface', 'zone', 'vrrp-group'];
+// Interfaces exist on the router even when a snippet does not configure them,
+// so a dangling interface reference is only a warning
+const softKinds: SymbolKind[] = ['interface'];
+const builtinInterfaces = ['lo'];
+
+export interface SymbolDefinition {
+  kind: SymbolKind;
+  name: string;
+  line: number;
+  column: number;
+}
+
+export interface SymbolReference extends SymbolDefinition {}
+
+export interface SymbolTable {
+  definitions: Map<string, SymbolDefinition>;
+  references: SymbolReference[];
+}
+
+// Path patterns: '*' matches one element, '**' any number of elements and
+// '$' one element that is captured as the symbol name. Without '$' the name
+// is the leaf value.
+type Pattern = string[];
+type KindResolver = SymbolKind | ((path: string[]) => SymbolKind | undefined);
+
+interface SymbolRule {
+  kind: KindResolver;
+  pattern: Pattern;
+}
+
+const groupKinds = ['address-group', 'network-group', 'port-group', 'interface-group', 'mac-group', 'domain-group', 'ipv6-address-group', 'ipv6-network-group'] as const;
+
+const isIpv6Firewall = (path: string[]) => path[1] === 'ipv6' || path[1] === 'ipv6-name';
+const rulesetKind = (path: string[]): SymbolKind => (isIpv6Firewall(path) ? 'ipv6-firewall-ruleset' : 'firewall-ruleset');
+
+// `source group address-group X` inside an IPv6 ruleset points at an ipv6-address-group
+function ruleGroupKind(path: string[]): SymbolKind | undefined {
+  const group = path[path.length - 1];
+  if (isIpv6Firewall(path) && (group === 'address-group' || group === 'network-group')) {
+    return `ipv6-${group}` as SymbolKind;
+  }
+  return (groupKinds as readonly string[]).includes(group) ? (group as SymbolKind) : undefined;
+}
+
+const definitionRules: SymbolRule[] = [
+  { kind: 'firewall-ruleset', pattern: ['firewall', 'name', '$'] },
+  { kind: 'firewall-ruleset', pattern: ['firewall', 'ipv4', 'name', '$'] },
+  { kind: 'ipv6-firewall-ruleset', pattern: ['firewall', 'ipv6-name', '$'] },
+  { kind: 'ipv6-firewall-ruleset', pattern: ['firewall', 'ipv6', 'name', '$'] },
+  ...groupKinds.map((kind): SymbolRule => ({ kind, pattern: ['firewall', 'group', kind, '$'] })),
+  { kind: 'zone', pattern: ['firewall', 'zone', '$'] },
+  { kind: 'route-map', pattern: ['policy', 'route-map', '$'] },
+  { kind: 'prefix-list', pattern: ['policy', 'prefix-list', '$'] },
+  { kind: 'prefix-list6', pattern: ['policy', 'prefix-list6', '$'] },
+  { kind: 'access-list', pattern: ['policy', 'access-list', '$'] },
+  { kind: 'as-path-list', pattern: ['policy', 'as-path-list', '$'] },
+  { kind: 'bgp-peer-group', pattern: ['protocols', 'bgp', 'peer-group', '$'] },
+  { kind: 'ike-group', pattern: ['vpn', 'ipsec', 'ike-group', '$'] },
+  { kind: 'esp-group', pattern: ['vpn', 'ipsec', 'esp-group', '$'] },
+  { kind: 'pki-ca', pattern: ['pki', 'ca', '$'] },
+  { kind: 'pki-certificate', pattern: ['pki', 'certificate', '$'] },
+  { kind: 'vrrp-group', pattern: ['high-availability', 'vrrp', 'group', '$'] },
+];
+
+const bgpPolicyKind = (list: SymbolKind, list6: SymbolKind) => (path: string[]) =>
+  path[5]?.startsWith('ipv6') ? list6 : list;
+
+const referenceRules: SymbolRule[] = [
+  // Firewall rulesets
+  { kind: 'firewall-ruleset', pattern: ['interfaces', '**', 'firewall', '*', 'name'] },
+  { kind: 'ipv6-firewall-ruleset', pattern: ['interfaces', '**', 'firewall', '*', 'ipv6-name'] },
+  { kind: rulesetKind, pattern: ['firewall', '**', 'rule', '*', 'jump-target'] },
+  { kind: rulesetKind, pattern: ['firewall', '**', 'default-jump-target'] },
+  { kind: 'firewall-ruleset', pattern: ['firewall', 'zone', '*', 'from', '*', 'firewall', 'name'] },
+  { kind: 'ipv6-firewall-ruleset', pattern: ['firewall', 'zone', '*', 'from', '*', 'firewall', 'ipv6-name'] },
+  { kind: 'zone', pattern: ['firewall', 'zone', '*', 'from', '$'] },
+
+  // Firewall groups
+  { kind: ruleGroupKind, pattern: ['firewall', '**', 'rule', '*', 'source', 'group', '*'] },
+  { kind: ruleGroupKind, pattern: ['firewall', '**', 'rule', '*', 'destination', 'group', '*'] },
+  { kind: (path) => path[2] as SymbolKind, pattern: ['firewall', 'group', '*', '*', 'include'] },
+  { kind: 'interface-group', pattern: ['firewall', '**', 'rule', '*', 'inbound-interface', 'group'] },
+  { kind: 'interface-group', pattern: ['firewall', '**', 'rule', '*', 'outbound-interface', 'group'] },
+  { kind: 'interface-group', pattern: ['nat', '*', 'rule', '*', 'inbound-interface', 'group'] },
+  { kind: 'interface-group', pattern: ['nat', '*', 'rule', '*', 'outbound-interface', 'group'] },
+
+  // Interfaces
+  { kind: 'interface', pattern: ['firewall', '**', 'rule', '*', 'inbound-interface'] },
+  { kind: 'interface', pattern: ['firewall', '**', 'rule', '*', 'inbound-interface', 'name'] },
+  { kind: 'interface', pattern: ['firewall', '**', 'rule', '*', 'outbound-interface'] },
+  { kind: 'interface', pattern: ['firewall', '**', 'rule', '*', 'outbound-interface', 'name'] },
+  { kind: 'interface', pattern: ['firewall', 'zone', '*', 'interface'] },
+  { kind: 'interface', pattern: ['firewall', 'group', 'interface-group', '*', 'interface'] },
+  { kind: 'interface', pattern: ['nat', '*', 'rule', '*', 'inbound-interface'] },
+  { kind: 'interface', pattern: ['nat', '*', 'rule', '*', 'inbound-interface', 'name'] },
+  { kind: 'interface', pattern: ['nat', '*', 'rule', '*', 'outbound-interface'] },
+  { kind: 'interface', pattern: ['nat', '*', 'rule', '*', 'outbound-interface', 'name'] },
+  { kind: 'interface', pattern: ['interfaces', 'bonding', '*', 'member', 'interface'] },
+  { kind: 'interface', pattern: ['interfaces', 'bridge', '*', 'member', 'interface', '$'] },
+  { kind: 'interface', pattern: ['interfaces', '*', '*', 'source-interface'] },
+  { kind: 'interface', pattern: ['protocols', 'static', '*', '*', 'next-hop', '*', 'interface'] },
+  { kind: 'interface', pattern: ['protocols', 'static', '*', '*', 'interface', '$'] },
+  { kind: 'interface', pattern: ['protocols', 'ospf', 'interface', '$'] },
+  { kind: 'interface', pattern: ['protocols', 'ospf', 'passive-interface'] },
+  { kind: 'interface', pattern: ['high-availability', 'vrrp', 'group', '*', 'interface'] },
+  { kind: 'interface', pattern: ['vpn', 'ipsec', 'interface'] },
+  { kind: 'interface', pattern: ['vpn', 'ipsec', 'ipsec-interfaces', 'interface'] },
+  { kind: 'interface', pattern: ['vpn', 'ipsec', 'site-to-site', 'peer', '*', 'vti', 'bind'] },
+  { kind: 'interface', pattern: ['vpn', 'ipsec', 'site-to-site', 'peer', '*', 'dhcp-interface'] },
+  { kind: 'interface', pattern: ['service', 'dhcp-server', 'listen-interface'] },
+
+  // Routing policy
+  { kind: bgpPolicyKind('route-map', 'route-map'), pattern: ['protocols', 'bgp', '*', '*', 'address-family', '*', 'route-map', '*'] },
+  { kind: bgpPolicyKind('prefix-list', 'prefix-list6'), pattern: ['protocols', 'bgp', '*', '*', 'address-family', '*', 'prefix-list', '*'] },
+  { kind: 'as-path-list', pattern: ['protocols', 'bgp', '*', '*', 'address-family', '*', 'filter-list', '*'] },
+  { kind: 'route-map', pattern: ['protocols', 'bgp', 'address-family', '*', 'network', '*', 'route-map'] },
+  { kind: 'route-map', pattern: ['protocols', 'bgp', 'address-family', '*', 'redistribute', '*', 'route-map'] },
+  { kind: 'route-map', pattern: ['protocols', 'ospf', 'redistribute', '*', 'route-map'] },
+  { kind: 'route-map', pattern: ['protocols', 'ospf', 'route-map'] },
+  { kind: 'bgp-peer-group', pattern: ['protocols', 'bgp', 'neighbor', '*', 'peer-group'] },
+  { kind: 'route-map', pattern: ['policy', 'route-map', '*', 'rule', '*', 'call'] },
+  { kind: 'prefix-list', pattern: ['policy', 'route-map', '*', 'rule', '*', 'match', 'ip', 'address', 'prefix-list'] },
+  { kind: 'access-list', pattern: ['policy', 'route-map', '*', 'rule', '*', 'match', 'ip', 'address', 'access-list'] },
+  { kind: 'prefix-list6', pattern: ['policy', 'route-map', '*', 'rule', '*', 'match', 'ipv6', 'address', 'prefix-list'] },
+  { kind: 'as-path-list', pattern: ['policy', 'route-map', '*', 'rule', '*', 'match', 'as-path'] },
+
+  // VPN and PKI
+  { kind: 'ike-group', pattern: ['vpn', 'ipsec', 'site-to-site', 'peer', '*', 'ike-group'] },
+  { kind: 'esp-group', pattern: ['vpn', 'ipsec', 'site-to-site', 'peer', '*', 'default-esp-group'] },
+  { kind: 'esp-group', pattern: ['vpn', 'ipsec', 'site-to-site', 'peer', '*', 'tunnel', '*', 'esp-group'] },
+  { kind: 'esp-group', pattern: ['vpn', 'ipsec', 'site-to-site', 'peer', '*', 'vti', 'esp-group'] },
+  { kind: 'pki-ca', pattern: ['vpn', 'ipsec', 'site-to-site', 'peer', '*', 'authentication', 'x509', 'ca-certificate'] },
+  { kind: 'pki-certificate', pattern: ['vpn', 'ipsec', 'site-to-site', 'peer', '*', 'authentication', 'x509', 'certificate'] },
+  { kind: 'pki-certificate', pattern: ['service', 'https', 'certificates', 'certificate'] },
+  { kind: 'pki-ca', pattern: ['service', 'https', 'certificates', 'ca-certificate'] },
+  { kind: 'vrrp-group', pattern: ['high-availability', 'vrrp', 'sync-group', '*', 'member'] },
+];
+
+// Returns the index of the '$' element, -1 when the pattern matched without
+// a capture, or null when it did not match.
+function matchPattern(pattern: Pattern, path: string[], exact: boolean): number | null {
+  function walk(pi: number, xi: number): number | null {
+    if (pi === pattern.length) return !exact || xi === path.length ? -1 : null;
+    const p = pattern[pi];
+    if (p === '**') {
+      for (let skip = 0; xi + skip <= path.length; skip++) {
+        const r = walk(pi + 1, xi + skip);
+        if (r !== null) return r;
+      }
+      return null;
+    }
+    if (xi >= path.length) return null;
+    if (p !== '*' && p !== '$' && p !== path[xi]) return null;
+    const r = walk(pi + 1, xi + 1);
+    if (r === null) return null;
+    return p === '$' ? xi : r;
+  }
+  return walk(0, 0);
+}
+
+function valueColumn(command: ParsedCommand): number {
+  const token = command.tokens[command.path.length] ?? command.tokens[command.tokens.length - 1];
+  return token?.column ?? 1;
+}
+
+function resolveKind(kind: KindResolver, path: string[]): SymbolKind | undefined {
+  return typeof kind === 'function' ? kind(path) : kind;
+}
+
+function normalizeName(kind: SymbolKind, name: string): string | undefined {
+  const bare = name.startsWith('!') ? name.slice(1) : name;
+  if (kind === 'interface') {
+    // Wildcards and keywords cannot be resolved statically
+    if (/[*+]/.test(bare) || bare === 'any' || bare === 'all' || bare === 'default') return undefined;
+    // Addresses show up where an interface or an address is accepted (e.g. update-source)
+    if (/^[\d.:]+$/.test(bare)) return undefined;
+  }
+  return bare || undefined;
+}
+
+const symbolKey = (kind: SymbolKind, name: string) => `${kind}:${name}`;
+
+export function buildSymbolTable(parsed: ParsedConfiguration): SymbolTable {
+  const definitions = new Map<string, SymbolDefinition>();
+  const references: SymbolReference[] = [];
+
+  const define = (kind: SymbolKind, name: string, command: ParsedCommand, index: number) => {
+    const key = symbolKey(kind, name);
+    if (!definitions.has(key)) {
+      definitions.set(key, { kind, name, line: command.line, column: command.tokens[index]?.column ?? 1 });
+    }
+  };
+
+  for (const command of parsed.commands) {
+    if (command.op !== 'set' || !command.valid) continue;
+    const { path } = command;
+
+    // interfaces <type> <name> [vif <id>]
+    if (path[0] === 'interfaces' && path.length >= 3) {
+      define('interface', path[2], command, 2);
+      if (path[3] === 'vif' && path[4]) define('interface', `${path[2]}.${path[4]}`, command, 4);
+    }
+
+    for (const rule of definitionRules) {
+      const index = matchPattern(rule.pattern, path, false);
+      if (index === null || index < 0) continue;
+      const kind = resolveKind(rule.kind, path);
+      if (kind) define(kind, path[index], command, index);
+    }
+
+    for (const rule of referenceRules) {
+      const index = matchPattern(rule.pattern, path, true);
+      if (index === null) continue;
+      const kind = resolveKind(rule.kind, path);
+      if (!kind) continue;
+      const rawName = index >= 0 ? path[index] : command.value;
+      if (rawName === undefined) continue;
+      const name = normalizeName(kind, rawName);
+      if (!name) continue;
+      const column = index >= 0 ? command.tokens[index]?.column ?? 1 : valueColumn(command);
+      references.push({ kind, name, line: command.line, column });
+    }
+  }
+
+  return { definitions, references };
+}
+
+// Report references to undefined objects and definitions nothing refers to.
+export function checkReferences(parsed: ParsedConfiguration): ValidationIssue[] {
+  const { definitions, references } = buildSymbolTable(parsed);
+  const issues: ValidationIssue[] = [];
+  const referenced = new Set<string>();
+
+  for (const ref of references) {
+    const key = symbolKey(ref.kind, ref.name);
+    referenced.add(key);
+    if (definitions.has(key)) continue;
+    if (ref.kind === 'interface' && builtinInterfaces.includes(ref.name)) continue;
+    issues.push({
+      line: ref.line,
+      column: ref.column,
+      code: `undefined-${ref.kind}`,
+      message: `${kindLabels[ref.kind]} "${ref.name}" is referenced but not defined`,
+      severity: softKinds.includes(ref.kind) ? 'warning' : 'error',
+    });
+  }
+
+  for (const [key, def] of Array.from(definitions.entries())) {
+    if (referenced.has(key) || neverUnused.includes(def.kind)) continue;
+    issues.push({
+      line: def.line,
+      column: def.column,
+      code: `unused-${def.kind}`,
+      message: `${kindLabels[def.kind]} "${def.name}" is defined but never referenced`,
+      severity: 'warning',
+    });
+  }
+
+  return issues;
+}
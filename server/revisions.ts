@@ -0,0 +1,38 @@
+import { storage } from "./storage";
+import type { Configuration, ConfigurationRevision, InsertConfiguration } from "@shared/schema";
+
+// Configuration revisions. Creating, editing and reverting a configuration
+// each record the version it leaves behind, numbered per configuration.
+
+const versioned = ['name', 'description', 'content', 'type'] as const;
+
+export function changesConfiguration(config: Configuration, updates: Partial<InsertConfiguration>): boolean {
+  return versioned.some((field) => updates[field] !== undefined && updates[field] !== config[field]);
+}
+
+export async function recordRevision(
+  config: Configuration,
+  author: string,
+  message: string,
+  revertedFrom?: number,
+): Promise<ConfigurationRevision> {
+  const [latest] = await storage.getConfigurationRevisions(config.id);
+  return storage.createConfigurationRevision({
+    configurationId: config.id,
+    revision: (latest?.revision ?? 0) + 1,
+    name: config.name,
+    description: config.description,
+    content: config.content,
+    type: config.type,
+    author,
+    message,
+    revertedFrom: revertedFrom ?? null,
+  });
+}
+
+// Configurations saved before revisions were kept have none; their current
+// version becomes revision 1 before the first edit replaces it
+export async function ensureFirstRevision(config: Configuration) {
+  const [latest] = await storage.getConfigurationRevisions(config.id);
+  if (!latest) await recordRevision(config, 'unknown', 'Version saved before revision history');
+}
@@ -1,30 +1,326 @@
-import type { Express } from "express";
+import { Router, type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { 
   insertConfigurationSchema,
+  configurationUpdateSchema,
+  revisionMessageSchema,
   insertTemplateSchema,
   insertTopologyNodeSchema,
   insertTopologyConnectionSchema,
   insertIntentHistorySchema,
   aiGenerationRequestSchema,
   routerApplyRequestSchema,
+  packetSimulationRequestSchema,
+  configDiffRequestSchema,
+  snapshotRestoreRequestSchema,
+  deploymentRequestSchema,
+  insertJumpHostSchema,
+  credentialInputSchema,
+  userInputSchema,
+  changeRequestInputSchema,
+  changeReviewSchema,
+  auditFilterSchema,
+  insertWorkspaceSchema,
+  DEFAULT_WORKSPACE_ID,
+  workspaceArchiveSchema,
+  routerNodeProperties,
+  type AuditEvent,
+  type AuditFilter,
+  type ChangeRequestInput,
+  type ChangeReview,
+  type CredentialInput,
+  type UserInput,
+  type InsertWorkspace,
+  type WorkspaceArchive,
+  type ConfigDiffSource,
+  type RouterApplyRequest,
+  type RouterApplyResponse,
+  type ApplyJob,
 } from "@shared/schema";
 import { generateVyOSConfiguration, validateVyOSConfiguration, suggestCommands } from "./openai";
-import { applyVyOSConfig, testSshCommand } from "./vyos";
+import { applyVyOSConfig, checkThroughJumpHosts, testSshCommand } from "./vyos";
+import { analyzeFirewall } from "./firewall";
+import { simulateConfiguration } from "./simulator";
+import { diffConfigurations } from "./config-diff";
+import { parseApplyErrors } from "./commit-errors";
+import { parseConfiguration } from "@shared/config-parser";
 import net from "net";
 import { spawn } from "child_process";
+import { apiTarget, sshTarget, startDeployment } from "./deployments";
+import { cancelApplyJob, enqueueApplyJob, subscribeApplyJob, waitForApplyJob } from "./apply-jobs";
+import { approveHostKey, assertKeepsHostKey, forgetHostKey, hostKeyVerifier, routerNodeFor, withPinnedHostKeys } from "./host-keys";
+import { nodesUsingJumpHost, resolveJumpHops, sealJumpHostSecrets, summarizeJumpHost } from "./jump-hosts";
+import {
+  assertLoginUnchanged,
+  encryptSecret,
+  nodesUsingCredential,
+  summarizeCredential,
+  summarizeNode,
+  withSealedApiKey,
+  withStoredLogin,
+} from "./credentials";
+import { hashPassword, hasRole, publicUser, requireRole, setupAuth } from "./auth";
+import { assertChangeApproved, assertNotProtectedAddress, computeChangeDiff, isProtected, recordChangeApplied } from "./change-requests";
+import type { ApplyJobContext } from "./apply-jobs";
+import { auditTrail, noteAudit, redact, verifyAuditChain } from "./audit";
+import { changesConfiguration, ensureFirstRevision, recordRevision } from "./revisions";
+import { createWorkspace, requireWorkspace, updateWorkspace, workspaceOf } from "./workspaces";
+import { archiveFileName, exportWorkspace, importWorkspace } from "./workspace-archive";
+
+async function resolveDiffSource(workspaceId: string, source: ConfigDiffSource): Promise<{ content: string } | { error: string }> {
+  if (source.configurationId !== undefined) {
+    const config = await storage.getConfiguration(workspaceId, source.configurationId);
+    if (!config) return { error: 'Configuration not found' };
+    if (source.revision === undefined) return { content: config.content };
+    const revision = await storage.getConfigurationRevision(config.id, source.revision);
+    return revision ? { content: revision.content } : { error: `Revision ${source.revision} not found` };
+  }
+  if (source.historyId !== undefined) {
+    const item = await storage.getIntentHistory(workspaceId, source.historyId);
+    return item ? { content: item.generatedConfig } : { error: 'History entry not found' };
+  }
+  return { content: source.content ?? '' };
+}
+
+// Replay the configuration with the python netmiko script. A configuration
+// the router rejects fails with status 400 and the session logs attached.
+function applyWithNetmiko(input: RouterApplyRequest): Promise<RouterApplyResponse> {
+  return new Promise((resolve, reject) => {
+    const py = spawn("python3", ["server/py_apply.py"], { stdio: ["pipe", "pipe", "pipe"] });
+    py.stdin.write(JSON.stringify(input));
+    py.stdin.end();
+    let out = "", err = "";
+    py.stdout.on("data", (d) => (out += d.toString()));
+    py.stderr.on("data", (d) => (err += d.toString()));
+    py.on("close", () => {
+      if (!out && err) {
+        return reject(new Error(err || 'netmiko failed'));
+      }
+      let parsed: any;
+      try {
+        parsed = JSON.parse(out);
+      } catch {
+        return reject(new Error(`invalid netmiko output: ${out || err}`));
+      }
+      const logs: string[] = parsed.logs || [];
+      const errors = parseApplyErrors(logs, input.configuration);
+      if (!parsed.ok) {
+        return reject(Object.assign(new Error(parsed.error || 'apply failed'), { status: 400, logs, errors }));
+      }
+      resolve({ applied: !!parsed.applied, commit: !!parsed.commit, saved: !!parsed.saved, dryRun: !!parsed.dryRun, logs, errors: errors.length ? errors : undefined });
+    });
+  });
+}
+
+// Queue an apply job. Protected routers only take changes an approved change
+// request covers; progress is streamed to the job's subscribers. `anyHost`
+// lets a named stored credential go to routers not using it (admins).
+async function startApplyJob(workspaceId: string, input: RouterApplyRequest, requester: string, anyHost = false): Promise<ApplyJob> {
+  // The job record references the node
+  if (input.nodeId && !(await storage.getTopologyNode(workspaceId, input.nodeId))) {
+    throw Object.assign(new Error(`Router node ${input.nodeId} not found`), { status: 400 });
+  }
+  return enqueueApplyJob(workspaceId, input, requester, async (job) => {
+    const audit = {
+      actor: requester,
+      action: 'router.apply',
+      target: `${input.host}:${input.port}`,
+      summary: { jobId: job.id, ...(redact({ mode: input.mode, dryRun: input.dryRun, configuration: input.configuration, changeRequestId: input.changeRequestId }) as object) },
+    };
+    try {
+      const node = await routerNodeFor(workspaceId, input);
+      await assertChangeApproved(input, node);
+      const result = await applyToRouter(workspaceId, input, job, anyHost);
+      const accepted = !result.rolledBack && !result.errors?.length;
+      if (node && input.changeRequestId && !result.dryRun && accepted) {
+        await recordChangeApplied(workspaceId, input.changeRequestId, node.id);
+      }
+      noteAudit({ ...audit, outcome: accepted ? 'success' : 'failure', error: accepted ? null : result.errors?.[0]?.message ?? 'rolled back' });
+      return result;
+    } catch (error: any) {
+      noteAudit({ ...audit, outcome: error.status === 403 ? 'denied' : 'failure', status: error.status, error: error.message });
+      throw error;
+    }
+  });
+}
+
+// The ssh2 pipeline, keeping a snapshot of the running configuration taken
+// right before the router is changed, with netmiko as the fallback for plain
+// replays to hosts without a router node
+async function applyToRouter(workspaceId: string, input: RouterApplyRequest, job: ApplyJobContext, anyHost: boolean): Promise<RouterApplyResponse> {
+  let snapshotId: string | undefined;
+  // netmiko cannot check host keys, so it never takes over for a router
+  // node, whose key is pinned
+  const pinned = !!(await routerNodeFor(workspaceId, input));
+  const login = await withStoredLogin(workspaceId, input, anyHost);
+  const jumpHosts = input.transport === 'ssh' ? await resolveJumpHops(workspaceId, input) : [];
+  if (jumpHosts.length > 0) job.log(`Tunnelling through ${jumpHosts.map((h) => `${h.host}:${h.port}`).join(' -> ')}`);
+  try {
+    const result = await applyVyOSConfig({ ...login, jumpHosts }, {
+      beforeApply: async (running) => {
+        const snapshot = await storage.createRouterSnapshot(workspaceId, { nodeId: input.nodeId, host: input.host, jobId: job.id, content: running });
+        snapshotId = snapshot.id;
+      },
+      onLog: job.log,
+      onPhase: job.phase,
+      verifyHostKey: hostKeyVerifier(workspaceId, input, job.log),
+    });
+    return { ...result, jobId: job.id, snapshotId };
+  } catch (nativeErr: any) {
+    // The netmiko fallback replays the full configuration with a plain
+    // commit, which would silently drop delta mode and commit-confirm
+    // and cannot tunnel through jump hosts
+    if (input.transport === 'http' || input.mode !== 'replay' || input.commitConfirmMinutes || pinned || jumpHosts.length > 0) throw nativeErr;
+    job.log(`Native apply failed: ${nativeErr.message}; falling back to netmiko`);
+    job.phase('set');
+    const result = await applyWithNetmiko(login);
+    result.logs.forEach(job.log);
+    return { ...result, jobId: job.id, snapshotId };
+  }
+}
+
+// Answer a blocking apply request once its job has finished
+async function respondWithJob(job: ApplyJob, res: Response) {
+  const outcome = await waitForApplyJob(job.id);
+  if (outcome?.result) return res.json(outcome.result);
+  const error: any = outcome?.error;
+  res.status(error?.status || 500).json({ error: error?.message, logs: error?.logs, errors: error?.errors });
+}
+
+function auditCsv(events: AuditEvent[]): string {
+  const columns: (keyof AuditEvent)[] = ['seq', 'createdAt', 'actor', 'action', 'target', 'outcome', 'status', 'error', 'summary', 'prevHash', 'hash'];
+  const cell = (value: unknown) => {
+    const text = value instanceof Date ? value.toISOString() : value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [columns.join(','), ...events.map((e) => columns.map((c) => cell(e[c])).join(','))].join('\n') + '\n';
+}
+
+// Who asked for an apply, recorded on the job
+function requesterOf(req: Request): string {
+  return req.user?.username || req.ip || 'unknown';
+}
+
+// A node may only use a configuration of its own workspace
+async function assertConfigurationInWorkspace(workspaceId: string, configId: string | null | undefined) {
+  if (configId && !(await storage.getConfiguration(workspaceId, configId))) {
+    throw Object.assign(new Error(`Configuration ${configId} not found`), { status: 400 });
+  }
+}
+
+const operator = requireRole('operator');
+const admin = requireRole('admin');
+
+// Refuse to leave the server without an admin
+async function assertAdminRemains(exceptId: string) {
+  const users = await storage.getAllUsers();
+  if (!users.some((u) => u.id !== exceptId && u.role === 'admin')) {
+    throw Object.assign(new Error('At least one admin account must remain'), { status: 409 });
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  
+  // Every change is audited, including refused ones and sign-ins
+  app.use(auditTrail);
+
+  // Login, logout and the current user are open; every other API route needs
+  // a session, and changes need the operator or admin role
+  await setupAuth(app);
+  app.use("/api", requireRole('viewer'));
+
+  // Workspaces keep customer networks apart; only admins manage them
+  app.get("/api/workspaces", async (req, res) => {
+    try {
+      res.json(await storage.getAllWorkspaces());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/workspaces", admin, async (req, res) => {
+    try {
+      const workspace = await createWorkspace(insertWorkspaceSchema.parse(req.body));
+      res.status(201).json(workspace);
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/workspaces/:id", admin, async (req, res) => {
+    let updates: Partial<InsertWorkspace>;
+    try {
+      updates = insertWorkspaceSchema.partial().parse(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    try {
+      const workspace = await updateWorkspace(req.params.id, updates);
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+      res.json(workspace);
+    } catch (error: any) {
+      res.status(error.status || 500).json({ error: error.message });
+    }
+  });
+
+  // Deleting a workspace deletes everything in it
+  app.delete("/api/workspaces/:id", admin, async (req, res) => {
+    try {
+      if (req.params.id === DEFAULT_WORKSPACE_ID) {
+        return res.status(409).json({ error: 'The default workspace cannot be deleted' });
+      }
+      if (!(await storage.deleteWorkspace(req.params.id))) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Everything else belongs to a workspace; mounted at the end under
+  // /api/workspaces/:workspaceId and, for the default workspace, under /api
+  const scoped = Router({ mergeParams: true });
+
+  // The workspace as one archive, without credentials; see workspace-archive.ts
+  scoped.get("/export", async (req, res) => {
+    try {
+      const archive = await exportWorkspace(workspaceOf(req));
+      if (!archive) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+      res.setHeader('Content-Disposition', `attachment; filename="${archiveFileName(archive)}"`);
+      res.json(archive);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Adds an archive's records to the workspace, skipping those it already has
+  scoped.post("/import", admin, async (req, res) => {
+    let archive: WorkspaceArchive;
+    try {
+      archive = workspaceArchiveSchema.parse(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    try {
+      res.json(await importWorkspace(workspaceOf(req), archive));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // AI Generation endpoint
-  app.post("/api/ai/generate", async (req, res) => {
+  scoped.post("/ai/generate", operator, async (req, res) => {
     try {
       const { intent } = aiGenerationRequestSchema.parse(req.body);
       const result = await generateVyOSConfiguration(intent);
       
       // Save to history
-      await storage.createIntentHistory({
+      await storage.createIntentHistory(workspaceOf(req), {
         intent,
         generatedConfig: result.configuration,
         applied: 'false'
@@ -37,7 +333,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Configuration validation endpoint
-  app.post("/api/validate", async (req, res) => {
+  scoped.post("/validate", async (req, res) => {
     try {
       const { configuration } = req.body;
       if (!configuration || typeof configuration !== 'string') {
@@ -51,8 +347,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Firewall rule shadowing/redundancy analysis
+  scoped.post("/firewall/analyze", async (req, res) => {
+    try {
+      const { configuration } = req.body;
+      if (!configuration || typeof configuration !== 'string') {
+        return res.status(400).json({ error: 'Configuration is required' });
+      }
+
+      const findings = analyzeFirewall(parseConfiguration(configuration));
+      res.json({ findings });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Packet-path simulation through destination NAT, firewall and source NAT
+  scoped.post("/firewall/simulate", async (req, res) => {
+    try {
+      const { configuration, packet } = packetSimulationRequestSchema.parse(req.body);
+      const result = simulateConfiguration(configuration, packet);
+      res.json(result);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   // Command suggestions endpoint
-  app.get("/api/commands/suggest", async (req, res) => {
+  scoped.get("/commands/suggest", async (req, res) => {
     try {
       const partial = (req.query.q as string) || '';
       const suggestions = await suggestCommands(partial);
@@ -63,18 +385,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Configuration CRUD endpoints
-  app.get("/api/configurations", async (req, res) => {
+  scoped.get("/configurations", async (req, res) => {
     try {
-      const configurations = await storage.getAllConfigurations();
+      const configurations = await storage.getAllConfigurations(workspaceOf(req));
       res.json(configurations);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/configurations/:id", async (req, res) => {
+  scoped.get("/configurations/:id", async (req, res) => {
     try {
-      const config = await storage.getConfiguration(req.params.id);
+      const config = await storage.getConfiguration(workspaceOf(req), req.params.id);
       if (!config) {
         return res.status(404).json({ error: 'Configuration not found' });
       }
@@ -84,32 +406,139 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/configurations", async (req, res) => {
+  scoped.post("/configurations", operator, async (req, res) => {
     try {
       const data = insertConfigurationSchema.parse(req.body);
-      const config = await storage.createConfiguration(data);
+      const { message } = revisionMessageSchema.parse(req.body);
+      const config = await storage.createConfiguration(workspaceOf(req), data);
+      await recordRevision(config, requesterOf(req), message || 'Created');
       res.status(201).json(config);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.patch("/api/configurations/:id", async (req, res) => {
+  // Semantic diff of two configurations given by id or content
+  scoped.post("/configurations/diff", async (req, res) => {
+    try {
+      const { left, right } = configDiffRequestSchema.parse(req.body);
+      const [before, after] = await Promise.all([resolveDiffSource(workspaceOf(req), left), resolveDiffSource(workspaceOf(req), right)]);
+      if ('error' in before) return res.status(404).json({ error: before.error });
+      if ('error' in after) return res.status(404).json({ error: after.error });
+
+      res.json(diffConfigurations(before.content, after.content));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Edits that change the configuration record a new revision
+  scoped.patch("/configurations/:id", operator, async (req, res) => {
+    try {
+      const { message, ...updates } = configurationUpdateSchema.parse(req.body);
+      const existing = await storage.getConfiguration(workspaceOf(req), req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Configuration not found' });
+      }
+      if (!changesConfiguration(existing, updates)) {
+        return res.json(existing);
+      }
+      await ensureFirstRevision(existing);
+      const config = await storage.updateConfiguration(workspaceOf(req), req.params.id, updates);
+      if (!config) {
+        return res.status(404).json({ error: 'Configuration not found' });
+      }
+      await recordRevision(config, requesterOf(req), message || 'Updated');
+      res.json(config);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Revisions, newest first
+  scoped.get("/configurations/:id/revisions", async (req, res) => {
+    try {
+      const config = await storage.getConfiguration(workspaceOf(req), req.params.id);
+      if (!config) {
+        return res.status(404).json({ error: 'Configuration not found' });
+      }
+      res.json(await storage.getConfigurationRevisions(config.id));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Semantic diff between two revisions; `to` defaults to the latest
+  scoped.get("/configurations/:id/revisions/diff", async (req, res) => {
+    try {
+      const from = Number(req.query.from);
+      if (!Number.isInteger(from)) {
+        return res.status(400).json({ error: 'from must be a revision number' });
+      }
+      const config = await storage.getConfiguration(workspaceOf(req), req.params.id);
+      if (!config) {
+        return res.status(404).json({ error: 'Configuration not found' });
+      }
+      const revisions = await storage.getConfigurationRevisions(config.id);
+      const to = req.query.to === undefined ? revisions[0]?.revision : Number(req.query.to);
+      const before = revisions.find((r) => r.revision === from);
+      const after = revisions.find((r) => r.revision === to);
+      if (!before || !after) {
+        return res.status(404).json({ error: `Revision ${before ? to : from} not found` });
+      }
+      res.json({ from: before.revision, to: after.revision, ...diffConfigurations(before.content, after.content) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  scoped.get("/configurations/:id/revisions/:revision", async (req, res) => {
+    try {
+      const config = await storage.getConfiguration(workspaceOf(req), req.params.id);
+      if (!config) {
+        return res.status(404).json({ error: 'Configuration not found' });
+      }
+      const revision = await storage.getConfigurationRevision(config.id, Number(req.params.revision));
+      if (!revision) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      res.json(revision);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Restore a revision as the current version, recorded as a new revision
+  scoped.post("/configurations/:id/revisions/:revision/revert", operator, async (req, res) => {
     try {
-      const updates = req.body;
-      const config = await storage.updateConfiguration(req.params.id, updates);
+      const { message } = revisionMessageSchema.parse(req.body ?? {});
+      const existing = await storage.getConfiguration(workspaceOf(req), req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Configuration not found' });
+      }
+      const revision = await storage.getConfigurationRevision(existing.id, Number(req.params.revision));
+      if (!revision) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      const { name, description, content, type } = revision;
+      if (!changesConfiguration(existing, { name, description, content, type })) {
+        return res.status(409).json({ error: `The configuration already matches revision ${revision.revision}` });
+      }
+      await ensureFirstRevision(existing);
+      const config = await storage.updateConfiguration(workspaceOf(req), existing.id, { name, description, content, type });
       if (!config) {
         return res.status(404).json({ error: 'Configuration not found' });
       }
+      await recordRevision(config, requesterOf(req), message || `Reverted to revision ${revision.revision}`, revision.revision);
       res.json(config);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.delete("/api/configurations/:id", async (req, res) => {
+  scoped.delete("/configurations/:id", operator, async (req, res) => {
     try {
-      const deleted = await storage.deleteConfiguration(req.params.id);
+      const deleted = await storage.deleteConfiguration(workspaceOf(req), req.params.id);
       if (!deleted) {
         return res.status(404).json({ error: 'Configuration not found' });
       }
@@ -120,21 +549,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Template endpoints
-  app.get("/api/templates", async (req, res) => {
+  scoped.get("/templates", async (req, res) => {
     try {
       const category = req.query.category as string | undefined;
       const templates = category 
-        ? await storage.getTemplatesByCategory(category)
-        : await storage.getAllTemplates();
+        ? await storage.getTemplatesByCategory(workspaceOf(req), category)
+        : await storage.getAllTemplates(workspaceOf(req));
       res.json(templates);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/templates/:id", async (req, res) => {
+  scoped.get("/templates/:id", async (req, res) => {
     try {
-      const template = await storage.getTemplate(req.params.id);
+      const template = await storage.getTemplate(workspaceOf(req), req.params.id);
       if (!template) {
         return res.status(404).json({ error: 'Template not found' });
       }
@@ -144,10 +573,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/templates", async (req, res) => {
+  scoped.post("/templates", admin, async (req, res) => {
     try {
       const data = insertTemplateSchema.parse(req.body);
-      const template = await storage.createTemplate(data);
+      const template = await storage.createTemplate(workspaceOf(req), data);
       res.status(201).json(template);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
@@ -155,72 +584,544 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Topology endpoints
-  app.get("/api/topology/nodes", async (req, res) => {
+  scoped.get("/topology/nodes", async (req, res) => {
     try {
-      const nodes = await storage.getAllTopologyNodes();
-      res.json(nodes);
+      const nodes = await storage.getAllTopologyNodes(workspaceOf(req));
+      res.json(nodes.map(summarizeNode));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/topology/nodes", async (req, res) => {
+  scoped.post("/topology/nodes", operator, async (req, res) => {
     try {
       const data = insertTopologyNodeSchema.parse(req.body);
-      const node = await storage.createTopologyNode(data);
-      res.status(201).json(node);
+      await assertConfigurationInWorkspace(workspaceOf(req), data.configId);
+      const properties = withPinnedHostKeys(undefined, data.properties);
+      if (!hasRole(req.user, 'admin')) {
+        assertLoginUnchanged(undefined, properties);
+        await assertNotProtectedAddress(workspaceOf(req), properties);
+      }
+      const node = await storage.createTopologyNode(workspaceOf(req), { ...data, properties: withSealedApiKey(undefined, properties) });
+      res.status(201).json(summarizeNode(node));
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status(error.status || 400).json({ error: error.message });
     }
   });
 
-  app.patch("/api/topology/nodes/:id", async (req, res) => {
+  scoped.patch("/topology/nodes/:id", operator, async (req, res) => {
     try {
-      const updates = req.body;
-      const node = await storage.updateTopologyNode(req.params.id, updates);
+      const existing = await storage.getTopologyNode(workspaceOf(req), req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Node not found' });
+      }
+      const changes = insertTopologyNodeSchema.partial().parse(req.body);
+      // Re-pointing, retyping or unprotecting a protected router would
+      // sidestep change approval, so only admins may touch its settings
+      const settings = Object.keys(changes).filter((key) => key !== 'position' && key !== 'label');
+      if (settings.length > 0 && isProtected(existing) && !hasRole(req.user, 'admin')) {
+        return res.status(403).json({ error: `${existing.label} is protected; only admins can change its settings` });
+      }
+      await assertConfigurationInWorkspace(workspaceOf(req), changes.configId);
+      // Host keys change only through the approve and forget endpoints
+      const properties = changes.properties !== undefined ? withPinnedHostKeys(existing, changes.properties) : undefined;
+      const updates = properties !== undefined ? { ...changes, properties: withSealedApiKey(existing, properties) } : changes;
+      if (!hasRole(req.user, 'admin')) {
+        assertKeepsHostKey(existing, changes);
+        if (properties !== undefined) assertLoginUnchanged(existing, properties);
+      }
+      if ((properties || changes.type) && !hasRole(req.user, 'admin')) {
+        await assertNotProtectedAddress(workspaceOf(req), properties ?? routerNodeProperties(existing), existing.id);
+      }
+      const node = await storage.updateTopologyNode(workspaceOf(req), req.params.id, updates);
+      res.json(node && summarizeNode(node));
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  // Trust the host key a router presented after its pinned key was refused
+  scoped.post("/topology/nodes/:id/host-key/approve", admin, async (req, res) => {
+    try {
+      const fingerprint = req.body?.fingerprint;
+      if (typeof fingerprint !== 'string' || !fingerprint) {
+        return res.status(400).json({ error: 'fingerprint is required' });
+      }
+      const node = await approveHostKey(workspaceOf(req), req.params.id, fingerprint);
       if (!node) {
         return res.status(404).json({ error: 'Node not found' });
       }
-      res.json(node);
+      res.json(summarizeNode(node));
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status(error.status || 500).json({ error: error.message });
     }
   });
 
-  app.delete("/api/topology/nodes/:id", async (req, res) => {
+  scoped.delete("/topology/nodes/:id/host-key", admin, async (req, res) => {
     try {
-      const deleted = await storage.deleteTopologyNode(req.params.id);
+      const node = await forgetHostKey(workspaceOf(req), req.params.id);
+      if (!node) {
+        return res.status(404).json({ error: 'Node not found' });
+      }
+      res.json(summarizeNode(node));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  scoped.delete("/topology/nodes/:id", operator, async (req, res) => {
+    try {
+      const existing = await storage.getTopologyNode(workspaceOf(req), req.params.id);
+      if (isProtected(existing) && !hasRole(req.user, 'admin')) {
+        return res.status(403).json({ error: `${existing.label} is protected; only admins can delete it` });
+      }
+      if (existing && !hasRole(req.user, 'admin')) assertKeepsHostKey(existing);
+      const deleted = await storage.deleteTopologyNode(workspaceOf(req), req.params.id);
       if (!deleted) {
         return res.status(404).json({ error: 'Node not found' });
       }
       res.status(204).send();
+    } catch (error: any) {
+      res.status(error.status || 500).json({ error: error.message });
+    }
+  });
+
+  // SSH jump hosts; credentials are write-only
+  scoped.get("/jump-hosts", async (req, res) => {
+    try {
+      const jumpHosts = await storage.getAllJumpHosts(workspaceOf(req));
+      res.json(jumpHosts.map(summarizeJumpHost));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  scoped.post("/jump-hosts", admin, async (req, res) => {
+    try {
+      const data = insertJumpHostSchema.parse(req.body);
+      if (!data.password && !data.privateKey) {
+        return res.status(400).json({ error: 'Either password or privateKey must be provided' });
+      }
+      const jumpHost = await storage.createJumpHost(workspaceOf(req), sealJumpHostSecrets(data));
+      res.status(201).json(summarizeJumpHost(jumpHost));
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  scoped.patch("/jump-hosts/:id", admin, async (req, res) => {
+    try {
+      const existing = await storage.getJumpHost(workspaceOf(req), req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Jump host not found' });
+      }
+      const updates = insertJumpHostSchema.partial().parse(req.body);
+      // Empty credentials mean "unchanged", since clients never see them
+      if (!updates.password) delete updates.password;
+      if (!updates.privateKey) delete updates.privateKey;
+      const moved = (updates.host !== undefined && updates.host !== existing.host)
+        || (updates.port !== undefined && updates.port !== existing.port);
+      const sealedUpdates = sealJumpHostSecrets(updates);
+      const jumpHost = await storage.updateJumpHost(workspaceOf(req), req.params.id, moved ? { ...sealedUpdates, hostKey: null } : sealedUpdates);
+      res.json(summarizeJumpHost(jumpHost!));
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  scoped.delete("/jump-hosts/:id", admin, async (req, res) => {
+    try {
+      const users = await nodesUsingJumpHost(workspaceOf(req), req.params.id);
+      if (users.length > 0) {
+        return res.status(409).json({ error: `Jump host is used by ${users.join(', ')}` });
+      }
+      const deleted = await storage.deleteJumpHost(workspaceOf(req), req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Jump host not found' });
+      }
+      res.status(204).send();
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/topology/connections", async (req, res) => {
+  // Forget a jump host's pinned host key; the next connection pins the key it presents
+  scoped.delete("/jump-hosts/:id/host-key", admin, async (req, res) => {
     try {
-      const connections = await storage.getAllTopologyConnections();
+      const jumpHost = await storage.updateJumpHost(workspaceOf(req), req.params.id, { hostKey: null });
+      if (!jumpHost) {
+        return res.status(404).json({ error: 'Jump host not found' });
+      }
+      res.json(summarizeJumpHost(jumpHost));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Stored router logins; secrets go in but never come back out
+  scoped.get("/credentials", async (req, res) => {
+    try {
+      const credentials = await storage.getAllCredentials(workspaceOf(req));
+      res.json(credentials.map(summarizeCredential));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  scoped.post("/credentials", admin, async (req, res) => {
+    let input: CredentialInput;
+    try {
+      input = credentialInputSchema.parse(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    try {
+      const credential = await storage.createCredential(workspaceOf(req), { ...input, secret: encryptSecret(input.secret) });
+      res.status(201).json(summarizeCredential(credential));
+    } catch (error: any) {
+      res.status(error.status || 500).json({ error: error.message });
+    }
+  });
+
+  // Rename or rotate; without a new secret the stored one is kept
+  scoped.patch("/credentials/:id", admin, async (req, res) => {
+    let updates: Partial<CredentialInput>;
+    try {
+      updates = credentialInputSchema.partial().parse(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    try {
+      const existing = await storage.getCredential(workspaceOf(req), req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Credential not found' });
+      }
+      if (updates.kind && updates.kind !== existing.kind && !updates.secret) {
+        return res.status(400).json({ error: 'Changing the kind requires a new secret' });
+      }
+      const { secret, ...rest } = updates;
+      const credential = await storage.updateCredential(workspaceOf(req), req.params.id, secret ? { ...rest, secret: encryptSecret(secret) } : rest);
+      res.json(summarizeCredential(credential!));
+    } catch (error: any) {
+      res.status(error.status || 500).json({ error: error.message });
+    }
+  });
+
+  scoped.delete("/credentials/:id", admin, async (req, res) => {
+    try {
+      const users = await nodesUsingCredential(workspaceOf(req), req.params.id);
+      if (users.length > 0) {
+        return res.status(409).json({ error: `Credential is used by ${users.join(', ')}` });
+      }
+      const deleted = await storage.deleteCredential(workspaceOf(req), req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Credential not found' });
+      }
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // User accounts
+  app.get("/api/users", admin, async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(publicUser));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/users", admin, async (req, res) => {
+    let input: UserInput;
+    try {
+      input = userInputSchema.parse(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    try {
+      if (await storage.getUserByUsername(input.username)) {
+        return res.status(409).json({ error: `User ${input.username} already exists` });
+      }
+      const user = await storage.createUser({ ...input, password: await hashPassword(input.password) });
+      res.status(201).json(publicUser(user));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/users/:id", admin, async (req, res) => {
+    let updates: Partial<UserInput>;
+    try {
+      updates = userInputSchema.partial().parse(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    try {
+      const existing = await storage.getUser(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (updates.username && updates.username !== existing.username && await storage.getUserByUsername(updates.username)) {
+        return res.status(409).json({ error: `User ${updates.username} already exists` });
+      }
+      if (existing.role === 'admin' && updates.role && updates.role !== 'admin') {
+        await assertAdminRemains(existing.id);
+      }
+      const { password, ...rest } = updates;
+      const user = await storage.updateUser(req.params.id, password ? { ...rest, password: await hashPassword(password) } : rest);
+      res.json(publicUser(user!));
+    } catch (error: any) {
+      res.status(error.status || 500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/users/:id", admin, async (req, res) => {
+    try {
+      const existing = await storage.getUser(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (existing.role === 'admin') {
+        await assertAdminRemains(existing.id);
+      }
+      await storage.deleteUser(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(error.status || 500).json({ error: error.message });
+    }
+  });
+
+  // Change requests: draft -> submitted -> approved or rejected -> applied.
+  // Only the author edits, submits or deletes one; someone else reviews it.
+  scoped.get("/change-requests", async (req, res) => {
+    try {
+      const changeRequests = await storage.getAllChangeRequests(workspaceOf(req));
+      res.json(changeRequests);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  scoped.get("/change-requests/:id", async (req, res) => {
+    try {
+      const changeRequest = await storage.getChangeRequest(workspaceOf(req), req.params.id);
+      if (!changeRequest) {
+        return res.status(404).json({ error: 'Change request not found' });
+      }
+      res.json(changeRequest);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  scoped.post("/change-requests", operator, async (req, res) => {
+    let input: ChangeRequestInput;
+    try {
+      input = changeRequestInputSchema.parse(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    try {
+      const nodeIds = Array.from(new Set(input.nodeIds));
+      const changeRequest = await storage.createChangeRequest(workspaceOf(req), {
+        ...input,
+        nodeIds,
+        diff: await computeChangeDiff(workspaceOf(req), input.configuration, nodeIds),
+        status: 'draft',
+        requestedBy: requesterOf(req),
+        appliedNodeIds: [],
+      });
+      res.status(201).json(changeRequest);
+    } catch (error: any) {
+      res.status(error.status || 500).json({ error: error.message });
+    }
+  });
+
+  // Editing a rejected request turns it back into a draft
+  scoped.patch("/change-requests/:id", operator, async (req, res) => {
+    let updates: Partial<ChangeRequestInput>;
+    try {
+      updates = changeRequestInputSchema.partial().parse(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    try {
+      const existing = await storage.getChangeRequest(workspaceOf(req), req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Change request not found' });
+      }
+      if (existing.requestedBy !== requesterOf(req)) {
+        return res.status(403).json({ error: 'Only the author can edit a change request' });
+      }
+      if (existing.status !== 'draft' && existing.status !== 'rejected') {
+        return res.status(409).json({ error: `A ${existing.status} change request cannot be edited` });
+      }
+      const configuration = updates.configuration ?? existing.configuration;
+      const nodeIds = Array.from(new Set(updates.nodeIds ?? existing.nodeIds));
+      const changeRequest = await storage.updateChangeRequest(workspaceOf(req), req.params.id, {
+        ...updates,
+        nodeIds,
+        diff: await computeChangeDiff(workspaceOf(req), configuration, nodeIds),
+        status: 'draft',
+        reviewedBy: null,
+        reviewComment: null,
+        reviewedAt: null,
+      });
+      res.json(changeRequest);
+    } catch (error: any) {
+      res.status(error.status || 500).json({ error: error.message });
+    }
+  });
+
+  // The diff is recomputed on submission so reviewers see it against the
+  // routers' latest snapshots
+  scoped.post("/change-requests/:id/submit", operator, async (req, res) => {
+    try {
+      const existing = await storage.getChangeRequest(workspaceOf(req), req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Change request not found' });
+      }
+      if (existing.requestedBy !== requesterOf(req)) {
+        return res.status(403).json({ error: 'Only the author can submit a change request' });
+      }
+      if (existing.status !== 'draft') {
+        return res.status(409).json({ error: `A ${existing.status} change request cannot be submitted` });
+      }
+      const changeRequest = await storage.updateChangeRequest(workspaceOf(req), req.params.id, {
+        diff: await computeChangeDiff(workspaceOf(req), existing.configuration, existing.nodeIds),
+        status: 'submitted',
+      });
+      res.json(changeRequest);
+    } catch (error: any) {
+      res.status(error.status || 500).json({ error: error.message });
+    }
+  });
+
+  scoped.post("/change-requests/:id/review", operator, async (req, res) => {
+    let review: ChangeReview;
+    try {
+      review = changeReviewSchema.parse(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    try {
+      const existing = await storage.getChangeRequest(workspaceOf(req), req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Change request not found' });
+      }
+      if (existing.requestedBy === requesterOf(req)) {
+        return res.status(403).json({ error: 'A change request needs a reviewer other than its author' });
+      }
+      if (existing.status !== 'submitted') {
+        return res.status(409).json({ error: `A ${existing.status} change request cannot be reviewed` });
+      }
+      const changeRequest = await storage.updateChangeRequest(workspaceOf(req), req.params.id, {
+        status: review.decision === 'approve' ? 'approved' : 'rejected',
+        reviewedBy: requesterOf(req),
+        reviewComment: review.comment || null,
+        reviewedAt: new Date(),
+      });
+      res.json(changeRequest);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Applied requests are kept as the record of what was approved
+  scoped.delete("/change-requests/:id", operator, async (req, res) => {
+    try {
+      const existing = await storage.getChangeRequest(workspaceOf(req), req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Change request not found' });
+      }
+      if (existing.requestedBy !== requesterOf(req) && !hasRole(req.user, 'admin')) {
+        return res.status(403).json({ error: 'Only the author or an admin can delete a change request' });
+      }
+      if (existing.status === 'applied') {
+        return res.status(409).json({ error: 'An applied change request cannot be deleted' });
+      }
+      await storage.deleteChangeRequest(workspaceOf(req), req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Audit trail, newest first
+  app.get("/api/audit", admin, async (req, res) => {
+    let filter: AuditFilter;
+    try {
+      filter = auditFilterSchema.parse(req.query);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    try {
+      res.json(await storage.getAuditEvents({ limit: 500, ...filter }));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/audit/verify", admin, async (req, res) => {
+    try {
+      res.json(await verifyAuditChain());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Download the filtered events, with their hashes, as JSON or CSV
+  app.get("/api/audit/export", admin, async (req, res) => {
+    let filter: AuditFilter;
+    try {
+      filter = auditFilterSchema.parse(req.query);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    try {
+      const events = await storage.getAuditEvents(filter);
+      const stamp = new Date().toISOString().slice(0, 10);
+      if (req.query.format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="audit-${stamp}.csv"`);
+        return res.send(auditCsv(events));
+      }
+      res.setHeader('Content-Disposition', `attachment; filename="audit-${stamp}.json"`);
+      res.json(events);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  scoped.get("/topology/connections", async (req, res) => {
+    try {
+      const connections = await storage.getAllTopologyConnections(workspaceOf(req));
       res.json(connections);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/topology/connections", async (req, res) => {
+  scoped.post("/topology/connections", operator, async (req, res) => {
     try {
       const data = insertTopologyConnectionSchema.parse(req.body);
-      const connection = await storage.createTopologyConnection(data);
+      for (const id of [data.sourceId, data.targetId]) {
+        if (!(await storage.getTopologyNode(workspaceOf(req), id))) {
+          return res.status(400).json({ error: `Node ${id} not found` });
+        }
+      }
+      const connection = await storage.createTopologyConnection(workspaceOf(req), data);
       res.status(201).json(connection);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.delete("/api/topology/connections/:id", async (req, res) => {
+  scoped.delete("/topology/connections/:id", operator, async (req, res) => {
     try {
-      const deleted = await storage.deleteTopologyConnection(req.params.id);
+      const deleted = await storage.deleteTopologyConnection(workspaceOf(req), req.params.id);
       if (!deleted) {
         return res.status(404).json({ error: 'Connection not found' });
       }
@@ -231,18 +1132,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Intent history endpoints
-  app.get("/api/history", async (req, res) => {
+  scoped.get("/history", async (req, res) => {
     try {
-      const history = await storage.getAllIntentHistory();
+      const history = await storage.getAllIntentHistory(workspaceOf(req));
       res.json(history);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/history/:id", async (req, res) => {
+  scoped.get("/history/:id", async (req, res) => {
     try {
-      const item = await storage.getIntentHistory(req.params.id);
+      const item = await storage.getIntentHistory(workspaceOf(req), req.params.id);
       if (!item) {
         return res.status(404).json({ error: 'History item not found' });
       }
@@ -252,59 +1153,241 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/history", async (req, res) => {
+  scoped.post("/history", operator, async (req, res) => {
     try {
       const data = insertIntentHistorySchema.parse(req.body);
-      const item = await storage.createIntentHistory(data);
+      const item = await storage.createIntentHistory(workspaceOf(req), data);
       res.status(201).json(item);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  // Router apply endpoint
-  app.post("/api/routers/apply", async (req, res) => {
+  // Router apply endpoint; blocks until the apply has finished
+  scoped.post("/routers/apply", operator, async (req, res) => {
+    let input: RouterApplyRequest;
     try {
-      const input = routerApplyRequestSchema.parse(req.body);
-      // Try native first; if auth fails, fallback to netmiko
-      try {
-        const result = await applyVyOSConfig(input);
-        return res.json(result);
-      } catch (nativeErr: any) {
-        // Fallback with Python netmiko
-        const py = spawn("python3", ["server/py_apply.py"], { stdio: ["pipe", "pipe", "pipe"] });
-        py.stdin.write(JSON.stringify(input));
-        py.stdin.end();
-        let out = "", err = "";
-        py.stdout.on("data", (d) => (out += d.toString()));
-        py.stderr.on("data", (d) => (err += d.toString()));
-        py.on("close", (code) => {
-          if (!out && err) {
-            return res.status(500).json({ error: err || 'netmiko failed' });
-          }
-          try {
-            const parsed = JSON.parse(out);
-            if (parsed.ok) {
-              return res.json({ applied: !!parsed.applied, commit: !!parsed.commit, saved: !!parsed.saved, dryRun: !!parsed.dryRun, logs: parsed.logs || [] });
-            }
-            return res.status(400).json({ error: parsed.error || 'apply failed', logs: parsed.logs || [] });
-          } catch (e: any) {
-            return res.status(500).json({ error: 'invalid netmiko output', detail: out || err });
-          }
-        });
+      input = routerApplyRequestSchema.parse(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    try {
+      await respondWithJob(await startApplyJob(workspaceOf(req), input, requesterOf(req), hasRole(req.user, 'admin')), res);
+    } catch (error: any) {
+      res.status(error.status || 500).json({ error: error.message });
+    }
+  });
+
+  // Queue an apply; follow it with the events stream
+  scoped.post("/routers/apply/jobs", operator, async (req, res) => {
+    let input: RouterApplyRequest;
+    try {
+      input = routerApplyRequestSchema.parse(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    try {
+      const job = await startApplyJob(workspaceOf(req), input, requesterOf(req), hasRole(req.user, 'admin'));
+      res.status(202).json({ jobId: job.id, status: job.status });
+    } catch (error: any) {
+      res.status(error.status || 500).json({ error: error.message });
+    }
+  });
+
+  scoped.get("/routers/apply/jobs", async (req, res) => {
+    try {
+      const jobs = await storage.getApplyJobs(workspaceOf(req), {
+        host: (req.query.host as string) || undefined,
+        nodeId: (req.query.nodeId as string) || undefined,
+        status: (req.query.status as string) || undefined,
+      });
+      res.json(jobs);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  scoped.get("/routers/apply/jobs/:id", async (req, res) => {
+    try {
+      const job = await storage.getApplyJob(workspaceOf(req), req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: 'Apply job not found' });
       }
+      res.json(job);
     } catch (error: any) {
-      res.status(400).json({ error: error.message });
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  scoped.post("/routers/apply/jobs/:id/cancel", operator, async (req, res) => {
+    try {
+      const job = await cancelApplyJob(workspaceOf(req), req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: 'Apply job not found' });
+      }
+      res.json(job);
+    } catch (error: any) {
+      res.status(error.status || 500).json({ error: error.message });
+    }
+  });
+
+  // Server-Sent Events: every log line, phase change and the final result or
+  // error. Past events are replayed, so late subscribers see the whole run.
+  scoped.get("/routers/apply/jobs/:id/events", async (req, res) => {
+    try {
+      if (!(await storage.getApplyJob(workspaceOf(req), req.params.id))) {
+        return res.status(404).json({ error: 'Apply job not found' });
+      }
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      const unsubscribe = await subscribeApplyJob(workspaceOf(req), req.params.id, (event) => {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+        if (event.type === 'result' || event.type === 'error') res.end();
+      });
+      if (unsubscribe) req.on("close", unsubscribe);
+    } catch (error: any) {
+      if (res.headersSent) res.end();
+      else res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Staged multi-router deployments
+  scoped.post("/deployments", operator, async (req, res) => {
+    try {
+      const input = deploymentRequestSchema.parse(req.body);
+      const nodes = [];
+      for (const nodeId of Array.from(new Set(input.nodeIds))) {
+        const node = await storage.getTopologyNode(workspaceOf(req), nodeId);
+        if (!node || node.type !== 'router') {
+          return res.status(400).json({ error: `Router node ${nodeId} not found` });
+        }
+        const ssh = sshTarget(node);
+        const api = apiTarget(node);
+        const stored = input.credentialId || ssh.credentialId;
+        if (!ssh.host) {
+          return res.status(400).json({ error: `Router ${node.label} has no host` });
+        }
+        if (api.transport === 'http' ? !routerNodeProperties(node).api?.key : !(input.username || ssh.username || stored)) {
+          return res.status(400).json({ error: `Router ${node.label} has no ${api.transport === 'http' ? 'API key' : 'SSH username'}` });
+        }
+        if (api.transport === 'ssh' && !input.password && !input.privateKey && !stored) {
+          return res.status(400).json({ error: `Router ${node.label} needs a password, private key or stored credential` });
+        }
+        if (api.transport === 'ssh' && input.credentialId && input.credentialId !== ssh.credentialId && !hasRole(req.user, 'admin')) {
+          return res.status(403).json({ error: `Router ${node.label} does not log in with the chosen credential; only admins can use it there` });
+        }
+        // Refuse up front rather than failing the protected routers' waves
+        await assertChangeApproved(input, await routerNodeFor(workspaceOf(req), { nodeId: node.id, host: ssh.host, port: ssh.port, ...api }));
+        nodes.push(node);
+      }
+      const requester = requesterOf(req);
+      const deployment = await startDeployment(workspaceOf(req), input, nodes, requester, (apply) => startApplyJob(workspaceOf(req), apply, requester, hasRole(req.user, 'admin')));
+      res.status(202).json(deployment);
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  scoped.get("/deployments", async (req, res) => {
+    try {
+      const deployments = await storage.getAllDeployments(workspaceOf(req));
+      res.json(deployments);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  scoped.get("/deployments/:id", async (req, res) => {
+    try {
+      const deployment = await storage.getDeployment(workspaceOf(req), req.params.id);
+      if (!deployment) {
+        return res.status(404).json({ error: 'Deployment not found' });
+      }
+      res.json(deployment);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Pre-apply snapshots of router configurations
+  scoped.get("/routers/snapshots", async (req, res) => {
+    try {
+      const nodeId = req.query.nodeId as string | undefined;
+      const host = req.query.host as string | undefined;
+      const snapshots = await storage.getRouterSnapshots(workspaceOf(req), { nodeId, host });
+      res.json(snapshots);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  scoped.get("/routers/snapshots/:id", async (req, res) => {
+    try {
+      const snapshot = await storage.getRouterSnapshot(workspaceOf(req), req.params.id);
+      if (!snapshot) {
+        return res.status(404).json({ error: 'Snapshot not found' });
+      }
+      res.json(snapshot);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Restore a snapshot: the snapshot becomes the complete desired
+  // configuration and everything else is deleted
+  scoped.post("/routers/snapshots/:id/restore", operator, async (req, res) => {
+    let input: RouterApplyRequest;
+    try {
+      const snapshot = await storage.getRouterSnapshot(workspaceOf(req), req.params.id);
+      if (!snapshot) {
+        return res.status(404).json({ error: 'Snapshot not found' });
+      }
+      const options = snapshotRestoreRequestSchema.parse(req.body);
+      // Reach the router the way its node is set up unless told otherwise
+      const node = snapshot.nodeId ? await storage.getTopologyNode(workspaceOf(req), snapshot.nodeId) : undefined;
+      input = routerApplyRequestSchema.parse({
+        ...(node ? { ...apiTarget(node), credentialId: sshTarget(node).credentialId } : {}),
+        ...options,
+        host: options.host || snapshot.host,
+        nodeId: snapshot.nodeId ?? undefined,
+        configuration: snapshot.content,
+        commit: !options.dryRun,
+        save: !options.dryRun,
+        mode: 'replace',
+      });
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    try {
+      await respondWithJob(await startApplyJob(workspaceOf(req), input, requesterOf(req), hasRole(req.user, 'admin')), res);
+    } catch (error: any) {
+      res.status(error.status || 500).json({ error: error.message });
     }
   });
 
   // Router reachability check (TCP)
-  app.get("/api/routers/check", async (req, res) => {
+  scoped.get("/routers/check", async (req, res) => {
     const host = (req.query.host as string) || "";
     const port = parseInt((req.query.port as string) || "22", 10);
+    const nodeId = req.query.nodeId as string | undefined;
     const timeoutMs = 3000;
     if (!host) return res.status(400).json({ ok: false, error: "host required" });
     const started = Date.now();
+
+    // Behind jump hosts only the last one can tell whether the router answers
+    try {
+      const hops = await resolveJumpHops(workspaceOf(req), { nodeId, host, port });
+      if (hops.length > 0) {
+        await checkThroughJumpHosts(host, port, hops, timeoutMs * 2);
+        return res.json({ ok: true, ms: Date.now() - started, via: hops.map((h) => h.host) });
+      }
+    } catch (e: any) {
+      return res.status(e.status || 502).json({ ok: false, error: e.message });
+    }
+
     const socket = new net.Socket();
     socket.setTimeout(timeoutMs);
     socket.once("connect", () => {
@@ -324,17 +1407,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Router SSH simple command test
-  app.post("/api/routers/test", async (req, res) => {
+  scoped.post("/routers/test", operator, async (req, res) => {
     try {
-      const { host, port, username, password, privateKey, command } = req.body || {};
-      if (!host || !username) return res.status(400).json({ ok: false, error: 'host and username required' });
-      const out = await testSshCommand({ host, port, username, password, privateKey, command });
+      const { host, port, username, password, privateKey, credentialId, command, nodeId, jumpHostIds } = req.body || {};
+      if (!host) return res.status(400).json({ ok: false, error: 'host required' });
+      const login = await withStoredLogin(workspaceOf(req), { host, port, nodeId, username, password, privateKey, credentialId }, hasRole(req.user, 'admin'));
+      if (!login.username) return res.status(400).json({ ok: false, error: 'username or a stored credential required' });
+      const verifyHostKey = hostKeyVerifier(workspaceOf(req), { nodeId, host, port });
+      const jumpHosts = await resolveJumpHops(workspaceOf(req), { nodeId, host, port, jumpHostIds });
+      const out = await testSshCommand({ ...login, host, port, command, verifyHostKey, jumpHosts });
       res.json(out);
     } catch (e: any) {
-      res.status(500).json({ ok: false, error: e.message });
+      res.status(e.status || 500).json({ ok: false, error: e.message });
     }
   });
 
+  app.use("/api/workspaces/:workspaceId", requireWorkspace, scoped);
+  app.use("/api", scoped);
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,114 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { simulateConfiguration } from "./simulator";
+import type { PacketSimulationRequest } from "@shared/schema";
+
+const lines = (...commands: string[]) => commands.join("\n");
+
+const router = lines(
+  "set interfaces ethernet eth0 address '203.0.113.1/24'",
+  "set interfaces ethernet eth1 address '192.168.1.1/24'",
+  "set interfaces ethernet eth0 firewall in name 'WAN_IN'",
+  "set interfaces ethernet eth0 firewall local name 'WAN_LOCAL'",
+  "set protocols static route 198.51.100.0/24 blackhole",
+  "set firewall name WAN_IN default-action 'drop'",
+  "set firewall name WAN_IN rule 10 action 'accept'",
+  "set firewall name WAN_IN rule 10 state established 'enable'",
+  "set firewall name WAN_IN rule 20 action 'accept'",
+  "set firewall name WAN_IN rule 20 protocol 'tcp'",
+  "set firewall name WAN_IN rule 20 destination address '192.168.1.10'",
+  "set firewall name WAN_IN rule 20 destination port '443'",
+  "set firewall name WAN_LOCAL default-action 'drop'",
+  "set firewall name WAN_LOCAL rule 10 action 'reject'",
+  "set firewall name WAN_LOCAL rule 10 protocol 'tcp'",
+  "set firewall name WAN_LOCAL rule 10 destination port '22'",
+  "set nat destination rule 10 inbound-interface 'eth0'",
+  "set nat destination rule 10 protocol 'tcp'",
+  "set nat destination rule 10 destination port '8443'",
+  "set nat destination rule 10 translation address '192.168.1.10'",
+  "set nat destination rule 10 translation port '443'",
+  "set nat source rule 100 outbound-interface 'eth0'",
+  "set nat source rule 100 source address '192.168.1.0/24'",
+  "set nat source rule 100 translation address 'masquerade'",
+);
+
+const packet = (fields: Partial<PacketSimulationRequest["packet"]>): PacketSimulationRequest["packet"] => ({
+  protocol: "tcp",
+  sourceAddress: "198.18.0.5",
+  sourcePort: 40000,
+  destinationAddress: "203.0.113.1",
+  destinationPort: 8443,
+  inboundInterface: "eth0",
+  state: "new",
+  ...fields,
+});
+
+describe("simulateConfiguration", () => {
+  it("translates a port forward and accepts it on the forward path", () => {
+    const result = simulateConfiguration(router, packet({}));
+    assert.equal(result.verdict, "accept");
+    assert.equal(result.path, "forward");
+    assert.equal(result.outboundInterface, "eth1");
+    assert.deepEqual(result.translated, {
+      sourceAddress: "198.18.0.5", sourcePort: 40000, destinationAddress: "192.168.1.10", destinationPort: 443,
+    });
+    assert.deepEqual(result.matchedRules, [
+      { ruleset: "nat destination", rule: 10 },
+      { ruleset: "firewall name WAN_IN", rule: 20 },
+    ]);
+    assert.equal(result.indeterminate, false);
+  });
+
+  it("drops what no rule accepts with the ruleset's default action", () => {
+    const result = simulateConfiguration(router, packet({ destinationAddress: "192.168.1.20", destinationPort: 80 }));
+    assert.equal(result.verdict, "drop");
+    assert.deepEqual(result.matchedRules, []);
+    assert.match(result.steps.at(-1)!.message, /default-action drop/);
+  });
+
+  it("accepts established return traffic", () => {
+    const result = simulateConfiguration(router, packet({ destinationAddress: "192.168.1.20", destinationPort: 80, state: "established" }));
+    assert.equal(result.verdict, "accept");
+    assert.deepEqual(result.matchedRules, [{ ruleset: "firewall name WAN_IN", rule: 10 }]);
+  });
+
+  it("filters traffic to the router itself with the local ruleset", () => {
+    const result = simulateConfiguration(router, packet({ destinationPort: 22 }));
+    assert.equal(result.verdict, "reject");
+    assert.equal(result.path, "input");
+    assert.deepEqual(result.matchedRules, [{ ruleset: "firewall name WAN_LOCAL", rule: 10 }]);
+  });
+
+  it("masquerades outbound traffic behind the outbound interface", () => {
+    const result = simulateConfiguration(router, packet({
+      sourceAddress: "192.168.1.50", destinationAddress: "203.0.113.77", destinationPort: 443, inboundInterface: "eth1",
+    }));
+    assert.equal(result.verdict, "accept");
+    assert.equal(result.outboundInterface, "eth0");
+    assert.equal(result.translated.sourceAddress, "203.0.113.1");
+    assert.deepEqual(result.matchedRules, [{ ruleset: "nat source", rule: 100 }]);
+  });
+
+  it("drops traffic routed to a blackhole", () => {
+    const result = simulateConfiguration(router, packet({ inboundInterface: "eth1", sourceAddress: "192.168.1.50", destinationAddress: "198.51.100.9" }));
+    assert.equal(result.verdict, "drop");
+    assert.equal(result.steps.at(-1)!.stage, "routing");
+  });
+
+  it("flags rules it cannot evaluate and treats them as not matching", () => {
+    const result = simulateConfiguration(lines(
+      "set interfaces ethernet eth0 address '203.0.113.1/24'",
+      "set interfaces ethernet eth0 firewall local name 'WAN_LOCAL'",
+      "set firewall name WAN_LOCAL default-action 'accept'",
+      "set firewall name WAN_LOCAL rule 10 action 'drop'",
+      "set firewall name WAN_LOCAL rule 10 tcp flags 'syn'",
+    ), packet({ destinationPort: 22 }));
+    assert.equal(result.verdict, "accept");
+    assert.equal(result.indeterminate, true);
+    assert.ok(result.steps.some((step) => step.rule === 10 && step.indeterminate));
+  });
+
+  it("rejects packets without IPv4 addresses", () => {
+    assert.throws(() => simulateConfiguration(router, packet({ sourceAddress: "2001:db8::1" })), /Source address must be an IPv4 address/);
+  });
+});
@@ -0,0 +1,469 @@
+import { parseConfiguration, type ParsedCommand, type ParsedConfiguration } from "@shared/config-parser";
+import type { PacketSimulationRequest, PacketSimulationResult, SimulationStep } from "@shared/schema";
+import {
+  applyRuleCommand,
+  collectGroups,
+  dimensionContains,
+  emptyRule,
+  extractFirewall,
+  parseAddressRanges,
+  parseIPv4,
+  type FirewallRule,
+  type FirewallRuleset,
+  type Interval,
+} from "./firewall";
+
+type Packet = PacketSimulationRequest['packet'];
+type Verdict = PacketSimulationResult['verdict'];
+
+// A packet as it moves through the router; addresses change at the NAT stages
+interface Flow {
+  protocol: string;
+  sourceAddress: number;
+  sourcePort?: number;
+  destinationAddress: number;
+  destinationPort?: number;
+  state: string;
+  inboundInterface: string;
+  outboundInterface?: string;
+}
+
+interface NatRule extends FirewallRule {
+  exclude: boolean;
+  translationAddress?: string;
+  translationPort?: string;
+}
+
+interface InterfaceAddress {
+  interface: string;
+  address: number;
+  network: Interval;
+  prefixLength: number;
+}
+
+interface StaticRoute {
+  network: Interval;
+  prefixLength: number;
+  nextHop?: number;
+  interface?: string;
+  blackhole: boolean;
+}
+
+interface Zone {
+  interfaces: string[];
+  local: boolean;
+  defaultAction?: string;
+  from: Map<string, string>;
+}
+
+interface RouterModel {
+  addresses: InterfaceAddress[];
+  routes: StaticRoute[];
+  // 1.3 per-interface bindings: interfaces <type> <name> firewall in|out|local name X
+  bindings: Map<string, { in?: string; out?: string; local?: string }>;
+  zones: Map<string, Zone>;
+  rulesets: FirewallRuleset[];
+  nat: { source: NatRule[]; destination: NatRule[] };
+}
+
+interface Trace {
+  steps: SimulationStep[];
+  matchedRules: PacketSimulationResult['matchedRules'];
+  indeterminate: boolean;
+}
+
+const MAX_JUMP_DEPTH = 8;
+
+export function formatIPv4(value: number): string {
+  return [24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join('.');
+}
+
+// interfaces <type> <name> [vif <id>] ... -> interface name and the remaining path
+function interfaceOf(path: string[]): { name: string; rest: string[] } | undefined {
+  if (path[0] !== 'interfaces' || !path[2]) return undefined;
+  if (path[3] === 'vif' && path[4]) return { name: `${path[2]}.${path[4]}`, rest: path.slice(5) };
+  return { name: path[2], rest: path.slice(3) };
+}
+
+function extractNat(parsed: ParsedConfiguration): RouterModel['nat'] {
+  const groups = collectGroups(parsed);
+  const nat: RouterModel['nat'] = { source: [], destination: [] };
+  const rules = new Map<string, NatRule>();
+
+  for (const c of parsed.commands) {
+    if (c.op !== 'set' || !c.valid || c.path[0] !== 'nat' || c.path[2] !== 'rule' || !c.path[3]) continue;
+    const kind = c.path[1];
+    if (kind !== 'source' && kind !== 'destination') continue;
+
+    const key = `${kind}#${c.path[3]}`;
+    let rule = rules.get(key);
+    if (!rule) {
+      rule = { ...emptyRule(Number(c.path[3]), c.line, c.tokens[3]?.column ?? 1), exclude: false };
+      rules.set(key, rule);
+      nat[kind].push(rule);
+    }
+
+    const rest = c.path.slice(4);
+    if (rest[0] === 'exclude') rule.exclude = true;
+    else if (rest[0] === 'translation' && rest[1] === 'address') rule.translationAddress = c.value;
+    else if (rest[0] === 'translation' && rest[1] === 'port') rule.translationPort = c.value;
+    else if (rest.length > 0) applyRuleCommand(rule, rest, c.value, 'ipv4', groups);
+  }
+
+  nat.source.sort((a, b) => a.number - b.number);
+  nat.destination.sort((a, b) => a.number - b.number);
+  return nat;
+}
+
+function buildModel(parsed: ParsedConfiguration): RouterModel {
+  const model: RouterModel = {
+    addresses: [],
+    routes: [],
+    bindings: new Map(),
+    zones: new Map(),
+    rulesets: extractFirewall(parsed),
+    nat: extractNat(parsed),
+  };
+  const zone = (name: string): Zone => {
+    let z = model.zones.get(name);
+    if (!z) {
+      z = { interfaces: [], local: false, from: new Map() };
+      model.zones.set(name, z);
+    }
+    return z;
+  };
+
+  const routes = new Map<string, StaticRoute>();
+  const disabledRoutes = new Set<string>();
+
+  const setCommands = parsed.commands.filter((c: ParsedCommand) => c.op === 'set' && c.valid);
+  for (const c of setCommands) {
+    const { path, value } = c;
+    const iface = interfaceOf(path);
+
+    if (iface && iface.rest[0] === 'address' && value && value.includes('/')) {
+      const network = parseAddressRanges(value);
+      const address = parseIPv4(value.split('/')[0]);
+      if (network && address !== undefined) {
+        model.addresses.push({ interface: iface.name, address, network: network[0], prefixLength: Number(value.split('/')[1]) });
+      }
+    } else if (iface && iface.rest[0] === 'firewall' && iface.rest[2] === 'name' && value) {
+      const direction = iface.rest[1] as 'in' | 'out' | 'local';
+      model.bindings.set(iface.name, { ...model.bindings.get(iface.name), [direction]: value });
+    } else if (path[0] === 'protocols' && path[1] === 'static' && path[2] === 'route' && path[3]) {
+      const network = parseAddressRanges(path[3]);
+      const kind = path[4];
+      if (!network || !(kind === 'blackhole' || ((kind === 'next-hop' || kind === 'interface') && path[5]))) continue;
+      // Options (distance, disable) repeat the route path, so key by target
+      const key = path.slice(3, kind === 'blackhole' ? 5 : 6).join(' ');
+      if (!routes.has(key)) {
+        routes.set(key, {
+          network: network[0],
+          prefixLength: Number(path[3].split('/')[1]),
+          nextHop: kind === 'next-hop' ? parseIPv4(path[5]) : undefined,
+          interface: kind === 'interface' ? path[5] : undefined,
+          blackhole: kind === 'blackhole',
+        });
+      }
+      if (path[kind === 'blackhole' ? 5 : 6] === 'disable') disabledRoutes.add(key);
+    } else if (path[0] === 'firewall' && path[1] === 'zone' && path[2]) {
+      const z = zone(path[2]);
+      if (path[3] === 'interface' && value) z.interfaces.push(value);
+      else if (path[3] === 'local-zone') z.local = true;
+      else if (path[3] === 'default-action' && value) z.defaultAction = value;
+      else if (path[3] === 'from' && path[4] && path[5] === 'firewall' && path[6] === 'name' && value) z.from.set(path[4], value);
+    }
+  }
+
+  model.routes = Array.from(routes.entries())
+    .filter(([key]) => !disabledRoutes.has(key))
+    .map(([, route]) => route);
+  return model;
+}
+
+// ---- routing ----
+
+function contains(network: Interval, address: number): boolean {
+  return network[0] <= address && address <= network[1];
+}
+
+function localInterface(model: RouterModel, address: number): string | undefined {
+  return model.addresses.find((a) => a.address === address)?.interface;
+}
+
+// Longest prefix match over connected networks and static routes; connected wins a tie
+function routeLookup(model: RouterModel, address: number): { interface?: string; blackhole?: boolean; via: string } | undefined {
+  const connected = model.addresses
+    .filter((a) => contains(a.network, address))
+    .sort((a, b) => b.prefixLength - a.prefixLength)[0];
+  const route = model.routes
+    .filter((r) => contains(r.network, address))
+    .sort((a, b) => b.prefixLength - a.prefixLength)[0];
+
+  if (connected && (!route || connected.prefixLength >= route.prefixLength)) {
+    return { interface: connected.interface, via: `connected network ${formatIPv4(connected.network[0])}/${connected.prefixLength}` };
+  }
+  if (!route) return undefined;
+
+  const prefix = `static route ${formatIPv4(route.network[0])}/${route.prefixLength}`;
+  if (route.blackhole) return { blackhole: true, via: `${prefix} (blackhole)` };
+  if (route.interface) return { interface: route.interface, via: prefix };
+  const nextHop = route.nextHop;
+  const gateway = nextHop === undefined ? undefined : model.addresses.find((a) => contains(a.network, nextHop));
+  return { interface: gateway?.interface, via: `${prefix} via ${nextHop === undefined ? '?' : formatIPv4(nextHop)}` };
+}
+
+// ---- rule evaluation ----
+
+function ruleMatches(rule: FirewallRule, flow: Flow): boolean | undefined {
+  const checks = [
+    dimensionContains(rule.protocol, flow.protocol),
+    dimensionContains(rule.source.address, flow.sourceAddress),
+    dimensionContains(rule.source.port, flow.sourcePort),
+    dimensionContains(rule.destination.address, flow.destinationAddress),
+    dimensionContains(rule.destination.port, flow.destinationPort),
+    dimensionContains(rule.state, flow.state),
+    dimensionContains(rule.inboundInterface, flow.inboundInterface),
+    dimensionContains(rule.outboundInterface, flow.outboundInterface),
+  ];
+  if (checks.includes(false)) return false;
+  if (checks.includes(undefined) || rule.extraMatchers.length > 0) return undefined;
+  return true;
+}
+
+function findNamedRuleset(model: RouterModel, family: 'ipv4' | 'ipv6', name: string): FirewallRuleset | undefined {
+  return model.rulesets.find((rs) => rs.family === family && rs.name === name);
+}
+
+function evaluateRuleset(
+  model: RouterModel,
+  ruleset: FirewallRuleset,
+  flow: Flow,
+  trace: Trace,
+  depth = 0,
+): 'accept' | 'drop' | 'reject' | 'return' {
+  for (const rule of ruleset.rules) {
+    if (rule.disabled || !rule.action) continue;
+    const base = { stage: 'filter' as const, ruleset: ruleset.id, rule: rule.number, line: rule.line, action: rule.action };
+
+    const match = ruleMatches(rule, flow);
+    if (match === false) continue;
+    if (match === undefined) {
+      trace.indeterminate = true;
+      trace.steps.push({ ...base, indeterminate: true, message: `Rule ${rule.number} uses criteria that cannot be evaluated offline; assuming it does not match` });
+      continue;
+    }
+
+    trace.matchedRules.push({ ruleset: ruleset.id, rule: rule.number });
+    if (rule.action === 'jump' && rule.jumpTarget) {
+      const target = findNamedRuleset(model, ruleset.family, rule.jumpTarget);
+      trace.steps.push({ ...base, message: `Rule ${rule.number} matched: jump to ${rule.jumpTarget}` });
+      if (!target || depth >= MAX_JUMP_DEPTH) {
+        trace.indeterminate = true;
+        trace.steps.push({ ...base, indeterminate: true, message: `Jump target ${rule.jumpTarget} ${target ? 'nests too deeply' : 'is not defined'}; continuing` });
+        continue;
+      }
+      const result = evaluateRuleset(model, target, flow, trace, depth + 1);
+      if (result !== 'return') return result;
+      continue;
+    }
+    if (rule.action === 'accept' || rule.action === 'drop' || rule.action === 'reject' || rule.action === 'return') {
+      trace.steps.push({ ...base, message: `Rule ${rule.number} matched: ${rule.action}` });
+      return rule.action;
+    }
+    trace.steps.push({ ...base, message: `Rule ${rule.number} matched: ${rule.action} (not modelled, continuing)` });
+  }
+
+  // Base chains (1.4 hooks) accept by default, named rulesets drop
+  const fallback = ruleset.defaultAction ?? (ruleset.hook ? 'accept' : 'drop');
+  const action = fallback === 'accept' || fallback === 'reject' || fallback === 'return' ? fallback : 'drop';
+  trace.steps.push({ stage: 'filter', ruleset: ruleset.id, line: ruleset.line, action, message: `No rule matched in ${ruleset.id}: default-action ${fallback}` });
+  return action;
+}
+
+// The rulesets that see this packet, in evaluation order
+function selectRulesets(model: RouterModel, flow: Flow, local: boolean, trace: Trace): FirewallRuleset[] | Verdict {
+  const hooked = model.rulesets.filter((rs) => rs.family === 'ipv4' && rs.hook === (local ? 'input' : 'forward'));
+  if (hooked.length > 0) return hooked;
+
+  const zoneOf = (iface?: string) =>
+    Array.from(model.zones.entries()).find(([, z]) => !!iface && z.interfaces.includes(iface))?.[0];
+  const fromZone = zoneOf(flow.inboundInterface);
+  if (fromZone) {
+    const toZone = local
+      ? Array.from(model.zones.entries()).find(([, z]) => z.local)?.[0]
+      : zoneOf(flow.outboundInterface);
+    if (!toZone) {
+      trace.steps.push({ stage: 'filter', action: 'drop', message: `Zone ${fromZone} has no policy towards ${local ? 'the router' : flow.outboundInterface ?? 'an unzoned interface'}` });
+      return 'drop';
+    }
+    if (toZone === fromZone) {
+      trace.steps.push({ stage: 'filter', action: 'accept', message: `Traffic stays within zone ${fromZone}` });
+      return [];
+    }
+    const name = model.zones.get(toZone)!.from.get(fromZone);
+    const ruleset = name ? findNamedRuleset(model, 'ipv4', name) : undefined;
+    if (!ruleset) {
+      const action = model.zones.get(toZone)!.defaultAction === 'reject' ? 'reject' : 'drop';
+      trace.steps.push({ stage: 'filter', action, message: `No ruleset from zone ${fromZone} to zone ${toZone}: default-action ${action}` });
+      return action;
+    }
+    trace.steps.push({ stage: 'filter', ruleset: ruleset.id, message: `Zone ${fromZone} -> ${toZone} uses ${name}` });
+    return [ruleset];
+  }
+
+  const names = local
+    ? [model.bindings.get(flow.inboundInterface)?.local]
+    : [model.bindings.get(flow.inboundInterface)?.in, flow.outboundInterface ? model.bindings.get(flow.outboundInterface)?.out : undefined];
+  return names
+    .filter((n): n is string => !!n)
+    .map((n) => findNamedRuleset(model, 'ipv4', n))
+    .filter((rs): rs is FirewallRuleset => !!rs);
+}
+
+function evaluateNat(rules: NatRule[], flow: Flow, stage: 'destination-nat' | 'source-nat', trace: Trace): NatRule | undefined {
+  for (const rule of rules) {
+    if (rule.disabled) continue;
+    const ruleset = stage === 'destination-nat' ? 'nat destination' : 'nat source';
+    const base = { stage, ruleset, rule: rule.number, line: rule.line };
+
+    const match = ruleMatches(rule, flow);
+    if (match === false) continue;
+    if (match === undefined) {
+      trace.indeterminate = true;
+      trace.steps.push({ ...base, indeterminate: true, message: `NAT rule ${rule.number} uses criteria that cannot be evaluated offline; assuming it does not match` });
+      continue;
+    }
+
+    trace.matchedRules.push({ ruleset, rule: rule.number });
+    if (rule.exclude) {
+      trace.steps.push({ ...base, action: 'exclude', message: `NAT rule ${rule.number} matched: excluded from translation` });
+      return undefined;
+    }
+    return rule;
+  }
+  return undefined;
+}
+
+// First address and port of a translation target; ranges and networks act as pools
+function translationTarget(rule: NatRule, model: RouterModel, outbound?: string): { address?: number; port?: number } {
+  let address: number | undefined;
+  if (rule.translationAddress === 'masquerade') {
+    address = model.addresses.find((a) => a.interface === outbound)?.address;
+  } else if (rule.translationAddress) {
+    address = parseAddressRanges(rule.translationAddress)?.[0][0];
+  }
+  const port = rule.translationPort ? Number(rule.translationPort.split(/[-,]/)[0]) : undefined;
+  return { address, port: Number.isNaN(port) ? undefined : port };
+}
+
+function parsePacketAddress(value: string, field: string): number {
+  const address = parseIPv4(value.trim());
+  if (address === undefined) {
+    throw new Error(`${field} must be an IPv4 address`);
+  }
+  return address;
+}
+
+export function simulatePacket(parsed: ParsedConfiguration, packet: Packet): PacketSimulationResult {
+  const model = buildModel(parsed);
+  const trace: Trace = { steps: [], matchedRules: [], indeterminate: false };
+  const flow: Flow = {
+    protocol: packet.protocol.toLowerCase(),
+    sourceAddress: parsePacketAddress(packet.sourceAddress, 'Source address'),
+    sourcePort: packet.sourcePort,
+    destinationAddress: parsePacketAddress(packet.destinationAddress, 'Destination address'),
+    destinationPort: packet.destinationPort,
+    state: packet.state,
+    inboundInterface: packet.inboundInterface.trim(),
+  };
+
+  // 1. Destination NAT (prerouting)
+  const dnat = evaluateNat(model.nat.destination, flow, 'destination-nat', trace);
+  if (dnat) {
+    const target = translationTarget(dnat, model);
+    const before = `${formatIPv4(flow.destinationAddress)}${flow.destinationPort !== undefined ? `:${flow.destinationPort}` : ''}`;
+    if (target.address !== undefined) flow.destinationAddress = target.address;
+    if (target.port !== undefined && flow.destinationPort !== undefined) flow.destinationPort = target.port;
+    const after = `${formatIPv4(flow.destinationAddress)}${flow.destinationPort !== undefined ? `:${flow.destinationPort}` : ''}`;
+    trace.steps.push({ stage: 'destination-nat', ruleset: 'nat destination', rule: dnat.number, line: dnat.line, action: 'translate', message: `NAT rule ${dnat.number} rewrites destination ${before} -> ${after}` });
+  }
+
+  // 2. Routing decision
+  const localIf = localInterface(model, flow.destinationAddress);
+  const local = localIf !== undefined;
+  if (local) {
+    trace.steps.push({ stage: 'routing', message: `${formatIPv4(flow.destinationAddress)} is a local address on ${localIf}: input path` });
+  } else {
+    const route = routeLookup(model, flow.destinationAddress);
+    if (route?.blackhole) {
+      trace.steps.push({ stage: 'routing', action: 'drop', message: `${formatIPv4(flow.destinationAddress)} matches ${route.via}` });
+      return result('drop', 'forward', flow, trace);
+    }
+    flow.outboundInterface = route?.interface;
+    if (route?.interface) {
+      trace.steps.push({ stage: 'routing', message: `Forwarded out ${route.interface} (${route.via})` });
+    } else {
+      trace.indeterminate = true;
+      trace.steps.push({
+        stage: 'routing',
+        indeterminate: true,
+        message: route
+          ? `Next hop of ${route.via} is not on a connected network; outbound interface unknown`
+          : `No route to ${formatIPv4(flow.destinationAddress)} in the configuration (it may be learned dynamically); outbound interface unknown`,
+      });
+    }
+  }
+
+  // 3. Filtering
+  const selected = selectRulesets(model, flow, local, trace);
+  if (typeof selected === 'string') {
+    return result(selected, local ? 'input' : 'forward', flow, trace);
+  }
+  if (selected.length === 0) {
+    trace.steps.push({ stage: 'filter', action: 'accept', message: `No firewall ruleset applies to the ${local ? 'input' : 'forward'} path: accepted` });
+  }
+  for (const ruleset of selected) {
+    const outcome = evaluateRuleset(model, ruleset, flow, trace);
+    if (outcome === 'drop' || outcome === 'reject') {
+      return result(outcome, local ? 'input' : 'forward', flow, trace);
+    }
+  }
+  if (local) return result('accept', 'input', flow, trace);
+
+  // 4. Source NAT (postrouting)
+  const snat = evaluateNat(model.nat.source, flow, 'source-nat', trace);
+  if (snat) {
+    const target = translationTarget(snat, model, flow.outboundInterface);
+    const before = formatIPv4(flow.sourceAddress);
+    if (target.address !== undefined) flow.sourceAddress = target.address;
+    if (target.port !== undefined && flow.sourcePort !== undefined) flow.sourcePort = target.port;
+    const message = target.address === undefined && snat.translationAddress === 'masquerade'
+      ? `NAT rule ${snat.number} masquerades behind ${flow.outboundInterface ?? 'the outbound interface'} (address unknown)`
+      : `NAT rule ${snat.number} rewrites source ${before} -> ${formatIPv4(flow.sourceAddress)}`;
+    trace.steps.push({ stage: 'source-nat', ruleset: 'nat source', rule: snat.number, line: snat.line, action: 'translate', message });
+  }
+
+  return result('accept', 'forward', flow, trace);
+}
+
+function result(verdict: Verdict, path: PacketSimulationResult['path'], flow: Flow, trace: Trace): PacketSimulationResult {
+  return {
+    verdict,
+    path,
+    outboundInterface: flow.outboundInterface,
+    matchedRules: trace.matchedRules,
+    translated: {
+      sourceAddress: formatIPv4(flow.sourceAddress),
+      sourcePort: flow.sourcePort,
+      destinationAddress: formatIPv4(flow.destinationAddress),
+      destinationPort: flow.destinationPort,
+    },
+    steps: trace.steps,
+    indeterminate: trace.indeterminate,
+  };
+}
+
+export function simulateConfiguration(configuration: string, packet: Packet): PacketSimulationResult {
+  return simulatePacket(parseConfiguration(configuration), packet);
+}
@@ -0,0 +1,192 @@
+import { randomUUID } from "crypto";
+import { sql } from "drizzle-orm";
+import { sqliteTable, text, integer, unique } from "drizzle-orm/sqlite-core";
+
+// The tables of shared/schema.ts for SQLite: same names, columns and row
+// types. SQLite has no arrays, jsonb or native timestamps, so arrays and JSON
+// are stored as JSON text and timestamps as epoch milliseconds. Keep in step
+// with shared/schema.ts.
+
+const id = () => text("id").primaryKey().$defaultFn(() => randomUUID());
+const createdAt = (name = "created_at") => integer(name, { mode: "timestamp_ms" }).notNull().default(sql`(cast(unixepoch('subsec') * 1000 as integer))`);
+const timestamp = (name: string) => integer(name, { mode: "timestamp_ms" });
+const stringArray = (name: string) => text(name, { mode: "json" }).$type<string[]>();
+const workspaceId = () => text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" });
+
+export const workspaces = sqliteTable("workspaces", {
+  id: id(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  createdAt: createdAt(),
+});
+
+export const configurations = sqliteTable("configurations", {
+  id: id(),
+  workspaceId: workspaceId(),
+  name: text("name").notNull(),
+  description: text("description"),
+  content: text("content").notNull(),
+  type: text("type").notNull(),
+  createdAt: createdAt(),
+});
+
+export const configurationRevisions = sqliteTable("configuration_revisions", {
+  id: id(),
+  configurationId: text("configuration_id").notNull().references(() => configurations.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  content: text("content").notNull(),
+  type: text("type").notNull(),
+  author: text("author").notNull(),
+  message: text("message").notNull(),
+  revertedFrom: integer("reverted_from"),
+  createdAt: createdAt(),
+}, (table) => [unique().on(table.configurationId, table.revision)]);
+
+export const templates = sqliteTable("templates", {
+  id: id(),
+  workspaceId: workspaceId(),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  category: text("category").notNull(),
+  icon: text("icon").notNull(),
+  content: text("content").notNull(),
+  tags: stringArray("tags"),
+});
+
+export const topologyNodes = sqliteTable("topology_nodes", {
+  id: id(),
+  workspaceId: workspaceId(),
+  label: text("label").notNull(),
+  type: text("type").notNull(),
+  position: text("position", { mode: "json" }).notNull(),
+  properties: text("properties", { mode: "json" }),
+  configId: text("config_id").references(() => configurations.id, { onDelete: "set null" }),
+});
+
+export const topologyConnections = sqliteTable("topology_connections", {
+  id: id(),
+  workspaceId: workspaceId(),
+  sourceId: text("source_id").notNull().references(() => topologyNodes.id, { onDelete: "cascade" }),
+  targetId: text("target_id").notNull().references(() => topologyNodes.id, { onDelete: "cascade" }),
+  label: text("label"),
+  protocol: text("protocol"),
+});
+
+export const intentHistory = sqliteTable("intent_history", {
+  id: id(),
+  workspaceId: workspaceId(),
+  intent: text("intent").notNull(),
+  generatedConfig: text("generated_config").notNull(),
+  applied: text("applied").notNull().default('false'),
+  createdAt: createdAt(),
+});
+
+export const routerSnapshots = sqliteTable("router_snapshots", {
+  id: id(),
+  workspaceId: workspaceId(),
+  nodeId: text("node_id").references(() => topologyNodes.id, { onDelete: "set null" }),
+  host: text("host").notNull(),
+  jobId: text("job_id"),
+  content: text("content").notNull(),
+  createdAt: createdAt(),
+});
+
+export const applyJobs = sqliteTable("apply_jobs", {
+  id: id(),
+  workspaceId: workspaceId(),
+  requester: text("requester").notNull(),
+  host: text("host").notNull(),
+  port: integer("port").notNull(),
+  nodeId: text("node_id").references(() => topologyNodes.id, { onDelete: "set null" }),
+  mode: text("mode").notNull(),
+  dryRun: integer("dry_run", { mode: "boolean" }).notNull().default(false),
+  configHash: text("config_hash").notNull(),
+  status: text("status").notNull(),
+  phase: text("phase"),
+  logs: stringArray("logs").notNull(),
+  result: text("result", { mode: "json" }),
+  error: text("error"),
+  createdAt: createdAt(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const deployments = sqliteTable("deployments", {
+  id: id(),
+  workspaceId: workspaceId(),
+  requester: text("requester").notNull(),
+  configHash: text("config_hash").notNull(),
+  nodeIds: stringArray("node_ids").notNull(),
+  status: text("status").notNull(),
+  report: text("report", { mode: "json" }).notNull(),
+  createdAt: createdAt(),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const jumpHosts = sqliteTable("jump_hosts", {
+  id: id(),
+  workspaceId: workspaceId(),
+  name: text("name").notNull(),
+  host: text("host").notNull(),
+  port: integer("port").notNull().default(22),
+  username: text("username").notNull(),
+  password: text("password"),
+  privateKey: text("private_key"),
+  hostKey: text("host_key"),
+  createdAt: createdAt(),
+});
+
+export const credentials = sqliteTable("credentials", {
+  id: id(),
+  workspaceId: workspaceId(),
+  name: text("name").notNull(),
+  username: text("username").notNull(),
+  kind: text("kind").notNull(),
+  secret: text("secret").notNull(),
+  createdAt: createdAt(),
+  updatedAt: createdAt("updated_at"),
+});
+
+export const users = sqliteTable("users", {
+  id: id(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  role: text("role").notNull().default('viewer'),
+  createdAt: createdAt(),
+});
+
+export const changeRequests = sqliteTable("change_requests", {
+  id: id(),
+  workspaceId: workspaceId(),
+  title: text("title").notNull(),
+  justification: text("justification").notNull(),
+  configuration: text("configuration").notNull(),
+  nodeIds: stringArray("node_ids").notNull(),
+  diff: text("diff", { mode: "json" }).notNull(),
+  status: text("status").notNull().default('draft'),
+  requestedBy: text("requested_by").notNull(),
+  reviewedBy: text("reviewed_by"),
+  reviewComment: text("review_comment"),
+  appliedNodeIds: stringArray("applied_node_ids").notNull(),
+  createdAt: createdAt(),
+  updatedAt: createdAt("updated_at"),
+  reviewedAt: timestamp("reviewed_at"),
+  appliedAt: timestamp("applied_at"),
+});
+
+export const auditEvents = sqliteTable("audit_events", {
+  id: id(),
+  seq: integer("seq").notNull().unique(),
+  actor: text("actor").notNull(),
+  action: text("action").notNull(),
+  target: text("target"),
+  summary: text("summary", { mode: "json" }),
+  outcome: text("outcome").notNull(),
+  status: integer("status"),
+  error: text("error"),
+  prevHash: text("prev_hash").notNull(),
+  hash: text("hash").notNull(),
+  createdAt: createdAt(),
+});
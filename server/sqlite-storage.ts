@@ -0,0 +1,439 @@
+import { and, asc, desc, eq, gte, lte, sql, type SQL } from "drizzle-orm";
+import type { SQLiteColumn, SQLiteTable } from "drizzle-orm/sqlite-core";
+import {
+  workspaces,
+  configurations,
+  configurationRevisions,
+  templates,
+  topologyNodes,
+  topologyConnections,
+  intentHistory,
+  routerSnapshots,
+  applyJobs,
+  deployments,
+  jumpHosts,
+  credentials,
+  users,
+  changeRequests,
+  auditEvents,
+} from "./sqlite-schema";
+import {
+  type Workspace,
+  type InsertWorkspace,
+  type Configuration,
+  type InsertConfiguration,
+  type ConfigurationRevision,
+  type InsertConfigurationRevision,
+  type Template,
+  type InsertTemplate,
+  type TopologyNode,
+  type InsertTopologyNode,
+  type TopologyConnection,
+  type InsertTopologyConnection,
+  type IntentHistory,
+  type InsertIntentHistory,
+  type RouterSnapshot,
+  type InsertRouterSnapshot,
+  type ApplyJob,
+  type InsertApplyJob,
+  type Deployment,
+  type InsertDeployment,
+  type JumpHost,
+  type InsertJumpHost,
+  type Credential,
+  type InsertCredential,
+  type User,
+  type InsertUser,
+  type ChangeRequest,
+  type InsertChangeRequest,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type AuditFilter
+} from "@shared/schema";
+import type { SqliteDatabase } from "./sqlite";
+import type { IStorage } from "./storage";
+
+// IStorage on SQLite, query for query the same as DbStorage. The default
+// workspace and its built-in templates are seeded by migrations.
+
+// "contains"; SQLite's LIKE is case-insensitive already, but has no escape
+// character unless one is named
+function contains(column: SQLiteColumn, term: string): SQL {
+  return sql`${column} like ${`%${term.replace(/[\\%_]/g, "\\$&")}%`} escape '\\'`;
+}
+
+// The record `id`, when it belongs to the workspace
+function owned(table: { id: SQLiteColumn; workspaceId: SQLiteColumn }, workspaceId: string, id: string): SQL | undefined {
+  return and(eq(table.workspaceId, workspaceId), eq(table.id, id));
+}
+
+// Drop keys left undefined, so an empty update can be answered with a read
+function defined<T extends object>(updates: T): Partial<T> {
+  return Object.fromEntries(Object.entries(updates).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+export class SqliteStorage implements IStorage {
+  constructor(private db: SqliteDatabase) {}
+
+  private async remove(table: SQLiteTable & { id: SQLiteColumn }, where: SQL | undefined): Promise<boolean> {
+    const deleted = await this.db.delete(table).where(where).returning({ id: table.id });
+    return deleted.length > 0;
+  }
+
+  // Workspace methods
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const [workspace] = await this.db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace;
+  }
+
+  async getAllWorkspaces(): Promise<Workspace[]> {
+    return this.db.select().from(workspaces).orderBy(asc(workspaces.name));
+  }
+
+  async createWorkspace(insertWorkspace: InsertWorkspace): Promise<Workspace> {
+    const [workspace] = await this.db.insert(workspaces).values(insertWorkspace).returning();
+    return workspace;
+  }
+
+  async updateWorkspace(id: string, updates: Partial<InsertWorkspace>): Promise<Workspace | undefined> {
+    const values = defined(updates);
+    if (Object.keys(values).length === 0) return this.getWorkspace(id);
+    const [workspace] = await this.db.update(workspaces).set(values).where(eq(workspaces.id, id)).returning();
+    return workspace;
+  }
+
+  // Everything in the workspace goes with it, by foreign key cascade
+  async deleteWorkspace(id: string): Promise<boolean> {
+    return this.remove(workspaces, eq(workspaces.id, id));
+  }
+
+  // Configuration methods
+  async getConfiguration(workspaceId: string, id: string): Promise<Configuration | undefined> {
+    const [config] = await this.db.select().from(configurations).where(owned(configurations, workspaceId, id));
+    return config;
+  }
+
+  async getAllConfigurations(workspaceId: string): Promise<Configuration[]> {
+    return this.db.select().from(configurations).where(eq(configurations.workspaceId, workspaceId)).orderBy(asc(configurations.createdAt));
+  }
+
+  async createConfiguration(workspaceId: string, insertConfig: InsertConfiguration): Promise<Configuration> {
+    const [config] = await this.db.insert(configurations).values({ ...insertConfig, workspaceId }).returning();
+    return config;
+  }
+
+  async updateConfiguration(workspaceId: string, id: string, updates: Partial<InsertConfiguration>): Promise<Configuration | undefined> {
+    const values = defined(updates);
+    if (Object.keys(values).length === 0) return this.getConfiguration(workspaceId, id);
+    const [config] = await this.db.update(configurations).set(values).where(owned(configurations, workspaceId, id)).returning();
+    return config;
+  }
+
+  async deleteConfiguration(workspaceId: string, id: string): Promise<boolean> {
+    return this.remove(configurations, owned(configurations, workspaceId, id));
+  }
+
+  // Configuration revision methods
+  async getConfigurationRevisions(configurationId: string): Promise<ConfigurationRevision[]> {
+    return this.db.select().from(configurationRevisions)
+      .where(eq(configurationRevisions.configurationId, configurationId))
+      .orderBy(desc(configurationRevisions.revision));
+  }
+
+  async getConfigurationRevision(configurationId: string, revision: number): Promise<ConfigurationRevision | undefined> {
+    const [found] = await this.db.select().from(configurationRevisions)
+      .where(and(eq(configurationRevisions.configurationId, configurationId), eq(configurationRevisions.revision, revision)));
+    return found;
+  }
+
+  async createConfigurationRevision(insertRevision: InsertConfigurationRevision & { createdAt?: Date }): Promise<ConfigurationRevision> {
+    const [revision] = await this.db.insert(configurationRevisions).values(insertRevision).returning();
+    return revision;
+  }
+
+  // Template methods
+  async getTemplate(workspaceId: string, id: string): Promise<Template | undefined> {
+    const [template] = await this.db.select().from(templates).where(owned(templates, workspaceId, id));
+    return template;
+  }
+
+  async getAllTemplates(workspaceId: string): Promise<Template[]> {
+    return this.db.select().from(templates).where(eq(templates.workspaceId, workspaceId));
+  }
+
+  async getTemplatesByCategory(workspaceId: string, category: string): Promise<Template[]> {
+    return this.db.select().from(templates).where(and(eq(templates.workspaceId, workspaceId), eq(templates.category, category)));
+  }
+
+  async createTemplate(workspaceId: string, insertTemplate: InsertTemplate): Promise<Template> {
+    const [template] = await this.db.insert(templates).values({ ...insertTemplate, workspaceId }).returning();
+    return template;
+  }
+
+  // Topology methods
+  async getTopologyNode(workspaceId: string, id: string): Promise<TopologyNode | undefined> {
+    const [node] = await this.db.select().from(topologyNodes).where(owned(topologyNodes, workspaceId, id));
+    return node;
+  }
+
+  async getAllTopologyNodes(workspaceId: string): Promise<TopologyNode[]> {
+    return this.db.select().from(topologyNodes).where(eq(topologyNodes.workspaceId, workspaceId));
+  }
+
+  async createTopologyNode(workspaceId: string, insertNode: InsertTopologyNode): Promise<TopologyNode> {
+    const [node] = await this.db.insert(topologyNodes).values({ ...insertNode, workspaceId }).returning();
+    return node;
+  }
+
+  async updateTopologyNode(workspaceId: string, id: string, updates: Partial<InsertTopologyNode>): Promise<TopologyNode | undefined> {
+    const values = defined(updates);
+    if (Object.keys(values).length === 0) return this.getTopologyNode(workspaceId, id);
+    const [node] = await this.db.update(topologyNodes).set(values).where(owned(topologyNodes, workspaceId, id)).returning();
+    return node;
+  }
+
+  async deleteTopologyNode(workspaceId: string, id: string): Promise<boolean> {
+    return this.remove(topologyNodes, owned(topologyNodes, workspaceId, id));
+  }
+
+  async getTopologyConnection(workspaceId: string, id: string): Promise<TopologyConnection | undefined> {
+    const [connection] = await this.db.select().from(topologyConnections).where(owned(topologyConnections, workspaceId, id));
+    return connection;
+  }
+
+  async getAllTopologyConnections(workspaceId: string): Promise<TopologyConnection[]> {
+    return this.db.select().from(topologyConnections).where(eq(topologyConnections.workspaceId, workspaceId));
+  }
+
+  async createTopologyConnection(workspaceId: string, insertConnection: InsertTopologyConnection): Promise<TopologyConnection> {
+    const [connection] = await this.db.insert(topologyConnections).values({ ...insertConnection, workspaceId }).returning();
+    return connection;
+  }
+
+  async deleteTopologyConnection(workspaceId: string, id: string): Promise<boolean> {
+    return this.remove(topologyConnections, owned(topologyConnections, workspaceId, id));
+  }
+
+  // Intent history methods
+  async getIntentHistory(workspaceId: string, id: string): Promise<IntentHistory | undefined> {
+    const [intent] = await this.db.select().from(intentHistory).where(owned(intentHistory, workspaceId, id));
+    return intent;
+  }
+
+  async getAllIntentHistory(workspaceId: string): Promise<IntentHistory[]> {
+    return this.db.select().from(intentHistory).where(eq(intentHistory.workspaceId, workspaceId)).orderBy(desc(intentHistory.createdAt));
+  }
+
+  async createIntentHistory(workspaceId: string, insertIntent: InsertIntentHistory & { createdAt?: Date }): Promise<IntentHistory> {
+    const [intent] = await this.db.insert(intentHistory).values({ ...insertIntent, workspaceId }).returning();
+    return intent;
+  }
+
+  // Router snapshot methods
+  async getRouterSnapshot(workspaceId: string, id: string): Promise<RouterSnapshot | undefined> {
+    const [snapshot] = await this.db.select().from(routerSnapshots).where(owned(routerSnapshots, workspaceId, id));
+    return snapshot;
+  }
+
+  async getRouterSnapshots(workspaceId: string, filter: { nodeId?: string; host?: string }): Promise<RouterSnapshot[]> {
+    return this.db.select().from(routerSnapshots)
+      .where(and(
+        eq(routerSnapshots.workspaceId, workspaceId),
+        filter.nodeId ? eq(routerSnapshots.nodeId, filter.nodeId) : undefined,
+        filter.host ? eq(routerSnapshots.host, filter.host) : undefined,
+      ))
+      .orderBy(desc(routerSnapshots.createdAt));
+  }
+
+  async createRouterSnapshot(workspaceId: string, insertSnapshot: InsertRouterSnapshot): Promise<RouterSnapshot> {
+    const [snapshot] = await this.db.insert(routerSnapshots).values({ ...insertSnapshot, workspaceId }).returning();
+    return snapshot;
+  }
+
+  // Apply job methods
+  async getApplyJob(workspaceId: string, id: string): Promise<ApplyJob | undefined> {
+    const [job] = await this.db.select().from(applyJobs).where(owned(applyJobs, workspaceId, id));
+    return job;
+  }
+
+  async getApplyJobs(workspaceId: string, filter: { host?: string; nodeId?: string; status?: string }): Promise<ApplyJob[]> {
+    return this.db.select().from(applyJobs)
+      .where(and(
+        eq(applyJobs.workspaceId, workspaceId),
+        filter.host ? eq(applyJobs.host, filter.host) : undefined,
+        filter.nodeId ? eq(applyJobs.nodeId, filter.nodeId) : undefined,
+        filter.status ? eq(applyJobs.status, filter.status) : undefined,
+      ))
+      .orderBy(desc(applyJobs.createdAt));
+  }
+
+  async createApplyJob(workspaceId: string, insertJob: InsertApplyJob): Promise<ApplyJob> {
+    const [job] = await this.db.insert(applyJobs).values({ ...insertJob, workspaceId }).returning();
+    return job;
+  }
+
+  async updateApplyJob(workspaceId: string, id: string, updates: Partial<InsertApplyJob>): Promise<ApplyJob | undefined> {
+    const values = defined(updates);
+    if (Object.keys(values).length === 0) return this.getApplyJob(workspaceId, id);
+    const [job] = await this.db.update(applyJobs).set(values).where(owned(applyJobs, workspaceId, id)).returning();
+    return job;
+  }
+
+  // Deployment methods
+  async getDeployment(workspaceId: string, id: string): Promise<Deployment | undefined> {
+    const [deployment] = await this.db.select().from(deployments).where(owned(deployments, workspaceId, id));
+    return deployment;
+  }
+
+  async getAllDeployments(workspaceId: string): Promise<Deployment[]> {
+    return this.db.select().from(deployments).where(eq(deployments.workspaceId, workspaceId)).orderBy(desc(deployments.createdAt));
+  }
+
+  async createDeployment(workspaceId: string, insertDeployment: InsertDeployment): Promise<Deployment> {
+    const [deployment] = await this.db.insert(deployments).values({ ...insertDeployment, workspaceId }).returning();
+    return deployment;
+  }
+
+  async updateDeployment(workspaceId: string, id: string, updates: Partial<InsertDeployment>): Promise<Deployment | undefined> {
+    const values = defined(updates);
+    if (Object.keys(values).length === 0) return this.getDeployment(workspaceId, id);
+    const [deployment] = await this.db.update(deployments).set(values).where(owned(deployments, workspaceId, id)).returning();
+    return deployment;
+  }
+
+  // Jump host methods
+  async getJumpHost(workspaceId: string, id: string): Promise<JumpHost | undefined> {
+    const [jumpHost] = await this.db.select().from(jumpHosts).where(owned(jumpHosts, workspaceId, id));
+    return jumpHost;
+  }
+
+  async getAllJumpHosts(workspaceId: string): Promise<JumpHost[]> {
+    return this.db.select().from(jumpHosts).where(eq(jumpHosts.workspaceId, workspaceId)).orderBy(asc(jumpHosts.name));
+  }
+
+  async createJumpHost(workspaceId: string, insertJumpHost: InsertJumpHost): Promise<JumpHost> {
+    const [jumpHost] = await this.db.insert(jumpHosts).values({ ...insertJumpHost, workspaceId }).returning();
+    return jumpHost;
+  }
+
+  async updateJumpHost(workspaceId: string, id: string, updates: Partial<JumpHost>): Promise<JumpHost | undefined> {
+    const { id: _id, ...values } = defined(updates);
+    if (Object.keys(values).length === 0) return this.getJumpHost(workspaceId, id);
+    const [jumpHost] = await this.db.update(jumpHosts).set(values).where(owned(jumpHosts, workspaceId, id)).returning();
+    return jumpHost;
+  }
+
+  async deleteJumpHost(workspaceId: string, id: string): Promise<boolean> {
+    return this.remove(jumpHosts, owned(jumpHosts, workspaceId, id));
+  }
+
+  // Credential methods
+  async getCredential(workspaceId: string, id: string): Promise<Credential | undefined> {
+    const [credential] = await this.db.select().from(credentials).where(owned(credentials, workspaceId, id));
+    return credential;
+  }
+
+  async getAllCredentials(workspaceId: string): Promise<Credential[]> {
+    return this.db.select().from(credentials).where(eq(credentials.workspaceId, workspaceId)).orderBy(asc(credentials.name));
+  }
+
+  async createCredential(workspaceId: string, insertCredential: InsertCredential): Promise<Credential> {
+    const [credential] = await this.db.insert(credentials).values({ ...insertCredential, workspaceId }).returning();
+    return credential;
+  }
+
+  async updateCredential(workspaceId: string, id: string, updates: Partial<InsertCredential>): Promise<Credential | undefined> {
+    const [credential] = await this.db.update(credentials)
+      .set({ ...defined(updates), updatedAt: new Date() })
+      .where(owned(credentials, workspaceId, id))
+      .returning();
+    return credential;
+  }
+
+  async deleteCredential(workspaceId: string, id: string): Promise<boolean> {
+    return this.remove(credentials, owned(credentials, workspaceId, id));
+  }
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const values = defined(updates);
+    if (Object.keys(values).length === 0) return this.getUser(id);
+    const [user] = await this.db.update(users).set(values).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    return this.remove(users, eq(users.id, id));
+  }
+
+  // Change request methods
+  async getChangeRequest(workspaceId: string, id: string): Promise<ChangeRequest | undefined> {
+    const [changeRequest] = await this.db.select().from(changeRequests).where(owned(changeRequests, workspaceId, id));
+    return changeRequest;
+  }
+
+  async getAllChangeRequests(workspaceId: string): Promise<ChangeRequest[]> {
+    return this.db.select().from(changeRequests).where(eq(changeRequests.workspaceId, workspaceId)).orderBy(desc(changeRequests.createdAt));
+  }
+
+  async createChangeRequest(workspaceId: string, insertChangeRequest: InsertChangeRequest): Promise<ChangeRequest> {
+    const [changeRequest] = await this.db.insert(changeRequests).values({ ...insertChangeRequest, workspaceId }).returning();
+    return changeRequest;
+  }
+
+  async updateChangeRequest(workspaceId: string, id: string, updates: Partial<InsertChangeRequest>): Promise<ChangeRequest | undefined> {
+    const [changeRequest] = await this.db.update(changeRequests)
+      .set({ ...defined(updates), updatedAt: new Date() })
+      .where(owned(changeRequests, workspaceId, id))
+      .returning();
+    return changeRequest;
+  }
+
+  async deleteChangeRequest(workspaceId: string, id: string): Promise<boolean> {
+    return this.remove(changeRequests, owned(changeRequests, workspaceId, id));
+  }
+
+  // Audit methods
+  async appendAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const [event] = await this.db.insert(auditEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getLastAuditEvent(): Promise<AuditEvent | undefined> {
+    const [event] = await this.db.select().from(auditEvents).orderBy(desc(auditEvents.seq)).limit(1);
+    return event;
+  }
+
+  async getAuditEvents(filter: AuditFilter): Promise<AuditEvent[]> {
+    const query = this.db.select().from(auditEvents)
+      .where(and(
+        filter.actor ? eq(auditEvents.actor, filter.actor) : undefined,
+        filter.action ? contains(auditEvents.action, filter.action) : undefined,
+        filter.target ? contains(auditEvents.target, filter.target) : undefined,
+        filter.outcome ? eq(auditEvents.outcome, filter.outcome) : undefined,
+        filter.from ? gte(auditEvents.createdAt, filter.from) : undefined,
+        filter.to ? lte(auditEvents.createdAt, filter.to) : undefined,
+      ))
+      .orderBy(desc(auditEvents.seq));
+    return filter.limit ? query.limit(filter.limit) : query;
+  }
+}
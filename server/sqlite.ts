@@ -0,0 +1,28 @@
+import fs from "fs";
+import path from "path";
+import Sqlite from "better-sqlite3";
+import { drizzle, type BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import * as schema from "./sqlite-schema";
+
+// File-based storage for installs without PostgreSQL, used when SQLITE_PATH
+// is set (and DATABASE_URL is not)
+
+export type SqliteDatabase = BetterSQLite3Database<typeof schema>;
+
+// Open (creating when missing) and migrate the database; ":memory:" for a
+// throwaway one
+export function openSqlite(file: string): SqliteDatabase {
+  if (file !== ":memory:") fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  const client = new Sqlite(file);
+  client.pragma("journal_mode = WAL");
+  const db = drizzle({ client, schema });
+  // With foreign keys off (better-sqlite3 turns them on by default): SQLite
+  // only adds a referencing column with a default (workspace_id) while they are
+  client.pragma("foreign_keys = OFF");
+  migrate(db, { migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations", "sqlite") });
+  client.pragma("foreign_keys = ON");
+  return db;
+}
+
+export const sqlite = process.env.SQLITE_PATH && !process.env.DATABASE_URL ? openSqlite(process.env.SQLITE_PATH) : undefined;
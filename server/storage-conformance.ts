@@ -0,0 +1,383 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import type { IStorage } from "./storage";
+import { DEFAULT_WORKSPACE_ID, type AuditEvent, type DeploymentReport, type InsertAuditEvent } from "@shared/schema";
+
+// Behaviour every IStorage implementation must share. Each backend runs the
+// same cases against a fresh store; the suite only relies on the default
+// workspace and its built-in templates being present beforehand.
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+const ws = DEFAULT_WORKSPACE_ID;
+
+export function storageConformance(name: string, create: () => Promise<IStorage>) {
+  describe(`${name} storage`, () => {
+    let storage: IStorage;
+    before(async () => {
+      storage = await create();
+    });
+
+    describe("workspaces", () => {
+      it("starts with the default workspace", async () => {
+        const workspace = await storage.getWorkspace(ws);
+        assert.equal(workspace?.name, "Default");
+        assert.ok((await storage.getAllWorkspaces()).some((w) => w.id === ws));
+      });
+
+      it("keeps records apart and deletes them with the workspace", async () => {
+        const acme = await storage.createWorkspace({ name: "Acme" });
+        assert.equal(acme.description, null);
+        assert.ok(acme.createdAt instanceof Date);
+        await assert.rejects(storage.createWorkspace({ name: "Acme" }));
+        assert.deepEqual(await storage.getAllConfigurations(acme.id), []);
+        assert.deepEqual(await storage.getAllTopologyNodes(acme.id), []);
+
+        const config = await storage.createConfiguration(acme.id, { name: "acme-edge", content: "set a", type: "custom" });
+        assert.equal(config.workspaceId, acme.id);
+        await storage.createConfigurationRevision({
+          configurationId: config.id, revision: 1, name: "acme-edge", content: "set a", type: "custom", author: "alice", message: "r1",
+        });
+        const node = await storage.createTopologyNode(acme.id, { label: "acme-r1", type: "router", position: { x: 0, y: 0 } });
+        assert.equal(await storage.getConfiguration(ws, config.id), undefined);
+        assert.equal(await storage.getTopologyNode(ws, node.id), undefined);
+        assert.equal(await storage.updateConfiguration(ws, config.id, { name: "stolen" }), undefined);
+        assert.equal(await storage.deleteTopologyNode(ws, node.id), false);
+        assert.ok(!(await storage.getAllConfigurations(ws)).some((c) => c.id === config.id));
+        assert.deepEqual(await storage.getTopologyNode(acme.id, node.id), node);
+
+        const renamed = await storage.updateWorkspace(acme.id, { description: "Acme Corp" });
+        assert.equal(renamed?.description, "Acme Corp");
+        assert.equal(renamed?.name, "Acme");
+        const names = (await storage.getAllWorkspaces()).map((w) => w.name);
+        assert.ok(names.indexOf("Acme") < names.indexOf("Default"));
+
+        assert.equal(await storage.deleteWorkspace(acme.id), true);
+        assert.equal(await storage.deleteWorkspace(acme.id), false);
+        assert.equal(await storage.getWorkspace(acme.id), undefined);
+        assert.deepEqual(await storage.getAllConfigurations(acme.id), []);
+        assert.deepEqual(await storage.getConfigurationRevisions(config.id), []);
+        assert.equal(await storage.updateWorkspace(acme.id, { name: "gone" }), undefined);
+      });
+    });
+
+    describe("templates", () => {
+      it("starts with the built-in templates", async () => {
+        const names = (await storage.getAllTemplates(ws)).map((t) => t.name);
+        assert.ok(names.includes("Basic Firewall Rules"));
+        assert.ok(names.includes("Site-to-Site VPN"));
+        const vpn = await storage.getTemplatesByCategory(ws, "vpn");
+        assert.ok(vpn.some((t) => t.name === "Site-to-Site VPN" && t.tags?.includes("ipsec")));
+        assert.ok(vpn.every((t) => t.category === "vpn"));
+      });
+
+      it("creates templates", async () => {
+        const template = await storage.createTemplate(ws, {
+          name: "NTP", description: "Time servers", category: "system", icon: "clock", content: "set system ntp", tags: ["ntp"],
+        });
+        assert.deepEqual(await storage.getTemplate(ws, template.id), template);
+        assert.deepEqual(template.tags, ["ntp"]);
+        const untagged = await storage.createTemplate(ws, { name: "Empty", description: "", category: "system", icon: "x", content: "" });
+        assert.equal(untagged.tags, null);
+      });
+    });
+
+    describe("configurations", () => {
+      it("creates, reads, updates and deletes", async () => {
+        const config = await storage.createConfiguration(ws, { name: "edge", content: "set system host-name edge", type: "custom" });
+        assert.equal(typeof config.id, "string");
+        assert.ok(config.createdAt instanceof Date);
+        assert.equal(config.description, null);
+        assert.deepEqual(await storage.getConfiguration(ws, config.id), config);
+        assert.ok((await storage.getAllConfigurations(ws)).some((c) => c.id === config.id));
+
+        const updated = await storage.updateConfiguration(ws, config.id, { description: "edge router" });
+        assert.equal(updated?.description, "edge router");
+        assert.equal(updated?.content, config.content);
+        assert.equal((await storage.updateConfiguration(ws, config.id, {}))?.description, "edge router");
+
+        assert.equal(await storage.deleteConfiguration(ws, config.id), true);
+        assert.equal(await storage.deleteConfiguration(ws, config.id), false);
+        assert.equal(await storage.getConfiguration(ws, config.id), undefined);
+        assert.equal(await storage.updateConfiguration(ws, config.id, { name: "gone" }), undefined);
+      });
+    });
+
+    describe("configuration revisions", () => {
+      it("numbers revisions per configuration, newest first", async () => {
+        const config = await storage.createConfiguration(ws, { name: "core", content: "set a", type: "custom" });
+        const revision = (n: number, content: string) => storage.createConfigurationRevision({
+          configurationId: config.id, revision: n, name: "core", content, type: "custom", author: "alice", message: `r${n}`,
+        });
+        const first = await revision(1, "set a");
+        await revision(2, "set b");
+        assert.equal(first.description, null);
+        assert.equal(first.revertedFrom, null);
+        assert.ok(first.createdAt instanceof Date);
+
+        assert.deepEqual((await storage.getConfigurationRevisions(config.id)).map((r) => r.revision), [2, 1]);
+        assert.deepEqual(await storage.getConfigurationRevision(config.id, 1), first);
+        assert.equal(await storage.getConfigurationRevision(config.id, 3), undefined);
+        await assert.rejects(revision(2, "set c"));
+
+        await storage.deleteConfiguration(ws, config.id);
+        assert.deepEqual(await storage.getConfigurationRevisions(config.id), []);
+      });
+
+      it("keeps a given creation time", async () => {
+        const config = await storage.createConfiguration(ws, { name: "dated", content: "set a", type: "custom" });
+        const createdAt = new Date("2025-03-01T12:00:00.000Z");
+        const revision = await storage.createConfigurationRevision({
+          configurationId: config.id, revision: 1, name: "dated", content: "set a", type: "custom", author: "alice", message: "r1", createdAt,
+        });
+        assert.equal(revision.createdAt.toISOString(), createdAt.toISOString());
+        assert.equal((await storage.getConfigurationRevision(config.id, 1))?.createdAt.toISOString(), createdAt.toISOString());
+      });
+    });
+
+    describe("topology", () => {
+      it("keeps node positions and properties as given", async () => {
+        const properties = { ssh: { host: "10.0.0.1", port: 22 }, protected: true, tags: ["core"] };
+        const node = await storage.createTopologyNode(ws, { label: "r1", type: "router", position: { x: 10.5, y: -3 }, properties });
+        assert.deepEqual(node.position, { x: 10.5, y: -3 });
+        assert.deepEqual(node.properties, properties);
+        assert.equal(node.configId, null);
+        assert.deepEqual(await storage.getTopologyNode(ws, node.id), node);
+
+        const moved = await storage.updateTopologyNode(ws, node.id, { position: { x: 1, y: 2 } });
+        assert.deepEqual(moved?.position, { x: 1, y: 2 });
+        assert.deepEqual(moved?.properties, properties);
+      });
+
+      it("connects and disconnects nodes", async () => {
+        const a = await storage.createTopologyNode(ws, { label: "a", type: "router", position: { x: 0, y: 0 } });
+        const b = await storage.createTopologyNode(ws, { label: "b", type: "switch", position: { x: 1, y: 0 } });
+        const connection = await storage.createTopologyConnection(ws, { sourceId: a.id, targetId: b.id, protocol: "ospf" });
+        assert.equal(connection.label, null);
+        assert.deepEqual(await storage.getTopologyConnection(ws, connection.id), connection);
+        assert.ok((await storage.getAllTopologyConnections(ws)).some((c) => c.id === connection.id));
+        assert.equal(await storage.deleteTopologyConnection(ws, connection.id), true);
+        assert.equal(await storage.getTopologyConnection(ws, connection.id), undefined);
+
+        assert.equal(await storage.deleteTopologyNode(ws, b.id), true);
+        assert.equal(await storage.deleteTopologyNode(ws, b.id), false);
+        assert.ok(!(await storage.getAllTopologyNodes(ws)).some((n) => n.id === b.id));
+      });
+    });
+
+    describe("intent history", () => {
+      it("lists newest first", async () => {
+        const first = await storage.createIntentHistory(ws, { intent: "block telnet", generatedConfig: "set a" });
+        await tick();
+        const second = await storage.createIntentHistory(ws, { intent: "allow ssh", generatedConfig: "set b", applied: "true" });
+        assert.equal(first.applied, "false");
+        assert.deepEqual(await storage.getIntentHistory(ws, second.id), second);
+        const ids = (await storage.getAllIntentHistory(ws)).map((i) => i.id);
+        assert.ok(ids.indexOf(second.id) < ids.indexOf(first.id));
+      });
+
+      it("keeps a given creation time", async () => {
+        const createdAt = new Date("2025-03-01T12:00:00.000Z");
+        const intent = await storage.createIntentHistory(ws, { intent: "allow dns", generatedConfig: "set c", createdAt });
+        assert.equal((await storage.getIntentHistory(ws, intent.id))?.createdAt.toISOString(), createdAt.toISOString());
+      });
+    });
+
+    describe("router snapshots", () => {
+      it("filters by node and host, newest first", async () => {
+        const node = await storage.createTopologyNode(ws, { label: "snap", type: "router", position: { x: 0, y: 0 } });
+        const older = await storage.createRouterSnapshot(ws, { nodeId: node.id, host: "10.1.1.1", content: "set one" });
+        await tick();
+        const newer = await storage.createRouterSnapshot(ws, { nodeId: node.id, host: "10.1.1.1", jobId: "job-1", content: "set two" });
+        const other = await storage.createRouterSnapshot(ws, { host: "10.1.1.2", content: "set three" });
+        assert.equal(other.nodeId, null);
+        assert.equal(older.jobId, null);
+        assert.deepEqual(await storage.getRouterSnapshot(ws, newer.id), newer);
+
+        assert.deepEqual((await storage.getRouterSnapshots(ws, { nodeId: node.id })).map((s) => s.id), [newer.id, older.id]);
+        assert.deepEqual((await storage.getRouterSnapshots(ws, { host: "10.1.1.2" })).map((s) => s.id), [other.id]);
+        assert.deepEqual(await storage.getRouterSnapshots(ws, { nodeId: node.id, host: "10.1.1.2" }), []);
+      });
+    });
+
+    describe("apply jobs", () => {
+      it("fills defaults and filters by status", async () => {
+        const job = await storage.createApplyJob(ws, {
+          requester: "alice", host: "10.2.0.1", port: 22, mode: "delta", configHash: "abc", status: "queued", logs: [],
+        });
+        assert.equal(job.dryRun, false);
+        assert.equal(job.nodeId, null);
+        assert.equal(job.phase, null);
+        assert.equal(job.result, null);
+        assert.equal(job.startedAt, null);
+        assert.deepEqual(job.logs, []);
+
+        const startedAt = new Date();
+        const running = await storage.updateApplyJob(ws, job.id, { status: "running", phase: "connect", logs: ["connecting"], startedAt });
+        assert.equal(running?.status, "running");
+        assert.deepEqual(running?.logs, ["connecting"]);
+        assert.equal(running?.startedAt?.getTime(), startedAt.getTime());
+
+        const result = { applied: true, commit: true, saved: true, dryRun: false, logs: ["ok"] };
+        await storage.updateApplyJob(ws, job.id, { status: "succeeded", result });
+        assert.deepEqual((await storage.getApplyJob(ws, job.id))?.result, result);
+
+        const succeeded = await storage.getApplyJobs(ws, { host: "10.2.0.1", status: "succeeded" });
+        assert.deepEqual(succeeded.map((j) => j.id), [job.id]);
+        assert.deepEqual(await storage.getApplyJobs(ws, { host: "10.2.0.1", status: "queued" }), []);
+        assert.equal(await storage.updateApplyJob(ws, "missing", { status: "failed" }), undefined);
+      });
+    });
+
+    describe("deployments", () => {
+      it("keeps the report and lists newest first", async () => {
+        const report: DeploymentReport = {
+          waves: [{ index: 1, status: "pending", routers: [{ nodeId: "n1", label: "r1", host: "10.3.0.1", status: "pending", logs: [] }] }],
+          summary: { succeeded: 0, failed: 0, skipped: 0, pending: 1 },
+        };
+        const first = await storage.createDeployment(ws, { requester: "alice", configHash: "h", nodeIds: ["n1"], status: "running", report });
+        await tick();
+        const second = await storage.createDeployment(ws, { requester: "bob", configHash: "h", nodeIds: ["n1", "n2"], status: "running", report });
+        assert.equal(first.finishedAt, null);
+        assert.deepEqual(second.nodeIds, ["n1", "n2"]);
+        assert.deepEqual((await storage.getDeployment(ws, first.id))?.report, report);
+
+        const ids = (await storage.getAllDeployments(ws)).map((d) => d.id);
+        assert.ok(ids.indexOf(second.id) < ids.indexOf(first.id));
+
+        const finishedAt = new Date();
+        const done = await storage.updateDeployment(ws, first.id, { status: "succeeded", finishedAt });
+        assert.equal(done?.status, "succeeded");
+        assert.equal(done?.finishedAt?.getTime(), finishedAt.getTime());
+      });
+    });
+
+    describe("jump hosts", () => {
+      it("defaults the port, sorts by name and pins host keys", async () => {
+        const zulu = await storage.createJumpHost(ws, { name: "zulu", host: "bastion-z", username: "ops" });
+        const alpha = await storage.createJumpHost(ws, { name: "alpha", host: "bastion-a", port: 2222, username: "ops", password: "pw" });
+        assert.equal(zulu.port, 22);
+        assert.equal(zulu.password, null);
+        assert.equal(zulu.hostKey, null);
+        const names = (await storage.getAllJumpHosts(ws)).map((j) => j.name);
+        assert.ok(names.indexOf("alpha") < names.indexOf("zulu"));
+
+        const pinned = await storage.updateJumpHost(ws, alpha.id, { hostKey: "SHA256:abc" });
+        assert.equal(pinned?.hostKey, "SHA256:abc");
+        assert.equal(pinned?.password, "pw");
+        assert.equal(await storage.deleteJumpHost(ws, zulu.id), true);
+        assert.equal(await storage.getJumpHost(ws, zulu.id), undefined);
+      });
+    });
+
+    describe("credentials", () => {
+      it("sorts by name and stamps updates", async () => {
+        const lab = await storage.createCredential(ws, { name: "lab", username: "vyos", kind: "password", secret: "v1:a:b:c" });
+        await storage.createCredential(ws, { name: "core", username: "vyos", kind: "private-key", secret: "v1:d:e:f" });
+        assert.equal(lab.createdAt.getTime(), lab.updatedAt.getTime());
+        const names = (await storage.getAllCredentials(ws)).map((c) => c.name);
+        assert.ok(names.indexOf("core") < names.indexOf("lab"));
+
+        await tick();
+        const renamed = await storage.updateCredential(ws, lab.id, { name: "lab-2" });
+        assert.equal(renamed?.name, "lab-2");
+        assert.equal(renamed?.secret, lab.secret);
+        assert.ok(renamed!.updatedAt.getTime() > lab.updatedAt.getTime());
+        assert.equal(await storage.deleteCredential(ws, lab.id), true);
+        assert.equal(await storage.updateCredential(ws, lab.id, { name: "x" }), undefined);
+      });
+    });
+
+    describe("users", () => {
+      it("looks users up by id and name", async () => {
+        const viewer = await storage.createUser({ username: "zoe", password: "hash.salt" });
+        const admin = await storage.createUser({ username: "adam", password: "hash.salt", role: "admin" });
+        assert.equal(viewer.role, "viewer");
+        assert.deepEqual(await storage.getUser(admin.id), admin);
+        assert.deepEqual(await storage.getUserByUsername("zoe"), viewer);
+        assert.equal(await storage.getUserByUsername("nobody"), undefined);
+        const names = (await storage.getAllUsers()).map((u) => u.username);
+        assert.ok(names.indexOf("adam") < names.indexOf("zoe"));
+
+        assert.equal((await storage.updateUser(viewer.id, { role: "operator" }))?.role, "operator");
+        assert.equal(await storage.deleteUser(viewer.id), true);
+        assert.equal(await storage.getUserByUsername("zoe"), undefined);
+      });
+    });
+
+    describe("change requests", () => {
+      it("fills defaults, lists newest first and stamps updates", async () => {
+        const diff = [{ nodeId: "n1", label: "r1", delta: { set: ["set a"], delete: [] } }];
+        const first = await storage.createChangeRequest(ws, {
+          title: "One", justification: "why", configuration: "set a", nodeIds: ["n1"], diff, requestedBy: "alice", appliedNodeIds: [],
+        });
+        assert.equal(first.status, "draft");
+        assert.equal(first.reviewedBy, null);
+        assert.equal(first.reviewedAt, null);
+        assert.deepEqual(first.diff, diff);
+        assert.deepEqual(first.appliedNodeIds, []);
+        await tick();
+        const second = await storage.createChangeRequest(ws, {
+          title: "Two", justification: "why", configuration: "set b", nodeIds: ["n1", "n2"], diff: [], requestedBy: "bob", appliedNodeIds: [],
+        });
+        const ids = (await storage.getAllChangeRequests(ws)).map((c) => c.id);
+        assert.ok(ids.indexOf(second.id) < ids.indexOf(first.id));
+
+        const reviewedAt = new Date();
+        const approved = await storage.updateChangeRequest(ws, first.id, { status: "approved", reviewedBy: "bob", reviewedAt, appliedNodeIds: ["n1"] });
+        assert.equal(approved?.status, "approved");
+        assert.equal(approved?.reviewedAt?.getTime(), reviewedAt.getTime());
+        assert.deepEqual(approved?.appliedNodeIds, ["n1"]);
+        assert.ok(approved!.updatedAt.getTime() > first.updatedAt.getTime());
+        assert.equal(await storage.deleteChangeRequest(ws, second.id), true);
+        assert.equal(await storage.getChangeRequest(ws, second.id), undefined);
+      });
+    });
+
+    describe("audit events", () => {
+      let events: AuditEvent[];
+      before(async () => {
+        const base = Date.now();
+        const append = (seq: number, fields: Partial<InsertAuditEvent>) => storage.appendAuditEvent({
+          seq,
+          actor: "alice",
+          action: "POST /api/configurations",
+          outcome: "success",
+          prevHash: `hash-${seq - 1}`,
+          hash: `hash-${seq}`,
+          createdAt: new Date(base + seq * 1000),
+          ...fields,
+        });
+        events = [
+          await append(1, { summary: { name: "edge", password: "[redacted]", nested: { list: [1, "two"] } }, status: 201 }),
+          await append(2, { actor: "bob", action: "DELETE /api/topology/nodes/:id", target: "/api/topology/nodes/n1", outcome: "denied", status: 403 }),
+          await append(3, { action: "router.apply", target: "10.0.0.1:22", outcome: "failure", error: "timed out" }),
+          await append(4, { action: "POST /api/templates", target: "/api/100%_done" }),
+        ];
+      });
+
+      it("appends events as given", async () => {
+        assert.deepEqual(events[0].summary, { name: "edge", password: "[redacted]", nested: { list: [1, "two"] } });
+        assert.equal(events[0].target, null);
+        assert.equal(events[0].error, null);
+        assert.equal(events[1].summary, null);
+        assert.equal((await storage.getLastAuditEvent())?.seq, 4);
+      });
+
+      it("lists newest first and filters", async () => {
+        const seqs = async (filter: Parameters<IStorage["getAuditEvents"]>[0]) =>
+          (await storage.getAuditEvents(filter)).map((e) => e.seq);
+        assert.deepEqual(await seqs({}), [4, 3, 2, 1]);
+        assert.deepEqual(await seqs({ limit: 2 }), [4, 3]);
+        assert.deepEqual(await seqs({ actor: "bob" }), [2]);
+        assert.deepEqual(await seqs({ actor: "bo" }), []);
+        assert.deepEqual(await seqs({ action: "ROUTER" }), [3]);
+        assert.deepEqual(await seqs({ target: "nodes/N1" }), [2]);
+        assert.deepEqual(await seqs({ target: "100%_" }), [4]);
+        assert.deepEqual(await seqs({ target: "1%" }), []);
+        assert.deepEqual(await seqs({ outcome: "success" }), [4, 1]);
+        assert.deepEqual(await seqs({ from: events[1].createdAt, to: events[2].createdAt }), [3, 2]);
+        assert.deepEqual(await storage.getAuditEvents({ actor: "bob" }), [events[1]]);
+      });
+    });
+  });
+}
@@ -0,0 +1,24 @@
+import { sql } from "drizzle-orm";
+import { storageConformance } from "./storage-conformance";
+import { MemStorage } from "./storage";
+import { DbStorage } from "./db-storage";
+import { SqliteStorage } from "./sqlite-storage";
+import { openSqlite } from "./sqlite";
+import { connectDatabase, migrateDatabase } from "./db";
+
+storageConformance("in-memory", async () => new MemStorage());
+
+storageConformance("SQLite", async () => new SqliteStorage(openSqlite(":memory:")));
+
+// Needs a PostgreSQL database it may empty: every table but workspaces and
+// templates is truncated, and only the default workspace is kept
+if (process.env.TEST_DATABASE_URL) {
+  storageConformance("PostgreSQL", async () => {
+    const db = connectDatabase(process.env.TEST_DATABASE_URL!);
+    await migrateDatabase(db);
+    await db.execute(sql`truncate table audit_events, change_requests, users, credentials, jump_hosts, deployments,
+      apply_jobs, router_snapshots, intent_history, topology_connections, topology_nodes, configurations cascade`);
+    await db.execute(sql`delete from workspaces where id <> 'default'`);
+    return new DbStorage(db);
+  });
+}
@@ -1,6 +1,11 @@
 import { 
+  DEFAULT_WORKSPACE_ID,
+  type Workspace,
+  type InsertWorkspace,
   type Configuration, 
   type InsertConfiguration,
+  type ConfigurationRevision,
+  type InsertConfigurationRevision,
   type Template,
   type InsertTemplate,
   type TopologyNode,
@@ -8,214 +13,676 @@ import {
   type TopologyConnection,
   type InsertTopologyConnection,
   type IntentHistory,
-  type InsertIntentHistory
+  type InsertIntentHistory,
+  type RouterSnapshot,
+  type InsertRouterSnapshot,
+  type ApplyJob,
+  type InsertApplyJob,
+  type Deployment,
+  type InsertDeployment,
+  type JumpHost,
+  type InsertJumpHost,
+  type Credential,
+  type InsertCredential,
+  type User,
+  type InsertUser,
+  type ChangeRequest,
+  type InsertChangeRequest,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type AuditFilter
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { db } from "./db";
+import { DbStorage } from "./db-storage";
+import { sqlite } from "./sqlite";
+import { SqliteStorage } from "./sqlite-storage";
+import { builtinTemplates } from "./builtin-templates";
 
+// Everything but workspaces, users and the audit log belongs to a workspace:
+// those methods take its id first and never see another workspace's records.
 export interface IStorage {
+  // Workspace methods; deleting one deletes everything in it
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  getAllWorkspaces(): Promise<Workspace[]>;
+  createWorkspace(workspace: InsertWorkspace): Promise<Workspace>;
+  updateWorkspace(id: string, updates: Partial<InsertWorkspace>): Promise<Workspace | undefined>;
+  deleteWorkspace(id: string): Promise<boolean>;
+
   // Configuration methods
-  getConfiguration(id: string): Promise<Configuration | undefined>;
-  getAllConfigurations(): Promise<Configuration[]>;
-  createConfiguration(config: InsertConfiguration): Promise<Configuration>;
-  updateConfiguration(id: string, config: Partial<InsertConfiguration>): Promise<Configuration | undefined>;
-  deleteConfiguration(id: string): Promise<boolean>;
+  getConfiguration(workspaceId: string, id: string): Promise<Configuration | undefined>;
+  getAllConfigurations(workspaceId: string): Promise<Configuration[]>;
+  createConfiguration(workspaceId: string, config: InsertConfiguration): Promise<Configuration>;
+  updateConfiguration(workspaceId: string, id: string, config: Partial<InsertConfiguration>): Promise<Configuration | undefined>;
+  deleteConfiguration(workspaceId: string, id: string): Promise<boolean>;
+
+  // Configuration revision methods; revisions are only ever added. Newest first.
+  // They belong to the workspace of their configuration.
+  getConfigurationRevisions(configurationId: string): Promise<ConfigurationRevision[]>;
+  getConfigurationRevision(configurationId: string, revision: number): Promise<ConfigurationRevision | undefined>;
+  // `createdAt` defaults to now; an import passes the time from the archive.
+  createConfigurationRevision(revision: InsertConfigurationRevision & { createdAt?: Date }): Promise<ConfigurationRevision>;
 
   // Template methods
-  getTemplate(id: string): Promise<Template | undefined>;
-  getAllTemplates(): Promise<Template[]>;
-  getTemplatesByCategory(category: string): Promise<Template[]>;
-  createTemplate(template: InsertTemplate): Promise<Template>;
+  getTemplate(workspaceId: string, id: string): Promise<Template | undefined>;
+  getAllTemplates(workspaceId: string): Promise<Template[]>;
+  getTemplatesByCategory(workspaceId: string, category: string): Promise<Template[]>;
+  createTemplate(workspaceId: string, template: InsertTemplate): Promise<Template>;
 
   // Topology methods
-  getTopologyNode(id: string): Promise<TopologyNode | undefined>;
-  getAllTopologyNodes(): Promise<TopologyNode[]>;
-  createTopologyNode(node: InsertTopologyNode): Promise<TopologyNode>;
-  updateTopologyNode(id: string, updates: Partial<InsertTopologyNode>): Promise<TopologyNode | undefined>;
-  deleteTopologyNode(id: string): Promise<boolean>;
+  getTopologyNode(workspaceId: string, id: string): Promise<TopologyNode | undefined>;
+  getAllTopologyNodes(workspaceId: string): Promise<TopologyNode[]>;
+  createTopologyNode(workspaceId: string, node: InsertTopologyNode): Promise<TopologyNode>;
+  updateTopologyNode(workspaceId: string, id: string, updates: Partial<InsertTopologyNode>): Promise<TopologyNode | undefined>;
+  deleteTopologyNode(workspaceId: string, id: string): Promise<boolean>;
 
-  getTopologyConnection(id: string): Promise<TopologyConnection | undefined>;
-  getAllTopologyConnections(): Promise<TopologyConnection[]>;
-  createTopologyConnection(connection: InsertTopologyConnection): Promise<TopologyConnection>;
-  deleteTopologyConnection(id: string): Promise<boolean>;
+  getTopologyConnection(workspaceId: string, id: string): Promise<TopologyConnection | undefined>;
+  getAllTopologyConnections(workspaceId: string): Promise<TopologyConnection[]>;
+  createTopologyConnection(workspaceId: string, connection: InsertTopologyConnection): Promise<TopologyConnection>;
+  deleteTopologyConnection(workspaceId: string, id: string): Promise<boolean>;
 
   // Intent history methods
-  getIntentHistory(id: string): Promise<IntentHistory | undefined>;
-  getAllIntentHistory(): Promise<IntentHistory[]>;
-  createIntentHistory(intent: InsertIntentHistory): Promise<IntentHistory>;
+  getIntentHistory(workspaceId: string, id: string): Promise<IntentHistory | undefined>;
+  getAllIntentHistory(workspaceId: string): Promise<IntentHistory[]>;
+  createIntentHistory(workspaceId: string, intent: InsertIntentHistory & { createdAt?: Date }): Promise<IntentHistory>;
+
+  // Router snapshot methods
+  getRouterSnapshot(workspaceId: string, id: string): Promise<RouterSnapshot | undefined>;
+  getRouterSnapshots(workspaceId: string, filter: { nodeId?: string; host?: string }): Promise<RouterSnapshot[]>;
+  createRouterSnapshot(workspaceId: string, snapshot: InsertRouterSnapshot): Promise<RouterSnapshot>;
+
+  // Apply job methods
+  getApplyJob(workspaceId: string, id: string): Promise<ApplyJob | undefined>;
+  getApplyJobs(workspaceId: string, filter: { host?: string; nodeId?: string; status?: string }): Promise<ApplyJob[]>;
+  createApplyJob(workspaceId: string, job: InsertApplyJob): Promise<ApplyJob>;
+  updateApplyJob(workspaceId: string, id: string, updates: Partial<InsertApplyJob>): Promise<ApplyJob | undefined>;
+
+  // Deployment methods
+  getDeployment(workspaceId: string, id: string): Promise<Deployment | undefined>;
+  getAllDeployments(workspaceId: string): Promise<Deployment[]>;
+  createDeployment(workspaceId: string, deployment: InsertDeployment): Promise<Deployment>;
+  updateDeployment(workspaceId: string, id: string, updates: Partial<InsertDeployment>): Promise<Deployment | undefined>;
+
+  // Jump host methods
+  getJumpHost(workspaceId: string, id: string): Promise<JumpHost | undefined>;
+  getAllJumpHosts(workspaceId: string): Promise<JumpHost[]>;
+  createJumpHost(workspaceId: string, jumpHost: InsertJumpHost): Promise<JumpHost>;
+  updateJumpHost(workspaceId: string, id: string, updates: Partial<JumpHost>): Promise<JumpHost | undefined>;
+  deleteJumpHost(workspaceId: string, id: string): Promise<boolean>;
+
+  // Credential methods
+  getCredential(workspaceId: string, id: string): Promise<Credential | undefined>;
+  getAllCredentials(workspaceId: string): Promise<Credential[]>;
+  createCredential(workspaceId: string, credential: InsertCredential): Promise<Credential>;
+  updateCredential(workspaceId: string, id: string, updates: Partial<InsertCredential>): Promise<Credential | undefined>;
+  deleteCredential(workspaceId: string, id: string): Promise<boolean>;
+
+  // User methods
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(id: string): Promise<boolean>;
+
+  // Change request methods
+  getChangeRequest(workspaceId: string, id: string): Promise<ChangeRequest | undefined>;
+  getAllChangeRequests(workspaceId: string): Promise<ChangeRequest[]>;
+  createChangeRequest(workspaceId: string, changeRequest: InsertChangeRequest): Promise<ChangeRequest>;
+  updateChangeRequest(workspaceId: string, id: string, updates: Partial<InsertChangeRequest>): Promise<ChangeRequest | undefined>;
+  deleteChangeRequest(workspaceId: string, id: string): Promise<boolean>;
+
+  // Audit methods; events are only ever appended
+  appendAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getLastAuditEvent(): Promise<AuditEvent | undefined>;
+  // Newest first
+  getAuditEvents(filter: AuditFilter): Promise<AuditEvent[]>;
 }
 
 export class MemStorage implements IStorage {
+  private workspaces: Map<string, Workspace>;
   private configurations: Map<string, Configuration>;
+  private configurationRevisions: Map<string, ConfigurationRevision>;
   private templates: Map<string, Template>;
   private topologyNodes: Map<string, TopologyNode>;
   private topologyConnections: Map<string, TopologyConnection>;
   private intentHistory: Map<string, IntentHistory>;
+  private routerSnapshots: Map<string, RouterSnapshot>;
+  private applyJobs: Map<string, ApplyJob>;
+  private deployments: Map<string, Deployment>;
+  private jumpHosts: Map<string, JumpHost>;
+  private credentials: Map<string, Credential>;
+  private users: Map<string, User>;
+  private changeRequests: Map<string, ChangeRequest>;
+  private auditEvents: AuditEvent[];
 
   constructor() {
+    this.workspaces = new Map();
     this.configurations = new Map();
+    this.configurationRevisions = new Map();
     this.templates = new Map();
     this.topologyNodes = new Map();
     this.topologyConnections = new Map();
     this.intentHistory = new Map();
-    this.seedTemplates();
-  }
-
-  private seedTemplates() {
-    const templates: InsertTemplate[] = [
-      {
-        name: 'Basic Firewall Rules',
-        description: 'Essential firewall configuration with allow/deny rules for common services',
-        category: 'firewall',
-        icon: 'shield',
-        tags: ['security', 'firewall', 'basic'],
-        content: `set firewall name WAN_LOCAL default-action 'drop'
-set firewall name WAN_LOCAL rule 10 action 'accept'
-set firewall name WAN_LOCAL rule 10 state established 'enable'
-set firewall name WAN_LOCAL rule 10 state related 'enable'
-set firewall name WAN_LOCAL rule 20 action 'drop'
-set firewall name WAN_LOCAL rule 20 state invalid 'enable'`
-      },
-      {
-        name: 'Site-to-Site VPN',
-        description: 'IPsec VPN tunnel configuration for secure site-to-site connectivity',
-        category: 'vpn',
-        icon: 'lock',
-        tags: ['vpn', 'ipsec', 'security'],
-        content: `set vpn ipsec ike-group IKE-SITE lifetime '28800'
-set vpn ipsec ike-group IKE-SITE proposal 1 dh-group '14'
-set vpn ipsec ike-group IKE-SITE proposal 1 encryption 'aes256'
-set vpn ipsec ike-group IKE-SITE proposal 1 hash 'sha256'`
-      },
-    ];
-
-    templates.forEach(t => {
+    this.routerSnapshots = new Map();
+    this.applyJobs = new Map();
+    this.deployments = new Map();
+    this.jumpHosts = new Map();
+    this.credentials = new Map();
+    this.users = new Map();
+    this.changeRequests = new Map();
+    this.auditEvents = [];
+    this.seedDefaultWorkspace();
+  }
+
+  private seedDefaultWorkspace() {
+    this.workspaces.set(DEFAULT_WORKSPACE_ID, {
+      id: DEFAULT_WORKSPACE_ID,
+      name: 'Default',
+      description: 'Everything created before workspaces',
+      createdAt: new Date()
+    });
+    builtinTemplates.forEach(t => {
       const id = randomUUID();
-      this.templates.set(id, { ...t, id });
+      this.templates.set(id, { ...t, id, workspaceId: DEFAULT_WORKSPACE_ID, tags: t.tags ?? null });
     });
   }
 
+  // The workspace's records in `records`
+  private scoped<T extends { workspaceId: string }>(records: Map<string, T>, workspaceId: string): T[] {
+    return Array.from(records.values()).filter(r => r.workspaceId === workspaceId);
+  }
+
+  // A record by id, when it belongs to the workspace
+  private owned<T extends { workspaceId: string }>(records: Map<string, T>, workspaceId: string, id: string): T | undefined {
+    const record = records.get(id);
+    return record?.workspaceId === workspaceId ? record : undefined;
+  }
+
+  private update<T extends { workspaceId: string }>(records: Map<string, T>, workspaceId: string, id: string, updates: Partial<NoInfer<T>>): T | undefined {
+    const record = this.owned(records, workspaceId, id);
+    if (!record) return undefined;
+
+    const updated = { ...record, ...updates };
+    records.set(id, updated);
+    return updated;
+  }
+
+  private remove<T extends { workspaceId: string }>(records: Map<string, T>, workspaceId: string, id: string): boolean {
+    return !!this.owned(records, workspaceId, id) && records.delete(id);
+  }
+
+  // Workspace methods
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    return this.workspaces.get(id);
+  }
+
+  async getAllWorkspaces(): Promise<Workspace[]> {
+    return Array.from(this.workspaces.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createWorkspace(insertWorkspace: InsertWorkspace): Promise<Workspace> {
+    if (Array.from(this.workspaces.values()).some(w => w.name === insertWorkspace.name)) {
+      throw new Error(`Workspace ${insertWorkspace.name} already exists`);
+    }
+    const id = randomUUID();
+    const workspace: Workspace = {
+      ...insertWorkspace,
+      id,
+      description: insertWorkspace.description ?? null,
+      createdAt: new Date()
+    };
+    this.workspaces.set(id, workspace);
+    return workspace;
+  }
+
+  async updateWorkspace(id: string, updates: Partial<InsertWorkspace>): Promise<Workspace | undefined> {
+    const workspace = this.workspaces.get(id);
+    if (!workspace) return undefined;
+    if (updates.name && Array.from(this.workspaces.values()).some(w => w.id !== id && w.name === updates.name)) {
+      throw new Error(`Workspace ${updates.name} already exists`);
+    }
+
+    const updated = { ...workspace, ...updates };
+    this.workspaces.set(id, updated);
+    return updated;
+  }
+
+  async deleteWorkspace(id: string): Promise<boolean> {
+    if (!this.workspaces.has(id)) return false;
+    const configurationIds = new Set(this.scoped(this.configurations, id).map(c => c.id));
+    Array.from(this.configurationRevisions.values())
+      .filter(r => configurationIds.has(r.configurationId))
+      .forEach(r => this.configurationRevisions.delete(r.id));
+    for (const records of [this.configurations, this.templates, this.topologyNodes, this.topologyConnections,
+      this.intentHistory, this.routerSnapshots, this.applyJobs, this.deployments, this.jumpHosts,
+      this.credentials, this.changeRequests] as Map<string, { workspaceId: string }>[]) {
+      this.scoped(records, id).forEach((r: any) => records.delete(r.id));
+    }
+    return this.workspaces.delete(id);
+  }
+
   // Configuration methods
-  async getConfiguration(id: string): Promise<Configuration | undefined> {
-    return this.configurations.get(id);
+  async getConfiguration(workspaceId: string, id: string): Promise<Configuration | undefined> {
+    return this.owned(this.configurations, workspaceId, id);
   }
 
-  async getAllConfigurations(): Promise<Configuration[]> {
-    return Array.from(this.configurations.values());
+  async getAllConfigurations(workspaceId: string): Promise<Configuration[]> {
+    return this.scoped(this.configurations, workspaceId);
   }
 
-  async createConfiguration(insertConfig: InsertConfiguration): Promise<Configuration> {
+  async createConfiguration(workspaceId: string, insertConfig: InsertConfiguration): Promise<Configuration> {
     const id = randomUUID();
     const config: Configuration = { 
       ...insertConfig, 
       id,
+      workspaceId,
+      description: insertConfig.description ?? null,
       createdAt: new Date()
     };
     this.configurations.set(id, config);
     return config;
   }
 
-  async updateConfiguration(id: string, updates: Partial<InsertConfiguration>): Promise<Configuration | undefined> {
-    const config = this.configurations.get(id);
-    if (!config) return undefined;
-    
-    const updated = { ...config, ...updates };
-    this.configurations.set(id, updated);
-    return updated;
+  async updateConfiguration(workspaceId: string, id: string, updates: Partial<InsertConfiguration>): Promise<Configuration | undefined> {
+    return this.update(this.configurations, workspaceId, id, updates);
+  }
+
+  async deleteConfiguration(workspaceId: string, id: string): Promise<boolean> {
+    if (!this.remove(this.configurations, workspaceId, id)) return false;
+    Array.from(this.configurationRevisions.values())
+      .filter(r => r.configurationId === id)
+      .forEach(r => this.configurationRevisions.delete(r.id));
+    return true;
+  }
+
+  // Configuration revision methods
+  async getConfigurationRevisions(configurationId: string): Promise<ConfigurationRevision[]> {
+    return Array.from(this.configurationRevisions.values())
+      .filter(r => r.configurationId === configurationId)
+      .sort((a, b) => b.revision - a.revision);
   }
 
-  async deleteConfiguration(id: string): Promise<boolean> {
-    return this.configurations.delete(id);
+  async getConfigurationRevision(configurationId: string, revision: number): Promise<ConfigurationRevision | undefined> {
+    return Array.from(this.configurationRevisions.values())
+      .find(r => r.configurationId === configurationId && r.revision === revision);
+  }
+
+  async createConfigurationRevision(insertRevision: InsertConfigurationRevision & { createdAt?: Date }): Promise<ConfigurationRevision> {
+    if (await this.getConfigurationRevision(insertRevision.configurationId, insertRevision.revision)) {
+      throw new Error(`Revision ${insertRevision.revision} of configuration ${insertRevision.configurationId} already exists`);
+    }
+    const id = randomUUID();
+    const revision: ConfigurationRevision = {
+      ...insertRevision,
+      id,
+      description: insertRevision.description ?? null,
+      revertedFrom: insertRevision.revertedFrom ?? null,
+      createdAt: insertRevision.createdAt ?? new Date()
+    };
+    this.configurationRevisions.set(id, revision);
+    return revision;
   }
 
   // Template methods
-  async getTemplate(id: string): Promise<Template | undefined> {
-    return this.templates.get(id);
+  async getTemplate(workspaceId: string, id: string): Promise<Template | undefined> {
+    return this.owned(this.templates, workspaceId, id);
   }
 
-  async getAllTemplates(): Promise<Template[]> {
-    return Array.from(this.templates.values());
+  async getAllTemplates(workspaceId: string): Promise<Template[]> {
+    return this.scoped(this.templates, workspaceId);
   }
 
-  async getTemplatesByCategory(category: string): Promise<Template[]> {
-    return Array.from(this.templates.values()).filter(t => t.category === category);
+  async getTemplatesByCategory(workspaceId: string, category: string): Promise<Template[]> {
+    return this.scoped(this.templates, workspaceId).filter(t => t.category === category);
   }
 
-  async createTemplate(insertTemplate: InsertTemplate): Promise<Template> {
+  async createTemplate(workspaceId: string, insertTemplate: InsertTemplate): Promise<Template> {
     const id = randomUUID();
-    const template: Template = { ...insertTemplate, id };
+    const template: Template = { ...insertTemplate, id, workspaceId, tags: insertTemplate.tags ?? null };
     this.templates.set(id, template);
     return template;
   }
 
   // Topology methods
-  async getTopologyNode(id: string): Promise<TopologyNode | undefined> {
-    return this.topologyNodes.get(id);
+  async getTopologyNode(workspaceId: string, id: string): Promise<TopologyNode | undefined> {
+    return this.owned(this.topologyNodes, workspaceId, id);
   }
 
-  async getAllTopologyNodes(): Promise<TopologyNode[]> {
-    return Array.from(this.topologyNodes.values());
+  async getAllTopologyNodes(workspaceId: string): Promise<TopologyNode[]> {
+    return this.scoped(this.topologyNodes, workspaceId);
   }
 
-  async createTopologyNode(insertNode: InsertTopologyNode): Promise<TopologyNode> {
+  async createTopologyNode(workspaceId: string, insertNode: InsertTopologyNode): Promise<TopologyNode> {
     const id = randomUUID();
-    const node: TopologyNode = { ...insertNode, id };
+    const node: TopologyNode = {
+      ...insertNode,
+      id,
+      workspaceId,
+      properties: insertNode.properties ?? null,
+      configId: insertNode.configId ?? null
+    };
     this.topologyNodes.set(id, node);
     return node;
   }
 
-  async updateTopologyNode(id: string, updates: Partial<InsertTopologyNode>): Promise<TopologyNode | undefined> {
-    const node = this.topologyNodes.get(id);
-    if (!node) return undefined;
-    
-    const updated = { ...node, ...updates };
-    this.topologyNodes.set(id, updated);
-    return updated;
+  async updateTopologyNode(workspaceId: string, id: string, updates: Partial<InsertTopologyNode>): Promise<TopologyNode | undefined> {
+    return this.update(this.topologyNodes, workspaceId, id, updates);
   }
 
-  async deleteTopologyNode(id: string): Promise<boolean> {
-    return this.topologyNodes.delete(id);
+  async deleteTopologyNode(workspaceId: string, id: string): Promise<boolean> {
+    return this.remove(this.topologyNodes, workspaceId, id);
   }
 
-  async getTopologyConnection(id: string): Promise<TopologyConnection | undefined> {
-    return this.topologyConnections.get(id);
+  async getTopologyConnection(workspaceId: string, id: string): Promise<TopologyConnection | undefined> {
+    return this.owned(this.topologyConnections, workspaceId, id);
   }
 
-  async getAllTopologyConnections(): Promise<TopologyConnection[]> {
-    return Array.from(this.topologyConnections.values());
+  async getAllTopologyConnections(workspaceId: string): Promise<TopologyConnection[]> {
+    return this.scoped(this.topologyConnections, workspaceId);
   }
 
-  async createTopologyConnection(insertConnection: InsertTopologyConnection): Promise<TopologyConnection> {
+  async createTopologyConnection(workspaceId: string, insertConnection: InsertTopologyConnection): Promise<TopologyConnection> {
     const id = randomUUID();
-    const connection: TopologyConnection = { ...insertConnection, id };
+    const connection: TopologyConnection = {
+      ...insertConnection,
+      id,
+      workspaceId,
+      label: insertConnection.label ?? null,
+      protocol: insertConnection.protocol ?? null
+    };
     this.topologyConnections.set(id, connection);
     return connection;
   }
 
-  async deleteTopologyConnection(id: string): Promise<boolean> {
-    return this.topologyConnections.delete(id);
+  async deleteTopologyConnection(workspaceId: string, id: string): Promise<boolean> {
+    return this.remove(this.topologyConnections, workspaceId, id);
   }
 
   // Intent history methods
-  async getIntentHistory(id: string): Promise<IntentHistory | undefined> {
-    return this.intentHistory.get(id);
+  async getIntentHistory(workspaceId: string, id: string): Promise<IntentHistory | undefined> {
+    return this.owned(this.intentHistory, workspaceId, id);
   }
 
-  async getAllIntentHistory(): Promise<IntentHistory[]> {
-    return Array.from(this.intentHistory.values()).sort((a, b) => 
+  async getAllIntentHistory(workspaceId: string): Promise<IntentHistory[]> {
+    return this.scoped(this.intentHistory, workspaceId).sort((a, b) => 
       b.createdAt.getTime() - a.createdAt.getTime()
     );
   }
 
-  async createIntentHistory(insertIntent: InsertIntentHistory): Promise<IntentHistory> {
+  async createIntentHistory(workspaceId: string, insertIntent: InsertIntentHistory & { createdAt?: Date }): Promise<IntentHistory> {
     const id = randomUUID();
     const intent: IntentHistory = { 
       ...insertIntent, 
       id,
-      createdAt: new Date()
+      workspaceId,
+      applied: insertIntent.applied ?? 'false',
+      createdAt: insertIntent.createdAt ?? new Date()
     };
     this.intentHistory.set(id, intent);
     return intent;
   }
+
+  // Router snapshot methods
+  async getRouterSnapshot(workspaceId: string, id: string): Promise<RouterSnapshot | undefined> {
+    return this.owned(this.routerSnapshots, workspaceId, id);
+  }
+
+  async getRouterSnapshots(workspaceId: string, filter: { nodeId?: string; host?: string }): Promise<RouterSnapshot[]> {
+    return this.scoped(this.routerSnapshots, workspaceId)
+      .filter(s => (!filter.nodeId || s.nodeId === filter.nodeId) && (!filter.host || s.host === filter.host))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createRouterSnapshot(workspaceId: string, insertSnapshot: InsertRouterSnapshot): Promise<RouterSnapshot> {
+    const id = randomUUID();
+    const snapshot: RouterSnapshot = {
+      ...insertSnapshot,
+      id,
+      workspaceId,
+      nodeId: insertSnapshot.nodeId ?? null,
+      jobId: insertSnapshot.jobId ?? null,
+      createdAt: new Date()
+    };
+    this.routerSnapshots.set(id, snapshot);
+    return snapshot;
+  }
+
+  // Apply job methods
+  async getApplyJob(workspaceId: string, id: string): Promise<ApplyJob | undefined> {
+    return this.owned(this.applyJobs, workspaceId, id);
+  }
+
+  async getApplyJobs(workspaceId: string, filter: { host?: string; nodeId?: string; status?: string }): Promise<ApplyJob[]> {
+    return this.scoped(this.applyJobs, workspaceId)
+      .filter(j => (!filter.host || j.host === filter.host) && (!filter.nodeId || j.nodeId === filter.nodeId) && (!filter.status || j.status === filter.status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createApplyJob(workspaceId: string, insertJob: InsertApplyJob): Promise<ApplyJob> {
+    const id = randomUUID();
+    const job: ApplyJob = {
+      ...insertJob,
+      id,
+      workspaceId,
+      nodeId: insertJob.nodeId ?? null,
+      dryRun: insertJob.dryRun ?? false,
+      phase: insertJob.phase ?? null,
+      result: insertJob.result ?? null,
+      error: insertJob.error ?? null,
+      startedAt: insertJob.startedAt ?? null,
+      finishedAt: insertJob.finishedAt ?? null,
+      createdAt: new Date()
+    };
+    this.applyJobs.set(id, job);
+    return job;
+  }
+
+  async updateApplyJob(workspaceId: string, id: string, updates: Partial<InsertApplyJob>): Promise<ApplyJob | undefined> {
+    return this.update(this.applyJobs, workspaceId, id, updates);
+  }
+
+  // Deployment methods
+  async getDeployment(workspaceId: string, id: string): Promise<Deployment | undefined> {
+    return this.owned(this.deployments, workspaceId, id);
+  }
+
+  async getAllDeployments(workspaceId: string): Promise<Deployment[]> {
+    return this.scoped(this.deployments, workspaceId).sort((a, b) =>
+      b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
+  async createDeployment(workspaceId: string, insertDeployment: InsertDeployment): Promise<Deployment> {
+    const id = randomUUID();
+    const deployment: Deployment = {
+      ...insertDeployment,
+      id,
+      workspaceId,
+      finishedAt: insertDeployment.finishedAt ?? null,
+      createdAt: new Date()
+    };
+    this.deployments.set(id, deployment);
+    return deployment;
+  }
+
+  async updateDeployment(workspaceId: string, id: string, updates: Partial<InsertDeployment>): Promise<Deployment | undefined> {
+    return this.update(this.deployments, workspaceId, id, updates);
+  }
+
+  // Jump host methods
+  async getJumpHost(workspaceId: string, id: string): Promise<JumpHost | undefined> {
+    return this.owned(this.jumpHosts, workspaceId, id);
+  }
+
+  async getAllJumpHosts(workspaceId: string): Promise<JumpHost[]> {
+    return this.scoped(this.jumpHosts, workspaceId).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createJumpHost(workspaceId: string, insertJumpHost: InsertJumpHost): Promise<JumpHost> {
+    const id = randomUUID();
+    const jumpHost: JumpHost = {
+      ...insertJumpHost,
+      id,
+      workspaceId,
+      port: insertJumpHost.port ?? 22,
+      password: insertJumpHost.password ?? null,
+      privateKey: insertJumpHost.privateKey ?? null,
+      hostKey: null,
+      createdAt: new Date()
+    };
+    this.jumpHosts.set(id, jumpHost);
+    return jumpHost;
+  }
+
+  async updateJumpHost(workspaceId: string, id: string, updates: Partial<JumpHost>): Promise<JumpHost | undefined> {
+    return this.update(this.jumpHosts, workspaceId, id, updates);
+  }
+
+  async deleteJumpHost(workspaceId: string, id: string): Promise<boolean> {
+    return this.remove(this.jumpHosts, workspaceId, id);
+  }
+
+  // Credential methods
+  async getCredential(workspaceId: string, id: string): Promise<Credential | undefined> {
+    return this.owned(this.credentials, workspaceId, id);
+  }
+
+  async getAllCredentials(workspaceId: string): Promise<Credential[]> {
+    return this.scoped(this.credentials, workspaceId).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createCredential(workspaceId: string, insertCredential: InsertCredential): Promise<Credential> {
+    const id = randomUUID();
+    const now = new Date();
+    const credential: Credential = {
+      ...insertCredential,
+      id,
+      workspaceId,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.credentials.set(id, credential);
+    return credential;
+  }
+
+  async updateCredential(workspaceId: string, id: string, updates: Partial<InsertCredential>): Promise<Credential | undefined> {
+    return this.update(this.credentials, workspaceId, id, { ...updates, updatedAt: new Date() });
+  }
+
+  async deleteCredential(workspaceId: string, id: string): Promise<boolean> {
+    return this.remove(this.credentials, workspaceId, id);
+  }
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = randomUUID();
+    const user: User = {
+      ...insertUser,
+      role: insertUser.role ?? 'viewer',
+      id,
+      createdAt: new Date()
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updated = { ...user, ...updates };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    return this.users.delete(id);
+  }
+
+  // Change request methods
+  async getChangeRequest(workspaceId: string, id: string): Promise<ChangeRequest | undefined> {
+    return this.owned(this.changeRequests, workspaceId, id);
+  }
+
+  async getAllChangeRequests(workspaceId: string): Promise<ChangeRequest[]> {
+    return this.scoped(this.changeRequests, workspaceId).sort((a, b) =>
+      b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
+  async createChangeRequest(workspaceId: string, insertChangeRequest: InsertChangeRequest): Promise<ChangeRequest> {
+    const id = randomUUID();
+    const now = new Date();
+    const changeRequest: ChangeRequest = {
+      ...insertChangeRequest,
+      status: insertChangeRequest.status ?? 'draft',
+      reviewedBy: insertChangeRequest.reviewedBy ?? null,
+      reviewComment: insertChangeRequest.reviewComment ?? null,
+      reviewedAt: insertChangeRequest.reviewedAt ?? null,
+      appliedAt: insertChangeRequest.appliedAt ?? null,
+      id,
+      workspaceId,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.changeRequests.set(id, changeRequest);
+    return changeRequest;
+  }
+
+  async updateChangeRequest(workspaceId: string, id: string, updates: Partial<InsertChangeRequest>): Promise<ChangeRequest | undefined> {
+    return this.update(this.changeRequests, workspaceId, id, { ...updates, updatedAt: new Date() });
+  }
+
+  async deleteChangeRequest(workspaceId: string, id: string): Promise<boolean> {
+    return this.remove(this.changeRequests, workspaceId, id);
+  }
+
+  // Audit methods
+  async appendAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const event: AuditEvent = {
+      ...insertEvent,
+      target: insertEvent.target ?? null,
+      summary: insertEvent.summary ?? null,
+      status: insertEvent.status ?? null,
+      error: insertEvent.error ?? null,
+      createdAt: insertEvent.createdAt ?? new Date(),
+      id: randomUUID()
+    };
+    this.auditEvents.push(event);
+    return event;
+  }
+
+  async getLastAuditEvent(): Promise<AuditEvent | undefined> {
+    return this.auditEvents[this.auditEvents.length - 1];
+  }
+
+  async getAuditEvents(filter: AuditFilter): Promise<AuditEvent[]> {
+    const contains = (value: string | null, term?: string) => !term || (value ?? '').toLowerCase().includes(term.toLowerCase());
+    const events = this.auditEvents
+      .filter(e => (!filter.actor || e.actor === filter.actor)
+        && contains(e.action, filter.action)
+        && contains(e.target, filter.target)
+        && (!filter.outcome || e.outcome === filter.outcome)
+        && (!filter.from || e.createdAt >= filter.from)
+        && (!filter.to || e.createdAt <= filter.to))
+      .reverse();
+    return filter.limit ? events.slice(0, filter.limit) : events;
+  }
 }
 
-export const storage = new MemStorage();
+// PostgreSQL when DATABASE_URL is set, else SQLite when SQLITE_PATH is;
+// otherwise nothing survives a restart
+export const storage: IStorage = db ? new DbStorage(db) : sqlite ? new SqliteStorage(sqlite) : new MemStorage();
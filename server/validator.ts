@@ -0,0 +1,36 @@
+import { parseConfiguration, type ParsedConfiguration } from "@shared/config-parser";
+import type { ValidationResult } from "@shared/schema";
+import { checkReferences } from "./references";
+import { firewallIssues } from "./firewall";
+
+export type ValidationIssue = ValidationResult['errors'][number];
+
+// Check every set/delete line against the VyOS command tree: unknown path
+// segments, missing tag values and values of the wrong type.
+export function validateSyntax(parsed: ParsedConfiguration): ValidationIssue[] {
+  return parsed.diagnostics.map((d) => ({
+    line: d.line,
+    column: d.column,
+    code: d.code,
+    message: d.message,
+    severity: d.severity,
+  }));
+}
+
+export function buildValidationResult(issues: ValidationIssue[]): ValidationResult {
+  const errors = [...issues].sort((a, b) => a.line - b.line || (a.column ?? 0) - (b.column ?? 0));
+  return {
+    valid: errors.filter((e) => e.severity === 'error').length === 0,
+    errors,
+    warnings: [],
+  };
+}
+
+export function validateConfiguration(config: string): ValidationResult {
+  const parsed = parseConfiguration(config);
+  return buildValidationResult([
+    ...validateSyntax(parsed),
+    ...checkReferences(parsed),
+    ...firewallIssues(parsed),
+  ]);
+}
@@ -0,0 +1,88 @@
+import { after, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { routerApplyRequestSchema } from "@shared/schema";
+import { applyVyOSConfig } from "./vyos";
+import { createMockVyosApi } from "./mock-vyos-api";
+
+const lines = (...commands: string[]) => commands.join("\n");
+
+describe("applyVyOSConfig over the HTTP API", () => {
+  let server: Server;
+  let apiUrl: string;
+
+  // A fresh router for every test
+  beforeEach(async () => {
+    server?.close();
+    server = createMockVyosApi("secret").listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  after(() => server.close());
+
+  const apply = (configuration: string, options: Record<string, unknown> = {}) =>
+    applyVyOSConfig(routerApplyRequestSchema.parse({
+      host: "127.0.0.1", transport: "http", apiUrl, apiKey: "secret", configuration, ...options,
+    }));
+
+  // What a dry run would change to get the router to `probe`; empty when it already has it
+  const deltaTo = async (probe: string) => (await apply(probe, { mode: "delta", dryRun: true })).delta!;
+
+  it("sends only the delta and deletes what the managed section no longer has", async () => {
+    const result = await apply(lines(
+      "set system host-name 'edge'",
+      "set interfaces ethernet eth0 address '192.0.2.1/24'",
+    ), { mode: "delta" });
+    assert.equal(result.applied, true);
+    assert.equal(result.saved, true);
+    assert.deepEqual(result.delta, {
+      set: ["set system host-name 'edge'", "set interfaces ethernet eth0 address '192.0.2.1/24'"],
+      delete: ["delete interfaces ethernet eth0 address 'dhcp'"],
+    });
+    assert.equal(result.errors, undefined);
+
+    const again = await apply(lines(
+      "set system host-name 'edge'",
+      "set interfaces ethernet eth0 address '192.0.2.1/24'",
+    ), { mode: "delta" });
+    assert.equal(again.applied, false);
+    assert.deepEqual(again.delta, { set: [], delete: [] });
+    assert.ok(again.logs.includes("Running configuration already matches; nothing to apply"));
+  });
+
+  it("commits and saves replayed lines", async () => {
+    const result = await apply("set service ssh port '2222'");
+    assert.deepEqual(
+      { applied: result.applied, commit: result.commit, saved: result.saved, dryRun: result.dryRun },
+      { applied: true, commit: true, saved: true, dryRun: false },
+    );
+    assert.ok(result.logs.includes("Committed"));
+    assert.ok(result.logs.includes("Saved"));
+    assert.deepEqual(await deltaTo("set service ssh port '2222'"), { set: [], delete: [] });
+  });
+
+  it("reports a rejected set command with its line and leaves the router unchanged", async () => {
+    const configuration = lines(
+      "set system host-name 'edge'",
+      "set interfaces ethernet eth0 mtuu '1500'",
+    );
+    const result = await apply(configuration);
+    assert.equal(result.applied, false);
+    assert.equal(result.errors?.length, 1);
+    const [error] = result.errors!;
+    assert.equal(error.phase, "set");
+    assert.equal(error.message, "Configuration path [interfaces ethernet eth0 mtuu 1500] is not valid");
+    assert.equal(error.line, 2);
+    assert.deepEqual(await deltaTo("set system host-name 'vyos-mock'"), { set: [], delete: [] });
+  });
+
+  it("refuses commit-confirm and uncommitted applies", async () => {
+    await assert.rejects(apply("set system host-name 'edge'", { commitConfirmMinutes: 5 }), /only supported over SSH/);
+    await assert.rejects(apply("set system host-name 'edge'", { commit: false }), /always commits/);
+  });
+
+  it("rejects a wrong API key", async () => {
+    await assert.rejects(apply("set system host-name 'edge'", { apiKey: "wrong" }), /Valid API key is required/);
+  });
+});
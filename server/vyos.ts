@@ -1,5 +1,12 @@
-import { Client } from "ssh2";
-import type { RouterApplyRequest, RouterApplyResponse } from "@shared/schema";
+import { Client, type ClientChannel } from "ssh2";
+import http, { type IncomingMessage } from "http";
+import https from "https";
+import { createHash } from "crypto";
+import { tokenizeCommand } from "@shared/config-parser";
+import { configJsonToCommands } from "@shared/config-boot";
+import type { ApplyPhase, RouterApplyRequest, RouterApplyResponse } from "@shared/schema";
+import { computeDelta } from "./config-diff";
+import { parseApplyErrors } from "./commit-errors";
 
 function execOverSsh(
   conn: Client,
@@ -25,7 +32,7 @@ function execOverSsh(
   });
 }
 
-function buildVyOSScript(lines: string[], options: { commit: boolean; save: boolean; dryRun: boolean }): string {
+function buildVyOSScript(lines: string[], options: { commit: boolean; save: boolean; dryRun: boolean; commitCommand?: string }): string {
   const safeLines = lines
     .map((l) => l.trim())
     .filter((l) => l && !l.startsWith('#') && (/^(set|delete)\s/.test(l)));
@@ -40,7 +47,7 @@ function buildVyOSScript(lines: string[], options: { commit: boolean; save: bool
     // Discard pending changes explicitly in non-interactive mode
     parts.push("discard");
   } else {
-    if (options.commit) parts.push("commit");
+    if (options.commit) parts.push(options.commitCommand ?? "commit");
     if (options.save) parts.push("save");
   }
 
@@ -50,10 +57,31 @@ function buildVyOSScript(lines: string[], options: { commit: boolean; save: bool
   return parts.join(" && ");
 }
 
+// `show configuration commands` from op mode. No pty so the output is not paged.
+async function fetchRunningConfig(conn: Client, log: (line: string) => void): Promise<string> {
+  const attempts = [
+    "/opt/vyatta/bin/vyatta-op-cmd-wrapper show configuration commands",
+    "vbash -ic 'show configuration commands'",
+  ];
+  for (const command of attempts) {
+    try {
+      const { stdout, stderr, code } = await Promise.race([
+        execOverSsh(conn, command),
+        new Promise((_, reject) => setTimeout(() => reject(new Error('Timeout reading running configuration')), 20000)) as Promise<any>,
+      ]);
+      if (!code && /^set\s/m.test(stdout)) return stdout;
+      log(`${command} returned no configuration (${code}): ${(stderr || stdout).trim()}`);
+    } catch (e) {
+      log(`${command} failed: ${(e as Error).message}`);
+    }
+  }
+  throw new Error('Could not read the running configuration from the router');
+}
+
 async function runConfigureInteractive(
   conn: Client,
   setDeleteLines: string[],
-  options: { commit: boolean; save: boolean; dryRun: boolean; timeoutMs?: number },
+  options: { commit: boolean; save: boolean; dryRun: boolean; timeoutMs?: number; commitCommand?: string },
   log: (line: string) => void,
 ): Promise<void> {
   const timeoutMs = options.timeoutMs ?? 30000;
@@ -115,7 +143,9 @@ async function runConfigureInteractive(
         write('exit');
       } else {
         if (options.commit) {
-          write('commit');
+          write(options.commitCommand ?? 'commit');
+          // commit-confirm asks "Proceed? [confirm]" on some releases
+          if (options.commitCommand?.startsWith('commit-confirm')) write('y');
           write(`run echo ${sentinelCommit}`);
         }
         if (options.save) {
@@ -129,50 +159,277 @@ async function runConfigureInteractive(
   });
 }
 
-export async function applyVyOSConfig(request: RouterApplyRequest): Promise<RouterApplyResponse> {
-  const { host, port = 22, username, password, privateKey, configuration, commit = true, save = true, dryRun = false } = request;
+// An SSH bastion on the way to a router
+export interface JumpHop {
+  host: string;
+  port: number;
+  username: string;
+  password?: string;
+  privateKey?: string;
+  verifyHostKey?: VerifyHostKey;
+}
 
-  const conn = new Client();
-  const logs: string[] = [];
+type SshParams = Pick<RouterApplyRequest, 'host' | 'port' | 'username' | 'password' | 'privateKey'> & {
+  // Tunnel through these, outermost first
+  jumpHosts?: JumpHop[];
+};
 
-  function log(line: string) {
-    logs.push(line);
-  }
+// An apply request with its jump hosts resolved
+export type ApplyTarget = RouterApplyRequest & { jumpHosts?: JumpHop[] };
 
-  await new Promise<void>((resolve, reject) => {
+// Checks the fingerprint of the key a router presents; rejects to refuse the connection
+export type VerifyHostKey = (fingerprint: string) => Promise<void>;
+
+// OpenSSH-style SHA256 fingerprint of a raw host key
+export function hostKeyFingerprint(key: Buffer): string {
+  return `SHA256:${createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`;
+}
+
+function connectClient(params: SshParams, readyTimeout: number, verifyHostKey?: VerifyHostKey, sock?: ClientChannel): Promise<Client> {
+  const { host, port = 22, username, password, privateKey } = params;
+  const conn = new Client();
+  // ssh2 only reports a generic verification failure; keep ours
+  let refused: Error | undefined;
+  const hostVerifier = (key: Buffer, verify: (valid: boolean) => void) => {
+    if (!verifyHostKey) return verify(true);
+    verifyHostKey(hostKeyFingerprint(key)).then(
+      () => verify(true),
+      (e: Error) => {
+        refused = e;
+        verify(false);
+      },
+    );
+  };
+  return new Promise<Client>((resolve, reject) => {
     conn
-      .on("ready", () => resolve())
-      .on("error", (err) => reject(err))
+      .on("ready", () => resolve(conn))
+      .on("error", (err: Error) => reject(refused ?? err))
       // Support keyboard-interactive auth (common on VyOS)
       .on("keyboard-interactive", (_name: any, _instructions: any, _lang: any, prompts: any[], finish: (responses: string[]) => void) => {
         const responses = prompts.map(() => password || "");
         finish(responses);
       })
-      .connect({ host, port, username, password, privateKey, readyTimeout: 15000, tryKeyboard: true });
+      .connect({ host, port, username, password, privateKey, readyTimeout, tryKeyboard: true, hostVerifier, sock });
   });
+}
 
+function forwardTo(via: Client, host: string, port: number): Promise<ClientChannel> {
+  return new Promise((resolve, reject) => {
+    via.forwardOut('127.0.0.1', 0, host, port, (err: Error | undefined, stream: ClientChannel) => (err ? reject(err) : resolve(stream)));
+  });
+}
+
+function closeAll(clients: Client[]) {
+  clients.reverse().forEach((c) => {
+    try { c.end(); } catch {}
+  });
+}
+
+// Connect to each jump host through the previous one. Failures name the hop.
+async function openJumpChain(jumpHosts: JumpHop[], readyTimeout: number): Promise<Client[]> {
+  const clients: Client[] = [];
+  for (const hop of jumpHosts) {
+    try {
+      const sock = clients.length > 0 ? await forwardTo(clients[clients.length - 1], hop.host, hop.port) : undefined;
+      clients.push(await connectClient(hop, readyTimeout, hop.verifyHostKey, sock));
+    } catch (e) {
+      closeAll(clients);
+      (e as Error).message = `Jump host ${hop.host}:${hop.port}: ${(e as Error).message}`;
+      throw e;
+    }
+  }
+  return clients;
+}
+
+// Connect to the router, through its jump hosts if it has any. Ending the
+// router connection closes the tunnel.
+async function connectSsh(params: SshParams, readyTimeout: number, verifyHostKey?: VerifyHostKey): Promise<Client> {
+  const hops = await openJumpChain(params.jumpHosts ?? [], readyTimeout);
   try {
-    const rawLines = configuration.split('\n');
-    const setDeleteLines = rawLines
-      .map((l) => l.trim())
-      .filter((l) => l && !l.startsWith('#') && (/^(set|delete)\s/.test(l)));
+    const sock = hops.length > 0 ? await forwardTo(hops[hops.length - 1], params.host, params.port ?? 22) : undefined;
+    const conn = await connectClient(params, readyTimeout, verifyHostKey, sock);
+    conn.on('close', () => closeAll(hops));
+    return conn;
+  } catch (e) {
+    closeAll(hops);
+    throw e;
+  }
+}
 
-    // Strategy 1: vyatta-cfg-cmd-wrapper (non-interactive, reliable on VyOS)
-    async function runWrapper(cmd: string, timeoutMs = 20000) {
-      const full = `/opt/vyatta/sbin/vyatta-cfg-cmd-wrapper ${cmd}`;
-      const { stdout, stderr, code } = await Promise.race([
-        execOverSsh(conn, full, { pty: true }),
-        new Promise((_, reject) => setTimeout(() => reject(new Error(`Timeout: ${cmd}`)), timeoutMs)) as Promise<any>,
-      ]);
-      if (stdout) log(stdout.trim());
-      if (stderr) log(stderr.trim());
-      if (code && code !== 0) throw new Error(`${cmd} failed (${code}): ${stderr || stdout}`);
+// Check that the last jump host can open a TCP connection to host:port
+export async function checkThroughJumpHosts(host: string, port: number, jumpHosts: JumpHop[], timeoutMs: number): Promise<void> {
+  const hops = await openJumpChain(jumpHosts, timeoutMs);
+  try {
+    const stream = await Promise.race([
+      forwardTo(hops[hops.length - 1], host, port),
+      new Promise((_, reject) => setTimeout(() => reject(new Error('timeout')), timeoutMs)) as Promise<never>,
+    ]);
+    stream.close();
+  } finally {
+    closeAll(hops);
+  }
+}
+
+async function runCfgWrapper(conn: Client, cmd: string, log: (line: string) => void, timeoutMs = 20000) {
+  const full = `/opt/vyatta/sbin/vyatta-cfg-cmd-wrapper ${cmd}`;
+  const { stdout, stderr, code } = await Promise.race([
+    execOverSsh(conn, full, { pty: true }),
+    new Promise((_, reject) => setTimeout(() => reject(new Error(`Timeout: ${cmd}`)), timeoutMs)) as Promise<any>,
+  ]);
+  // On failure the output is only logged once, as part of the error
+  if (code && code !== 0) throw new Error(`${cmd} failed (${code}): ${stderr || stdout}`);
+  if (stdout) log(stdout.trim());
+  if (stderr) log(stderr.trim());
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Reconnect after a commit-confirm and confirm it. If the router cannot be
+// reached the change is left unconfirmed and VyOS reverts it on its own.
+async function confirmCommit(request: ApplyTarget, result: RouterApplyResponse, minutes: number, hooks: ApplyHooks): Promise<RouterApplyResponse> {
+  const { save = true } = request;
+  const logs = [...result.logs];
+  const log = (line: string) => {
+    logs.push(line);
+    hooks.onLog?.(line);
+  };
+  const rolledBack = (reason: string): RouterApplyResponse => {
+    log(`ROLLED BACK: ${reason}. The change was not confirmed; VyOS reverts it when the ${minutes} minute commit-confirm timer expires.`);
+    return { ...result, applied: false, saved: false, confirmed: false, rolledBack: true, logs };
+  };
+
+  // Leave time for the new configuration to take effect, but reconnect well
+  // before the router's own timer runs out
+  hooks.onPhase?.('confirm');
+  await delay(5000);
+  const deadline = Date.now() + Math.min(minutes * 30000, 120000);
+  let conn: Client | undefined;
+  for (let attempt = 1; !conn && Date.now() < deadline; attempt++) {
+    try {
+      conn = await connectSsh(request, 10000, hooks.verifyHostKey);
+      log(`Reconnected to ${request.host} after commit-confirm (attempt ${attempt})`);
+    } catch (e) {
+      log(`Reconnect attempt ${attempt} failed: ${(e as Error).message}`);
+      await delay(5000);
     }
+  }
+  if (!conn) return rolledBack(`router unreachable after commit-confirm`);
+
+  try {
+    await runCfgWrapper(conn, 'begin', log);
+    try {
+      await runCfgWrapper(conn, 'confirm', log, 30000);
+      log('Commit confirmed');
+      if (save) {
+        hooks.onPhase?.('save');
+        await runCfgWrapper(conn, 'save', log, 15000);
+      }
+    } finally {
+      try {
+        await runCfgWrapper(conn, 'end', log);
+      } catch (e) {
+        log(`end failed: ${(e as Error).message}`);
+      }
+    }
+    return { ...result, applied: true, saved: !!save, confirmed: true, rolledBack: false, logs };
+  } catch (e) {
+    return rolledBack(`confirm failed (${(e as Error).message})`);
+  } finally {
+    try { conn.end(); } catch {}
+  }
+}
+
+export interface ApplyHooks {
+  // Called with the running configuration right before a non-dry-run apply
+  // changes it; throwing aborts the apply
+  beforeApply?: (running: string) => Promise<void>;
+  // Progress reporting for live consoles
+  onLog?: (line: string) => void;
+  onPhase?: (phase: ApplyPhase) => void;
+  // Host key check for every SSH connection, including the commit-confirm reconnect
+  verifyHostKey?: VerifyHostKey;
+}
+
+// Attach the set/commit errors found in the session output. A failed commit
+// leaves the running configuration unchanged.
+function withErrors(result: RouterApplyResponse, configuration: string): RouterApplyResponse {
+  const errors = parseApplyErrors(result.logs, configuration);
+  if (errors.length === 0) return result;
+  if (errors.some((e) => e.phase === 'commit')) {
+    return { ...result, applied: false, commit: false, saved: false, errors };
+  }
+  return { ...result, errors };
+}
+
+export async function applyVyOSConfig(request: ApplyTarget, hooks: ApplyHooks = {}): Promise<RouterApplyResponse> {
+  const { configuration, commitConfirmMinutes, commit = true, dryRun = false, transport = 'ssh' } = request;
+  if (!commitConfirmMinutes || !commit || dryRun) {
+    return withErrors(await applyOnce(request, hooks), configuration);
+  }
+  if (transport !== 'ssh') {
+    throw new Error('commit-confirm is only supported over SSH');
+  }
+
+  // Never save before the change is confirmed: a rollback must land on the
+  // previous configuration
+  const result = withErrors(await applyOnce({ ...request, save: false }, hooks, commitConfirmMinutes), configuration);
+  if (!result.applied) return result;
+  const line = `Committed with commit-confirm ${commitConfirmMinutes}; verifying connectivity`;
+  result.logs.push(line);
+  hooks.onLog?.(line);
+  return confirmCommit(request, result, commitConfirmMinutes, hooks);
+}
+
+type Log = (line: string) => void;
+type Phase = (phase: ApplyPhase) => void;
+
+interface ApplyOptions {
+  commit: boolean;
+  save: boolean;
+  dryRun: boolean;
+  commitCommand: string;
+}
+
+type ApplyOutcome = Pick<RouterApplyResponse, 'applied' | 'commit' | 'saved' | 'dryRun'>;
+
+// How configuration reaches a router. `apply` throws when the lines could
+// not be applied; the output it logged explains why.
+interface Transport {
+  readRunning(): Promise<string>;
+  apply(lines: string[], options: ApplyOptions): Promise<ApplyOutcome>;
+  close(): void;
+}
+
+function openTransport(request: ApplyTarget, hooks: ApplyHooks, log: Log, phase: Phase): Promise<Transport> {
+  return request.transport === 'http' ? httpTransport(request, log, phase) : sshTransport(request, hooks, log, phase);
+}
+
+async function sshTransport(request: ApplyTarget, hooks: ApplyHooks, log: Log, phase: Phase): Promise<Transport> {
+  log(`Connecting to ${request.host}:${request.port ?? 22}`);
+  const conn = await connectSsh(request, 15000, hooks.verifyHostKey);
+  return {
+    readRunning: () => fetchRunningConfig(conn, log),
+    apply: (lines, options) => applyOverSsh(conn, lines, options, log, phase),
+    close: () => {
+      try { conn.end(); } catch {}
+    },
+  };
+}
+
+// Wrapper mode, then an interactive configure session, then a vbash script
+async function applyOverSsh(conn: Client, setDeleteLines: string[], options: ApplyOptions, log: Log, phase: Phase): Promise<ApplyOutcome> {
+  const { commit, save, dryRun, commitCommand } = options;
+  try {
+
+    // Strategy 1: vyatta-cfg-cmd-wrapper (non-interactive, reliable on VyOS)
+    const runWrapper = (cmd: string, timeoutMs?: number) => runCfgWrapper(conn, cmd, log, timeoutMs);
 
     try {
       log('Applying via vyatta-cfg-cmd-wrapper (begin/session)');
+      phase('begin');
       await runWrapper('begin');
       try {
+        phase('set');
         for (const line of setDeleteLines) {
           await runWrapper(line);
         }
@@ -183,13 +440,19 @@ export async function applyVyOSConfig(request: RouterApplyRequest): Promise<Rout
           } finally {
             await runWrapper('discard');
           }
-          return { applied: false, commit: false, saved: false, dryRun: true, logs };
+          return { applied: false, commit: false, saved: false, dryRun: true };
         }
 
-        if (commit) await runWrapper('commit', 30000);
-        if (save) await runWrapper('save', 15000);
+        if (commit) {
+          phase('commit');
+          await runWrapper(commitCommand, 30000);
+        }
+        if (save) {
+          phase('save');
+          await runWrapper('save', 15000);
+        }
 
-        return { applied: true, commit: !!commit, saved: !!save, dryRun: false, logs };
+        return { applied: true, commit, saved: save, dryRun: false };
       } finally {
         try {
           await runWrapper('end');
@@ -199,17 +462,18 @@ export async function applyVyOSConfig(request: RouterApplyRequest): Promise<Rout
       }
     } catch (e) {
       log(`Wrapper mode failed: ${(e as Error).message}; trying interactive configure`);
-      await runConfigureInteractive(conn, setDeleteLines, { commit: !!commit, save: !!save, dryRun: !!dryRun, timeoutMs: 45000 }, log);
-      return { applied: !dryRun, commit: !!commit && !dryRun, saved: !!save && !dryRun, dryRun: !!dryRun, logs };
+      phase('set');
+      await runConfigureInteractive(conn, setDeleteLines, { commit, save, dryRun, timeoutMs: 45000, commitCommand }, log);
+      return { applied: !dryRun, commit: commit && !dryRun, saved: save && !dryRun, dryRun };
     }
   } catch (primaryError) {
     log(`Wrapper mode failed: ${(primaryError as Error).message}`);
     // Strategy 2: vbash one-shot script as fallback
     try {
-      const lines = configuration.split('\n');
-      const script = buildVyOSScript(lines, { commit: !!commit, save: !!save, dryRun: !!dryRun });
+      const script = buildVyOSScript(setDeleteLines, { commit, save, dryRun, commitCommand });
       const command = `vbash -ic ${JSON.stringify(script)}`;
       log(`Fallback: executing script via vbash`);
+      phase('set');
       const { stdout, stderr, code } = await Promise.race([
         execOverSsh(conn, command, { pty: true }),
         new Promise((_, reject) => setTimeout(() => reject(new Error('SSH command timeout')), 30000)) as Promise<any>,
@@ -217,26 +481,152 @@ export async function applyVyOSConfig(request: RouterApplyRequest): Promise<Rout
       if (stdout) log(stdout.trim());
       if (stderr) log(stderr.trim());
       if (code && code !== 0) throw new Error(`Apply failed (${code}): ${stderr || stdout}`);
-      return { applied: !dryRun, commit: !!commit && !dryRun, saved: !!save && !dryRun, dryRun: !!dryRun, logs };
+      return { applied: !dryRun, commit: commit && !dryRun, saved: save && !dryRun, dryRun };
     } catch (fallbackError) {
       log(`Fallback failed: ${(fallbackError as Error).message}`);
       throw fallbackError;
     }
-  } finally {
-    try { conn.end(); } catch {}
   }
 }
 
-export async function testSshCommand(params: { host: string; port?: number; username: string; password?: string; privateKey?: string; command?: string }): Promise<{ ok: boolean; stdout: string; stderr: string }> {
-  const { host, port = 22, username, password, privateKey, command = 'show version' } = params;
-  const conn = new Client();
-  await new Promise<void>((resolve, reject) => {
-    conn
-      .on('ready', () => resolve())
-      .on('error', (err) => reject(err))
-      .on('keyboard-interactive', (_a,_b,_c,prompts,finish) => finish(prompts.map(() => password || '')))
-      .connect({ host, port, username, password, privateKey, readyTimeout: 10000, tryKeyboard: true });
+// POST to the VyOS HTTP API. Every endpoint takes a form with the JSON `data`
+// and the API `key`, and answers {success, data, error}.
+function postVyOSApi(base: string, endpoint: string, data: unknown, key: string, insecure: boolean): Promise<any> {
+  const url = new URL(`${base}${endpoint}`);
+  const body = new URLSearchParams({ data: JSON.stringify(data), key }).toString();
+  const options = {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Content-Length': Buffer.byteLength(body) },
+    timeout: 60000,
+  };
+
+  return new Promise((resolve, reject) => {
+    const onResponse = (res: IncomingMessage) => {
+      let text = '';
+      res.on('data', (d: Buffer) => (text += d.toString()));
+      res.on('end', () => {
+        let parsed: any;
+        try {
+          parsed = JSON.parse(text);
+        } catch {
+          return reject(new Error(`${endpoint} returned ${res.statusCode}: ${text.slice(0, 200)}`));
+        }
+        if (!parsed.success) return reject(new Error(parsed.error || `${endpoint} failed (${res.statusCode})`));
+        resolve(parsed.data);
+      });
+    };
+    const req = url.protocol === 'https:'
+      ? https.request(url, { ...options, rejectUnauthorized: !insecure }, onResponse)
+      : http.request(url, options, onResponse);
+    req.on('timeout', () => req.destroy(new Error(`Timeout: ${endpoint}`)));
+    req.on('error', reject);
+    req.end(body);
   });
+}
+
+// VyOS 1.4+ HTTP API. /configure sets and commits in one request, so there is
+// no separate begin/commit step and no way to leave changes uncommitted.
+async function httpTransport(request: ApplyTarget, log: Log, phase: Phase): Promise<Transport> {
+  const base = (request.apiUrl ?? `https://${request.host}`).replace(/\/+$/, '');
+  const call = (endpoint: string, data: unknown) => postVyOSApi(base, endpoint, data, request.apiKey ?? '', !!request.apiInsecure);
+  log(`Using the HTTP API at ${base}`);
+
+  return {
+    readRunning: async () => configJsonToCommands(await call('/retrieve', { op: 'showConfig', path: [] })),
+    apply: async (lines, { commit, save, dryRun }) => {
+      if (dryRun) {
+        log(`Dry run: ${lines.length} commands not sent`);
+        return { applied: false, commit: false, saved: false, dryRun: true };
+      }
+      if (!commit) throw new Error('The HTTP API always commits; use a dry run to preview changes');
+
+      const operations = lines.map((line) => {
+        const [op, ...path] = tokenizeCommand(line).tokens.map((t) => t.text);
+        return { op, path };
+      });
+      phase('commit');
+      log(`Sending ${operations.length} commands to /configure`);
+      try {
+        await call('/configure', operations);
+      } catch (e) {
+        log((e as Error).message);
+        throw e;
+      }
+      log('Committed');
+      if (save) {
+        phase('save');
+        await call('/config-file', { op: 'save' });
+        log('Saved');
+      }
+      return { applied: true, commit: true, saved: save, dryRun: false };
+    },
+    close: () => {},
+  };
+}
+
+// One apply pass. With `commitConfirmMinutes` the commit is a commit-confirm
+// and the caller is responsible for confirming it.
+async function applyOnce(request: ApplyTarget, hooks: ApplyHooks, commitConfirmMinutes?: number): Promise<RouterApplyResponse> {
+  const { configuration, commit = true, save = true, dryRun = false, mode = 'replay', pruneSections = false } = request;
+  const commitCommand = commitConfirmMinutes ? `commit-confirm ${commitConfirmMinutes}` : 'commit';
+
+  const logs: string[] = [];
+
+  function log(line: string) {
+    logs.push(line);
+    hooks.onLog?.(line);
+  }
+  const phase = (p: ApplyPhase) => hooks.onPhase?.(p);
+
+  phase('connect');
+  const transport = await openTransport(request, hooks, log, phase);
+
+  let setDeleteLines = configuration
+    .split('\n')
+    .map((l) => l.trim())
+    .filter((l) => l && !l.startsWith('#') && (/^(set|delete)\s/.test(l)));
+  let delta: RouterApplyResponse['delta'];
+
+  try {
+    const backup = !dryRun && !!hooks.beforeApply;
+    if (mode !== 'replay' || backup) {
+      phase('read');
+      log('Reading running configuration');
+      const running = await transport.readRunning();
+      if (mode !== 'replay') {
+        delta = computeDelta(running, configuration, { pruneAll: mode === 'replace', pruneSections });
+        setDeleteLines = [...delta.delete, ...delta.set];
+        log(`Delta: ${delta.set.length} set, ${delta.delete.length} delete`);
+        delta.delete.concat(delta.set).forEach((line) => log(`  ${line}`));
+        if (setDeleteLines.length === 0) {
+          log('Running configuration already matches; nothing to apply');
+          return { applied: false, commit: false, saved: false, dryRun: !!dryRun, logs, delta };
+        }
+      }
+      if (backup) {
+        await hooks.beforeApply!(running);
+        log('Saved snapshot of the running configuration');
+      }
+    }
+
+    try {
+      const outcome = await transport.apply(setDeleteLines, { commit: !!commit, save: !!save, dryRun: !!dryRun, commitCommand });
+      return { ...outcome, logs, delta };
+    } catch (e) {
+      // The router rejected the configuration: report that instead of failing the request
+      if (parseApplyErrors(logs, configuration).length > 0) {
+        return { applied: false, commit: false, saved: false, dryRun: !!dryRun, logs, delta };
+      }
+      throw e;
+    }
+  } finally {
+    transport.close();
+  }
+}
+
+export async function testSshCommand(params: SshParams & { command?: string; verifyHostKey?: VerifyHostKey }): Promise<{ ok: boolean; stdout: string; stderr: string }> {
+  const { command = 'show version' } = params;
+  const conn = await connectSsh(params, 10000, params.verifyHostKey);
   try {
     const { stdout, stderr, code } = await Promise.race([
       execOverSsh(conn, command, { pty: true }),
@@ -0,0 +1,157 @@
+import { storage } from "./storage";
+import {
+  WORKSPACE_ARCHIVE_VERSION,
+  type IntentHistory,
+  type RouterNodeProperties,
+  type WorkspaceArchive,
+  type WorkspaceImportReport,
+} from "@shared/schema";
+
+// Workspace export and import. An import adds to the workspace it targets;
+// records the workspace already has are kept and reported as conflicts. The
+// archive schema checks that its references resolve, so an import does not
+// stop on one after writing part of the archive.
+
+// jsonb columns read back as unknown; they held JSON when written
+type ArchivedNode = WorkspaceArchive['topology']['nodes'][number];
+
+// Router logins, jump hosts, API keys and pinned host keys belong to one
+// install and are left out both ways; the host, port and username go along
+function portableProperties(properties: unknown): RouterNodeProperties | null {
+  if (!properties || typeof properties !== 'object') return null;
+  const { ssh, api, ...rest } = properties as Record<string, any>;
+  const portable: Record<string, unknown> = { ...rest };
+  if (ssh) {
+    const { credentialId, jumpHostIds, password, privateKey, hostKey, pendingHostKey, ...reachable } = ssh;
+    portable.ssh = reachable;
+  }
+  if (api) {
+    const { key, hasKey, ...endpoint } = api;
+    portable.api = endpoint;
+  }
+  return portable as RouterNodeProperties;
+}
+
+// An intent already in the history: same text and configuration, and the
+// same time when the archive has it
+function sameIntent(existing: IntentHistory, intent: WorkspaceArchive['intentHistory'][number]): boolean {
+  return existing.intent === intent.intent && existing.generatedConfig === intent.generatedConfig &&
+    (!intent.createdAt || existing.createdAt.getTime() === intent.createdAt.getTime());
+}
+
+export async function exportWorkspace(workspaceId: string): Promise<WorkspaceArchive | undefined> {
+  const workspace = await storage.getWorkspace(workspaceId);
+  if (!workspace) return undefined;
+
+  const configurations = await Promise.all((await storage.getAllConfigurations(workspaceId)).map(async (config) => ({
+    id: config.id,
+    name: config.name,
+    description: config.description,
+    content: config.content,
+    type: config.type,
+    // Oldest first, the order they are recreated in
+    revisions: (await storage.getConfigurationRevisions(config.id)).reverse()
+      .map(({ id, configurationId, ...revision }) => revision),
+  })));
+
+  return {
+    format: 'vyos-workspace',
+    version: WORKSPACE_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    workspace: { name: workspace.name, description: workspace.description },
+    configurations,
+    templates: (await storage.getAllTemplates(workspaceId)).map(({ id, workspaceId, ...template }) => template),
+    topology: {
+      nodes: (await storage.getAllTopologyNodes(workspaceId)).map(({ workspaceId, properties, ...node }) => ({
+        ...node,
+        properties: portableProperties(properties),
+      }) as ArchivedNode),
+      connections: (await storage.getAllTopologyConnections(workspaceId)).map(({ id, workspaceId, ...connection }) => connection),
+    },
+    intentHistory: (await storage.getAllIntentHistory(workspaceId)).reverse()
+      .map(({ id, workspaceId, ...intent }) => intent),
+  };
+}
+
+// "Acme Corp" -> "acme-corp-2026-01-31.json"
+export function archiveFileName(archive: WorkspaceArchive): string {
+  const slug = archive.workspace.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workspace';
+  return `${slug}-${archive.exportedAt.slice(0, 10)}.json`;
+}
+
+export async function importWorkspace(workspaceId: string, archive: WorkspaceArchive): Promise<WorkspaceImportReport> {
+  const report: WorkspaceImportReport = {
+    imported: { configurations: 0, revisions: 0, templates: 0, nodes: 0, connections: 0, intentHistory: 0 },
+    conflicts: [],
+  };
+
+  // Archive id -> id in this workspace, for the references between records
+  const configurationIds = new Map<string, string>();
+  const existingConfigurations = new Map((await storage.getAllConfigurations(workspaceId)).map((c) => [c.name, c.id]));
+  for (const { id, revisions, ...config } of archive.configurations) {
+    const existing = existingConfigurations.get(config.name);
+    if (existing) {
+      configurationIds.set(id, existing);
+      report.conflicts.push({ kind: 'configuration', name: config.name, reason: 'A configuration with this name already exists' });
+      continue;
+    }
+    const created = await storage.createConfiguration(workspaceId, config);
+    configurationIds.set(id, created.id);
+    report.imported.configurations++;
+    for (const revision of revisions) {
+      await storage.createConfigurationRevision({ ...revision, configurationId: created.id });
+      report.imported.revisions++;
+    }
+  }
+
+  const existingTemplates = new Set((await storage.getAllTemplates(workspaceId)).map((t) => t.name));
+  for (const template of archive.templates) {
+    if (existingTemplates.has(template.name)) {
+      report.conflicts.push({ kind: 'template', name: template.name, reason: 'A template with this name already exists' });
+      continue;
+    }
+    await storage.createTemplate(workspaceId, template);
+    report.imported.templates++;
+  }
+
+  const nodeIds = new Map<string, string>();
+  const labels = new Map(archive.topology.nodes.map((n) => [n.id, n.label]));
+  const existingNodes = new Map((await storage.getAllTopologyNodes(workspaceId)).map((n) => [n.label, n.id]));
+  for (const { id, ...node } of archive.topology.nodes) {
+    const existing = existingNodes.get(node.label);
+    if (existing) {
+      nodeIds.set(id, existing);
+      report.conflicts.push({ kind: 'node', name: node.label, reason: 'A node with this label already exists' });
+      continue;
+    }
+    const configId = node.configId ? configurationIds.get(node.configId)! : null;
+    const created = await storage.createTopologyNode(workspaceId, { ...node, configId, properties: portableProperties(node.properties) });
+    nodeIds.set(id, created.id);
+    report.imported.nodes++;
+  }
+
+  const existingConnections = await storage.getAllTopologyConnections(workspaceId);
+  for (const connection of archive.topology.connections) {
+    const name = `${labels.get(connection.sourceId)} - ${labels.get(connection.targetId)}`;
+    const sourceId = nodeIds.get(connection.sourceId)!;
+    const targetId = nodeIds.get(connection.targetId)!;
+    if (existingConnections.some((c) => c.sourceId === sourceId && c.targetId === targetId)) {
+      report.conflicts.push({ kind: 'connection', name, reason: 'These nodes are already connected' });
+      continue;
+    }
+    existingConnections.push(await storage.createTopologyConnection(workspaceId, { ...connection, sourceId, targetId }));
+    report.imported.connections++;
+  }
+
+  const existingIntents = await storage.getAllIntentHistory(workspaceId);
+  for (const intent of archive.intentHistory) {
+    if (existingIntents.some((existing) => sameIntent(existing, intent))) {
+      report.conflicts.push({ kind: 'intent', name: intent.intent, reason: 'This intent is already in the history' });
+      continue;
+    }
+    existingIntents.push(await storage.createIntentHistory(workspaceId, intent));
+    report.imported.intentHistory++;
+  }
+
+  return report;
+}
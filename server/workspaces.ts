@@ -0,0 +1,45 @@
+import type { NextFunction, Request, Response } from "express";
+import { storage } from "./storage";
+import { builtinTemplates } from "./builtin-templates";
+import { DEFAULT_WORKSPACE_ID, type InsertWorkspace, type Workspace } from "@shared/schema";
+
+// Workspace-scoped routes are served under /api/workspaces/:workspaceId and,
+// for clients from before workspaces, under /api for the default workspace
+
+export function workspaceOf(req: Request): string {
+  return req.params.workspaceId ?? DEFAULT_WORKSPACE_ID;
+}
+
+// 404 for scoped routes of a workspace that does not exist
+export async function requireWorkspace(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!(await storage.getWorkspace(workspaceOf(req)))) {
+      return res.status(404).json({ error: 'Workspace not found' });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+async function assertNameFree(name: string, exceptId?: string) {
+  const workspaces = await storage.getAllWorkspaces();
+  if (workspaces.some((w) => w.name === name && w.id !== exceptId)) {
+    throw Object.assign(new Error(`Workspace ${name} already exists`), { status: 409 });
+  }
+}
+
+// New workspaces start with the built-in templates
+export async function createWorkspace(insert: InsertWorkspace): Promise<Workspace> {
+  await assertNameFree(insert.name);
+  const workspace = await storage.createWorkspace(insert);
+  for (const template of builtinTemplates) {
+    await storage.createTemplate(workspace.id, template);
+  }
+  return workspace;
+}
+
+export async function updateWorkspace(id: string, updates: Partial<InsertWorkspace>): Promise<Workspace | undefined> {
+  if (updates.name) await assertNameFree(updates.name, id);
+  return storage.updateWorkspace(id, updates);
+}
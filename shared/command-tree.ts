@@ -0,0 +1,1151 @@
+// Machine-readable subset of the VyOS 1.4 (sagitta) configuration command tree.
+//
+// Four kinds of nodes mirror the VyOS interface definitions:
+// - node:   plain container (`service ssh`)
+// - tag:    container keyed by a value (`interfaces ethernet eth0`)
+// - leaf:   terminal carrying a value, or valueless when `value` is omitted
+// - opaque: subtree that is accepted as-is because it is not modelled here
+//
+// Some paths changed shape between 1.3 and 1.4 (e.g. `nat source rule N
+// outbound-interface eth0` vs `... outbound-interface name eth0`). A node with
+// a `value` spec accepts either a child name or a value directly.
+
+export type ValueType =
+  | 'text'
+  | 'u32'
+  | 'ipv4'
+  | 'ipv4net'
+  | 'ipv4range'
+  | 'ipv6'
+  | 'ipv6net'
+  | 'mac'
+  | 'port'
+  | 'hostname'
+  | 'interface';
+
+export interface ValueSpec {
+  type?: ValueType | ValueType[];
+  enum?: readonly string[];
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  // Human readable name used in diagnostics, e.g. "ethX"
+  label?: string;
+  // Allow a leading "!" negation (firewall/NAT matchers)
+  negatable?: boolean;
+}
+
+export type CommandNode =
+  | { kind: 'node'; children: Record<string, CommandNode>; value?: ValueSpec }
+  | { kind: 'tag'; value: ValueSpec; children: Record<string, CommandNode> }
+  | { kind: 'leaf'; value?: ValueSpec; multi?: boolean; optionalValue?: boolean }
+  | { kind: 'opaque' };
+
+const node = (children: Record<string, CommandNode>, value?: ValueSpec): CommandNode => ({ kind: 'node', children, value });
+const tag = (value: ValueSpec, children: Record<string, CommandNode>): CommandNode => ({ kind: 'tag', value, children });
+const leaf = (value: ValueSpec): CommandNode => ({ kind: 'leaf', value });
+const multi = (value: ValueSpec): CommandNode => ({ kind: 'leaf', value, multi: true });
+const flag = (): CommandNode => ({ kind: 'leaf' });
+const maybe = (value: ValueSpec): CommandNode => ({ kind: 'leaf', value, optionalValue: true });
+const opaque = (): CommandNode => ({ kind: 'opaque' });
+
+// Common value specs
+const text: ValueSpec = { type: 'text' };
+const u32: ValueSpec = { type: 'u32' };
+const range = (min: number, max: number): ValueSpec => ({ type: 'u32', min, max });
+const oneOf = (...values: string[]): ValueSpec => ({ enum: values });
+const enableDisable = oneOf('enable', 'disable');
+const ipv4: ValueSpec = { type: 'ipv4' };
+const ipv4net: ValueSpec = { type: 'ipv4net' };
+const ipv6: ValueSpec = { type: 'ipv6' };
+const ipv6net: ValueSpec = { type: 'ipv6net' };
+const ipAny: ValueSpec = { type: ['ipv4', 'ipv6'] };
+const ipNetAny: ValueSpec = { type: ['ipv4net', 'ipv6net'] };
+const ifname: ValueSpec = { type: 'interface' };
+const port: ValueSpec = { type: 'port', negatable: true };
+const fwAddress: ValueSpec = { type: ['ipv4', 'ipv4net', 'ipv4range', 'ipv6', 'ipv6net'], negatable: true };
+const ruleNumber = range(1, 999999);
+const ifAddress: ValueSpec = { type: ['ipv4net', 'ipv6net'], enum: ['dhcp', 'dhcpv6'] };
+
+// Children shared by ethernet, bonding, bridge and VLAN sub-interfaces
+function interfaceBase(): Record<string, CommandNode> {
+  return {
+    address: multi(ifAddress),
+    description: leaf(text),
+    disable: flag(),
+    mtu: leaf(range(68, 16000)),
+    mac: leaf({ type: 'mac' }),
+    vrf: leaf(text),
+    redirect: leaf(ifname),
+    'disable-link-detect': flag(),
+    'dhcp-options': opaque(),
+    'dhcpv6-options': opaque(),
+    ip: opaque(),
+    ipv6: opaque(),
+    mirror: opaque(),
+    'traffic-policy': opaque(),
+    // 1.3 style per-interface firewall binding
+    firewall: node({
+      in: node({ name: leaf(text), 'ipv6-name': leaf(text) }),
+      out: node({ name: leaf(text), 'ipv6-name': leaf(text) }),
+      local: node({ name: leaf(text), 'ipv6-name': leaf(text) }),
+    }),
+  };
+}
+
+function vlanInterface(): Record<string, CommandNode> {
+  return { ...interfaceBase(), vif: tag(range(0, 4094), interfaceBase()), 'vif-s': opaque() };
+}
+
+const interfaces = node({
+  ethernet: tag({ pattern: /^(eth|lan)\d+$/, label: 'ethX' }, {
+    ...vlanInterface(),
+    duplex: leaf(oneOf('auto', 'half', 'full')),
+    speed: leaf(oneOf('auto', '10', '100', '1000', '2500', '5000', '10000', '25000', '40000', '50000', '100000')),
+    'hw-id': leaf({ type: 'mac' }),
+    offload: opaque(),
+    'ring-buffer': opaque(),
+    eapol: opaque(),
+    evpn: opaque(),
+  }),
+  loopback: tag({ pattern: /^lo$/, label: 'lo' }, {
+    address: multi(ipNetAny),
+    description: leaf(text),
+  }),
+  dummy: tag({ pattern: /^dum\d+$/, label: 'dumX' }, {
+    address: multi(ipNetAny),
+    description: leaf(text),
+    disable: flag(),
+    mtu: leaf(range(68, 16000)),
+    vrf: leaf(text),
+  }),
+  bonding: tag({ pattern: /^bond\d+$/, label: 'bondX' }, {
+    ...vlanInterface(),
+    mode: leaf(oneOf('802.3ad', 'active-backup', 'broadcast', 'round-robin', 'transmit-load-balance', 'adaptive-load-balance', 'xor-hash')),
+    'hash-policy': leaf(oneOf('layer2', 'layer2+3', 'layer3+4', 'encap2+3', 'encap3+4')),
+    member: node({ interface: multi(ifname) }),
+    'primary': leaf(ifname),
+    'lacp-rate': leaf(oneOf('slow', 'fast')),
+    'min-links': leaf(range(0, 16)),
+    'hw-id': leaf({ type: 'mac' }),
+  }),
+  bridge: tag({ pattern: /^br\d+$/, label: 'brX' }, {
+    ...vlanInterface(),
+    member: node({
+      interface: tag(ifname, {
+        cost: leaf(range(1, 65535)),
+        priority: leaf(range(0, 63)),
+        'native-vlan': leaf(range(1, 4094)),
+        'allowed-vlan': multi(text),
+        'isolated': flag(),
+      }),
+    }),
+    stp: flag(),
+    'enable-vlan': flag(),
+    'aging': leaf(u32),
+    'max-age': leaf(u32),
+    'forwarding-delay': leaf(u32),
+    'hello-time': leaf(u32),
+    'priority': leaf(u32),
+    igmp: opaque(),
+  }),
+  wireguard: tag({ pattern: /^wg\d+$/, label: 'wgX' }, {
+    address: multi(ipNetAny),
+    description: leaf(text),
+    disable: flag(),
+    mtu: leaf(range(68, 16000)),
+    port: leaf(range(1, 65535)),
+    'private-key': leaf(text),
+    fwmark: leaf(u32),
+    vrf: leaf(text),
+    ip: opaque(),
+    ipv6: opaque(),
+    peer: tag(text, {
+      'public-key': leaf(text),
+      'preshared-key': leaf(text),
+      'allowed-ips': multi(ipNetAny),
+      address: leaf(ipAny),
+      port: leaf(range(1, 65535)),
+      'persistent-keepalive': leaf(range(1, 65535)),
+      description: leaf(text),
+      disable: flag(),
+    }),
+    firewall: opaque(),
+  }),
+  vti: tag({ pattern: /^vti\d+$/, label: 'vtiX' }, {
+    address: multi(ipNetAny),
+    description: leaf(text),
+    disable: flag(),
+    mtu: leaf(range(68, 16000)),
+    vrf: leaf(text),
+    ip: opaque(),
+    ipv6: opaque(),
+    firewall: opaque(),
+  }),
+  tunnel: tag({ pattern: /^tun\d+$/, label: 'tunX' }, {
+    address: multi(ipNetAny),
+    description: leaf(text),
+    disable: flag(),
+    encapsulation: leaf(oneOf('erspan', 'gre', 'gretap', 'ip6erspan', 'ip6gre', 'ip6gretap', 'ip6ip6', 'ipip', 'ipip6', 'sit')),
+    'source-address': leaf(ipAny),
+    'source-interface': leaf(ifname),
+    remote: leaf(ipAny),
+    mtu: leaf(range(64, 8024)),
+    vrf: leaf(text),
+    parameters: opaque(),
+    ip: opaque(),
+    ipv6: opaque(),
+    firewall: opaque(),
+  }),
+  pppoe: tag({ pattern: /^pppoe\d+$/, label: 'pppoeX' }, {
+    'source-interface': leaf(ifname),
+    authentication: node({ username: leaf(text), password: leaf(text) }),
+    description: leaf(text),
+    'default-route-distance': leaf(range(1, 255)),
+    'no-default-route': flag(),
+    mtu: leaf(range(128, 16000)),
+    'service-name': leaf(text),
+    ip: opaque(),
+    ipv6: opaque(),
+    firewall: opaque(),
+  }),
+  'pseudo-ethernet': opaque(),
+  openvpn: opaque(),
+  l2tpv3: opaque(),
+  macsec: opaque(),
+  vxlan: opaque(),
+  geneve: opaque(),
+  'wireless': opaque(),
+  'wwan': opaque(),
+  'input': opaque(),
+  'virtual-ethernet': opaque(),
+  'sstpc': opaque(),
+});
+
+// Firewall rule body shared by legacy (`firewall name`) and 1.4 rulesets
+function firewallMatch(): CommandNode {
+  return node({
+    address: leaf(fwAddress),
+    port: leaf(port),
+    'mac-address': leaf({ type: 'mac', negatable: true }),
+    fqdn: leaf(text),
+    'address-mask': leaf(ipAny),
+    group: node({
+      'address-group': leaf({ type: 'text', negatable: true }),
+      'network-group': leaf({ type: 'text', negatable: true }),
+      'port-group': leaf({ type: 'text', negatable: true }),
+      'domain-group': leaf({ type: 'text', negatable: true }),
+      'mac-group': leaf({ type: 'text', negatable: true }),
+      'dynamic-address-group': leaf(text),
+    }),
+    geoip: opaque(),
+  });
+}
+
+function firewallRule(): CommandNode {
+  return tag(ruleNumber, {
+    action: leaf(oneOf('accept', 'drop', 'reject', 'return', 'jump', 'continue', 'queue', 'synproxy')),
+    description: leaf(text),
+    disable: flag(),
+    log: maybe(enableDisable),
+    'log-options': opaque(),
+    protocol: leaf({ type: 'text', negatable: true }),
+    source: firewallMatch(),
+    destination: firewallMatch(),
+    // 1.3: `state established enable`; 1.4: `state established`
+    state: node({
+      established: maybe(enableDisable),
+      related: maybe(enableDisable),
+      new: maybe(enableDisable),
+      invalid: maybe(enableDisable),
+    }),
+    'connection-status': opaque(),
+    'jump-target': leaf(text),
+    'inbound-interface': node({ name: leaf({ type: 'interface', negatable: true }), group: leaf(text) }, ifname),
+    'outbound-interface': node({ name: leaf({ type: 'interface', negatable: true }), group: leaf(text) }, ifname),
+    icmp: node({ 'type-name': leaf(text), type: leaf(range(0, 255)), code: leaf(range(0, 255)) }),
+    icmpv6: opaque(),
+    tcp: opaque(),
+    limit: opaque(),
+    recent: opaque(),
+    time: opaque(),
+    ipsec: opaque(),
+    fragment: opaque(),
+    ttl: opaque(),
+    'hop-limit': opaque(),
+    'packet-length': opaque(),
+    'packet-length-exclude': opaque(),
+    'packet-type': leaf(text),
+    'connection-mark': opaque(),
+    mark: leaf(text),
+    dscp: opaque(),
+    'dscp-exclude': opaque(),
+    'add-address-to-group': opaque(),
+    queue: leaf(u32),
+    'queue-options': opaque(),
+    set: opaque(),
+    synproxy: opaque(),
+  });
+}
+
+function firewallRuleset(): CommandNode {
+  return tag(text, {
+    'default-action': leaf(oneOf('drop', 'reject', 'accept', 'return', 'jump', 'continue')),
+    'default-jump-target': leaf(text),
+    'default-log': flag(),
+    'enable-default-log': flag(),
+    description: leaf(text),
+    rule: firewallRule(),
+  });
+}
+
+function firewallHook(): CommandNode {
+  return node({
+    filter: node({
+      'default-action': leaf(oneOf('drop', 'reject', 'accept')),
+      'default-log': flag(),
+      description: leaf(text),
+      rule: firewallRule(),
+    }),
+  });
+}
+
+function firewallFamily(): CommandNode {
+  return node({
+    name: firewallRuleset(),
+    forward: firewallHook(),
+    input: firewallHook(),
+    output: firewallHook(),
+    prerouting: opaque(),
+  });
+}
+
+const firewall = node({
+  // 1.3 style rulesets, still common in generated configs
+  name: firewallRuleset(),
+  'ipv6-name': firewallRuleset(),
+  ipv4: firewallFamily(),
+  ipv6: firewallFamily(),
+  bridge: opaque(),
+  group: node({
+    'address-group': tag(text, { address: multi(fwAddress), description: leaf(text), include: multi(text) }),
+    'network-group': tag(text, { network: multi(ipv4net), description: leaf(text), include: multi(text) }),
+    'port-group': tag(text, { port: multi(port), description: leaf(text), include: multi(text) }),
+    'interface-group': tag(text, { interface: multi(ifname), description: leaf(text), include: multi(text) }),
+    'ipv6-address-group': tag(text, { address: multi(fwAddress), description: leaf(text), include: multi(text) }),
+    'ipv6-network-group': tag(text, { network: multi(ipv6net), description: leaf(text), include: multi(text) }),
+    'mac-group': tag(text, { 'mac-address': multi({ type: 'mac' }), description: leaf(text), include: multi(text) }),
+    'domain-group': tag(text, { address: multi(text), description: leaf(text) }),
+    'dynamic-group': opaque(),
+  }),
+  zone: tag(text, {
+    'default-action': leaf(oneOf('drop', 'reject')),
+    'default-log': flag(),
+    description: leaf(text),
+    interface: multi(ifname),
+    'local-zone': flag(),
+    'intra-zone-filtering': opaque(),
+    from: tag(text, {
+      firewall: node({ name: leaf(text), 'ipv6-name': leaf(text) }),
+    }),
+  }),
+  'global-options': opaque(),
+  flowtable: opaque(),
+  // 1.3 global options
+  'all-ping': leaf(enableDisable),
+  'broadcast-ping': leaf(enableDisable),
+  'syn-cookies': leaf(enableDisable),
+  'log-martians': leaf(enableDisable),
+  'source-validation': leaf(oneOf('strict', 'loose', 'disable')),
+  'send-redirects': leaf(enableDisable),
+  'receive-redirects': leaf(enableDisable),
+  'ip-src-route': leaf(enableDisable),
+  'twa-hazards-protection': leaf(enableDisable),
+  'config-trap': leaf(enableDisable),
+  'state-policy': opaque(),
+  options: opaque(),
+});
+
+function natMatch(): CommandNode {
+  return node({
+    address: leaf(fwAddress),
+    port: leaf(port),
+    group: opaque(),
+    fqdn: leaf(text),
+  });
+}
+
+function natRule(translation: Record<string, CommandNode>): CommandNode {
+  return tag(range(1, 999999), {
+    description: leaf(text),
+    disable: flag(),
+    exclude: flag(),
+    log: maybe(enableDisable),
+    protocol: leaf({ type: 'text', negatable: true }),
+    source: natMatch(),
+    destination: natMatch(),
+    'inbound-interface': node({ name: leaf({ type: 'interface', negatable: true }), group: leaf(text) }, ifname),
+    'outbound-interface': node({ name: leaf({ type: 'interface', negatable: true }), group: leaf(text) }, ifname),
+    translation: node(translation),
+    'packet-type': leaf(text),
+    'load-balance': opaque(),
+  });
+}
+
+const nat = node({
+  source: node({
+    rule: natRule({
+      address: leaf({ type: ['ipv4', 'ipv4net', 'ipv4range'], enum: ['masquerade'] }),
+      port: leaf(port),
+      options: opaque(),
+    }),
+  }),
+  destination: node({
+    rule: natRule({
+      address: leaf({ type: ['ipv4', 'ipv4net', 'ipv4range'] }),
+      port: leaf(port),
+      'redirect': opaque(),
+      options: opaque(),
+    }),
+  }),
+  static: opaque(),
+  cgnat: opaque(),
+});
+
+const bgpAddressFamily = (): CommandNode => opaque();
+
+const bgp = node({
+  'system-as': leaf(range(1, 4294967294)),
+  neighbor: tag({ type: ['ipv4', 'ipv6', 'interface'] }, {
+    'remote-as': leaf({ type: 'u32', enum: ['internal', 'external'] }),
+    description: leaf(text),
+    password: leaf(text),
+    'update-source': leaf({ type: ['ipv4', 'ipv6', 'interface'] }),
+    'ebgp-multihop': leaf(range(1, 255)),
+    'peer-group': leaf(text),
+    shutdown: flag(),
+    passive: flag(),
+    port: leaf(range(1, 65535)),
+    'disable-connected-check': flag(),
+    'solo': flag(),
+    'address-family': node({
+      'ipv4-unicast': node({
+        'route-map': node({ import: leaf(text), export: leaf(text) }),
+        'prefix-list': node({ import: leaf(text), export: leaf(text) }),
+        'filter-list': node({ import: leaf(text), export: leaf(text) }),
+        'nexthop-self': maybe(oneOf('force')),
+        'soft-reconfiguration': node({ inbound: flag() }),
+        'default-originate': opaque(),
+        'maximum-prefix': leaf(u32),
+        'route-reflector-client': flag(),
+        'remove-private-as': opaque(),
+        'allowas-in': opaque(),
+        'as-override': flag(),
+        'weight': leaf(u32),
+        'addpath-tx-all': flag(),
+        'attribute-unchanged': opaque(),
+        'capability': opaque(),
+      }),
+      'ipv6-unicast': opaque(),
+      'l2vpn-evpn': opaque(),
+      'ipv4-vpn': opaque(),
+      'ipv6-vpn': opaque(),
+      'ipv4-labeled-unicast': opaque(),
+      'ipv4-flowspec': opaque(),
+      'ipv4-multicast': opaque(),
+      'ipv6-labeled-unicast': opaque(),
+      'ipv6-flowspec': opaque(),
+      'ipv6-multicast': opaque(),
+    }),
+    timers: opaque(),
+    'local-as': opaque(),
+    interface: opaque(),
+    bfd: opaque(),
+    capability: opaque(),
+    'override-capability': flag(),
+    ttl: opaque(),
+  }),
+  'peer-group': tag(text, {
+    'remote-as': leaf({ type: 'u32', enum: ['internal', 'external'] }),
+    description: leaf(text),
+    password: leaf(text),
+    'update-source': leaf({ type: ['ipv4', 'ipv6', 'interface'] }),
+    'address-family': bgpAddressFamily(),
+    'ebgp-multihop': leaf(range(1, 255)),
+    shutdown: flag(),
+    bfd: opaque(),
+    'local-as': opaque(),
+    capability: opaque(),
+    ttl: opaque(),
+  }),
+  'address-family': node({
+    'ipv4-unicast': node({
+      network: tag(ipv4net, { 'route-map': leaf(text), backdoor: flag(), 'path-limit': leaf(u32) }),
+      redistribute: opaque(),
+      aggregate: opaque(),
+      'maximum-paths': opaque(),
+      distance: opaque(),
+      'export': opaque(),
+      'import': opaque(),
+      'label': opaque(),
+      'rd': opaque(),
+      'route-map': opaque(),
+      'route-target': opaque(),
+    }),
+    'ipv6-unicast': opaque(),
+    'l2vpn-evpn': opaque(),
+    'ipv4-multicast': opaque(),
+    'ipv4-labeled-unicast': opaque(),
+    'ipv4-flowspec': opaque(),
+    'ipv4-vpn': opaque(),
+    'ipv6-multicast': opaque(),
+    'ipv6-labeled-unicast': opaque(),
+    'ipv6-flowspec': opaque(),
+    'ipv6-vpn': opaque(),
+  }),
+  parameters: opaque(),
+  timers: opaque(),
+  listen: opaque(),
+  bmp: opaque(),
+  'srv6': opaque(),
+  'sid': opaque(),
+});
+
+const ospf = node({
+  area: tag({ type: ['u32', 'ipv4'] }, {
+    network: multi(ipv4net),
+    'area-type': opaque(),
+    authentication: leaf(oneOf('plaintext-password', 'md5')),
+    range: opaque(),
+    'virtual-link': opaque(),
+    'export-list': leaf(text),
+    'import-list': leaf(text),
+    shortcut: leaf(oneOf('default', 'disable', 'enable')),
+  }),
+  parameters: node({
+    'router-id': leaf(ipv4),
+    'abr-type': leaf(oneOf('cisco', 'ibm', 'shortcut', 'standard')),
+    'rfc1583-compatibility': flag(),
+    'opaque-lsa': flag(),
+  }),
+  interface: tag(ifname, {
+    area: leaf({ type: ['u32', 'ipv4'] }),
+    cost: leaf(range(1, 65535)),
+    passive: maybe(oneOf('disable')),
+    network: leaf(oneOf('broadcast', 'non-broadcast', 'point-to-multipoint', 'point-to-point')),
+    'hello-interval': leaf(range(1, 65535)),
+    'dead-interval': leaf(range(1, 65535)),
+    'retransmit-interval': leaf(range(1, 65535)),
+    'transmit-delay': leaf(range(1, 65535)),
+    priority: leaf(range(0, 255)),
+    authentication: opaque(),
+    bandwidth: leaf(u32),
+    bfd: opaque(),
+    mtu: opaque(),
+  }),
+  'passive-interface': multi({ type: 'interface', enum: ['default'] }),
+  'log-adjacency-changes': opaque(),
+  redistribute: opaque(),
+  'default-information': opaque(),
+  'default-metric': leaf(u32),
+  'auto-cost': opaque(),
+  neighbor: opaque(),
+  distance: opaque(),
+  'maximum-paths': leaf(range(1, 64)),
+  timers: opaque(),
+  'mpls-te': opaque(),
+  'segment-routing': opaque(),
+  'access-list': opaque(),
+  'aggregation': opaque(),
+  'graceful-restart': opaque(),
+  'ldp-sync': opaque(),
+  'capability': opaque(),
+  'route-map': leaf(text),
+  'summary-address': opaque(),
+});
+
+function staticNextHop(address: ValueSpec): CommandNode {
+  return tag(address, {
+    distance: leaf(range(1, 255)),
+    interface: leaf(ifname),
+    disable: flag(),
+    vrf: leaf(text),
+    bfd: opaque(),
+  });
+}
+
+function staticRoute(prefix: ValueSpec, nextHop: ValueSpec): CommandNode {
+  return tag(prefix, {
+    'next-hop': staticNextHop(nextHop),
+    interface: tag(ifname, { distance: leaf(range(1, 255)), disable: flag(), vrf: leaf(text) }),
+    blackhole: node({ distance: leaf(range(1, 255)), tag: leaf(u32) }),
+    reject: opaque(),
+    description: leaf(text),
+    'dhcp-interface': leaf(ifname),
+  });
+}
+
+const protocols = node({
+  bgp,
+  ospf,
+  static: node({
+    route: staticRoute(ipv4net, ipv4),
+    route6: staticRoute(ipv6net, ipv6),
+    table: opaque(),
+    arp: opaque(),
+    mroute: opaque(),
+    'neighbor-proxy': opaque(),
+  }),
+  ospfv3: opaque(),
+  isis: opaque(),
+  rip: opaque(),
+  ripng: opaque(),
+  babel: opaque(),
+  bfd: opaque(),
+  mpls: opaque(),
+  rpki: opaque(),
+  igmp: opaque(),
+  'igmp-proxy': opaque(),
+  pim: opaque(),
+  pim6: opaque(),
+  failover: opaque(),
+  'segment-routing': opaque(),
+  openfabric: opaque(),
+  nhrp: opaque(),
+  vrf: opaque(),
+});
+
+const policyRouteMap = tag(text, {
+  description: leaf(text),
+  rule: tag(range(1, 65535), {
+    action: leaf(oneOf('permit', 'deny')),
+    description: leaf(text),
+    call: leaf(text),
+    continue: leaf(range(1, 65535)),
+    'on-match': opaque(),
+    match: node({
+      ip: node({
+        address: node({ 'prefix-list': leaf(text), 'access-list': leaf(u32), 'prefix-len': leaf(u32) }),
+        nexthop: opaque(),
+        'route-source': opaque(),
+      }),
+      ipv6: node({
+        address: node({ 'prefix-list': leaf(text), 'access-list': leaf(text), 'prefix-len': leaf(u32) }),
+        nexthop: opaque(),
+      }),
+      'as-path': leaf(text),
+      community: opaque(),
+      'large-community': opaque(),
+      'extcommunity': leaf(text),
+      interface: leaf(ifname),
+      metric: leaf(u32),
+      origin: leaf(oneOf('egp', 'igp', 'incomplete')),
+      peer: leaf(text),
+      tag: leaf(u32),
+      rpki: leaf(oneOf('invalid', 'notfound', 'valid')),
+      protocol: leaf(text),
+      'local-preference': leaf(u32),
+      'source-vrf': leaf(text),
+      evpn: opaque(),
+    }),
+    set: opaque(),
+  }),
+});
+
+function prefixList(prefix: ValueSpec): CommandNode {
+  return tag(text, {
+    description: leaf(text),
+    rule: tag(range(1, 65535), {
+      action: leaf(oneOf('permit', 'deny')),
+      prefix: leaf(prefix),
+      ge: leaf(range(0, 128)),
+      le: leaf(range(0, 128)),
+      description: leaf(text),
+    }),
+  });
+}
+
+const policy = node({
+  'route-map': policyRouteMap,
+  'prefix-list': prefixList(ipv4net),
+  'prefix-list6': prefixList(ipv6net),
+  'access-list': tag(u32, {
+    description: leaf(text),
+    rule: tag(range(1, 65535), {
+      action: leaf(oneOf('permit', 'deny')),
+      description: leaf(text),
+      source: opaque(),
+      destination: opaque(),
+    }),
+  }),
+  'access-list6': opaque(),
+  'as-path-list': tag(text, {
+    description: leaf(text),
+    rule: tag(range(1, 65535), { action: leaf(oneOf('permit', 'deny')), regex: leaf(text), description: leaf(text) }),
+  }),
+  'community-list': opaque(),
+  'extcommunity-list': opaque(),
+  'large-community-list': opaque(),
+  'local-route': opaque(),
+  'local-route6': opaque(),
+  route: opaque(),
+  route6: opaque(),
+});
+
+const vpn = node({
+  ipsec: node({
+    'ike-group': tag(text, {
+      lifetime: leaf(range(0, 86400)),
+      'key-exchange': leaf(oneOf('ikev1', 'ikev2')),
+      mode: leaf(oneOf('main', 'aggressive')),
+      'close-action': leaf(oneOf('none', 'trap', 'start')),
+      'ikev2-reauth': flag(),
+      'dead-peer-detection': opaque(),
+      proposal: tag(range(1, 65535), {
+        'dh-group': leaf(u32),
+        encryption: leaf(text),
+        hash: leaf(text),
+        prf: leaf(text),
+      }),
+    }),
+    'esp-group': tag(text, {
+      lifetime: leaf(range(30, 86400)),
+      mode: leaf(oneOf('tunnel', 'transport')),
+      pfs: leaf(text),
+      compression: flag(),
+      'life-bytes': leaf(u32),
+      'life-packets': leaf(u32),
+      proposal: tag(range(1, 65535), { encryption: leaf(text), hash: leaf(text) }),
+    }),
+    interface: multi(ifname),
+    // 1.3: `vpn ipsec ipsec-interfaces interface eth0`
+    'ipsec-interfaces': node({ interface: multi(ifname) }),
+    authentication: node({
+      psk: tag(text, {
+        id: multi(text),
+        secret: leaf(text),
+        'secret-type': leaf(oneOf('plaintext', 'base64')),
+        'dhcp-interface': multi(ifname),
+      }),
+      'x509': opaque(),
+    }),
+    'site-to-site': node({
+      peer: tag(text, {
+        description: leaf(text),
+        disable: flag(),
+        authentication: node({
+          mode: leaf(oneOf('pre-shared-secret', 'x509', 'rsa')),
+          'pre-shared-secret': leaf(text),
+          'local-id': leaf(text),
+          'remote-id': leaf(text),
+          'use-x509-id': flag(),
+          x509: node({ 'ca-certificate': leaf(text), certificate: leaf(text), passphrase: leaf(text) }),
+          rsa: opaque(),
+        }),
+        'connection-type': leaf(oneOf('initiate', 'respond', 'none', 'trap')),
+        'default-esp-group': leaf(text),
+        'ike-group': leaf(text),
+        'local-address': leaf({ type: ['ipv4', 'ipv6'], enum: ['any'] }),
+        'remote-address': leaf({ type: ['ipv4', 'ipv6', 'hostname'], enum: ['any'] }),
+        'dhcp-interface': leaf(ifname),
+        'force-udp-encapsulation': flag(),
+        ikev2: opaque(),
+        'replay-window': leaf(u32),
+        'virtual-address': multi(ipAny),
+        vti: node({ bind: leaf(ifname), 'esp-group': leaf(text) }),
+        tunnel: tag(range(0, 4294967295), {
+          'esp-group': leaf(text),
+          disable: flag(),
+          protocol: leaf(text),
+          local: node({ prefix: multi(ipNetAny), port: leaf(port) }),
+          remote: node({ prefix: multi(ipNetAny), port: leaf(port) }),
+          priority: leaf(u32),
+        }),
+      }),
+    }),
+    options: opaque(),
+    log: opaque(),
+    'remote-access': opaque(),
+    profile: opaque(),
+    'nat-traversal': leaf(enableDisable),
+    'nat-networks': opaque(),
+    'disable-uniqreqids': flag(),
+  }),
+  openconnect: opaque(),
+  l2tp: opaque(),
+  pptp: opaque(),
+  sstp: opaque(),
+});
+
+const pki = node({
+  ca: tag(text, {
+    certificate: leaf(text),
+    crl: opaque(),
+    description: leaf(text),
+    private: node({ key: leaf(text), 'password-protected': flag() }),
+    revoke: flag(),
+  }),
+  certificate: tag(text, {
+    certificate: leaf(text),
+    description: leaf(text),
+    private: node({ key: leaf(text), 'password-protected': flag() }),
+    acme: opaque(),
+    revoke: flag(),
+  }),
+  'key-pair': tag(text, {
+    public: node({ key: leaf(text) }),
+    private: node({ key: leaf(text), 'password-protected': flag() }),
+  }),
+  dh: tag(text, { parameters: leaf(text) }),
+  openvpn: opaque(),
+  openssh: opaque(),
+  'x509': opaque(),
+});
+
+const dhcpSubnet = tag(ipv4net, {
+  'default-router': leaf(ipv4),
+  'dns-server': multi(ipv4),
+  'name-server': multi(ipv4),
+  'domain-name': leaf(text),
+  'domain-search': multi(text),
+  lease: leaf(u32),
+  'subnet-id': leaf(u32),
+  exclude: multi(ipv4),
+  range: tag(text, { start: leaf(ipv4), stop: leaf(ipv4) }),
+  'static-mapping': tag(text, {
+    'ip-address': leaf(ipv4),
+    'mac-address': leaf({ type: 'mac' }),
+    mac: leaf({ type: 'mac' }),
+    description: leaf(text),
+    disable: flag(),
+  }),
+  option: opaque(),
+  description: leaf(text),
+  'ntp-server': multi(ipv4),
+  'time-server': multi(ipv4),
+  'wins-server': multi(ipv4),
+  'bootfile-name': leaf(text),
+  'bootfile-server': leaf(text),
+  'tftp-server-name': leaf(text),
+  'ping-check': flag(),
+  'static-route': opaque(),
+  'vendor-option': opaque(),
+  'failover': opaque(),
+});
+
+const service = node({
+  ssh: node({
+    port: multi(range(1, 65535)),
+    'listen-address': multi(ipAny),
+    'disable-password-authentication': flag(),
+    'disable-host-validation': flag(),
+    ciphers: multi(text),
+    'key-exchange': multi(text),
+    mac: multi(text),
+    loglevel: leaf(oneOf('quiet', 'fatal', 'error', 'info', 'verbose')),
+    'client-keepalive-interval': leaf(range(0, 65535)),
+    'access-control': opaque(),
+    'dynamic-protection': opaque(),
+    'pubkey-accepted-algorithm': multi(text),
+    'hostkey-algorithm': multi(text),
+    'rekey': opaque(),
+    vrf: leaf(text),
+  }),
+  'dhcp-server': node({
+    'shared-network-name': tag(text, {
+      subnet: dhcpSubnet,
+      authoritative: flag(),
+      description: leaf(text),
+      disable: flag(),
+      option: opaque(),
+      'domain-name': leaf(text),
+      'name-server': multi(ipv4),
+      'ping-check': flag(),
+    }),
+    'listen-address': multi(ipv4),
+    'listen-interface': multi(ifname),
+    'hostfile-update': flag(),
+    'high-availability': opaque(),
+    'global-parameters': opaque(),
+    'dynamic-dns-update': opaque(),
+    'host-decl-name': flag(),
+  }),
+  dns: node({
+    forwarding: node({
+      'allow-from': multi(ipNetAny),
+      'listen-address': multi(ipAny),
+      'name-server': opaque(),
+      'cache-size': leaf(range(0, 2147483647)),
+      system: flag(),
+      domain: opaque(),
+      dnssec: leaf(oneOf('off', 'process-no-validate', 'process', 'log-fail', 'validate')),
+      'negative-ttl': leaf(u32),
+      'dhcp': multi(ifname),
+      'ignore-hosts-file': flag(),
+      'authoritative-domain': opaque(),
+      'source-address': multi(ipAny),
+      'no-serve-rfc1918': flag(),
+      'timeout': leaf(u32),
+      'serve-stale-extension': leaf(u32),
+      'exclude-throttle-address': multi(text),
+      'options': opaque(),
+    }),
+    dynamic: opaque(),
+  }),
+  https: node({
+    api: opaque(),
+    certificates: opaque(),
+    'listen-address': multi(ipAny),
+    port: leaf(range(1, 65535)),
+    'allow-client': opaque(),
+    'virtual-host': opaque(),
+    'enable-http-redirect': flag(),
+    'request-body-size-limit': leaf(u32),
+    vrf: leaf(text),
+    'tls-version': multi(text),
+  }),
+  ntp: node({
+    server: tag(text, { pool: flag(), prefer: flag(), nts: flag(), noselect: flag() }),
+    'allow-client': opaque(),
+    'listen-address': multi(ipAny),
+    interface: multi(ifname),
+    vrf: leaf(text),
+    'leap-second': opaque(),
+    ptp: opaque(),
+    timestamp: opaque(),
+  }),
+  lldp: opaque(),
+  snmp: opaque(),
+  'router-advert': opaque(),
+  monitoring: opaque(),
+  mdns: opaque(),
+  'conntrack-sync': opaque(),
+  'dhcpv6-server': opaque(),
+  'dhcp-relay': opaque(),
+  'dhcpv6-relay': opaque(),
+  webproxy: opaque(),
+  'pppoe-server': opaque(),
+  'ipoe-server': opaque(),
+  'broadcast-relay': opaque(),
+  'tftp-server': opaque(),
+  'salt-minion': opaque(),
+  'event-handler': opaque(),
+  'console-server': opaque(),
+  'config-sync': opaque(),
+  'suricata': opaque(),
+  'ids': opaque(),
+  'upnp': opaque(),
+  'zabbix-agent': opaque(),
+  'ndp-proxy': opaque(),
+  'mdns-repeater': opaque(),
+});
+
+const system = node({
+  'host-name': leaf({ type: 'hostname' }),
+  'domain-name': leaf({ type: 'hostname' }),
+  'domain-search': multi({ type: 'hostname' }),
+  'name-server': multi({ type: ['ipv4', 'ipv6', 'interface'] }),
+  'time-zone': leaf(text),
+  login: node({
+    user: tag(text, {
+      authentication: node({
+        'plaintext-password': leaf(text),
+        'encrypted-password': leaf(text),
+        'public-keys': tag(text, { key: leaf(text), type: leaf(text), options: leaf(text) }),
+        otp: opaque(),
+        'principal': multi(text),
+      }),
+      'full-name': leaf(text),
+      'home-directory': leaf(text),
+      // 1.2/1.3
+      level: leaf(oneOf('admin', 'operator')),
+      disable: flag(),
+    }),
+    banner: node({ 'pre-login': leaf(text), 'post-login': leaf(text) }),
+    radius: opaque(),
+    tacacs: opaque(),
+    'max-login-session': leaf(u32),
+    timeout: leaf(u32),
+  }),
+  'static-host-mapping': node({
+    'host-name': tag({ type: 'hostname' }, { inet: multi(ipAny), alias: multi({ type: 'hostname' }) }),
+  }),
+  ntp: opaque(),
+  syslog: opaque(),
+  console: opaque(),
+  'config-management': opaque(),
+  conntrack: opaque(),
+  option: opaque(),
+  sysctl: opaque(),
+  ip: opaque(),
+  ipv6: opaque(),
+  'flow-accounting': opaque(),
+  'task-scheduler': opaque(),
+  frr: opaque(),
+  acceleration: opaque(),
+  proxy: opaque(),
+  watchdog: opaque(),
+  lcd: opaque(),
+  'update-check': opaque(),
+  'host-name-lookup': opaque(),
+  'gateway-address': leaf(ipv4),
+  'name-servers-dhcp': multi(ifname),
+  'default-route': opaque(),
+  'sflow': opaque(),
+  'wireless': opaque(),
+  'kernel': opaque(),
+  'logs': opaque(),
+  'event-handler': opaque(),
+  'updates': opaque(),
+  'static-routes': opaque(),
+});
+
+const highAvailability = node({
+  vrrp: node({
+    group: tag(text, {
+      interface: leaf(ifname),
+      'virtual-address': multi({ type: ['ipv4net', 'ipv6net', 'ipv4', 'ipv6'] }),
+      'virtual-address-excluded': multi({ type: ['ipv4net', 'ipv6net', 'ipv4', 'ipv6'] }),
+      vrid: leaf(range(1, 255)),
+      priority: leaf(range(1, 255)),
+      'advertise-interval': leaf(range(1, 255)),
+      description: leaf(text),
+      'no-preempt': flag(),
+      'preempt-delay': leaf(u32),
+      'hello-source-address': leaf(ipAny),
+      'peer-address': leaf(ipAny),
+      'rfc3768-compatibility': flag(),
+      authentication: opaque(),
+      track: opaque(),
+      'transition-script': opaque(),
+      'health-check': opaque(),
+      'garp': opaque(),
+      'excluded-address': multi(text),
+      disable: flag(),
+    }),
+    'sync-group': tag(text, { member: multi(text), 'transition-script': opaque(), 'health-check': opaque() }),
+    'global-parameters': opaque(),
+    snmp: flag(),
+  }),
+  'virtual-server': opaque(),
+});
+
+const vrf = node({
+  name: tag(text, {
+    table: leaf(range(100, 65535)),
+    description: leaf(text),
+    disable: flag(),
+    vni: leaf(u32),
+    protocols: opaque(),
+    ip: opaque(),
+    ipv6: opaque(),
+  }),
+  'bind-to-all': flag(),
+});
+
+export const vyosCommandTree: CommandNode = node({
+  interfaces,
+  firewall,
+  nat,
+  protocols,
+  policy,
+  vpn,
+  pki,
+  service,
+  system,
+  'high-availability': highAvailability,
+  vrf,
+  qos: opaque(),
+  'traffic-policy': opaque(),
+  'zone-policy': opaque(),
+  'load-balancing': opaque(),
+  container: opaque(),
+  nat66: opaque(),
+  netns: opaque(),
+  'cluster': opaque(),
+});
+
+const IPV4 = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+const IPV6 = /^(?=.*:)[0-9a-fA-F:.]{2,45}$/;
+const MAC = /^[0-9a-fA-F]{2}([:-][0-9a-fA-F]{2}){5}$/;
+const HOSTNAME = /^[a-zA-Z0-9]([a-zA-Z0-9-.]*[a-zA-Z0-9])?$/;
+const INTERFACE = /^[a-zA-Z][a-zA-Z0-9._+*-]*$/;
+const SERVICE_NAME = /^[a-z][a-z0-9-]*$/;
+
+function matchesPrefix(value: string, isAddress: (v: string) => boolean, maxLen: number): boolean {
+  const [addr, len, ...rest] = value.split('/');
+  if (rest.length || len === undefined || !/^\d+$/.test(len)) return false;
+  return isAddress(addr) && parseInt(len, 10) <= maxLen;
+}
+
+function matchesPortToken(v: string): boolean {
+  const parts = v.split('-');
+  if (parts.length === 2) return parts.every(p => /^\d+$/.test(p) && +p <= 65535) && +parts[0] <= +parts[1];
+  if (/^\d+$/.test(v)) return +v >= 1 && +v <= 65535;
+  return SERVICE_NAME.test(v);
+}
+
+const typeCheckers: Record<ValueType, (v: string) => boolean> = {
+  text: () => true,
+  u32: (v) => /^\d+$/.test(v) && Number(v) <= 4294967295,
+  ipv4: (v) => IPV4.test(v),
+  ipv4net: (v) => matchesPrefix(v, (a) => IPV4.test(a), 32),
+  ipv4range: (v) => {
+    const [a, b, ...rest] = v.split('-');
+    return !rest.length && b !== undefined && IPV4.test(a) && IPV4.test(b);
+  },
+  ipv6: (v) => IPV6.test(v),
+  ipv6net: (v) => matchesPrefix(v, (a) => IPV6.test(a), 128),
+  mac: (v) => MAC.test(v),
+  port: (v) => v.split(',').every(matchesPortToken),
+  hostname: (v) => HOSTNAME.test(v) && v.length <= 253,
+  interface: (v) => INTERFACE.test(v),
+};
+
+const typeLabels: Record<ValueType, string> = {
+  text: 'text',
+  u32: 'number',
+  ipv4: 'IPv4 address',
+  ipv4net: 'IPv4 prefix',
+  ipv4range: 'IPv4 range',
+  ipv6: 'IPv6 address',
+  ipv6net: 'IPv6 prefix',
+  mac: 'MAC address',
+  port: 'port, port range or service name',
+  hostname: 'hostname',
+  interface: 'interface name',
+};
+
+export function matchesValue(spec: ValueSpec, raw: string): boolean {
+  const value = spec.negatable && raw.startsWith('!') ? raw.slice(1) : raw;
+  if (spec.enum?.includes(value)) return true;
+  if (spec.pattern) return spec.pattern.test(value);
+  const types = spec.type === undefined ? [] : Array.isArray(spec.type) ? spec.type : [spec.type];
+  return types.some((t) => {
+    if (!typeCheckers[t](value)) return false;
+    if (t === 'u32' && (spec.min !== undefined || spec.max !== undefined)) {
+      const n = Number(value);
+      return (spec.min === undefined || n >= spec.min) && (spec.max === undefined || n <= spec.max);
+    }
+    return true;
+  });
+}
+
+export function describeValue(spec: ValueSpec): string {
+  if (spec.label) return spec.label;
+  const parts: string[] = [];
+  const types = spec.type === undefined ? [] : Array.isArray(spec.type) ? spec.type : [spec.type];
+  for (const t of types) {
+    if (t === 'u32' && (spec.min !== undefined || spec.max !== undefined)) {
+      parts.push(`number ${spec.min ?? 0}-${spec.max ?? 4294967295}`);
+    } else {
+      parts.push(typeLabels[t]);
+    }
+  }
+  if (spec.enum?.length) parts.push(spec.enum.map((v) => `'${v}'`).join(', '));
+  return parts.join(' or ') || 'value';
+}
+
+export function childNames(n: CommandNode): string[] {
+  return n.kind === 'node' || n.kind === 'tag' ? Object.keys(n.children) : [];
+}
@@ -0,0 +1,253 @@
+import { vyosCommandTree, type CommandNode } from "./command-tree";
+import { formatCommand, parseConfiguration } from "./config-parser";
+
+// Conversion between the hierarchical config.boot format printed by
+// `show configuration` and the flat `set` commands used everywhere else.
+
+export type ConfigFormat = 'set' | 'boot';
+
+interface BootToken {
+  kind: 'word' | 'open' | 'close' | 'newline';
+  text: string;
+  line: number;
+}
+
+interface BootNode {
+  segment: string[];      // one or two path elements, e.g. ["ethernet", "eth0"]
+  leaf: boolean;
+  values: string[];
+  children: Map<string, BootNode>;
+}
+
+const INDENT = '    ';
+
+// Values that can be written unquoted in config.boot
+function quoteBootValue(value: string): string {
+  if (/^[^\s"'{}#;\\]+$/.test(value)) return value;
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function tokenizeBoot(text: string): BootToken[] {
+  const tokens: BootToken[] = [];
+  let line = 1;
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '\n') {
+      tokens.push({ kind: 'newline', text: ch, line });
+      line++;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      if (end === -1) throw new Error(`Line ${line}: unterminated comment`);
+      line += text.slice(i, end).split('\n').length - 1;
+      i = end + 2;
+    } else if (text.startsWith('//', i) || (ch === '#' && (i === 0 || text[i - 1] === '\n' || /\s/.test(text[i - 1])))) {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (ch === '{' || ch === '}') {
+      tokens.push({ kind: ch === '{' ? 'open' : 'close', text: ch, line });
+      i++;
+    } else if (ch === '"' || ch === "'") {
+      let value = '';
+      const start = line;
+      i++;
+      while (i < text.length && text[i] !== ch) {
+        if (text[i] === '\\' && ch === '"' && i + 1 < text.length) i++;
+        if (text[i] === '\n') line++;
+        value += text[i];
+        i++;
+      }
+      if (i >= text.length) throw new Error(`Line ${start}: unterminated quoted value`);
+      tokens.push({ kind: 'word', text: value, line: start });
+      i++;
+    } else {
+      const start = i;
+      while (i < text.length && !/[\s{}]/.test(text[i])) i++;
+      tokens.push({ kind: 'word', text: text.slice(start, i), line });
+    }
+  }
+  return tokens;
+}
+
+// config.boot -> set commands. Throws on unbalanced braces.
+export function configBootToCommands(text: string): string {
+  const lines: string[] = [];
+  const stack: { path: string[]; emitted: number }[] = [{ path: [], emitted: 0 }];
+  let words: string[] = [];
+
+  const frame = () => stack[stack.length - 1];
+  const flush = () => {
+    if (words.length === 0) return;
+    const path = [...frame().path, ...words];
+    lines.push(words.length >= 2 ? formatCommand('set', path.slice(0, -1), path[path.length - 1]) : formatCommand('set', path));
+    stack.forEach((f) => f.emitted++);
+    words = [];
+  };
+
+  for (const token of tokenizeBoot(text)) {
+    if (token.kind === 'word') {
+      words.push(token.text);
+    } else if (token.kind === 'newline') {
+      flush();
+    } else if (token.kind === 'open') {
+      if (words.length === 0) throw new Error(`Line ${token.line}: "{" without a node name`);
+      stack.push({ path: [...frame().path, ...words], emitted: 0 });
+      words = [];
+    } else {
+      flush();
+      if (stack.length === 1) throw new Error(`Line ${token.line}: unexpected "}"`);
+      const closed = stack.pop()!;
+      // Keep empty nodes such as `loopback lo { }`
+      if (closed.emitted === 0) {
+        lines.push(formatCommand('set', closed.path));
+        stack.forEach((f) => f.emitted++);
+      }
+    }
+  }
+  flush();
+  if (stack.length > 1) throw new Error(`Missing "}" for "${frame().path.join(' ')}"`);
+
+  return lines.join('\n');
+}
+
+// Split a command path into config.boot lines: tag nodes keep their value on
+// the same line, the last token of a valued leaf becomes its value.
+function splitPath(tokens: string[], tree: CommandNode): { segments: string[][]; value?: string; leaf: boolean; multi: boolean } {
+  const segments: string[][] = [];
+  let current = tree;
+  let i = 0;
+
+  const rest = (from: number) => {
+    const remaining = tokens.slice(from);
+    remaining.slice(0, -1).forEach((t) => segments.push([t]));
+    if (remaining.length >= 2) return { segments, value: remaining[remaining.length - 1], leaf: true, multi: true };
+    if (remaining.length === 1) segments.push(remaining);
+    return { segments, leaf: remaining.length === 1, multi: false };
+  };
+
+  while (i < tokens.length) {
+    if (current.kind !== 'node' && current.kind !== 'tag') return rest(i);
+    const child = current.children[tokens[i]];
+    if (!child) {
+      // Hybrid 1.3/1.4 node used with a direct value
+      if (current.kind === 'node' && current.value && segments.length > 0 && i === tokens.length - 1) {
+        return { segments, value: tokens[i], leaf: true, multi: false };
+      }
+      return rest(i);
+    }
+    if (child.kind === 'node') {
+      segments.push([tokens[i]]);
+      current = child;
+      i++;
+    } else if (child.kind === 'tag') {
+      segments.push(tokens.slice(i, i + 2));
+      current = child;
+      i += 2;
+    } else if (child.kind === 'opaque') {
+      segments.push([tokens[i]]);
+      return rest(i + 1);
+    } else {
+      segments.push([tokens[i]]);
+      return { segments, value: child.value ? tokens[i + 1] : undefined, leaf: true, multi: !!child.multi };
+    }
+  }
+  return { segments, leaf: false, multi: false };
+}
+
+// set/delete commands -> config.boot
+export function commandsToConfigBoot(text: string, tree: CommandNode = vyosCommandTree): string {
+  const root: BootNode = { segment: [], leaf: false, values: [], children: new Map() };
+
+  for (const command of parseConfiguration(text, tree).commands) {
+    const { segments, value, leaf, multi } = splitPath(command.tokens.map((t) => t.text), tree);
+    if (segments.length === 0) continue;
+
+    let parent = root;
+    let missing = false;
+    for (const segment of segments.slice(0, -1)) {
+      const key = segment.join(' ');
+      let next = parent.children.get(key);
+      if (!next) {
+        if (command.op === 'delete') {
+          missing = true;
+          break;
+        }
+        next = { segment, leaf: false, values: [], children: new Map() };
+        parent.children.set(key, next);
+      }
+      parent = next;
+    }
+    if (missing) continue;
+
+    const last = segments[segments.length - 1];
+    const key = last.join(' ');
+    if (command.op === 'delete') {
+      const target = parent.children.get(key);
+      if (target && value !== undefined && target.values.length > 1) {
+        target.values = target.values.filter((v) => v !== value);
+      } else {
+        parent.children.delete(key);
+      }
+      continue;
+    }
+
+    let target = parent.children.get(key);
+    if (!target) {
+      target = { segment: last, leaf, values: [], children: new Map() };
+      parent.children.set(key, target);
+    }
+    if (value !== undefined) {
+      if (!multi) target.values = [value];
+      else if (!target.values.includes(value)) target.values.push(value);
+    }
+  }
+
+  const lines: string[] = [];
+  const render = (node: BootNode, depth: number) => {
+    const indent = INDENT.repeat(depth);
+    node.children.forEach((child) => {
+      const name = child.segment.map(quoteBootValue).join(' ');
+      if (child.leaf) {
+        if (child.values.length === 0) lines.push(`${indent}${name}`);
+        child.values.forEach((v) => lines.push(`${indent}${name} ${quoteBootValue(v)}`));
+      } else {
+        lines.push(`${indent}${name} {`);
+        render(child, depth + 1);
+        lines.push(`${indent}}`);
+      }
+    });
+  };
+  render(root, 0);
+  return lines.join('\n');
+}
+
+// Guess the format of pasted text from its first meaningful line
+export function detectConfigFormat(text: string): ConfigFormat {
+  const first = text
+    .split('\n')
+    .map((l) => l.trim())
+    .find((l) => l && !l.startsWith('#') && !l.startsWith('//') && !l.startsWith('/*'));
+  return first !== undefined && !/^(set|delete)\s/.test(first) && /[{}]\s*$/.test(first) ? 'boot' : 'set';
+}
+
+// `showConfig` JSON from the VyOS HTTP API -> set commands. Objects are
+// nodes (empty objects are valueless nodes), strings are values and arrays
+// hold the values of multi-value leaves.
+export function configJsonToCommands(tree: unknown): string {
+  const lines: string[] = [];
+  const walk = (node: unknown, path: string[]) => {
+    if (Array.isArray(node)) {
+      node.forEach((v) => lines.push(formatCommand('set', path, String(v))));
+    } else if (node !== null && typeof node === 'object') {
+      const entries = Object.entries(node as Record<string, unknown>);
+      if (entries.length === 0 && path.length > 0) lines.push(formatCommand('set', path));
+      entries.forEach(([key, child]) => walk(child, [...path, key]));
+    } else if (node !== null && node !== undefined) {
+      lines.push(formatCommand('set', path, String(node)));
+    }
+  };
+  walk(tree, []);
+  return lines.join('\n');
+}
@@ -0,0 +1,265 @@
+import { vyosCommandTree, matchesValue, describeValue, childNames, type CommandNode } from "./command-tree";
+
+export type DiagnosticCode =
+  | 'invalid-command'
+  | 'unterminated-quote'
+  | 'missing-path'
+  | 'unknown-node'
+  | 'missing-tag-value'
+  | 'missing-value'
+  | 'invalid-value'
+  | 'unexpected-value';
+
+export interface ConfigDiagnostic {
+  line: number;
+  column: number;
+  code: DiagnosticCode;
+  message: string;
+  severity: 'error' | 'warning' | 'info';
+}
+
+export interface CommandToken {
+  text: string;   // unquoted value
+  column: number; // 1-based column of the first character in the source line
+  quoted: boolean;
+}
+
+export interface ParsedCommand {
+  line: number;
+  op: 'set' | 'delete';
+  tokens: CommandToken[];  // tokens after the set/delete keyword
+  path: string[];          // node names and tag values, without the leaf value
+  value?: string;          // leaf value when the path ends on a valued leaf
+  multi: boolean;          // leaf accepts several values
+  opaque: boolean;         // path runs into a subtree the command tree does not model
+  valid: boolean;
+}
+
+export interface ParsedConfiguration {
+  commands: ParsedCommand[];
+  diagnostics: ConfigDiagnostic[];
+}
+
+export function tokenizeCommand(line: string): { tokens: CommandToken[]; unterminatedAt?: number } {
+  const tokens: CommandToken[] = [];
+  let i = 0;
+  while (i < line.length) {
+    if (/\s/.test(line[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const quote = line[i] === "'" || line[i] === '"' ? line[i] : null;
+    if (quote) {
+      const end = line.indexOf(quote, i + 1);
+      if (end === -1) {
+        return { tokens, unterminatedAt: start + 1 };
+      }
+      tokens.push({ text: line.slice(i + 1, end), column: start + 1, quoted: true });
+      i = end + 1;
+      continue;
+    }
+    while (i < line.length && !/\s/.test(line[i])) i++;
+    tokens.push({ text: line.slice(start, i), column: start + 1, quoted: false });
+  }
+  return { tokens };
+}
+
+// Quote a value the way `show configuration commands` does
+export function quoteValue(value: string): string {
+  return `'${value}'`;
+}
+
+// Quote a tag value or path element only when needed
+export function quotePathElement(value: string): string {
+  return /^[^\s'"]+$/.test(value) ? value : `'${value}'`;
+}
+
+export function formatCommand(op: 'set' | 'delete', path: string[], value?: string): string {
+  const parts = [op, ...path.map(quotePathElement)];
+  if (value !== undefined) parts.push(quoteValue(value));
+  return parts.join(' ');
+}
+
+function editDistance(a: string, b: string): number {
+  const dp = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) dp[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      dp[i][j] = Math.min(
+        dp[i - 1][j] + 1,
+        dp[i][j - 1] + 1,
+        dp[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+  }
+  return dp[a.length][b.length];
+}
+
+function closestName(name: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestScore = Infinity;
+  for (const c of candidates) {
+    const score = editDistance(name, c);
+    if (score < bestScore) {
+      best = c;
+      bestScore = score;
+    }
+  }
+  return bestScore <= Math.max(2, Math.floor(name.length / 3)) ? best : undefined;
+}
+
+function describePath(path: string[]): string {
+  return path.length ? `"${path.join(' ')}"` : 'the configuration root';
+}
+
+// Walk the tokens of one set/delete command through the command tree.
+export function resolveCommand(
+  op: 'set' | 'delete',
+  tokens: CommandToken[],
+  line: number,
+  tree: CommandNode = vyosCommandTree,
+): { command: ParsedCommand; diagnostics: ConfigDiagnostic[] } {
+  const command: ParsedCommand = { line, op, tokens, path: [], multi: false, opaque: false, valid: true };
+  const diagnostics: ConfigDiagnostic[] = [];
+  const fail = (token: CommandToken | undefined, code: DiagnosticCode, message: string) => {
+    const last = tokens[tokens.length - 1];
+    const column = token ? token.column : last ? last.column + last.text.length + (last.quoted ? 2 : 0) + 1 : 1;
+    diagnostics.push({ line, column, code, message, severity: 'error' });
+    command.valid = false;
+  };
+
+  if (tokens.length === 0) {
+    fail(undefined, 'missing-path', `"${op}" requires a configuration path`);
+    return { command, diagnostics };
+  }
+
+  let current = tree;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (current.kind !== 'node' && current.kind !== 'tag') break;
+
+    const child = current.children[token.text];
+    if (!child) {
+      // Hybrid 1.3/1.4 nodes take a value in place of a child name
+      if (current.kind === 'node' && current.value && command.path.length > 0) {
+        if (!matchesValue(current.value, token.text)) {
+          fail(token, 'invalid-value', `Invalid value "${token.text}" for ${describePath(command.path)}: expected ${describeValue(current.value)}`);
+        } else if (i + 1 < tokens.length) {
+          fail(tokens[i + 1], 'unexpected-value', `Unexpected "${tokens[i + 1].text}" after value of ${describePath(command.path)}`);
+        }
+        command.value = token.text;
+        return { command, diagnostics };
+      }
+      const suggestion = closestName(token.text, childNames(current));
+      fail(
+        token,
+        'unknown-node',
+        `Unknown configuration node "${token.text}" under ${describePath(command.path)}` +
+          (suggestion ? ` (did you mean "${suggestion}"?)` : ''),
+      );
+      return { command, diagnostics };
+    }
+
+    command.path.push(token.text);
+
+    if (child.kind === 'node') {
+      current = child;
+      continue;
+    }
+
+    if (child.kind === 'tag') {
+      const tagValue = tokens[i + 1];
+      if (!tagValue) {
+        // Deleting a whole tag node is fine; setting one needs a name
+        if (op === 'set') {
+          fail(undefined, 'missing-tag-value', `"${command.path.join(' ')}" requires a value (${describeValue(child.value)})`);
+        }
+        return { command, diagnostics };
+      }
+      if (!matchesValue(child.value, tagValue.text)) {
+        fail(tagValue, 'invalid-value', `Invalid value "${tagValue.text}" for ${describePath(command.path)}: expected ${describeValue(child.value)}`);
+      }
+      command.path.push(tagValue.text);
+      current = child;
+      i++;
+      continue;
+    }
+
+    if (child.kind === 'opaque') {
+      const rest = tokens.slice(i + 1).map((t) => t.text);
+      command.opaque = true;
+      if (rest.length >= 2) {
+        command.path.push(...rest.slice(0, -1));
+        command.value = rest[rest.length - 1];
+        command.multi = true;
+      } else {
+        command.path.push(...rest);
+      }
+      return { command, diagnostics };
+    }
+
+    // Leaf
+    command.multi = !!child.multi;
+    const valueToken = tokens[i + 1];
+    if (!child.value) {
+      if (valueToken) {
+        fail(valueToken, 'unexpected-value', `"${command.path.join(' ')}" does not take a value`);
+      }
+      return { command, diagnostics };
+    }
+    if (!valueToken) {
+      if (op === 'set' && !child.optionalValue) {
+        fail(undefined, 'missing-value', `"${command.path.join(' ')}" requires a value (${describeValue(child.value)})`);
+      }
+      return { command, diagnostics };
+    }
+    if (!matchesValue(child.value, valueToken.text)) {
+      fail(valueToken, 'invalid-value', `Invalid value "${valueToken.text}" for ${describePath(command.path)}: expected ${describeValue(child.value)}`);
+    }
+    command.value = valueToken.text;
+    if (tokens[i + 2]) {
+      fail(tokens[i + 2], 'unexpected-value', `Unexpected "${tokens[i + 2].text}" after value of ${describePath(command.path)}`);
+    }
+    return { command, diagnostics };
+  }
+
+  return { command, diagnostics };
+}
+
+// Parse a block of set/delete lines. Blank lines and # comments are skipped.
+export function parseConfiguration(text: string, tree: CommandNode = vyosCommandTree): ParsedConfiguration {
+  const commands: ParsedCommand[] = [];
+  const diagnostics: ConfigDiagnostic[] = [];
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = index + 1;
+    const source = rawLine.replace(/\r$/, '');
+    const trimmed = source.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const { tokens, unterminatedAt } = tokenizeCommand(source);
+    if (unterminatedAt !== undefined) {
+      diagnostics.push({ line, column: unterminatedAt, code: 'unterminated-quote', message: 'Unterminated quoted value', severity: 'error' });
+      return;
+    }
+
+    const [opToken, ...rest] = tokens;
+    if (opToken.text !== 'set' && opToken.text !== 'delete') {
+      diagnostics.push({
+        line,
+        column: opToken.column,
+        code: 'invalid-command',
+        message: 'VyOS commands must start with "set" or "delete"',
+        severity: 'error',
+      });
+      return;
+    }
+
+    const resolved = resolveCommand(opToken.text, rest, line, tree);
+    commands.push(resolved.command);
+    diagnostics.push(...resolved.diagnostics);
+  });
+
+  return { commands, diagnostics };
+}
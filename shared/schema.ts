@@ -1,11 +1,34 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, jsonb, integer, boolean, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Workspaces keep customers' networks apart: every configuration, template,
+// router and job belongs to exactly one. Accounts and the audit log are shared.
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertWorkspaceSchema = createInsertSchema(workspaces, {
+  name: (schema) => schema.min(1, "Name is required"),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type Workspace = typeof workspaces.$inferSelect;
+
+// Holds everything created before workspaces existed; it cannot be deleted
+export const DEFAULT_WORKSPACE_ID = "default";
+
 // Configuration schema
 export const configurations = pgTable("configurations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   description: text("description"),
   content: text("content").notNull(),
@@ -15,15 +38,53 @@ export const configurations = pgTable("configurations", {
 
 export const insertConfigurationSchema = createInsertSchema(configurations).omit({
   id: true,
+  workspaceId: true,
   createdAt: true,
 });
 
 export type InsertConfiguration = z.infer<typeof insertConfigurationSchema>;
 export type Configuration = typeof configurations.$inferSelect;
 
+// Every saved version of a configuration, numbered from 1. Revisions are
+// never changed; a revert records a new one.
+export const configurationRevisions = pgTable("configuration_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  configurationId: varchar("configuration_id").notNull().references(() => configurations.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  content: text("content").notNull(),
+  type: text("type").notNull(),
+  author: text("author").notNull(),
+  message: text("message").notNull(),
+  revertedFrom: integer("reverted_from"), // the revision a revert restored
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [unique().on(table.configurationId, table.revision)]);
+
+export const insertConfigurationRevisionSchema = createInsertSchema(configurationRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertConfigurationRevision = z.infer<typeof insertConfigurationRevisionSchema>;
+export type ConfigurationRevision = typeof configurationRevisions.$inferSelect;
+
+// An edit, with the message recorded on the revision it creates
+export const configurationUpdateSchema = insertConfigurationSchema.partial().extend({
+  message: z.string().optional(),
+});
+
+export type ConfigurationUpdate = z.infer<typeof configurationUpdateSchema>;
+
+// The message for the revision a create or revert records
+export const revisionMessageSchema = z.object({
+  message: z.string().optional(),
+});
+
 // Template schema
 export const templates = pgTable("templates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   description: text("description").notNull(),
   category: text("category").notNull(), // 'firewall', 'vpn', 'routing', 'qos', 'interface'
@@ -34,6 +95,7 @@ export const templates = pgTable("templates", {
 
 export const insertTemplateSchema = createInsertSchema(templates).omit({
   id: true,
+  workspaceId: true,
 });
 
 export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
@@ -42,15 +104,19 @@ export type Template = typeof templates.$inferSelect;
 // Topology Node schema
 export const topologyNodes = pgTable("topology_nodes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   label: text("label").notNull(),
   type: text("type").notNull(), // 'router', 'switch', 'firewall', 'server', 'client'
   position: jsonb("position").notNull(), // { x: number, y: number }
   properties: jsonb("properties"), // additional node properties
-  configId: varchar("config_id").references(() => configurations.id),
+  configId: varchar("config_id").references(() => configurations.id, { onDelete: "set null" }),
 });
 
-export const insertTopologyNodeSchema = createInsertSchema(topologyNodes).omit({
+export const insertTopologyNodeSchema = createInsertSchema(topologyNodes, {
+  position: z.object({ x: z.number(), y: z.number() }),
+}).omit({
   id: true,
+  workspaceId: true,
 });
 
 export type InsertTopologyNode = z.infer<typeof insertTopologyNodeSchema>;
@@ -59,14 +125,16 @@ export type TopologyNode = typeof topologyNodes.$inferSelect;
 // Topology Connection schema
 export const topologyConnections = pgTable("topology_connections", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  sourceId: varchar("source_id").notNull().references(() => topologyNodes.id),
-  targetId: varchar("target_id").notNull().references(() => topologyNodes.id),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  sourceId: varchar("source_id").notNull().references(() => topologyNodes.id, { onDelete: "cascade" }),
+  targetId: varchar("target_id").notNull().references(() => topologyNodes.id, { onDelete: "cascade" }),
   label: text("label"),
   protocol: text("protocol"), // 'bgp', 'ospf', 'static', 'ethernet'
 });
 
 export const insertTopologyConnectionSchema = createInsertSchema(topologyConnections).omit({
   id: true,
+  workspaceId: true,
 });
 
 export type InsertTopologyConnection = z.infer<typeof insertTopologyConnectionSchema>;
@@ -75,6 +143,7 @@ export type TopologyConnection = typeof topologyConnections.$inferSelect;
 // AI Intent History schema
 export const intentHistory = pgTable("intent_history", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   intent: text("intent").notNull(),
   generatedConfig: text("generated_config").notNull(),
   applied: text("applied").notNull().default('false'),
@@ -83,17 +152,273 @@ export const intentHistory = pgTable("intent_history", {
 
 export const insertIntentHistorySchema = createInsertSchema(intentHistory).omit({
   id: true,
+  workspaceId: true,
   createdAt: true,
 });
 
 export type InsertIntentHistory = z.infer<typeof insertIntentHistorySchema>;
 export type IntentHistory = typeof intentHistory.$inferSelect;
 
+// Router configuration snapshots, taken before every non-dry-run apply
+export const routerSnapshots = pgTable("router_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  nodeId: varchar("node_id").references(() => topologyNodes.id, { onDelete: "set null" }),
+  host: text("host").notNull(),
+  jobId: varchar("job_id"), // the apply run that triggered the snapshot
+  content: text("content").notNull(), // `show configuration commands` output
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertRouterSnapshotSchema = createInsertSchema(routerSnapshots).omit({
+  id: true,
+  workspaceId: true,
+  createdAt: true,
+});
+
+export type InsertRouterSnapshot = z.infer<typeof insertRouterSnapshotSchema>;
+export type RouterSnapshot = typeof routerSnapshots.$inferSelect;
+
+// Router apply jobs. Jobs for the same router (host and port) run one at a time.
+export const applyJobs = pgTable("apply_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  requester: text("requester").notNull(),
+  host: text("host").notNull(),
+  port: integer("port").notNull(),
+  nodeId: varchar("node_id").references(() => topologyNodes.id, { onDelete: "set null" }),
+  mode: text("mode").notNull(), // 'replay', 'delta', 'replace'
+  dryRun: boolean("dry_run").notNull().default(false),
+  configHash: text("config_hash").notNull(), // sha256 of the submitted configuration
+  status: text("status").notNull(), // 'queued', 'running', 'succeeded', 'failed', 'cancelled'
+  phase: text("phase"),
+  logs: text("logs").array().notNull(),
+  result: jsonb("result"), // RouterApplyResponse of a finished job
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const insertApplyJobSchema = createInsertSchema(applyJobs).omit({
+  id: true,
+  workspaceId: true,
+  createdAt: true,
+});
+
+export type InsertApplyJob = z.infer<typeof insertApplyJobSchema>;
+export type ApplyJob = typeof applyJobs.$inferSelect;
+
+// Multi-router deployments, rolled out in waves of apply jobs
+export const deployments = pgTable("deployments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  requester: text("requester").notNull(),
+  configHash: text("config_hash").notNull(),
+  nodeIds: text("node_ids").array().notNull(),
+  status: text("status").notNull(), // 'running', 'succeeded', 'failed', 'halted'
+  report: jsonb("report").notNull(), // DeploymentReport
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const insertDeploymentSchema = createInsertSchema(deployments).omit({
+  id: true,
+  workspaceId: true,
+  createdAt: true,
+});
+
+export type InsertDeployment = z.infer<typeof insertDeploymentSchema>;
+export type Deployment = typeof deployments.$inferSelect;
+
+// SSH bastions routers are reached through. Their credentials are kept here,
+// apart from the routers', and never sent back to clients.
+export const jumpHosts = pgTable("jump_hosts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  host: text("host").notNull(),
+  port: integer("port").notNull().default(22),
+  username: text("username").notNull(),
+  password: text("password"),
+  privateKey: text("private_key"),
+  hostKey: text("host_key"), // fingerprint pinned on first connect
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertJumpHostSchema = createInsertSchema(jumpHosts).omit({
+  id: true,
+  workspaceId: true,
+  createdAt: true,
+  hostKey: true,
+});
+
+export type InsertJumpHost = z.infer<typeof insertJumpHostSchema>;
+export type JumpHost = typeof jumpHosts.$inferSelect;
+// As returned by the API
+export type JumpHostSummary = Omit<JumpHost, 'password' | 'privateKey'> & { hasPassword: boolean; hasPrivateKey: boolean };
+
+// Router logins, encrypted at rest with the server's master key
+export const credentials = pgTable("credentials", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  username: text("username").notNull(),
+  kind: text("kind").notNull(), // 'password' or 'private-key'
+  secret: text("secret").notNull(), // AES-256-GCM ciphertext
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertCredentialSchema = createInsertSchema(credentials).omit({
+  id: true,
+  workspaceId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertCredential = z.infer<typeof insertCredentialSchema>;
+export type Credential = typeof credentials.$inferSelect;
+// As returned by the API
+export type CredentialSummary = Omit<Credential, 'secret'>;
+
+export const credentialKindSchema = z.enum(['password', 'private-key']);
+export type CredentialKind = z.infer<typeof credentialKindSchema>;
+
+// The plaintext secret only ever travels towards the server
+export const credentialInputSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  username: z.string().min(1, "Username is required"),
+  kind: credentialKindSchema,
+  secret: z.string().min(1, "Secret is required"),
+});
+
+export type CredentialInput = z.infer<typeof credentialInputSchema>;
+
+// Accounts signing in to the UI. Roles are ordered: each one can do
+// everything the ones before it can.
+export const userRoles = ['viewer', 'operator', 'admin'] as const;
+export const userRoleSchema = z.enum(userRoles);
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(), // scrypt hash
+  role: text("role").notNull().default('viewer'),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+// As returned by the API
+export type PublicUser = Omit<User, 'password'>;
+
+export const loginRequestSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export type LoginRequest = z.infer<typeof loginRequestSchema>;
+
+export const userInputSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: userRoleSchema,
+});
+
+export type UserInput = z.infer<typeof userInputSchema>;
+
+// Change requests: a configuration bound for routers, with its justification
+// and diff, approved by a second engineer before it may be applied to
+// protected routers
+export const changeRequests = pgTable("change_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  justification: text("justification").notNull(),
+  configuration: text("configuration").notNull(),
+  nodeIds: text("node_ids").array().notNull(),
+  diff: jsonb("diff").notNull(), // ChangeRequestDiff[], one per target router
+  status: text("status").notNull().default('draft'), // 'draft', 'submitted', 'approved', 'rejected', 'applied'
+  requestedBy: text("requested_by").notNull(),
+  reviewedBy: text("reviewed_by"),
+  reviewComment: text("review_comment"),
+  appliedNodeIds: text("applied_node_ids").array().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  reviewedAt: timestamp("reviewed_at"),
+  appliedAt: timestamp("applied_at"),
+});
+
+export const insertChangeRequestSchema = createInsertSchema(changeRequests).omit({
+  id: true,
+  workspaceId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertChangeRequest = z.infer<typeof insertChangeRequestSchema>;
+export type ChangeRequest = typeof changeRequests.$inferSelect;
+
+// Append-only audit trail. Each event's hash covers its fields and the
+// previous event's hash, so editing or removing an event breaks the chain.
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  seq: integer("seq").notNull().unique(),
+  actor: text("actor").notNull(),
+  action: text("action").notNull(), // e.g. 'POST /api/configurations', 'router.apply'
+  target: text("target"), // resource path or router host:port
+  summary: jsonb("summary"), // request body with secrets redacted and configurations hashed
+  outcome: text("outcome").notNull(), // 'success', 'failure', 'denied'
+  status: integer("status"),
+  error: text("error"),
+  prevHash: text("prev_hash").notNull(),
+  hash: text("hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+});
+
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+export const auditOutcomeSchema = z.enum(['success', 'failure', 'denied']);
+export type AuditOutcome = z.infer<typeof auditOutcomeSchema>;
+
+export const auditFilterSchema = z.object({
+  actor: z.string().optional(),
+  action: z.string().optional(),
+  target: z.string().optional(),
+  outcome: auditOutcomeSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(5000).optional(),
+});
+
+export type AuditFilter = z.infer<typeof auditFilterSchema>;
+
+export interface AuditChainStatus {
+  ok: boolean;
+  events: number;
+  // First event whose hash or link does not match
+  brokenAt?: number;
+}
+
 // Validation Result types (not stored in DB)
 export const validationResultSchema = z.object({
   valid: z.boolean(),
   errors: z.array(z.object({
     line: z.number(),
+    column: z.number().optional(),
+    code: z.string().optional(),
     message: z.string(),
     severity: z.enum(['error', 'warning', 'info']),
   })),
@@ -105,6 +430,108 @@ export const validationResultSchema = z.object({
 
 export type ValidationResult = z.infer<typeof validationResultSchema>;
 
+// Firewall analysis types (not stored in DB)
+export const firewallFindingSchema = z.object({
+  ruleset: z.string(),
+  rule: z.number(),
+  kind: z.enum(['shadowed', 'redundant', 'conflict']),
+  relatedRule: z.number().optional(),
+  line: z.number(),
+  column: z.number().optional(),
+  message: z.string(),
+});
+
+export type FirewallFinding = z.infer<typeof firewallFindingSchema>;
+
+// Packet simulation schemas (not stored in DB)
+export const packetSimulationRequestSchema = z.object({
+  configuration: z.string().min(1, "Configuration is required"),
+  packet: z.object({
+    protocol: z.string().min(1, "Protocol is required"),
+    sourceAddress: z.string().min(1, "Source address is required"),
+    sourcePort: z.number().int().min(0).max(65535).optional(),
+    destinationAddress: z.string().min(1, "Destination address is required"),
+    destinationPort: z.number().int().min(0).max(65535).optional(),
+    inboundInterface: z.string().min(1, "Inbound interface is required"),
+    state: z.enum(['new', 'established', 'related', 'invalid']).optional().default('new'),
+  }),
+});
+
+export type PacketSimulationRequest = z.infer<typeof packetSimulationRequestSchema>;
+
+export const simulationStepSchema = z.object({
+  stage: z.enum(['destination-nat', 'routing', 'filter', 'source-nat']),
+  ruleset: z.string().optional(),
+  rule: z.number().optional(),
+  line: z.number().optional(),
+  action: z.string().optional(),
+  // The rule uses criteria the simulator cannot evaluate; treated as no match
+  indeterminate: z.boolean().optional(),
+  message: z.string(),
+});
+
+export type SimulationStep = z.infer<typeof simulationStepSchema>;
+
+export const packetSimulationResultSchema = z.object({
+  verdict: z.enum(['accept', 'drop', 'reject']),
+  path: z.enum(['input', 'forward']),
+  outboundInterface: z.string().optional(),
+  matchedRules: z.array(z.object({ ruleset: z.string(), rule: z.number() })),
+  translated: z.object({
+    sourceAddress: z.string(),
+    sourcePort: z.number().optional(),
+    destinationAddress: z.string(),
+    destinationPort: z.number().optional(),
+  }),
+  steps: z.array(simulationStepSchema),
+  indeterminate: z.boolean(),
+});
+
+export type PacketSimulationResult = z.infer<typeof packetSimulationResultSchema>;
+
+// Configuration diff schemas (not stored in DB)
+export const configDiffSourceSchema = z.object({
+  configurationId: z.string().optional(),
+  // A saved revision of the configuration instead of its current content
+  revision: z.number().int().positive().optional(),
+  historyId: z.string().optional(),
+  content: z.string().optional(),
+}).refine((data) => [data.configurationId, data.historyId, data.content].filter((v) => v !== undefined).length === 1, {
+  message: "Specify exactly one of configurationId, historyId or content",
+});
+
+export type ConfigDiffSource = z.infer<typeof configDiffSourceSchema>;
+
+export const configDiffRequestSchema = z.object({
+  left: configDiffSourceSchema,
+  right: configDiffSourceSchema,
+});
+
+export type ConfigDiffRequest = z.infer<typeof configDiffRequestSchema>;
+
+export const configDiffEntrySchema = z.object({
+  kind: z.enum(['added', 'removed', 'changed']),
+  path: z.array(z.string()),
+  before: z.string().optional(),
+  after: z.string().optional(),
+  leftLine: z.number().optional(),
+  rightLine: z.number().optional(),
+});
+
+export type ConfigDiffEntry = z.infer<typeof configDiffEntrySchema>;
+
+export const configDiffResultSchema = z.object({
+  entries: z.array(configDiffEntrySchema),
+  summary: z.object({
+    added: z.number(),
+    removed: z.number(),
+    changed: z.number(),
+    unchanged: z.number(),
+  }),
+});
+
+export type ConfigDiffResult = z.infer<typeof configDiffResultSchema>;
+
 // Command Suggestion types
 export const commandSuggestionSchema = z.object({
   command: z.string(),
@@ -130,29 +557,312 @@ export const aiGenerationResponseSchema = z.object({
 export type AIGenerationResponse = z.infer<typeof aiGenerationResponseSchema>;
 
 // Router Apply schemas
+// How configuration reaches a router: SSH sessions, or the VyOS 1.4+ HTTPS API
+export const routerTransportSchema = z.enum(['ssh', 'http']);
+
+export type RouterTransport = z.infer<typeof routerTransportSchema>;
+
+// `properties` of a router topology node: how it is reached and whether
+// changes need approval. The host keys are written by the server only.
+export const routerNodePropertiesSchema = z.object({
+  ssh: z.object({
+    host: z.string().optional(),
+    port: z.coerce.number().int().min(1).max(65535).optional(),
+    username: z.string().optional(),
+    credentialId: z.string().optional(),
+    // Outermost first
+    jumpHostIds: z.array(z.string()).optional(),
+    hostKey: z.object({ fingerprint: z.string(), trustedAt: z.string() }).optional(),
+    pendingHostKey: z.object({ fingerprint: z.string(), seenAt: z.string() }).optional(),
+  }).optional(),
+  transport: routerTransportSchema.optional(),
+  api: z.object({
+    // Write-only: stored encrypted, and nodes are returned with `hasKey` instead
+    key: z.string().optional(),
+    hasKey: z.boolean().optional(),
+    url: z.string().optional(),
+    insecure: z.boolean().optional(),
+  }).optional(),
+  protected: z.boolean().optional(),
+}).passthrough();
+
+export type RouterNodeProperties = z.infer<typeof routerNodePropertiesSchema>;
+
+// The properties of a stored node. A node whose properties do not parse is
+// unreachable, but keeps its protection.
+export function routerNodeProperties(node: Pick<TopologyNode, 'properties'> | undefined): RouterNodeProperties {
+  const parsed = routerNodePropertiesSchema.safeParse(node?.properties ?? {});
+  if (parsed.success) return parsed.data;
+  return { protected: !!(node?.properties as { protected?: unknown } | null)?.protected };
+}
+
 export const routerApplyRequestSchema = z.object({
   host: z.string().min(1, "Host is required"),
   port: z.number().int().positive().optional().default(22),
-  username: z.string().min(1, "Username is required"),
+  transport: routerTransportSchema.optional().default('ssh'),
+  username: z.string().optional(),
   password: z.string().optional(),
   privateKey: z.string().optional(),
+  // Stored login to use instead of username/password/privateKey
+  credentialId: z.string().optional(),
+  // HTTP API transport; the URL defaults to https://<host>. Without a key the
+  // one stored on the router's node is used, with the node's URL.
+  apiKey: z.string().optional(),
+  apiUrl: z.string().url().optional(),
+  // Accept self-signed API certificates
+  apiInsecure: z.boolean().optional().default(false),
   configuration: z.string().min(1, "Configuration is required"),
   commit: z.boolean().optional().default(true),
   save: z.boolean().optional().default(true),
   dryRun: z.boolean().optional().default(false),
-}).refine((data) => !!data.password || !!data.privateKey, {
-  message: "Either password or privateKey must be provided",
+  // replay: send every line; delta: diff against the running configuration
+  // first; replace: like delta, but also delete everything not in the configuration
+  mode: z.enum(['replay', 'delta', 'replace']).optional().default('replay'),
+  // delta: also delete what the top-level sections the configuration sets no
+  // longer contain, instead of only within the tag instances it sets
+  pruneSections: z.boolean().optional().default(false),
+  // Topology node the router belongs to, recorded on snapshots
+  nodeId: z.string().optional(),
+  // SSH jump hosts to tunnel through, outermost first; defaults to the node's
+  jumpHostIds: z.array(z.string()).optional(),
+  // Use `commit-confirm N`, then reconnect and `confirm`; unreachable routers roll back
+  commitConfirmMinutes: z.number().int().min(1).max(60).optional(),
+  // Approved change request authorizing the apply; required for protected routers
+  changeRequestId: z.string().optional(),
+}).refine((data) => data.transport === 'http' || !!data.username || !!data.credentialId, {
+  message: "Username is required",
+  path: ["username"],
+}).refine((data) => data.transport === 'http' || !!data.password || !!data.privateKey || !!data.credentialId, {
+  message: "Either password, privateKey or credentialId must be provided",
   path: ["password"],
+}).refine((data) => data.transport !== 'http' || !!data.apiKey || !!data.nodeId, {
+  message: "An API key is required for the HTTP transport",
+  path: ["apiKey"],
 });
 
 export type RouterApplyRequest = z.infer<typeof routerApplyRequestSchema>;
 
+export const configDeltaSchema = z.object({
+  set: z.array(z.string()),
+  delete: z.array(z.string()),
+});
+
+export type ConfigDelta = z.infer<typeof configDeltaSchema>;
+
+// Change request schemas
+export const changeRequestStatusSchema = z.enum(['draft', 'submitted', 'approved', 'rejected', 'applied']);
+export type ChangeRequestStatus = z.infer<typeof changeRequestStatusSchema>;
+
+export const changeRequestInputSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  justification: z.string().min(1, "Justification is required"),
+  configuration: z.string().min(1, "Configuration is required"),
+  nodeIds: z.array(z.string()).min(1, "Select at least one router"),
+});
+
+export type ChangeRequestInput = z.infer<typeof changeRequestInputSchema>;
+
+export const changeReviewSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  comment: z.string().optional(),
+});
+
+export type ChangeReview = z.infer<typeof changeReviewSchema>;
+
+// The set/delete lines the change amounts to on one target router, against
+// the last running configuration snapshotted from it (empty when there is none yet)
+export const changeRequestDiffSchema = z.object({
+  nodeId: z.string(),
+  label: z.string(),
+  baselineSnapshotId: z.string().optional(),
+  baselineTakenAt: z.string().optional(),
+  delta: configDeltaSchema,
+});
+
+export type ChangeRequestDiff = z.infer<typeof changeRequestDiffSchema>;
+
+// A set/delete or commit failure reported by the router, mapped back to the
+// submitted configuration line when it can be located
+export const applyErrorSchema = z.object({
+  phase: z.enum(['set', 'delete', 'commit']),
+  message: z.string(),
+  command: z.string().optional(),
+  path: z.array(z.string()).optional(),
+  line: z.number().optional(),
+});
+
+export type ApplyError = z.infer<typeof applyErrorSchema>;
+
 export const routerApplyResponseSchema = z.object({
   applied: z.boolean(),
   commit: z.boolean(),
   saved: z.boolean(),
   dryRun: z.boolean(),
   logs: z.array(z.string()),
+  delta: configDeltaSchema.optional(),
+  confirmed: z.boolean().optional(),
+  rolledBack: z.boolean().optional(),
+  jobId: z.string().optional(),
+  snapshotId: z.string().optional(),
+  errors: z.array(applyErrorSchema).optional(),
+});
+
+// Apply job progress, streamed to the client over SSE
+export const applyPhaseSchema = z.enum(['connect', 'read', 'begin', 'set', 'commit', 'confirm', 'save']);
+
+export type ApplyPhase = z.infer<typeof applyPhaseSchema>;
+
+export const applyJobEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('log'), line: z.string() }),
+  z.object({ type: z.literal('phase'), phase: applyPhaseSchema }),
+  z.object({ type: z.literal('result'), result: routerApplyResponseSchema }),
+  z.object({ type: z.literal('error'), error: z.string() }),
+]);
+
+export type ApplyJobEvent = z.infer<typeof applyJobEventSchema>;
+
+// Deployment schemas
+export const deploymentRequestSchema = z.object({
+  configuration: z.string().min(1, "Configuration is required"),
+  nodeIds: z.array(z.string()).min(1, "Select at least one router"),
+  // Shared SSH credentials; the username defaults to each node's SSH
+  // username. Without them each router uses its node's stored credential.
+  // Routers using the HTTP transport use their node's API key.
+  username: z.string().optional(),
+  password: z.string().optional(),
+  privateKey: z.string().optional(),
+  credentialId: z.string().optional(),
+  waveSize: z.number().int().min(1).optional().default(1),
+  concurrency: z.number().int().min(1).max(20).optional().default(1),
+  haltOnFailure: z.boolean().optional().default(true),
+  mode: z.enum(['replay', 'delta', 'replace']).optional().default('replay'),
+  pruneSections: z.boolean().optional().default(false),
+  dryRun: z.boolean().optional().default(false),
+  commitConfirmMinutes: z.number().int().min(1).max(60).optional(),
+  changeRequestId: z.string().optional(),
+});
+
+export type DeploymentRequest = z.infer<typeof deploymentRequestSchema>;
+
+export const deploymentStatusSchema = z.enum(['pending', 'running', 'succeeded', 'failed', 'skipped']);
+
+export const deploymentRouterReportSchema = z.object({
+  nodeId: z.string(),
+  label: z.string(),
+  host: z.string(),
+  status: deploymentStatusSchema,
+  jobId: z.string().optional(),
+  applied: z.boolean().optional(),
+  error: z.string().optional(),
+  errors: z.array(applyErrorSchema).optional(),
+  logs: z.array(z.string()),
 });
 
+export type DeploymentRouterReport = z.infer<typeof deploymentRouterReportSchema>;
+
+export const deploymentReportSchema = z.object({
+  waves: z.array(z.object({
+    index: z.number(),
+    status: deploymentStatusSchema,
+    routers: z.array(deploymentRouterReportSchema),
+  })),
+  summary: z.object({
+    succeeded: z.number(),
+    failed: z.number(),
+    skipped: z.number(),
+    pending: z.number(),
+  }),
+});
+
+export type DeploymentReport = z.infer<typeof deploymentReportSchema>;
+
+export const snapshotRestoreRequestSchema = z.object({
+  host: z.string().optional(),
+  port: z.number().int().positive().optional().default(22),
+  // Defaults to the transport and API settings of the snapshot's node
+  transport: routerTransportSchema.optional(),
+  username: z.string().optional(),
+  password: z.string().optional(),
+  privateKey: z.string().optional(),
+  credentialId: z.string().optional(),
+  apiKey: z.string().optional(),
+  apiUrl: z.string().url().optional(),
+  apiInsecure: z.boolean().optional(),
+  dryRun: z.boolean().optional().default(false),
+  commitConfirmMinutes: z.number().int().min(1).max(60).optional(),
+  changeRequestId: z.string().optional(),
+});
+
+export type SnapshotRestoreRequest = z.infer<typeof snapshotRestoreRequestSchema>;
+
+// A workspace as one JSON document, to move it between installs. Ids only link
+// records within the archive and are replaced on import. Credentials, jump
+// hosts and router API keys are left out.
+export const WORKSPACE_ARCHIVE_VERSION = 1;
+
+// When a revision or intent was made; archives without it import as made now
+const archivedAt = z.coerce.date().optional();
+
+export const workspaceArchiveSchema = z.object({
+  format: z.literal('vyos-workspace'),
+  version: z.literal(WORKSPACE_ARCHIVE_VERSION, {
+    errorMap: () => ({ message: `Only version ${WORKSPACE_ARCHIVE_VERSION} workspace archives can be imported` }),
+  }),
+  exportedAt: z.string(),
+  workspace: insertWorkspaceSchema,
+  configurations: z.array(insertConfigurationSchema.extend({
+    id: z.string(),
+    revisions: z.array(insertConfigurationRevisionSchema.omit({ configurationId: true }).extend({ createdAt: archivedAt }))
+      .refine((revisions) => new Set(revisions.map((r) => r.revision)).size === revisions.length, 'Revision numbers must be unique'),
+  })),
+  templates: z.array(insertTemplateSchema),
+  topology: z.object({
+    nodes: z.array(insertTopologyNodeSchema.extend({ id: z.string(), properties: routerNodePropertiesSchema.nullable().optional() })),
+    connections: z.array(insertTopologyConnectionSchema),
+  }),
+  intentHistory: z.array(insertIntentHistorySchema.extend({ createdAt: archivedAt })),
+}).superRefine((archive, ctx) => {
+  // Every reference must resolve within the archive, so an import never
+  // stops halfway on one
+  const unique = (ids: string[], path: (string | number)[], what: string) => {
+    const seen = new Set<string>();
+    ids.forEach((id, i) => {
+      if (seen.has(id)) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, i, 'id'], message: `Duplicate ${what} id ${id}` });
+      seen.add(id);
+    });
+    return seen;
+  };
+  const configurationIds = unique(archive.configurations.map((c) => c.id), ['configurations'], 'configuration');
+  const nodeIds = unique(archive.topology.nodes.map((n) => n.id), ['topology', 'nodes'], 'node');
+  archive.topology.nodes.forEach((node, i) => {
+    if (node.configId && !configurationIds.has(node.configId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['topology', 'nodes', i, 'configId'], message: `Node ${node.label} uses configuration ${node.configId}, which is not in the archive` });
+    }
+  });
+  archive.topology.connections.forEach((connection, i) => {
+    for (const end of ['sourceId', 'targetId'] as const) {
+      if (!nodeIds.has(connection[end])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['topology', 'connections', i, end], message: `Connection endpoint ${connection[end]} is not in the archive` });
+      }
+    }
+  });
+});
+
+export type WorkspaceArchive = z.infer<typeof workspaceArchiveSchema>;
+
+// What an import added, and what it skipped because the workspace already
+// had it (by configuration or template name, node label, node pair, or intent
+// with its generated configuration and time)
+export interface WorkspaceImportReport {
+  imported: {
+    configurations: number;
+    revisions: number;
+    templates: number;
+    nodes: number;
+    connections: number;
+    intentHistory: number;
+  };
+  conflicts: { kind: 'configuration' | 'template' | 'node' | 'connection' | 'intent'; name: string; reason: string }[];
+}
+
 export type RouterApplyResponse = z.infer<typeof routerApplyResponseSchema>;